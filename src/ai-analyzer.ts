@@ -1,5 +1,7 @@
 import { config } from './config.js';
-import type { MarketState, OrderBook, Position, TradeRecord } from './types.js';
+import { DEFAULT_AI_PROFILE, scorePriceRules, type AIProfile } from './ai-profile.js';
+import { checkDecisionGates, type GateBlock } from './trade-gates.js';
+import type { MarketState, OrderBook, Position, TradeFlow, TradeRecord } from './types.js';
 
 /**
  * AI 分析結果
@@ -10,11 +12,13 @@ export interface AIAnalysis {
   confidence: number; // 0-100
   recommendedSize: number; // 根據信心調整的倉位大小
   reasons: string[];
+  blockedBy?: GateBlock | null; // shouldTrade 為 false 時未通過的門檻（見 trade-gates.ts）
   signals: {
     technical: TechnicalSignal;
     orderBook: OrderBookSignal;
     sentiment: SentimentSignal;
     timing: TimingSignal;
+    flow: FlowSignal;
   };
 }
 
@@ -47,6 +51,15 @@ interface TimingSignal {
   score: number; // -100 to 100
 }
 
+interface FlowSignal {
+  trades: number; // 窗口內成交筆數（0 = 無成交，不計入綜合評分）
+  volume: number; // 窗口成交量（股）
+  vwap: number | null; // cents
+  imbalance: number; // -1 to 1 (positive = 主動買入多)
+  vwapDeviation: number; // VWAP - 現價 (cents)，正數 = 現價低於成交均價
+  score: number; // -100 to 100
+}
+
 /**
  * AI 市場分析器
  * 
@@ -54,12 +67,24 @@ interface TimingSignal {
  * 1. 是否應該交易
  * 2. 買入哪個方向 (Up/Down)
  * 3. 買入多少（根據信心調整倉位）
+ *
+ * 權重與門檻來自 AI 評分設定檔（見 ai-profile.ts）
  */
 export class AIAnalyzer {
   private priceHistory: Map<string, number[]> = new Map();
   private readonly HISTORY_LENGTH = 120; // 保留更多歷史數據
   private tradeHistory: TradeRecord[] = [];
 
+  constructor(private profile: AIProfile = DEFAULT_AI_PROFILE) {}
+
+  setProfile(profile: AIProfile): void {
+    this.profile = profile;
+  }
+
+  getProfile(): AIProfile {
+    return this.profile;
+  }
+
   /**
    * 更新交易歷史（用於計算勝率）
    */
@@ -67,6 +92,10 @@ export class AIAnalyzer {
     this.tradeHistory = history;
   }
 
+  getTradeHistory(): TradeRecord[] {
+    return this.tradeHistory;
+  }
+
   /**
    * 記錄價格歷史
    */
@@ -102,7 +131,8 @@ export class AIAnalyzer {
     downOrderBook: OrderBook,
     positions: Map<string, Position>,
     livePrices?: Record<string, number>, // tokenId -> price in cents
-    btcSpot?: number // BTC spot price (USDT)
+    btcSpot?: number, // BTC spot price (USDT)
+    tradeFlows?: Record<string, TradeFlow> // tokenId -> 成交流（市場 WS 成交記錄）
   ): AIAnalysis {
     console.log('[AI][Input] upPrice=%d, downPrice=%d, timeToStart=%ds, timeToEnd=%ds',
       state.upPrice, state.downPrice, Math.round(state.timeToStart / 1000), Math.round(state.timeToEnd / 1000));
@@ -131,11 +161,13 @@ export class AIAnalyzer {
         confidence: 0,
         recommendedSize: 0,
         reasons,
+        blockedBy: { gate: 'combined-cap', detail: reasons[0] },
         signals: {
           technical: { momentum: 0, volatility: 0, rsi: 50, trend: 'neutral', score: 0 },
           orderBook: { bidAskSpread: 0, depthImbalance: 0, liquidityScore: 0, score: 0 },
           sentiment: { priceDeviation: 0, recentWinRate: 50, marketBias: 'neutral', score: 0 },
           timing: { timeToStart: Math.round(state.timeToStart / 1000), optimalWindow: false, urgency: 0, score: 0 },
+          flow: { trades: 0, volume: 0, vwap: null, imbalance: 0, vwapDeviation: 0, score: 0 },
         },
       };
     }
@@ -160,19 +192,20 @@ export class AIAnalyzer {
     const sentimentDown = this.analyzeSentiment(downPriceRt, 'Down', btcMomentum);
 
     // 3b. 最近盤結果偏好
+    const s = this.profile.sentiment;
     const prev = state.previousOutcomes || [];
     if (prev.length > 0) {
-      const window = prev.slice(-5);
+      const window = prev.slice(-s.outcomeWindow);
       const upWins = window.filter(o => o === 'Up').length;
       const downWins = window.filter(o => o === 'Down').length;
       const bias = (upWins - downWins) / window.length; // -1..1
       if (bias > 0) {
-        sentimentUp.score += 8 * bias;
-        sentimentDown.score -= 5 * bias;
+        sentimentUp.score += s.outcomeBiasBonus * bias;
+        sentimentDown.score -= s.outcomeBiasPenalty * bias;
         reasons.push(`近期盤勢偏向 Up (${upWins}/${window.length}), 加分 Up`);
       } else if (bias < 0) {
-        sentimentDown.score += -8 * bias;
-        sentimentUp.score -= -5 * bias;
+        sentimentDown.score += -s.outcomeBiasBonus * bias;
+        sentimentUp.score -= -s.outcomeBiasPenalty * bias;
         reasons.push(`近期盤勢偏向 Down (${downWins}/${window.length}), 加分 Down`);
       } else {
         reasons.push('近期盤勢無明顯偏向');
@@ -182,15 +215,15 @@ export class AIAnalyzer {
     // 3c. 當前盤前價差領先方偏好
     const priceGap = Math.abs(upPriceRt - downPriceRt);
     const leader: 'Up' | 'Down' | null = upPriceRt > downPriceRt ? 'Up' : downPriceRt > upPriceRt ? 'Down' : null;
-    if (leader && priceGap >= 5 && priceGap <= 12) {
-      const gapBias = Math.min(priceGap, 12) / 12; // 0..1
+    if (leader && priceGap >= s.leaderGapMin && priceGap <= s.leaderGapMax) {
+      const gapBias = Math.min(priceGap, s.leaderGapMax) / s.leaderGapMax; // 0..1
       if (leader === 'Up') {
-        sentimentUp.score += 10 * gapBias;
-        sentimentDown.score -= 6 * gapBias;
+        sentimentUp.score += s.leaderBonus * gapBias;
+        sentimentDown.score -= s.leaderPenalty * gapBias;
         reasons.push(`盤前領先: Up 高於 Down ${priceGap.toFixed(1)}¢，偏向 Up`);
       } else {
-        sentimentDown.score += 10 * gapBias;
-        sentimentUp.score -= 6 * gapBias;
+        sentimentDown.score += s.leaderBonus * gapBias;
+        sentimentUp.score -= s.leaderPenalty * gapBias;
         reasons.push(`盤前領先: Down 高於 Up ${priceGap.toFixed(1)}¢，偏向 Down`);
       }
     }
@@ -198,12 +231,16 @@ export class AIAnalyzer {
     // 4. 時機分析
     const timing = this.analyzeTiming(state);
 
+    // 4b. 成交流分析
+    const flowUp = this.analyzeFlow(tradeFlows?.[state.upTokenId], upPriceRt);
+    const flowDown = this.analyzeFlow(tradeFlows?.[state.downTokenId], downPriceRt);
+
     // 5. 綜合評分
-    const upScore = this.calculateCompositeScore(technicalUp, orderBookUp, sentimentUp, timing);
-    const downScore = this.calculateCompositeScore(technicalDown, orderBookDown, sentimentDown, timing);
+    const upScore = this.calculateCompositeScore(technicalUp, orderBookUp, sentimentUp, timing, flowUp);
+    const downScore = this.calculateCompositeScore(technicalDown, orderBookDown, sentimentDown, timing, flowDown);
 
     // 6. 決策邏輯
-    const { shouldTrade, recommendedOutcome, confidence, recommendedSize } = this.makeDecision(
+    const { shouldTrade, recommendedOutcome, confidence, recommendedSize, blockedBy } = this.makeDecision(
       state,
       upScore,
       downScore,
@@ -218,18 +255,24 @@ export class AIAnalyzer {
 
     // 選擇推薦方向的信號
     const isUp = recommendedOutcome === 'Up';
-    
+    const bestFlow = isUp ? flowUp : flowDown;
+    if (bestFlow.trades > 0) {
+      reasons.push(`成交流: volume=${bestFlow.volume.toFixed(0)}, VWAP=${bestFlow.vwap?.toFixed(2)}¢, imbalance=${(bestFlow.imbalance * 100).toFixed(0)}%`);
+    }
+
     return {
       shouldTrade,
       recommendedOutcome,
       confidence,
       recommendedSize,
       reasons,
+      blockedBy,
       signals: {
         technical: isUp ? technicalUp : technicalDown,
         orderBook: isUp ? orderBookUp : orderBookDown,
         sentiment: isUp ? sentimentUp : sentimentDown,
         timing,
+        flow: bestFlow,
       },
     };
   }
@@ -239,48 +282,49 @@ export class AIAnalyzer {
    */
   private analyzeTechnical(tokenId: string, currentPrice: number): TechnicalSignal {
     const history = this.priceHistory.get(tokenId) || [];
+    const t = this.profile.technical;
     
     // 動量計算 (短期 vs 長期均價)
     let momentum = 0;
-    if (history.length >= 10) {
-      const shortMA = this.calculateMA(history, 5);
-      const longMA = this.calculateMA(history, 20);
-      momentum = ((shortMA - longMA) / longMA) * 100 * 10; // 放大差異
+    if (history.length >= t.minHistory) {
+      const shortMA = this.calculateMA(history, t.shortMaPeriod);
+      const longMA = this.calculateMA(history, t.longMaPeriod);
+      momentum = ((shortMA - longMA) / longMA) * 100 * t.momentumScale; // 放大差異
       momentum = Math.max(-100, Math.min(100, momentum));
     }
 
     // 波動率計算
     let volatility = 0;
-    if (history.length >= 10) {
-      const stdDev = this.calculateStdDev(history.slice(-10));
-      volatility = Math.min(100, stdDev * 10); // 標準化
+    if (history.length >= t.minHistory) {
+      const stdDev = this.calculateStdDev(history.slice(-t.volatilityWindow));
+      volatility = Math.min(100, stdDev * t.volatilityScale); // 標準化
     }
 
     // RSI 計算
-    const rsi = this.calculateRSI(history);
+    const rsi = this.calculateRSI(history, t.rsiPeriod);
 
     // 趨勢判斷
     let trend: 'bullish' | 'bearish' | 'neutral' = 'neutral';
-    if (momentum > 20 && rsi > 50) trend = 'bullish';
-    else if (momentum < -20 && rsi < 50) trend = 'bearish';
+    if (momentum > t.trendMomentum && rsi > 50) trend = 'bullish';
+    else if (momentum < -t.trendMomentum && rsi < 50) trend = 'bearish';
 
     // 綜合技術分數
     // 正動量 + RSI 超賣 = 買入信號
     // 低波動率 = 更可預測
     let score = 0;
     
-    // RSI 信號: 超賣(<30)買入機會, 超買(>70)風險
-    if (rsi < 30) score += 30;
-    else if (rsi < 40) score += 15;
-    else if (rsi > 70) score -= 30;
-    else if (rsi > 60) score -= 15;
+    // RSI 信號: 超賣買入機會, 超買風險
+    if (rsi < t.rsiOversold) score += t.rsiOversoldScore;
+    else if (rsi < t.rsiWeakOversold) score += t.rsiWeakOversoldScore;
+    else if (rsi > t.rsiOverbought) score -= t.rsiOverboughtPenalty;
+    else if (rsi > t.rsiWeakOverbought) score -= t.rsiWeakOverboughtPenalty;
 
     // 動量信號
-    score += momentum * 0.3;
+    score += momentum * t.momentumWeight;
 
     // 波動率懲罰（高波動 = 高風險）
-    if (volatility > 50) score -= 20;
-    else if (volatility > 30) score -= 10;
+    if (volatility > t.volatilityHigh) score -= t.volatilityHighPenalty;
+    else if (volatility > t.volatilityMid) score -= t.volatilityMidPenalty;
 
     return {
       momentum,
@@ -296,6 +340,7 @@ export class AIAnalyzer {
    */
   private analyzeOrderBook(orderBook: OrderBook, currentPrice: number): OrderBookSignal {
     const { bids, asks } = orderBook;
+    const o = this.profile.orderBook;
 
     // Bid-Ask Spread
     const bestBid = bids.length > 0 ? bids[0].price * 100 : currentPrice - 1;
@@ -309,24 +354,24 @@ export class AIAnalyzer {
     const depthImbalance = totalSize > 0 ? (totalBidSize - totalAskSize) / totalSize : 0;
 
     // 流動性評分
-    const liquidityScore = Math.min(100, totalSize / config.MIN_ORDERBOOK_DEPTH * 50);
+    const liquidityScore = Math.min(100, totalSize / config.MIN_ORDERBOOK_DEPTH * o.liquidityDepthScale);
 
     // 綜合訂單簿分數
     let score = 0;
 
     // 深度不平衡信號
-    score += depthImbalance * 50; // 買盤強 = 正分
+    score += depthImbalance * o.imbalanceWeight; // 買盤強 = 正分
 
     // 流動性獎勵
-    if (liquidityScore > 80) score += 15;
-    else if (liquidityScore > 50) score += 8;
-    else if (liquidityScore < 30) score -= 15; // 放寬流動性懲罰
+    if (liquidityScore > o.liquidityHigh) score += o.liquidityHighBonus;
+    else if (liquidityScore > o.liquidityMid) score += o.liquidityMidBonus;
+    else if (liquidityScore < o.liquidityLow) score -= o.liquidityLowPenalty;
 
     // 點差懲罰
     const clampedSpread = Math.min(bidAskSpread, 50); // 夾住極端點差
-    if (clampedSpread > 10) score -= 12;
-    else if (clampedSpread > 5) score -= 8;
-    else if (clampedSpread < 2) score += 8;
+    if (clampedSpread > o.spreadWide) score -= o.spreadWidePenalty;
+    else if (clampedSpread > o.spreadMid) score -= o.spreadMidPenalty;
+    else if (clampedSpread < o.spreadTight) score += o.spreadTightBonus;
 
     return {
       bidAskSpread,
@@ -340,39 +385,37 @@ export class AIAnalyzer {
    * 情緒分析
    */
   private analyzeSentiment(price: number, outcome: 'Up' | 'Down', btcMomentum?: number): SentimentSignal {
+    const s = this.profile.sentiment;
+
     // 價格偏離 50¢ 的程度
     const priceDeviation = price - 50;
 
     // 計算最近交易勝率
-    const recentTrades = this.tradeHistory.slice(-20);
+    const recentTrades = this.tradeHistory.slice(-s.winRateWindow);
     const wins = recentTrades.filter(t => (t.pnl || 0) > 0).length;
     const recentWinRate = recentTrades.length > 0 ? (wins / recentTrades.length) * 100 : 50;
 
     // 市場偏向
     let marketBias: 'Up' | 'Down' | 'neutral' = 'neutral';
-    if (priceDeviation > 10) marketBias = outcome === 'Up' ? 'Up' : 'Down';
-    else if (priceDeviation < -10) marketBias = outcome === 'Up' ? 'Down' : 'Up';
+    if (priceDeviation > s.biasDeviation) marketBias = outcome === 'Up' ? 'Up' : 'Down';
+    else if (priceDeviation < -s.biasDeviation) marketBias = outcome === 'Up' ? 'Down' : 'Up';
 
     // 綜合情緒分數
     let score = 0;
 
-    // 價格偏離信號 - 價格低於 50¢ = 買入機會
-    if (price < 40) score += 40;
-    else if (price < 45) score += 25;
-    else if (price < 50) score += 10;
-    else if (price > 55) score -= 20; // 價格過高風險
-    else if (price > 60) score -= 40;
+    // 價格偏離信號 - 價格低於 50¢ = 買入機會，過高 = 風險
+    score += scorePriceRules(s.priceRules, price);
 
     // 勝率調整
-    if (recentWinRate > 60) score += 15;
-    else if (recentWinRate < 40) score -= 15;
+    if (recentWinRate > s.winRateHigh) score += s.winRateScore;
+    else if (recentWinRate < s.winRateLow) score -= s.winRateScore;
 
     // BTC 動能偏好 (正動能偏向 Up, 負動能偏向 Down)
     if (btcMomentum != null) {
-      if (btcMomentum > 0.2) {
-        score += outcome === 'Up' ? 12 : -8;
-      } else if (btcMomentum < -0.2) {
-        score += outcome === 'Down' ? 12 : -8;
+      if (btcMomentum > s.btcMomentumThreshold) {
+        score += outcome === 'Up' ? s.btcMomentumBonus : -s.btcMomentumPenalty;
+      } else if (btcMomentum < -s.btcMomentumThreshold) {
+        score += outcome === 'Down' ? s.btcMomentumBonus : -s.btcMomentumPenalty;
       }
     }
 
@@ -389,9 +432,10 @@ export class AIAnalyzer {
    */
   private analyzeTiming(state: MarketState): TimingSignal {
     const timeToStart = state.timeToStart;
+    const t = this.profile.timing;
     
-    // 最佳交易窗口: 開盤前 30秒 到 5分鐘
-    const optimalWindow = timeToStart > config.MIN_TIME_TO_TRADE_MS && timeToStart < 5 * 60 * 1000;
+    // 最佳交易窗口: MIN_TIME_TO_TRADE_MS 到 optimalWindowMaxMs
+    const optimalWindow = timeToStart > config.MIN_TIME_TO_TRADE_MS && timeToStart < t.optimalWindowMaxMs;
 
     // 緊迫度
     let urgency = 0;
@@ -404,13 +448,13 @@ export class AIAnalyzer {
     let score = 0;
     
     if (optimalWindow) {
-      score += 30;
+      score += t.optimalScore;
       // 越接近開盤，分數越高（但不能太近）
-      if (timeToStart < 2 * 60000 && timeToStart > 30000) score += 20;
+      if (timeToStart < t.nearStartMaxMs && timeToStart > t.nearStartMinMs) score += t.nearStartBonus;
     } else if (timeToStart <= config.MIN_TIME_TO_TRADE_MS) {
-      score -= 100; // 太近了，不能交易
-    } else if (timeToStart > 10 * 60 * 1000) {
-      score -= 30; // 太遠了，價格可能變化
+      score -= t.tooLatePenalty; // 太近了，不能交易
+    } else if (timeToStart > t.tooFarMs) {
+      score -= t.tooFarPenalty; // 太遠了，價格可能變化
     }
 
     return {
@@ -421,6 +465,36 @@ export class AIAnalyzer {
     };
   }
 
+  /**
+   * 成交流分析：主動買賣不平衡（成交量越大越可信）+ 現價相對 VWAP 的偏離
+   */
+  private analyzeFlow(flow: TradeFlow | undefined, currentPrice: number): FlowSignal {
+    if (!flow || flow.trades === 0 || flow.volume <= 0) {
+      return { trades: 0, volume: 0, vwap: null, imbalance: 0, vwapDeviation: 0, score: 0 };
+    }
+
+    const f = this.profile.flow;
+    const volumeWeight = Math.min(1, flow.volume / config.TRADE_FLOW_FULL_VOLUME);
+    const vwapDeviation = flow.vwap != null ? flow.vwap - currentPrice : 0;
+
+    let score = 0;
+
+    // 主動買入多 = 正分
+    score += flow.imbalance * f.imbalanceWeight * volumeWeight;
+
+    // 現價低於成交均價 = 買入便宜
+    score += Math.max(-f.vwapCap, Math.min(f.vwapCap, vwapDeviation * f.vwapWeight));
+
+    return {
+      trades: flow.trades,
+      volume: flow.volume,
+      vwap: flow.vwap,
+      imbalance: flow.imbalance,
+      vwapDeviation,
+      score: Math.max(-100, Math.min(100, score)),
+    };
+  }
+
   /**
    * 計算綜合評分
    */
@@ -428,22 +502,23 @@ export class AIAnalyzer {
     technical: TechnicalSignal,
     orderBook: OrderBookSignal,
     sentiment: SentimentSignal,
-    timing: TimingSignal
+    timing: TimingSignal,
+    flow: FlowSignal
   ): number {
-    // 加權平均
-    const weights = {
-      technical: 0.25,
-      orderBook: 0.30, // 訂單簿最重要
-      sentiment: 0.25,
-      timing: 0.20,
-    };
-
-    return (
-      technical.score * weights.technical +
-      orderBook.score * weights.orderBook +
-      sentiment.score * weights.sentiment +
-      timing.score * weights.timing
-    );
+    // 加權平均（四項權重按總和正規化）
+    const weights = this.profile.weights;
+    const total = weights.technical + weights.orderBook + weights.sentiment + weights.timing;
+
+    const base =
+      (technical.score * weights.technical +
+        orderBook.score * weights.orderBook +
+        sentiment.score * weights.sentiment +
+        timing.score * weights.timing) /
+      total;
+
+    // 有成交時成交流佔 weights.flow，無成交則維持原有四項權重
+    const flowWeight = flow.trades > 0 ? weights.flow : 0;
+    return base * (1 - flowWeight) + flow.score * flowWeight;
   }
 
   /**
@@ -465,6 +540,7 @@ export class AIAnalyzer {
     recommendedOutcome: 'Up' | 'Down' | null;
     confidence: number;
     recommendedSize: number;
+    blockedBy: GateBlock | null;
   } {
     // 選擇較好的方向
     const bestOutcome: 'Up' | 'Down' = upScore > downScore ? 'Up' : 'Down';
@@ -474,24 +550,23 @@ export class AIAnalyzer {
     const bestTechnical = bestOutcome === 'Up' ? technicalUp : technicalDown;
 
     // 計算信心度 (0-100)
-    // 基於分數、價格優勢、流動性（更積極）
-    let confidence = 60; // 提高基礎信心
+    // 基於分數、價格優勢、流動性
+    const d = this.profile.decision;
+    let confidence = d.baseConfidence;
     
-    // 分數貢獻（加大權重）
-    confidence += bestScore * 0.6;
+    // 分數貢獻
+    confidence += bestScore * d.scoreWeight;
     
     // 價格優勢 (越低越好)
-    if (bestPrice < 40) confidence += 20;
-    else if (bestPrice < 45) confidence += 12;
-    else if (bestPrice > 48) confidence -= 6;
+    confidence += scorePriceRules(d.priceRules, bestPrice);
 
     // 流動性貢獻
-    if (bestOrderBook.liquidityScore > 80) confidence += 10;
-    else if (bestOrderBook.liquidityScore < 50) confidence -= 5;
+    if (bestOrderBook.liquidityScore > d.liquidityHigh) confidence += d.liquidityHighBonus;
+    else if (bestOrderBook.liquidityScore < d.liquidityLow) confidence -= d.liquidityLowPenalty;
 
     // 技術面貢獻
-    if (bestTechnical.trend === 'bullish') confidence += 8;
-    else if (bestTechnical.trend === 'bearish') confidence -= 8;
+    if (bestTechnical.trend === 'bullish') confidence += d.trendBonus;
+    else if (bestTechnical.trend === 'bearish') confidence -= d.trendBonus;
 
     confidence = Math.max(0, Math.min(100, confidence));
 
@@ -508,11 +583,16 @@ export class AIAnalyzer {
     reasons.push(`訂單簿: spread=${bestOrderBook.bidAskSpread.toFixed(2)}¢, imbalance=${(bestOrderBook.depthImbalance * 100).toFixed(0)}%, liquidity=${bestOrderBook.liquidityScore.toFixed(0)}`);
     reasons.push(`建議倉位: ${recommendedSize} 股 (${(sizeMultiplier * 100).toFixed(0)}% of max)`);
 
+    // 門檻：AI_MIN_SCORE / AI_MIN_CONFIDENCE / PRICE_SKEW_LIMIT_CENTS
+    const blockedBy = checkDecisionGates({ score: bestScore, confidence, upPrice: state.upPrice, downPrice: state.downPrice });
+    if (blockedBy) reasons.unshift(`未通過門檻: ${blockedBy.detail}`);
+
     return {
-      shouldTrade: true,
+      shouldTrade: blockedBy === null,
       recommendedOutcome: bestOutcome,
       confidence,
       recommendedSize,
+      blockedBy,
     };
   }
 
@@ -589,7 +669,8 @@ export class AIAnalyzer {
 
     return `[AI] 建議買入 ${recommendedOutcome} x${recommendedSize} (信心: ${confidence.toFixed(0)}%) | ` +
       `技術=${signals.technical.score.toFixed(0)}, 訂單簿=${signals.orderBook.score.toFixed(0)}, ` +
-      `情緒=${signals.sentiment.score.toFixed(0)}, 時機=${signals.timing.score.toFixed(0)}`;
+      `情緒=${signals.sentiment.score.toFixed(0)}, 時機=${signals.timing.score.toFixed(0)}, ` +
+      `成交流=${signals.flow.score.toFixed(0)}`;
   }
 }
 
@@ -0,0 +1,402 @@
+/**
+ * AI 評分設定檔 - AIAnalyzer 的所有權重與門檻
+ *
+ * - 設定檔是 AI_PROFILES_DIR 下的 <id>.json，可只寫要覆蓋的欄位，其餘取 DEFAULT_AI_PROFILE
+ * - 載入與儲存都經過 validateAIProfile，無效的設定檔不會被套用
+ * - 每次儲存 version + 1，舊版本保留在 <dir>/history/<id>.v<version>.json
+ * - 系列使用 SERIES_LIMITS 的 aiProfile，未指定時用 AI_PROFILE；執行中可在設定面板切換與編輯
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+
+/**
+ * 價格規則：依序比對，第一條符合的規則生效
+ */
+export interface PriceRule {
+  op: 'below' | 'above';
+  price: number; // cents
+  score: number;
+}
+
+export interface AIProfile {
+  id: string;
+  version: number;
+  description?: string;
+  updatedAt?: string; // ISO
+
+  // 綜合評分權重；flow 為有成交時成交流佔綜合評分的比例，其餘四項按比例分配剩餘部分
+  weights: {
+    technical: number;
+    orderBook: number;
+    sentiment: number;
+    timing: number;
+    flow: number;
+  };
+
+  technical: {
+    shortMaPeriod: number;
+    longMaPeriod: number;
+    minHistory: number; // 少於此樣本數時不計算動量 / 波動率
+    momentumScale: number; // 均線差百分比的放大倍數
+    volatilityWindow: number;
+    volatilityScale: number;
+    rsiPeriod: number;
+    rsiOversold: number;
+    rsiOversoldScore: number;
+    rsiWeakOversold: number;
+    rsiWeakOversoldScore: number;
+    rsiOverbought: number;
+    rsiOverboughtPenalty: number;
+    rsiWeakOverbought: number;
+    rsiWeakOverboughtPenalty: number;
+    momentumWeight: number;
+    trendMomentum: number; // 動量超過此值（且 RSI 同向）判定為趨勢
+    volatilityHigh: number;
+    volatilityHighPenalty: number;
+    volatilityMid: number;
+    volatilityMidPenalty: number;
+  };
+
+  orderBook: {
+    imbalanceWeight: number;
+    liquidityDepthScale: number; // 深度達 MIN_ORDERBOOK_DEPTH 時的流動性分數
+    liquidityHigh: number;
+    liquidityHighBonus: number;
+    liquidityMid: number;
+    liquidityMidBonus: number;
+    liquidityLow: number;
+    liquidityLowPenalty: number;
+    spreadWide: number; // cents
+    spreadWidePenalty: number;
+    spreadMid: number;
+    spreadMidPenalty: number;
+    spreadTight: number;
+    spreadTightBonus: number;
+  };
+
+  sentiment: {
+    biasDeviation: number; // 偏離 50¢ 超過此值判定市場偏向
+    priceRules: PriceRule[];
+    winRateWindow: number; // 最近幾筆交易
+    winRateHigh: number;
+    winRateLow: number;
+    winRateScore: number;
+    btcMomentumThreshold: number;
+    btcMomentumBonus: number;
+    btcMomentumPenalty: number;
+    outcomeWindow: number; // 最近幾局結果
+    outcomeBiasBonus: number;
+    outcomeBiasPenalty: number;
+    leaderGapMin: number; // cents
+    leaderGapMax: number;
+    leaderBonus: number;
+    leaderPenalty: number;
+  };
+
+  timing: {
+    optimalWindowMaxMs: number; // 開盤前此時間內（且超過 MIN_TIME_TO_TRADE_MS）為最佳窗口
+    optimalScore: number;
+    nearStartMinMs: number;
+    nearStartMaxMs: number;
+    nearStartBonus: number;
+    tooLatePenalty: number;
+    tooFarMs: number;
+    tooFarPenalty: number;
+  };
+
+  flow: {
+    imbalanceWeight: number;
+    vwapWeight: number; // 每 1¢ VWAP 偏離的分數
+    vwapCap: number;
+  };
+
+  decision: {
+    baseConfidence: number;
+    scoreWeight: number;
+    priceRules: PriceRule[];
+    liquidityHigh: number;
+    liquidityHighBonus: number;
+    liquidityLow: number;
+    liquidityLowPenalty: number;
+    trendBonus: number;
+  };
+}
+
+export const DEFAULT_AI_PROFILE: AIProfile = {
+  id: 'default',
+  version: 1,
+  description: '內建預設評分',
+  weights: { technical: 0.25, orderBook: 0.3, sentiment: 0.25, timing: 0.2, flow: 0.2 },
+  technical: {
+    shortMaPeriod: 5,
+    longMaPeriod: 20,
+    minHistory: 10,
+    momentumScale: 10,
+    volatilityWindow: 10,
+    volatilityScale: 10,
+    rsiPeriod: 14,
+    rsiOversold: 30,
+    rsiOversoldScore: 30,
+    rsiWeakOversold: 40,
+    rsiWeakOversoldScore: 15,
+    rsiOverbought: 70,
+    rsiOverboughtPenalty: 30,
+    rsiWeakOverbought: 60,
+    rsiWeakOverboughtPenalty: 15,
+    momentumWeight: 0.3,
+    trendMomentum: 20,
+    volatilityHigh: 50,
+    volatilityHighPenalty: 20,
+    volatilityMid: 30,
+    volatilityMidPenalty: 10,
+  },
+  orderBook: {
+    imbalanceWeight: 50,
+    liquidityDepthScale: 50,
+    liquidityHigh: 80,
+    liquidityHighBonus: 15,
+    liquidityMid: 50,
+    liquidityMidBonus: 8,
+    liquidityLow: 30,
+    liquidityLowPenalty: 15,
+    spreadWide: 10,
+    spreadWidePenalty: 12,
+    spreadMid: 5,
+    spreadMidPenalty: 8,
+    spreadTight: 2,
+    spreadTightBonus: 8,
+  },
+  sentiment: {
+    biasDeviation: 10,
+    priceRules: [
+      { op: 'below', price: 40, score: 40 },
+      { op: 'below', price: 45, score: 25 },
+      { op: 'below', price: 50, score: 10 },
+      { op: 'above', price: 55, score: -20 },
+      { op: 'above', price: 60, score: -40 },
+    ],
+    winRateWindow: 20,
+    winRateHigh: 60,
+    winRateLow: 40,
+    winRateScore: 15,
+    btcMomentumThreshold: 0.2,
+    btcMomentumBonus: 12,
+    btcMomentumPenalty: 8,
+    outcomeWindow: 5,
+    outcomeBiasBonus: 8,
+    outcomeBiasPenalty: 5,
+    leaderGapMin: 5,
+    leaderGapMax: 12,
+    leaderBonus: 10,
+    leaderPenalty: 6,
+  },
+  timing: {
+    optimalWindowMaxMs: 5 * 60 * 1000,
+    optimalScore: 30,
+    nearStartMinMs: 30_000,
+    nearStartMaxMs: 2 * 60 * 1000,
+    nearStartBonus: 20,
+    tooLatePenalty: 100,
+    tooFarMs: 10 * 60 * 1000,
+    tooFarPenalty: 30,
+  },
+  flow: {
+    imbalanceWeight: 60,
+    vwapWeight: 4,
+    vwapCap: 20,
+  },
+  decision: {
+    baseConfidence: 60,
+    scoreWeight: 0.6,
+    priceRules: [
+      { op: 'below', price: 40, score: 20 },
+      { op: 'below', price: 45, score: 12 },
+      { op: 'above', price: 48, score: -6 },
+    ],
+    liquidityHigh: 80,
+    liquidityHighBonus: 10,
+    liquidityLow: 50,
+    liquidityLowPenalty: 5,
+    trendBonus: 8,
+  },
+};
+
+/**
+ * 依序比對價格規則，回傳第一條符合規則的分數（無符合時為 0）
+ */
+export function scorePriceRules(rules: PriceRule[], price: number): number {
+  for (const rule of rules) {
+    if (rule.op === 'below' ? price < rule.price : price > rule.price) return rule.score;
+  }
+  return 0;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * 以預設值為底合併部分設定（陣列整個取代）
+ */
+function mergeOntoDefaults(base: any, override: any): any {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override === undefined ? base : override;
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergeOntoDefaults(base[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * 驗證（並補齊）設定檔；有錯誤時 profile 為 null
+ */
+export function validateAIProfile(raw: unknown): { profile: AIProfile | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(raw)) return { profile: null, errors: ['設定檔必須是 JSON 物件'] };
+
+  const profile = mergeOntoDefaults(DEFAULT_AI_PROFILE, raw) as AIProfile;
+
+  if (typeof profile.id !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,63}$/i.test(profile.id)) {
+    errors.push('id: 只能包含英數字、- 和 _（最多 64 字）');
+  }
+  if (!Number.isInteger(profile.version) || profile.version < 1) errors.push('version: 必須是正整數');
+
+  // 所有數值欄位必須是有限數字，未知欄位視為打錯字
+  for (const key of Object.keys(profile)) {
+    if (!(key in DEFAULT_AI_PROFILE) && key !== 'updatedAt') errors.push(`${key}: 未知欄位`);
+  }
+  const checkSection = (name: keyof AIProfile) => {
+    const section = profile[name] as Record<string, unknown>;
+    const defaults = DEFAULT_AI_PROFILE[name] as Record<string, unknown>;
+    if (!isPlainObject(section)) {
+      errors.push(`${name}: 必須是物件`);
+      return;
+    }
+    for (const key of Object.keys(section)) {
+      if (!(key in defaults)) errors.push(`${name}.${key}: 未知欄位`);
+    }
+    for (const [key, def] of Object.entries(defaults)) {
+      const value = section[key];
+      if (typeof def === 'number' && (typeof value !== 'number' || !Number.isFinite(value))) {
+        errors.push(`${name}.${key}: 必須是數字`);
+      }
+    }
+  };
+  (['weights', 'technical', 'orderBook', 'sentiment', 'timing', 'flow', 'decision'] as const).forEach(checkSection);
+
+  const checkRules = (name: string, rules: unknown) => {
+    if (!Array.isArray(rules)) {
+      errors.push(`${name}: 必須是陣列`);
+      return;
+    }
+    rules.forEach((rule, i) => {
+      if (!isPlainObject(rule) || (rule.op !== 'below' && rule.op !== 'above') || !Number.isFinite(rule.price) || !Number.isFinite(rule.score)) {
+        errors.push(`${name}[${i}]: 需要 { op: 'below' | 'above', price: number, score: number }`);
+      }
+    });
+  };
+  checkRules('sentiment.priceRules', profile.sentiment?.priceRules);
+  checkRules('decision.priceRules', profile.decision?.priceRules);
+  if (errors.length > 0) return { profile: null, errors };
+
+  const { weights, technical: t, sentiment: s, timing } = profile;
+  if (Object.values(weights).some((w) => w < 0)) errors.push('weights: 不可為負數');
+  if (weights.technical + weights.orderBook + weights.sentiment + weights.timing <= 0) errors.push('weights: 四項權重總和必須大於 0');
+  if (weights.flow > 1) errors.push('weights.flow: 必須介於 0 和 1');
+
+  for (const key of ['shortMaPeriod', 'longMaPeriod', 'minHistory', 'volatilityWindow', 'rsiPeriod'] as const) {
+    if (!Number.isInteger(t[key]) || t[key] < 1) errors.push(`technical.${key}: 必須是正整數`);
+  }
+  if (t.shortMaPeriod >= t.longMaPeriod) errors.push('technical: shortMaPeriod 必須小於 longMaPeriod');
+  const rsi = [t.rsiOversold, t.rsiWeakOversold, t.rsiWeakOverbought, t.rsiOverbought];
+  if (rsi.some((v) => v < 0 || v > 100) || rsi.some((v, i) => i > 0 && v < rsi[i - 1])) {
+    errors.push('technical: RSI 門檻需在 0-100 且 rsiOversold ≤ rsiWeakOversold ≤ rsiWeakOverbought ≤ rsiOverbought');
+  }
+  for (const key of ['winRateWindow', 'outcomeWindow'] as const) {
+    if (!Number.isInteger(s[key]) || s[key] < 1) errors.push(`sentiment.${key}: 必須是正整數`);
+  }
+  if (s.leaderGapMin > s.leaderGapMax) errors.push('sentiment: leaderGapMin 不可大於 leaderGapMax');
+  if (timing.nearStartMinMs > timing.nearStartMaxMs) errors.push('timing: nearStartMinMs 不可大於 nearStartMaxMs');
+  if (profile.decision.baseConfidence < 0 || profile.decision.baseConfidence > 100) errors.push('decision.baseConfidence: 必須介於 0 和 100');
+
+  return errors.length > 0 ? { profile: null, errors } : { profile, errors };
+}
+
+/**
+ * 設定檔存取（AI_PROFILES_DIR），內建 default 永遠可用
+ */
+export class AIProfileStore {
+  private profiles: Map<string, AIProfile> = new Map([[DEFAULT_AI_PROFILE.id, DEFAULT_AI_PROFILE]]);
+
+  constructor(private readonly dir: string = config.AI_PROFILES_DIR) {}
+
+  /**
+   * 載入目錄下所有設定檔；無效檔案記錄錯誤後略過
+   */
+  async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter((f) => f.endsWith('.json'));
+    } catch {
+      return; // 尚無設定檔目錄，只用內建預設
+    }
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf-8'));
+        const { profile, errors } = validateAIProfile({ ...raw, id: path.basename(file, '.json') });
+        if (!profile) {
+          console.warn(`[AI Profile] ${file} 無效，略過: ${errors.join('; ')}`);
+          continue;
+        }
+        this.profiles.set(profile.id, profile);
+      } catch (err) {
+        console.warn(`[AI Profile] 無法讀取 ${file}:`, (err as Error).message);
+      }
+    }
+    console.log(`[AI Profile] 已載入: ${this.list().map((p) => `${p.id}@v${p.version}`).join(', ')}`);
+  }
+
+  list(): AIProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  get(id: string): AIProfile | undefined {
+    return this.profiles.get(id);
+  }
+
+  /**
+   * 找不到指定設定檔時回退到內建預設
+   */
+  resolve(id: string | undefined): AIProfile {
+    const profile = id ? this.profiles.get(id) : undefined;
+    if (id && !profile) console.warn(`[AI Profile] 找不到 "${id}"，使用 default`);
+    return profile ?? this.profiles.get(DEFAULT_AI_PROFILE.id)!;
+  }
+
+  /**
+   * 驗證後儲存為新版本（version = 舊版本 + 1），舊版本移到 history/
+   */
+  async save(raw: unknown): Promise<{ profile: AIProfile | null; errors: string[] }> {
+    const { profile: validated, errors } = validateAIProfile(raw);
+    if (!validated) return { profile: null, errors };
+
+    const previous = this.profiles.get(validated.id);
+    const profile: AIProfile = {
+      ...validated,
+      version: (previous?.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const file = path.join(this.dir, `${profile.id}.json`);
+    await fs.mkdir(path.join(this.dir, 'history'), { recursive: true });
+    if (previous) {
+      const archived = path.join(this.dir, 'history', `${previous.id}.v${previous.version}.json`);
+      await fs.writeFile(archived, JSON.stringify(previous, null, 2) + '\n', 'utf-8');
+    }
+    await fs.writeFile(file, JSON.stringify(profile, null, 2) + '\n', 'utf-8');
+    this.profiles.set(profile.id, profile);
+    console.log(`[AI Profile] 已儲存 ${profile.id}@v${profile.version}`);
+    return { profile, errors: [] };
+  }
+}
+
+export const aiProfiles = new AIProfileStore();
@@ -0,0 +1,229 @@
+/**
+ * 完整組合套利 - Up 賣一 + Down 賣一（含手續費）低於 100¢ 時同時買入兩邊，
+ * 每組 Up+Down 在結算時必定兌付 100¢，差額即鎖定利潤
+ *
+ * - 逐檔累加兩邊 asks，直到邊際成本 + 手續費不再低於 100¢ - ARB_MIN_EDGE_CENTS
+ * - 腿風險保護: 先買深度較淺的一邊，另一邊只買實際成交量；第二腿不足時把多出的第一腿賣回，
+ *   賣不掉的部分轉為一般持倉交由出場邏輯處理
+ * - 配對完成後依 ARB_EXIT 合併回 USDC（merge）或持有到結算（hold）
+ */
+import { config } from './config.js';
+import { CtfRedeemer, type Redeemer } from './settlement.js';
+import type { Trader } from './trader.js';
+import type { Market, MarketState, OrderBook, TradeRecord } from './types.js';
+
+const MIN_ORDER_SIZE = 5; // 交易所最小下單量
+
+export interface ArbOpportunity {
+  size: number; // 可套利組數
+  upLimit: number; // 吃到的最差價位 (cents)，作為 FAK 限價
+  downLimit: number;
+  upAvgPrice: number; // cents
+  downAvgPrice: number;
+  upDepth: number; // 限價內可成交量
+  downDepth: number;
+  feeCents: number;
+  edgeCents: number; // 扣除手續費後的總利潤
+}
+
+export interface ArbExecution {
+  slug?: string;
+  sets: number; // 成功配對的組數
+  upAvgPrice: number;
+  downAvgPrice: number;
+  lockedEdgeCents: number; // 扣費後鎖定的總利潤
+  exit: 'merge' | 'hold';
+  unpairedSize: number; // 未能賣回、轉為一般持倉的單腿數量
+  records: TradeRecord[]; // MERGE 記錄（持有到結算時為空）
+}
+
+/**
+ * 在兩邊訂單簿中尋找完整組合套利機會（訂單簿價格為小數，回傳為 cents）
+ */
+export function findCompleteSetArb(
+  upBook: OrderBook | undefined,
+  downBook: OrderBook | undefined,
+  maxSets: number = config.ARB_MAX_SETS,
+  minEdgeCents: number = config.ARB_MIN_EDGE_CENTS
+): ArbOpportunity | null {
+  const ladder = (book?: OrderBook) =>
+    [...(book?.asks || [])].map((a) => ({ price: a.price * 100, size: a.size })).sort((a, b) => a.price - b.price);
+  const ups = ladder(upBook);
+  const downs = ladder(downBook);
+
+  let i = 0;
+  let j = 0;
+  let upLeft = ups[0]?.size ?? 0;
+  let downLeft = downs[0]?.size ?? 0;
+  let size = 0;
+  let upCost = 0;
+  let downCost = 0;
+  let upLimit = 0; // 實際吃到的最差價位
+  let downLimit = 0;
+
+  while (i < ups.length && j < downs.length && size < maxSets) {
+    const setCost = ups[i].price + downs[j].price;
+    const setFee = (setCost * config.TAKER_FEE_PERCENT) / 100;
+    if (100 - setCost - setFee < minEdgeCents) break;
+
+    const take = Math.min(upLeft, downLeft, maxSets - size);
+    size += take;
+    upCost += take * ups[i].price;
+    downCost += take * downs[j].price;
+    upLimit = ups[i].price;
+    downLimit = downs[j].price;
+    upLeft -= take;
+    downLeft -= take;
+    if (upLeft <= 1e-9 && ++i < ups.length) upLeft = ups[i].size;
+    if (downLeft <= 1e-9 && ++j < downs.length) downLeft = downs[j].size;
+  }
+
+  if (size < MIN_ORDER_SIZE) return null;
+
+  const depthWithin = (levels: Array<{ price: number; size: number }>, limit: number) =>
+    levels.filter((l) => l.price <= limit).reduce((sum, l) => sum + l.size, 0);
+
+  const feeCents = ((upCost + downCost) * config.TAKER_FEE_PERCENT) / 100;
+  return {
+    size,
+    upLimit,
+    downLimit,
+    upAvgPrice: upCost / size,
+    downAvgPrice: downCost / size,
+    upDepth: depthWithin(ups, upLimit),
+    downDepth: depthWithin(downs, downLimit),
+    feeCents,
+    edgeCents: 100 * size - upCost - downCost - feeCents,
+  };
+}
+
+export class ArbitrageManager {
+  private inProgress = false;
+
+  constructor(
+    private readonly trader: Trader,
+    private readonly redeemer: Redeemer = new CtfRedeemer()
+  ) {}
+
+  /**
+   * 檢查當前與下一市場的訂單簿，有機會則執行
+   */
+  async check(state: MarketState, books: Record<string, OrderBook>): Promise<ArbExecution[]> {
+    if (this.inProgress) return [];
+    this.inProgress = true;
+    try {
+      const executions: ArbExecution[] = [];
+      const targets: Array<[Market | null, string, string]> = [
+        [state.nextMarket, state.upTokenId, state.downTokenId],
+        [state.currentMarket, state.currentUpTokenId, state.currentDownTokenId],
+      ];
+      for (const [market, upTokenId, downTokenId] of targets) {
+        if (!market || !upTokenId || !downTokenId) continue;
+        const opportunity = findCompleteSetArb(books[upTokenId], books[downTokenId]);
+        if (!opportunity) continue;
+        console.log(
+          `[套利] ${market.slug}: ${opportunity.size.toFixed(2)} 組 Up ${opportunity.upAvgPrice.toFixed(2)}¢ + Down ${opportunity.downAvgPrice.toFixed(2)}¢` +
+            ` | 預期利潤 ${opportunity.edgeCents.toFixed(2)}¢ (手續費 ${opportunity.feeCents.toFixed(2)}¢)`
+        );
+        executions.push(await this.execute(market, upTokenId, downTokenId, opportunity));
+      }
+      return executions;
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  private async execute(market: Market, upTokenId: string, downTokenId: string, opp: ArbOpportunity): Promise<ArbExecution> {
+    // 先買深度較淺（較難成交）的一邊，另一邊按實際成交量補齊
+    const upFirst = opp.upDepth <= opp.downDepth;
+    const first = upFirst
+      ? { tokenId: upTokenId, outcome: 'Up' as const, limit: opp.upLimit }
+      : { tokenId: downTokenId, outcome: 'Down' as const, limit: opp.downLimit };
+    const second = upFirst
+      ? { tokenId: downTokenId, outcome: 'Down' as const, limit: opp.downLimit }
+      : { tokenId: upTokenId, outcome: 'Up' as const, limit: opp.upLimit };
+    const context = { slug: market.slug, reason: `完整組合套利 (預期 ${(opp.edgeCents / opp.size).toFixed(2)}¢/組)` };
+
+    const result: ArbExecution = {
+      slug: market.slug,
+      sets: 0,
+      upAvgPrice: 0,
+      downAvgPrice: 0,
+      lockedEdgeCents: 0,
+      exit: config.ARB_EXIT,
+      unpairedSize: 0,
+      records: [],
+    };
+
+    const firstFill = await this.trader.executeLeg(first.tokenId, first.outcome, 'BUY', first.limit, opp.size, context);
+    if (firstFill.filledSize <= 0) return result;
+    const firstCost = firstFill.avgPrice + firstFill.feeCents / firstFill.filledSize;
+
+    // 第二腿限價：原限價 + 容許滑點，但不得讓整組成本（含第二腿 taker 手續費）超過 100¢
+    const secondCap = Math.floor((100 - firstCost) / (1 + config.TAKER_FEE_PERCENT / 100));
+    const secondLimit = Math.min(second.limit + config.ARB_LEG_SLIPPAGE_CENTS, secondCap, 99);
+    const secondFill = await this.trader.executeLeg(second.tokenId, second.outcome, 'BUY', secondLimit, firstFill.filledSize, context);
+    const secondCost = secondFill.filledSize > 0 ? secondFill.avgPrice + secondFill.feeCents / secondFill.filledSize : 0;
+
+    // 第一腿多出的部分賣回
+    const excess = firstFill.filledSize - secondFill.filledSize;
+    if (excess > 1e-9) {
+      console.warn(`[套利] 第二腿只成交 ${secondFill.filledSize.toFixed(2)}/${firstFill.filledSize.toFixed(2)}，賣回多出的 ${first.outcome}`);
+      const unwind = await this.trader.executeLeg(
+        first.tokenId,
+        first.outcome,
+        'SELL',
+        Math.max(firstFill.avgPrice - 10, 1),
+        excess,
+        { ...context, reason: '套利腿風險平倉' },
+        firstCost
+      );
+      result.unpairedSize = excess - unwind.filledSize;
+      this.trader.adoptPosition(first.tokenId, first.outcome, result.unpairedSize, firstCost);
+    }
+
+    const sets = secondFill.filledSize;
+    if (sets <= 0) return result;
+
+    const upAvgPrice = upFirst ? firstCost : secondCost;
+    const downAvgPrice = upFirst ? secondCost : firstCost;
+    this.trader.addCompleteSet({
+      conditionId: market.conditionId,
+      slug: market.slug,
+      upTokenId,
+      downTokenId,
+      size: sets,
+      upAvgPrice,
+      downAvgPrice,
+      createdAt: Date.now(),
+    });
+    result.sets = sets;
+    result.upAvgPrice = upAvgPrice;
+    result.downAvgPrice = downAvgPrice;
+    result.lockedEdgeCents = (100 - upAvgPrice - downAvgPrice) * sets;
+    console.log(`✅ [套利] 配對 ${sets.toFixed(2)} 組，鎖定利潤 ${result.lockedEdgeCents.toFixed(2)}¢ (${(100 - upAvgPrice - downAvgPrice).toFixed(2)}¢/組)`);
+
+    if (config.ARB_EXIT === 'merge') {
+      result.records = await this.merge(market.conditionId, sets);
+      if (result.records.length === 0) result.exit = 'hold';
+    }
+    return result;
+  }
+
+  /**
+   * 合併完整組合回 USDC（Paper 模式直接記錄；實盤呼叫 CTF mergePositions，失敗則持有到結算）
+   */
+  private async merge(conditionId: string, sets: number): Promise<TradeRecord[]> {
+    if (!config.PAPER_TRADING) {
+      try {
+        const txHash = await this.redeemer.merge(conditionId, sets);
+        if (!txHash) return [];
+        console.log(`✅ [合併] condition=${conditionId} tx=${txHash}`);
+      } catch (err: any) {
+        console.error('[合併] Merge 失敗，持有到結算:', err?.message || err);
+        return [];
+      }
+    }
+    return this.trader.closeCompleteSet(conditionId, 'MERGE', { reason: '完整組合合併' });
+  }
+}
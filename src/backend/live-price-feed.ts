@@ -1,10 +1,36 @@
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
+import { config } from '../config.js';
 import { MarketFetcher } from '../market-fetcher.js';
+import type { OrderBook, TapeTrade, TradeFlow } from '../types.js';
+
+/**
+ * Local L2 book for one token, keyed by decimal price string.
+ */
+interface LocalBook {
+  bids: Map<string, number>;
+  asks: Map<string, number>;
+  timestamp: number; // exchange timestamp (ms) of the last applied message
+  hash?: string;
+}
+
+const RESYNC_MIN_INTERVAL_MS = 2_000; // per token
+const TAPE_MAX_AGE_MS = 15 * 60_000; // per-token trade tape retention
+const TAPE_MAX_TRADES = 2_000;
 
 /**
  * Polymarket price feed with WS book + REST polling fallback.
+ * Maintains a full L2 book per token from `book` snapshots and `price_change` deltas; the mid of that
+ * book is the token price. Emits 'price' (tokenId, priceCents) whenever a token's price changes.
+ *
+ * The exchange's book hash can't be reproduced locally, so each delta is checked against the
+ * best_bid / best_ask it carries (and for crossed books / deltas without a snapshot). Any mismatch,
+ * and every disconnect, drops the local book and resyncs it from a REST snapshot + resubscribe.
+ *
+ * `last_trade_price` events are kept as a per-token trade tape (aggressor side, size, price) from which
+ * rolling volume / VWAP / buy-sell imbalance are computed (getTradeFlow). Emits 'trade' (TapeTrade).
  */
-export class LivePriceFeed {
+export class LivePriceFeed extends EventEmitter {
   private ws: WebSocket | null = null;
   private readonly url = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
   private connected = false;
@@ -12,12 +38,14 @@ export class LivePriceFeed {
   private subscribedTokens: Set<string> = new Set();
   private prices: Record<string, number> = {}; // tokenId -> price in cents
   private priceTimestamps: Record<string, number> = {}; // tokenId -> ms
-  private bestBids: Record<string, number> = {};
-  private bestAsks: Record<string, number> = {};
+  private books: Map<string, LocalBook> = new Map();
+  private lastResync: Map<string, number> = new Map(); // tokenId -> ms
+  private tapes: Map<string, TapeTrade[]> = new Map(); // tokenId -> trades, oldest first
   private fetcher = new MarketFetcher();
   private restInterval: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private tokenOwners: Map<string, Set<string>> = new Map(); // owner (series id) -> tokenIds
 
   connect(): void {
     if (this.ws) return;
@@ -40,6 +68,7 @@ export class LivePriceFeed {
     this.ws.on('close', () => {
       this.connected = false;
       this.ws = null;
+      this.books.clear(); // missed deltas; fresh snapshots arrive after resubscribe
       console.log('[WS] Price feed disconnected, scheduling reconnect');
       this.scheduleReconnect();
     });
@@ -48,6 +77,7 @@ export class LivePriceFeed {
       console.warn('[WS] Price feed error, scheduling reconnect:', err.message);
       this.connected = false;
       this.ws = null;
+      this.books.clear();
       this.scheduleReconnect();
     });
 
@@ -74,6 +104,7 @@ export class LivePriceFeed {
       this.ws = null;
     }
     this.connected = false;
+    this.books.clear();
     this.connect();
   }
 
@@ -105,53 +136,209 @@ export class LivePriceFeed {
       if (!keep.has(k)) {
         delete this.prices[k];
         delete this.priceTimestamps[k];
-        delete this.bestBids[k];
-        delete this.bestAsks[k];
       }
     });
+    for (const tokenId of this.books.keys()) {
+      if (!keep.has(tokenId)) this.books.delete(tokenId);
+    }
+    for (const tokenId of this.tapes.keys()) {
+      if (!keep.has(tokenId)) this.tapes.delete(tokenId);
+    }
     // Re-subscribe to kept tokens to refresh book streams
     if (keep.size > 0) {
       this.subscribe(Array.from(keep));
     }
   }
 
+  /**
+   * Track tokens per owner (series) so one series pruning doesn't drop another's subscriptions
+   */
+  retain(owner: string, tokenIds: string[]): void {
+    this.tokenOwners.set(owner, new Set(tokenIds));
+    this.prune(this.getRetainedTokens());
+  }
+
+  release(owner: string): void {
+    if (!this.tokenOwners.delete(owner)) return;
+    this.prune(this.getRetainedTokens());
+  }
+
+  private getRetainedTokens(): string[] {
+    const keep = new Set<string>();
+    for (const tokens of this.tokenOwners.values()) {
+      tokens.forEach((t) => keep.add(t));
+    }
+    return Array.from(keep);
+  }
+
   private handleMessage(msg: any): void {
+    const eventType = String(msg?.event_type || '').toLowerCase();
+    const timestamp = Number(msg?.timestamp) || Date.now();
+
+    if (eventType === 'price_change') {
+      // Current format: price_changes[] each carrying its asset_id and the resulting best bid/ask;
+      // legacy format: changes[] under a top-level asset_id
+      const changes: any[] = Array.isArray(msg.price_changes)
+        ? msg.price_changes
+        : (msg.changes || []).map((c: any) => ({ ...c, asset_id: msg.asset_id, hash: msg.hash }));
+      const byToken = new Map<string, any[]>();
+      for (const change of changes) {
+        if (!change?.asset_id) continue;
+        byToken.set(change.asset_id, [...(byToken.get(change.asset_id) || []), change]);
+      }
+      for (const [tokenId, tokenChanges] of byToken) {
+        this.applyDelta(tokenId, tokenChanges, timestamp);
+      }
+      return;
+    }
+
     const tokenId = msg?.asset_id || msg?.product_id || msg?.token_id || msg?.tokenId;
     if (!tokenId) return;
 
-    // Use last trade price as seed when present
-    const priceVal = msg?.price ?? msg?.last_price ?? (Array.isArray(msg?.price_changes) ? msg.price_changes[0]?.price : null);
-    if (priceVal != null) {
+    if (eventType === 'book' || msg?.bids || msg?.asks || msg?.b || msg?.a) {
+      this.applySnapshot(tokenId, msg.bids || msg.b || [], msg.asks || msg.a || [], timestamp, msg.hash);
+      return;
+    }
+
+    if (eventType === 'last_trade_price') {
+      this.recordTrade(tokenId, msg, timestamp);
+    }
+
+    // Last trade only seeds the price until a book is available
+    const priceVal = msg?.price ?? msg?.last_price;
+    if (priceVal != null && !this.books.has(tokenId)) {
       const price = Number(priceVal);
       if (!Number.isNaN(price)) {
         const priceCents = price < 5 ? price * 100 : price;
         if (priceCents > 0.5 && priceCents < 99.5) {
           this.setPrice(tokenId, priceCents, true);
-          return;
         }
       }
     }
+  }
+
+  private recordTrade(tokenId: string, msg: any, timestamp: number): void {
+    const price = Number(msg.price);
+    const size = Number(msg.size);
+    const side = String(msg.side || '').toUpperCase();
+    if (!(price > 0) || !(size > 0) || (side !== 'BUY' && side !== 'SELL')) return;
+
+    const trade: TapeTrade = {
+      tokenId,
+      price: price < 5 ? price * 100 : price,
+      size,
+      side,
+      timestamp,
+    };
+    const tape = this.tapes.get(tokenId) || [];
+    tape.push(trade);
+    const cutoff = Date.now() - TAPE_MAX_AGE_MS;
+    let drop = Math.max(0, tape.length - TAPE_MAX_TRADES);
+    while (drop < tape.length && tape[drop].timestamp < cutoff) drop++;
+    if (drop > 0) tape.splice(0, drop);
+    this.tapes.set(tokenId, tape);
+    this.emit('trade', trade);
+  }
+
+  private applySnapshot(tokenId: string, bids: any[], asks: any[], timestamp: number, hash?: string): void {
+    const current = this.books.get(tokenId);
+    if (current && current.timestamp > timestamp) return; // out-of-order snapshot
+
+    const toLevels = (levels: any[]) => {
+      const side = new Map<string, number>();
+      for (const level of levels || []) {
+        const price = Number(level?.price ?? level?.[0]);
+        const size = Number(level?.size ?? level?.[1]);
+        if (Number.isFinite(price) && Number.isFinite(size) && size > 0) side.set(String(price), size);
+      }
+      return side;
+    };
+    this.books.set(tokenId, { bids: toLevels(bids), asks: toLevels(asks), timestamp, hash });
+    this.onBookUpdated(tokenId);
+  }
+
+  private applyDelta(tokenId: string, changes: any[], timestamp: number): void {
+    const book = this.books.get(tokenId);
+    if (!book) {
+      void this.resync(tokenId, 'delta before snapshot');
+      return;
+    }
+    if (timestamp < book.timestamp) return; // older than the book we hold
+
+    for (const change of changes) {
+      const price = Number(change.price);
+      const size = Number(change.size);
+      if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+      const side = String(change.side).toUpperCase() === 'BUY' ? book.bids : book.asks;
+      if (size > 0) {
+        side.set(String(price), size);
+      } else {
+        side.delete(String(price));
+      }
+    }
+    book.timestamp = timestamp;
+    book.hash = changes[changes.length - 1]?.hash ?? book.hash;
 
-    const bids = msg?.bids || msg?.b || [];
-    const asks = msg?.asks || msg?.a || [];
-    const bestBid = bids[0]?.price ?? bids[0]?.[0] ?? null;
-    const bestAsk = asks[0]?.price ?? asks[0]?.[0] ?? null;
+    // Consistency check against the exchange's own top of book
+    const { bid, ask } = this.topOfBook(book);
+    const last = changes[changes.length - 1];
+    const mismatch = (expected: any, actual: number | null) =>
+      expected != null && expected !== '' && Math.abs(Number(expected) - (actual ?? 0)) > 1e-9;
+    if (mismatch(last?.best_bid, bid) || mismatch(last?.best_ask, ask)) {
+      void this.resync(tokenId, `top of book mismatch local=${bid}/${ask} exchange=${last.best_bid}/${last.best_ask}`);
+      return;
+    }
+    if (bid != null && ask != null && bid >= ask) {
+      void this.resync(tokenId, `crossed book ${bid}/${ask}`);
+      return;
+    }
+    this.onBookUpdated(tokenId);
+  }
 
-    if (bestBid != null && !Number.isNaN(Number(bestBid))) {
-      this.bestBids[tokenId] = Number(bestBid);
+  /**
+   * Drop the local book and rebuild it from a REST snapshot; resubscribing also makes the WS send a fresh one
+   */
+  private async resync(tokenId: string, reason: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastResync.get(tokenId) || 0) < RESYNC_MIN_INTERVAL_MS) return;
+    this.lastResync.set(tokenId, now);
+    console.warn(`[WS] Book resync ${tokenId.slice(0, 6)}…: ${reason}`);
+    this.books.delete(tokenId);
+
+    if (this.connected && this.ws) {
+      try {
+        this.ws.send(JSON.stringify({ type: 'book', assets_ids: [tokenId] }));
+      } catch {}
     }
-    if (bestAsk != null && !Number.isNaN(Number(bestAsk))) {
-      this.bestAsks[tokenId] = Number(bestAsk);
+    try {
+      const ob: any = await this.fetcher.getOrderBook(tokenId);
+      if (!this.books.has(tokenId) && this.subscribedTokens.has(tokenId)) {
+        this.applySnapshot(tokenId, ob?.bids || [], ob?.asks || [], Number(ob?.timestamp) || Date.now(), ob?.hash);
+      }
+    } catch {
+      // next delta triggers another resync
     }
+  }
 
-    const bidNum = this.bestBids[tokenId];
-    const askNum = this.bestAsks[tokenId];
-    if (bidNum == null || askNum == null) return;
+  private topOfBook(book: LocalBook): { bid: number | null; ask: number | null } {
+    const bidPrices = Array.from(book.bids.keys(), Number);
+    const askPrices = Array.from(book.asks.keys(), Number);
+    return {
+      bid: bidPrices.length > 0 ? Math.max(...bidPrices) : null,
+      ask: askPrices.length > 0 ? Math.min(...askPrices) : null,
+    };
+  }
+
+  private onBookUpdated(tokenId: string): void {
+    const book = this.books.get(tokenId);
+    if (!book) return;
+    const { bid, ask } = this.topOfBook(book);
+    if (bid == null || ask == null) return;
 
-    const spreadCents = (askNum - bidNum) * 100;
+    const spreadCents = (ask - bid) * 100;
     if (!isFinite(spreadCents) || spreadCents <= 0 || spreadCents > 50) return;
 
-    const mid = (bidNum + askNum) / 2;
+    const mid = (bid + ask) / 2;
     const priceCents = mid < 5 ? mid * 100 : mid;
     this.setPrice(tokenId, priceCents, true);
   }
@@ -179,16 +366,8 @@ export class LivePriceFeed {
     if (this.subscribedTokens.size === 0) return;
     for (const tokenId of Array.from(this.subscribedTokens)) {
       try {
-        const ob = await this.fetcher.getOrderBook(tokenId);
-        const bid = ob?.bids?.[0]?.price;
-        const ask = ob?.asks?.[0]?.price;
-        if (bid == null || ask == null) continue;
-        const bidNum = parseFloat(bid);
-        const askNum = parseFloat(ask);
-        const spreadCents = (askNum - bidNum) * 100;
-        if (!isFinite(spreadCents) || spreadCents <= 0 || spreadCents > 20) continue;
-        const midCents = ((bidNum + askNum) / 2) * 100;
-        this.setPrice(tokenId, midCents, true);
+        const ob: any = await this.fetcher.getOrderBook(tokenId);
+        this.applySnapshot(tokenId, ob?.bids || [], ob?.asks || [], Number(ob?.timestamp) || Date.now(), ob?.hash);
       } catch (err) {
         // ignore poll errors
       }
@@ -246,6 +425,76 @@ export class LivePriceFeed {
     const prev = this.prices[tokenId];
     this.prices[tokenId] = clamped;
     this.priceTimestamps[tokenId] = Date.now();
+    if (prev === undefined || Math.abs(prev - clamped) >= 0.01) {
+      this.emit('price', tokenId, clamped);
+    }
+  }
+
+  /**
+   * Best bid/ask in cents from the WS book, or null when either side is unknown or stale.
+   */
+  getBestBidAsk(tokenId: string, maxAgeMs = 10_000): { bid: number; ask: number } | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+    const { bid, ask } = this.topOfBook(book);
+    const age = Date.now() - (this.priceTimestamps[tokenId] || 0);
+    if (bid == null || ask == null || age > maxAgeMs || ask <= bid) return null;
+    return { bid: bid * 100, ask: ask * 100 };
+  }
+
+  /**
+   * Full L2 book (decimal prices, best level first) kept from the WS stream, or null while
+   * disconnected / before the first snapshot (callers fall back to REST).
+   */
+  getOrderBook(tokenId: string): OrderBook | null {
+    const book = this.books.get(tokenId);
+    if (!book || !this.connected) return null;
+    const levels = (side: Map<string, number>, descending: boolean) =>
+      Array.from(side, ([price, size]) => ({ price: Number(price), size })).sort((a, b) =>
+        descending ? b.price - a.price : a.price - b.price
+      );
+    return { bids: levels(book.bids, true), asks: levels(book.asks, false) };
+  }
+
+  /**
+   * Trades seen on the market stream for a token since `sinceMs` (oldest first).
+   */
+  getTradeTape(tokenId: string, sinceMs = 0): TapeTrade[] {
+    return (this.tapes.get(tokenId) || []).filter((t) => t.timestamp >= sinceMs);
+  }
+
+  /**
+   * Rolling volume / VWAP / aggressor imbalance over the last `windowMs`.
+   */
+  getTradeFlow(tokenId: string, windowMs = config.TRADE_FLOW_WINDOW_MS): TradeFlow {
+    const trades = this.getTradeTape(tokenId, Date.now() - windowMs);
+    let buyVolume = 0;
+    let sellVolume = 0;
+    let notional = 0;
+    for (const t of trades) {
+      if (t.side === 'BUY') buyVolume += t.size;
+      else sellVolume += t.size;
+      notional += t.price * t.size;
+    }
+    const volume = buyVolume + sellVolume;
+    return {
+      windowMs,
+      trades: trades.length,
+      volume,
+      buyVolume,
+      sellVolume,
+      vwap: volume > 0 ? notional / volume : null,
+      imbalance: volume > 0 ? (buyVolume - sellVolume) / volume : 0,
+      lastTradeAt: trades.length > 0 ? trades[trades.length - 1].timestamp : null,
+    };
+  }
+
+  getTradeFlows(tokenIds: string[], windowMs = config.TRADE_FLOW_WINDOW_MS): Record<string, TradeFlow> {
+    const flows: Record<string, TradeFlow> = {};
+    for (const tokenId of tokenIds) {
+      flows[tokenId] = this.getTradeFlow(tokenId, windowMs);
+    }
+    return flows;
   }
 
   private clampPrice(priceCents: number): number {
@@ -0,0 +1,245 @@
+import { config } from '../config.js';
+import type { Trader } from '../trader.js';
+import type { OrderFillEvent } from '../order-manager.js';
+import { computeQuotes, type Quote } from '../strategies/market-making-strategy.js';
+import { livePriceFeed } from './live-price-feed.js';
+import type { MarketState, OrderBook } from '../types.js';
+
+interface ActiveQuote {
+  orderId: string;
+  outcome: 'Up' | 'Down';
+  price: number; // cents
+  size: number;
+}
+
+interface QuoteTarget {
+  scope: 'next' | 'current';
+  conditionId: string;
+  slug: string;
+  upTokenId: string;
+  downTokenId: string;
+  timeLeftMs: number; // time until the pull deadline reference (start for next, end for current)
+}
+
+type QuoteMarket = Pick<QuoteTarget, 'conditionId' | 'slug' | 'upTokenId' | 'downTokenId'>;
+
+/**
+ * Executes the market-making strategy for one series: keeps a resting bid on both Up and Down,
+ * requotes when the book moves (LivePriceFeed 'price' events, debounced) and on every evaluation,
+ * and pulls all quotes before the SELL_BEFORE_START_MS window.
+ * Matched Up + Down fills are converted into complete sets so the locked edge is held to merge/settlement
+ * instead of being unwound leg by leg by the exit rules.
+ */
+export class MarketMaker {
+  private quotes: Map<string, ActiveQuote> = new Map(); // tokenId -> resting bid
+  private quotedMarkets: Map<string, QuoteMarket> = new Map(); // tokenId -> market it was quoted in (fills can land after a requote or cancel)
+  private books: Record<string, OrderBook> = {};
+  private state: MarketState | null = null;
+  private stateAt = 0;
+  private active = false;
+  private requoting: Promise<void> | null = null;
+  private requoteTimer: NodeJS.Timeout | null = null;
+
+  private readonly onPrice = (tokenId: string) => {
+    if (!this.active || !this.isTargetToken(tokenId) || this.requoteTimer) return;
+    this.requoteTimer = setTimeout(() => {
+      this.requoteTimer = null;
+      void this.requote();
+    }, config.MM_REQUOTE_DEBOUNCE_MS);
+  };
+
+  constructor(
+    private readonly trader: Trader,
+    private readonly seriesId: string,
+    private readonly maxPositionSize: () => number
+  ) {
+    // Registered after the Trader's own listener, so the fill is already in the position
+    this.trader.orders.on('fill', (event: OrderFillEvent) => this.onQuoteFill(event));
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getQuotes(): Array<ActiveQuote & { tokenId: string }> {
+    return Array.from(this.quotes.entries()).map(([tokenId, q]) => ({ tokenId, ...q }));
+  }
+
+  /**
+   * Called on every series evaluation while the market-making strategy is selected.
+   */
+  async update(state: MarketState, books: Record<string, OrderBook>): Promise<void> {
+    if (!this.active) {
+      this.active = true;
+      livePriceFeed.on('price', this.onPrice);
+      console.log(`[MM][${this.seriesId}] Market making started`);
+    }
+    this.state = state;
+    this.stateAt = Date.now();
+    this.books = { ...this.books, ...books };
+    await this.requote(); // live fills arrive via the user channel / background reconcile
+  }
+
+  /**
+   * Cancel every resting quote and stop listening for book changes.
+   */
+  async pullAll(reason: string): Promise<void> {
+    if (this.requoteTimer) {
+      clearTimeout(this.requoteTimer);
+      this.requoteTimer = null;
+    }
+    if (this.active) {
+      livePriceFeed.off('price', this.onPrice);
+      this.active = false;
+    }
+    if (this.requoting) await this.requoting;
+    if (this.quotes.size === 0) return;
+    console.log(`[MM][${this.seriesId}] Pulling ${this.quotes.size} quote(s): ${reason}`);
+    for (const tokenId of Array.from(this.quotes.keys())) {
+      await this.cancelQuote(tokenId);
+    }
+  }
+
+  private isTargetToken(tokenId: string): boolean {
+    return this.getTargets().some((t) => t.upTokenId === tokenId || t.downTokenId === tokenId);
+  }
+
+  private getTargets(): QuoteTarget[] {
+    const state = this.state;
+    if (!state) return [];
+    const elapsed = Date.now() - this.stateAt;
+    const targets: QuoteTarget[] = [];
+    if (state.nextMarket && state.upTokenId && state.downTokenId) {
+      targets.push({
+        scope: 'next',
+        conditionId: state.nextMarket.conditionId,
+        slug: state.nextMarket.slug,
+        upTokenId: state.upTokenId,
+        downTokenId: state.downTokenId,
+        timeLeftMs: state.timeToStart - elapsed,
+      });
+    }
+    if (config.ALLOW_CURRENT_MARKET_TRADING && state.currentMarket && state.currentUpTokenId && state.currentDownTokenId) {
+      targets.push({
+        scope: 'current',
+        conditionId: state.currentMarket.conditionId,
+        slug: state.currentMarket.slug,
+        upTokenId: state.currentUpTokenId,
+        downTokenId: state.currentDownTokenId,
+        timeLeftMs: state.timeToEnd - elapsed,
+      });
+    }
+    return targets;
+  }
+
+  // Single-flight: a requote triggered while one is running waits for it instead of overlapping
+  private requote(): Promise<void> {
+    if (this.requoting) return this.requoting;
+    this.requoting = this.doRequote().finally(() => {
+      this.requoting = null;
+    });
+    return this.requoting;
+  }
+
+  private async doRequote(): Promise<void> {
+    const targets = this.getTargets();
+    const targetTokens = new Set(targets.flatMap((t) => [t.upTokenId, t.downTokenId]));
+
+    // Quotes on markets we no longer target (rolled over) are cancelled
+    for (const tokenId of Array.from(this.quotes.keys())) {
+      if (!targetTokens.has(tokenId)) await this.cancelQuote(tokenId);
+    }
+    for (const tokenId of Array.from(this.quotedMarkets.keys())) {
+      if (!targetTokens.has(tokenId)) this.quotedMarkets.delete(tokenId);
+    }
+
+    for (const target of targets) {
+      if (!this.active) return;
+      if (target.timeLeftMs <= config.SELL_BEFORE_START_MS) {
+        if (this.quotes.has(target.upTokenId) || this.quotes.has(target.downTokenId)) {
+          console.log(`[MM][${this.seriesId}] ${target.scope} within ${config.SELL_BEFORE_START_MS}ms window, pulling quotes`);
+        }
+        await this.cancelQuote(target.upTokenId);
+        await this.cancelQuote(target.downTokenId);
+        continue;
+      }
+
+      const positions = this.trader.getPositions();
+      const up = positions.get(target.upTokenId);
+      const down = positions.get(target.downTokenId);
+      // Paired sets still count toward the per-side size cap; they are balanced, so the skew only sees unpaired legs
+      const paired = this.trader.getCompleteSets().filter((set) => set.conditionId === target.conditionId).reduce((sum, set) => sum + set.size, 0);
+      const upTop = this.topOfBook(target.upTokenId);
+      const downTop = this.topOfBook(target.downTokenId);
+      const plan = computeQuotes({
+        upBid: upTop?.bid ?? null,
+        upAsk: upTop?.ask ?? null,
+        downBid: downTop?.bid ?? null,
+        downAsk: downTop?.ask ?? null,
+        upInventory: (up?.size ?? 0) + paired,
+        downInventory: (down?.size ?? 0) + paired,
+        upAvgCost: up && up.size > 0 ? up.avgBuyPrice : null,
+        downAvgCost: down && down.size > 0 ? down.avgBuyPrice : null,
+        maxPositionSize: this.maxPositionSize(),
+      });
+      if (plan.reason) {
+        console.log(`[MM][${this.seriesId}] ${target.scope}: no quotes (${plan.reason})`);
+      }
+
+      await this.reconcile(target.upTokenId, plan.up, target);
+      await this.reconcile(target.downTokenId, plan.down, target);
+    }
+  }
+
+  private async reconcile(tokenId: string, desired: Quote | null, target: QuoteTarget): Promise<void> {
+    const current = this.quotes.get(tokenId);
+    if (current && !this.trader.orders.isActive(current.orderId)) {
+      this.quotes.delete(tokenId); // filled or cancelled on the exchange
+    }
+
+    const live = this.quotes.get(tokenId);
+    if (!desired) {
+      if (live) await this.cancelQuote(tokenId);
+      return;
+    }
+    if (live && Math.abs(live.price - desired.price) < config.MM_REQUOTE_THRESHOLD_CENTS && live.size === desired.size) {
+      return;
+    }
+
+    if (live) await this.cancelQuote(tokenId);
+    const market: QuoteMarket = { conditionId: target.conditionId, slug: target.slug, upTokenId: target.upTokenId, downTokenId: target.downTokenId };
+    this.quotedMarkets.set(tokenId, market);
+    const orderId = await this.trader.placeLimitBuy(tokenId, desired.outcome, desired.price, desired.size, {
+      slug: target.slug,
+      reason: `做市買入 ${desired.outcome} @ ${desired.price}¢`,
+    });
+    if (orderId) {
+      this.quotes.set(tokenId, { orderId, outcome: desired.outcome, price: desired.price, size: desired.size });
+    }
+  }
+
+  // A bid fill that completes an Up + Down pair moves the matched size out of the per-leg positions
+  private onQuoteFill({ order }: OrderFillEvent): void {
+    if (order.purpose !== 'quote') return;
+    const market = this.quotedMarkets.get(order.tokenId);
+    if (market) this.trader.pairCompleteSet(market);
+  }
+
+  private async cancelQuote(tokenId: string): Promise<void> {
+    const quote = this.quotes.get(tokenId);
+    if (!quote) return;
+    this.quotes.delete(tokenId);
+    await this.trader.cancelOrder(quote.orderId);
+  }
+
+  // Prefer the streaming WS book; fall back to the REST books fetched this evaluation
+  private topOfBook(tokenId: string): { bid: number; ask: number } | null {
+    const live = livePriceFeed.getBestBidAsk(tokenId);
+    if (live) return live;
+    const book = this.books[tokenId];
+    if (!book || book.bids.length === 0 || book.asks.length === 0) return null;
+    const bid = Math.max(...book.bids.map((b) => b.price)) * 100;
+    const ask = Math.min(...book.asks.map((a) => a.price)) * 100;
+    return ask > bid ? { bid, ask } : null;
+  }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { config } from '../config.js';
+import type { MarketSnapshot } from '../types.js';
+
+interface RecordingFile {
+  filePath: string;
+  gzip: zlib.Gzip;
+  out: fs.WriteStream;
+  lastWrite: number;
+}
+
+/**
+ * Persists every evaluation's MarketSnapshot to rotating gzip JSONL files, one directory per market slug:
+ *   <RECORDER_DIR>/<slug>/<slug>-<openedAt>.jsonl.gz
+ * Each line is flushed with Z_SYNC_FLUSH so a crash only loses the current line; the
+ * backtest loader tolerates the missing gzip trailer.
+ */
+export class MarketRecorder {
+  private files: Map<string, RecordingFile> = new Map();
+  private recorded = 0;
+
+  record(snapshot: MarketSnapshot): void {
+    if (!config.RECORDER_ENABLED || !snapshot.slug) return;
+
+    try {
+      const file = this.getFile(snapshot.slug, snapshot.timestamp);
+      file.gzip.write(JSON.stringify(snapshot) + '\n');
+      file.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+      file.lastWrite = Date.now();
+      this.recorded += 1;
+
+      if (file.out.bytesWritten >= config.RECORDER_MAX_FILE_MB * 1024 * 1024) {
+        console.log(`[Recorder] Rotating ${file.filePath} (${file.out.bytesWritten} bytes)`);
+        this.closeFile(snapshot.slug);
+      }
+    } catch (err) {
+      console.warn('[Recorder] Failed to record snapshot:', (err as Error)?.message || err);
+    }
+
+    this.closeIdle();
+  }
+
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  close(): void {
+    for (const slug of Array.from(this.files.keys())) {
+      this.closeFile(slug);
+    }
+  }
+
+  private getFile(slug: string, timestamp: number): RecordingFile {
+    const existing = this.files.get(slug);
+    if (existing) return existing;
+
+    const dir = path.join(config.RECORDER_DIR, slug);
+    fs.mkdirSync(dir, { recursive: true });
+    const stamp = new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const filePath = path.join(dir, `${slug}-${stamp}.jsonl.gz`);
+
+    const gzip = zlib.createGzip();
+    const out = fs.createWriteStream(filePath, { flags: 'a' });
+    gzip.pipe(out);
+    out.on('error', (err) => {
+      console.warn(`[Recorder] Write error on ${filePath}:`, err.message);
+      this.files.delete(slug);
+    });
+
+    const file: RecordingFile = { filePath, gzip, out, lastWrite: Date.now() };
+    this.files.set(slug, file);
+    console.log(`[Recorder] Recording ${slug} -> ${filePath}`);
+    return file;
+  }
+
+  private closeIdle(): void {
+    const now = Date.now();
+    for (const [slug, file] of this.files) {
+      if (now - file.lastWrite > config.RECORDER_IDLE_CLOSE_MS) {
+        this.closeFile(slug);
+      }
+    }
+  }
+
+  private closeFile(slug: string): void {
+    const file = this.files.get(slug);
+    if (!file) return;
+    this.files.delete(slug);
+    file.gzip.end();
+  }
+}
+
+export const marketRecorder = new MarketRecorder();
@@ -1,82 +1,374 @@
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { config } from '../config.js';
+import { VolatilityEstimator } from '../pricing.js';
 
 /**
- * RTDS (Real-Time Data Service) BTC spot price feed.
- * Defaults to Binance BTCUSDT trade stream if RTDS url is not provided.
+ * One spot stream: where to connect, what to send on open and how to read a BTC price from a message.
  */
-export class RTDSPriceFeed {
-  private ws: WebSocket | null = null;
+interface SpotSourceDefinition {
+  id: string;
+  url: string;
+  subscribe?: string; // sent on open
+  ping?: string; // sent every PING_INTERVAL_MS when set
+  parse: (msg: any) => number | null;
+}
+
+export interface SpotSourceHealth {
+  id: string;
+  url: string;
+  connected: boolean;
+  price: number | null;
+  lastUpdate: number | null; // ms
+  ageMs: number | null;
+  stale: boolean; // no update within SPOT_STALE_MS
+  outlier: boolean; // deviates from the median of fresh sources by more than SPOT_OUTLIER_BPS
+  deviationBps: number | null;
+  reconnects: number;
+  lastError?: string;
+}
+
+interface SourceState {
+  def: SpotSourceDefinition;
+  ws: WebSocket | null;
+  connected: boolean;
+  price: number | null;
+  lastUpdate: number;
+  openedAt: number;
+  attempts: number;
+  reconnects: number;
+  reconnectTimer: NodeJS.Timeout | null;
+  pingTimer: NodeJS.Timeout | null;
+  lastError?: string;
+}
+
+const PING_INTERVAL_MS = 5_000;
+const WATCHDOG_INTERVAL_MS = 5_000;
+const MIN_SOURCES_FOR_OUTLIERS = 3; // with two sources there is no majority to call one of them wrong
+const HISTORY_MS = 30 * 60_000; // aggregated price history kept for getPriceAt (market reference prices)
+const HISTORY_MIN_STEP_MS = 250;
+
+const toPrice = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// Chainlink Streams style: price object with bid/ask/mid
+const parsePriceObject = (obj: any): number | null => {
+  if (obj?.mid != null) return toPrice(obj.mid);
+  const bid = toPrice(obj?.bid);
+  const ask = toPrice(obj?.ask);
+  return bid != null && ask != null ? (bid + ask) / 2 : null;
+};
+
+// Polymarket RTDS: { topic, type: 'update', payload: { symbol, timestamp, value } }
+const parseRtds = (symbol: string) => (msg: any): number | null => {
+  const payload = msg?.payload;
+  if (!payload || String(payload.symbol || '').toLowerCase() !== symbol) return null;
+  return toPrice(payload.value) ?? parsePriceObject(payload.price);
+};
+
+// Best-effort parser for RTDS_WS_URL streams of unknown shape
+const parseGeneric = (msg: any): number | null => {
+  const direct = toPrice(msg?.price ?? msg?.p ?? msg?.lastPrice ?? msg?.last ?? msg?.data?.price ?? msg?.data?.p);
+  if (direct != null) return direct;
+  return parsePriceObject(msg?.price) ?? parsePriceObject(msg?.payload?.price) ?? parsePriceObject(msg?.data?.price) ?? parsePriceObject(msg);
+};
+
+const rtdsSubscribe = (topic: string, filters: string) =>
+  JSON.stringify({ action: 'subscribe', subscriptions: [{ topic, type: 'update', filters }] });
+
+const BUILTIN_SOURCES: Record<string, SpotSourceDefinition> = {
+  polymarket: {
+    id: 'polymarket',
+    url: 'wss://ws-live-data.polymarket.com',
+    subscribe: rtdsSubscribe('crypto_prices', 'btcusdt'),
+    ping: 'PING',
+    parse: parseRtds('btcusdt'),
+  },
+  chainlink: {
+    id: 'chainlink',
+    url: 'wss://ws-live-data.polymarket.com',
+    subscribe: rtdsSubscribe('crypto_prices_chainlink', JSON.stringify({ symbol: 'btc/usd' })),
+    ping: 'PING',
+    parse: parseRtds('btc/usd'),
+  },
+  binance: {
+    id: 'binance',
+    url: 'wss://stream.binance.com:9443/ws/btcusdt@trade',
+    parse: (msg) => (msg?.e === 'trade' ? toPrice(msg.p) : null),
+  },
+  coinbase: {
+    id: 'coinbase',
+    url: 'wss://ws-feed.exchange.coinbase.com',
+    subscribe: JSON.stringify({ type: 'subscribe', product_ids: ['BTC-USD'], channels: ['ticker'] }),
+    parse: (msg) => (msg?.type === 'ticker' && msg.product_id === 'BTC-USD' ? toPrice(msg.price) : null),
+  },
+};
+
+/**
+ * Resolve SPOT_SOURCES (plus RTDS_WS_URL as a 'custom' source) into source definitions
+ */
+function resolveSources(): SpotSourceDefinition[] {
+  const ids = config.SPOT_SOURCES.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const sources: SpotSourceDefinition[] = [];
+  for (const id of new Set(ids)) {
+    const def = BUILTIN_SOURCES[id];
+    if (def) sources.push(def);
+    else console.warn(`[Spot] Unknown spot source "${id}" (known: ${Object.keys(BUILTIN_SOURCES).join(', ')})`);
+  }
+  if (config.RTDS_WS_URL) {
+    sources.push({
+      id: 'custom',
+      url: config.RTDS_WS_URL,
+      subscribe: config.RTDS_SUBSCRIBE_MESSAGE || undefined,
+      parse: parseGeneric,
+    });
+  }
+  return sources;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * BTC spot aggregator over several WS sources (Polymarket RTDS, Chainlink via RTDS, Binance, Coinbase,
+ * or a custom RTDS_WS_URL stream).
+ *
+ * - Each source reconnects with exponential backoff; a connected source that goes silent for
+ *   3 × SPOT_STALE_MS is dropped and reconnected by the watchdog
+ * - Sources without an update within SPOT_STALE_MS are stale; with three or more fresh sources, any
+ *   deviating from their median by more than SPOT_OUTLIER_BPS is an outlier
+ * - The published price is the median of fresh, non-outlier sources, or null when none is healthy
+ *
+ * Emits 'price' (median) whenever a source update changes it. The aggregated price is also kept for
+ * HISTORY_MS so a market's opening reference price can be looked up after the fact (getPriceAt), and
+ * fed to a VolatilityEstimator for fair-value pricing (getVolatility).
+ */
+export class RTDSPriceFeed extends EventEmitter {
+  private sources: SourceState[] = [];
   private latestPrice: number | null = null;
-  private lastUpdate = 0;
+  private history: Array<{ timestamp: number; price: number }> = []; // oldest first
+  private readonly volatility = new VolatilityEstimator();
+  private watchdog: NodeJS.Timeout | null = null;
+  private running = false;
 
   connect(): void {
-    if (this.ws) return;
-    const url = config.RTDS_WS_URL || 'wss://ws-live-data.polymarket.com';
-    console.log('[RTDS] Connecting to', url);
-    this.ws = new WebSocket(url);
-
-    this.ws.on('open', () => {
-      console.log('[RTDS] Connected');
-      if (config.RTDS_SUBSCRIBE_MESSAGE) {
+    if (this.running) return;
+    this.running = true;
+    this.sources = resolveSources().map((def) => ({
+      def,
+      ws: null,
+      connected: false,
+      price: null,
+      lastUpdate: 0,
+      openedAt: 0,
+      attempts: 0,
+      reconnects: 0,
+      reconnectTimer: null,
+      pingTimer: null,
+    }));
+    if (this.sources.length === 0) {
+      console.warn('[Spot] No spot sources configured (SPOT_SOURCES)');
+    }
+    this.sources.forEach((source) => this.open(source));
+    this.watchdog = setInterval(() => this.checkStale(), WATCHDOG_INTERVAL_MS);
+  }
+
+  disconnect(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+    for (const source of this.sources) {
+      if (source.reconnectTimer) clearTimeout(source.reconnectTimer);
+      source.reconnectTimer = null;
+      const ws = source.ws;
+      this.closeSource(source);
+      try {
+        ws?.terminate();
+      } catch {}
+    }
+    this.sources = [];
+    this.latestPrice = null;
+  }
+
+  /**
+   * Median of healthy sources, or null when every source is stale / disconnected
+   */
+  getLatestPrice(): number | null {
+    return this.aggregate().price;
+  }
+
+  getHealth(): SpotSourceHealth[] {
+    return this.aggregate().health;
+  }
+
+  /**
+   * Annualized realized volatility of the aggregated price (BTC_ANNUAL_VOLATILITY until enough samples)
+   */
+  getVolatility(): number {
+    return this.volatility.getVolatility();
+  }
+
+  /**
+   * Aggregated price at `timestamp` (local ms): the first sample at or after it, else the last one
+   * before it, as long as it lies within `toleranceMs`; null when the feed wasn't running then.
+   */
+  getPriceAt(timestamp: number, toleranceMs = config.SPOT_REFERENCE_TOLERANCE_MS): number | null {
+    const after = this.history.find((h) => h.timestamp >= timestamp);
+    if (after && after.timestamp - timestamp <= toleranceMs) return after.price;
+    const before = [...this.history].reverse().find((h) => h.timestamp < timestamp);
+    if (before && timestamp - before.timestamp <= toleranceMs) return before.price;
+    return null;
+  }
+
+  private open(source: SourceState): void {
+    if (!this.running || source.ws) return;
+    const { def } = source;
+    console.log(`[Spot][${def.id}] Connecting to`, def.url);
+    const ws = new WebSocket(def.url);
+    source.ws = ws;
+
+    ws.on('open', () => {
+      source.connected = true;
+      source.attempts = 0;
+      source.openedAt = Date.now();
+      console.log(`[Spot][${def.id}] Connected`);
+      if (def.subscribe) {
         try {
-          this.ws?.send(config.RTDS_SUBSCRIBE_MESSAGE);
-          console.log('[RTDS] Subscription message sent');
+          ws.send(def.subscribe);
         } catch (err) {
-          console.warn('[RTDS] Failed to send subscribe payload', err);
+          console.warn(`[Spot][${def.id}] Failed to send subscribe payload`, err);
         }
       }
+      if (def.ping) {
+        source.pingTimer = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(def.ping!);
+        }, PING_INTERVAL_MS);
+      }
     });
 
-    this.ws.on('message', (data) => {
+    ws.on('message', (data) => {
+      let msg: any;
       try {
-        const msg = JSON.parse(data.toString());
-        this.handleMessage(msg);
-      } catch (err) {
-        // ignore malformed
+        msg = JSON.parse(data.toString());
+      } catch {
+        return; // PONG and other non-JSON frames
+      }
+      for (const item of Array.isArray(msg) ? msg : [msg]) {
+        const price = def.parse(item);
+        if (price != null) this.onSourcePrice(source, price);
       }
     });
 
-    this.ws.on('close', () => {
-      console.warn('[RTDS] Disconnected');
-      this.ws = null;
+    ws.on('close', () => this.onSourceDown(source, ws));
+    ws.on('error', (err) => {
+      source.lastError = err.message;
+      console.warn(`[Spot][${def.id}] Error:`, err.message);
+      this.onSourceDown(source, ws);
     });
+  }
 
-    this.ws.on('error', (err) => {
-      console.warn('[RTDS] Error', err);
-    });
+  private onSourcePrice(source: SourceState, price: number): void {
+    source.price = price;
+    source.lastUpdate = Date.now();
+    const { price: aggregated } = this.aggregate();
+    if (aggregated != null && aggregated !== this.latestPrice) {
+      this.latestPrice = aggregated;
+      this.recordHistory(aggregated);
+      this.volatility.record(aggregated);
+      this.emit('price', aggregated);
+    }
   }
 
-  getLatestPrice(): number | null {
-    return this.latestPrice;
-  }
-
-  private handleMessage(msg: any): void {
-    // Direct price fields (Binance style)
-    const priceCandidate = msg?.price ?? msg?.p ?? msg?.lastPrice ?? msg?.last ?? msg?.data?.price ?? msg?.data?.p;
-    let priceNum = Number(priceCandidate);
-
-    // Chainlink Streams style: price object with bid/ask/mid
-    if (!Number.isFinite(priceNum) || priceNum <= 0) {
-      const bid = msg?.price?.bid ?? msg?.payload?.price?.bid ?? msg?.data?.price?.bid ?? msg?.bid;
-      const ask = msg?.price?.ask ?? msg?.payload?.price?.ask ?? msg?.data?.price?.ask ?? msg?.ask;
-      const mid = msg?.price?.mid ?? msg?.payload?.price?.mid ?? msg?.data?.price?.mid;
-
-      if (mid != null) {
-        priceNum = Number(mid);
-      } else if (bid != null && ask != null) {
-        const bidNum = Number(bid);
-        const askNum = Number(ask);
-        if (Number.isFinite(bidNum) && Number.isFinite(askNum) && askNum > 0) {
-          priceNum = (bidNum + askNum) / 2;
-        }
-      }
+  private recordHistory(price: number): void {
+    const now = Date.now();
+    const last = this.history[this.history.length - 1];
+    if (last && now - last.timestamp < HISTORY_MIN_STEP_MS) {
+      last.price = price; // keep the latest price within a step
+    } else {
+      this.history.push({ timestamp: now, price });
+    }
+    const cutoff = now - HISTORY_MS;
+    const expired = this.history.findIndex((h) => h.timestamp >= cutoff);
+    if (expired > 0) this.history.splice(0, expired);
+  }
+
+  private onSourceDown(source: SourceState, ws: WebSocket): void {
+    if (source.ws !== ws) return;
+    if (source.connected) console.warn(`[Spot][${source.def.id}] Disconnected`);
+    this.closeSource(source);
+    this.scheduleReconnect(source);
+  }
+
+  private closeSource(source: SourceState): void {
+    source.ws = null;
+    source.connected = false;
+    if (source.pingTimer) {
+      clearInterval(source.pingTimer);
+      source.pingTimer = null;
     }
+  }
+
+  private scheduleReconnect(source: SourceState): void {
+    if (!this.running || source.reconnectTimer || source.ws) return;
+    source.attempts = Math.min(source.attempts + 1, 6);
+    const delayMs = Math.min(30000, 1000 * Math.pow(2, source.attempts - 1));
+    source.reconnectTimer = setTimeout(() => {
+      source.reconnectTimer = null;
+      source.reconnects++;
+      this.open(source);
+    }, delayMs);
+  }
+
+  // A socket can stay open while the stream behind it stops; recycle it
+  private checkStale(): void {
+    const now = Date.now();
+    for (const source of this.sources) {
+      const ws = source.ws;
+      const lastSeen = Math.max(source.lastUpdate, source.openedAt);
+      if (!ws || !source.connected || now - lastSeen < config.SPOT_STALE_MS * 3) continue;
+      console.warn(`[Spot][${source.def.id}] No updates for ${Math.round((now - lastSeen) / 1000)}s, reconnecting`);
+      source.lastError = 'silent stream';
+      this.onSourceDown(source, ws);
+      try {
+        ws.terminate();
+      } catch {}
+    }
+  }
 
-    if (!Number.isFinite(priceNum) || priceNum <= 0) return;
+  private aggregate(): { price: number | null; health: SpotSourceHealth[] } {
+    const now = Date.now();
+    const fresh = this.sources.filter(
+      (s) => s.price != null && s.lastUpdate > 0 && now - s.lastUpdate <= config.SPOT_STALE_MS
+    );
+    const freshMedian = fresh.length > 0 ? median(fresh.map((s) => s.price!)) : null;
+    const deviationBps = (s: SourceState) =>
+      freshMedian != null && s.price != null ? ((s.price - freshMedian) / freshMedian) * 10_000 : null;
+    const isOutlier = (s: SourceState) =>
+      fresh.length >= MIN_SOURCES_FOR_OUTLIERS && fresh.includes(s) && Math.abs(deviationBps(s)!) > config.SPOT_OUTLIER_BPS;
 
-    this.latestPrice = priceNum;
-    this.lastUpdate = Date.now();
+    const healthy = fresh.filter((s) => !isOutlier(s));
+    const health = this.sources.map((s) => ({
+      id: s.def.id,
+      url: s.def.url,
+      connected: s.connected,
+      price: s.price,
+      lastUpdate: s.lastUpdate || null,
+      ageMs: s.lastUpdate ? now - s.lastUpdate : null,
+      stale: !fresh.includes(s),
+      outlier: isOutlier(s),
+      deviationBps: deviationBps(s),
+      reconnects: s.reconnects,
+      lastError: s.lastError,
+    }));
+    return { price: healthy.length > 0 ? median(healthy.map((s) => s.price!)) : null, health };
   }
 }
 
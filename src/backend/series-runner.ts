@@ -0,0 +1,784 @@
+import { MarketFetcher } from '../market-fetcher.js';
+import { Trader } from '../trader.js';
+import { Strategy } from '../strategy.js';
+import { config } from '../config.js';
+import { AIAnalyzer } from '../ai-analyzer.js';
+import { aiProfiles } from '../ai-profile.js';
+import { riskManager } from '../risk-manager.js';
+import { livePriceFeed } from './live-price-feed.js';
+import { rtdsPriceFeed, type SpotSourceHealth } from './rtds-price-feed.js';
+import { marketRecorder } from './market-recorder.js';
+import { paperExchange } from '../paper-exchange.js';
+import { SettlementManager } from '../settlement.js';
+import { llmAuditLog } from '../llm-audit-log.js';
+import { MarketMaker } from './market-maker.js';
+import { ArbitrageManager } from '../arbitrage.js';
+import type { ManagedOrder, OrderSnapshot } from '../order-manager.js';
+import { getSeriesLimits, type SeriesDefinition, type SeriesLimits } from '../series.js';
+import { buildStrikeContext } from '../pricing.js';
+import type { EnsembleDecision, Market, MarketState, OrderBook, StrikeContext, TradeContext, TradeRecord } from '../types.js';
+
+export type Broadcast = (type: string, data: any, series?: string) => void;
+
+export interface SeriesSummary {
+  id: string;
+  label: string;
+  paused: boolean;
+  sessionPnl: number;
+  totalPnl: number;
+  openPositions: number;
+  completeSets: number;
+  aiProfile: string; // selected AI profile id
+}
+
+// Helper to add delay between API calls
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const BRACKET_WINDOW_MS = 12_000; // TP/SL brackets go up this long before the next market starts
+const MARKET_REFRESH_MIN_MS = 10_000; // don't re-fetch the market list more often than this when the next market is missing
+
+// REST books are not sorted best-first (bids come back ascending); normalize to numbers, best level first
+function normalizeOrderBook(ob: any): OrderBook {
+  const levels = (raw: any[]) =>
+    (raw || []).map((l: any) => ({ price: parseFloat(l.price), size: parseFloat(l.size) })).filter((l) => !isNaN(l.price) && !isNaN(l.size));
+  return {
+    bids: levels(ob?.bids).sort((a, b) => b.price - a.price),
+    asks: levels(ob?.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/**
+ * One Up/Down series (e.g. BTC 15m, ETH 1h) with its own fetcher, trader, strategy and AI analyzer.
+ * Positions, PnL and risk limits are tracked per series; every broadcast is tagged with the series id.
+ *
+ * Driven by the TradingEngine: evaluate() reacts to price / spot / schedule events using the cached
+ * market list, reconcile() is the slow background pass (market list, orders, balances, settlement).
+ */
+export class SeriesRunner {
+  readonly fetcher: MarketFetcher;
+  readonly trader: Trader;
+  readonly strategy: Strategy;
+  private readonly analyzer = new AIAnalyzer();
+  private readonly settlement: SettlementManager;
+  private readonly marketMaker: MarketMaker;
+  private readonly arbitrage: ArbitrageManager;
+  private readonly limits: SeriesLimits;
+  private aiProfileId: string;
+  private sessionStart: number | null = null;
+  private paused = false;
+  private lastLlmRun = 0;
+  private markets: Market[] = []; // cached schedule, refreshed by reconcile()
+  private marketsFetchedAt = 0;
+  private trackedTokens: Set<string> = new Set(); // tokens of the current + next market
+  private referencePrices: Map<string, number> = new Map(); // slug -> spot at the market's startDate
+
+  // 購買鎖 - 防止同一市場重複購買
+  private buyingInProgress = false;
+
+  constructor(readonly series: SeriesDefinition, private readonly broadcast: Broadcast) {
+    this.limits = getSeriesLimits(series.id);
+    this.aiProfileId = this.limits.aiProfile ?? config.AI_PROFILE;
+    this.fetcher = new MarketFetcher(series);
+    this.trader = new Trader({ series: series.id });
+    this.strategy = new Strategy({ aiAnalyzer: this.analyzer, maxPositionSize: this.limits.maxPositionSize });
+    this.settlement = new SettlementManager(this.fetcher, this.trader);
+    this.marketMaker = new MarketMaker(this.trader, series.id, () => this.limits.maxPositionSize ?? config.MAX_POSITION_SIZE);
+    this.arbitrage = new ArbitrageManager(this.trader);
+    // Every order state change (placed, filled, cancelled...) is pushed to the dashboard as it happens
+    this.trader.orders.on('order', (order) => this.send('order', order));
+  }
+
+  async start(): Promise<boolean> {
+    this.sessionStart = Date.now();
+    this.paused = false;
+    this.markets = [];
+    this.marketsFetchedAt = 0;
+    this.trader.reset();
+    this.strategy.resetGateStats();
+    this.applyAIProfile();
+    await this.trader.loadTradeHistory();
+    await this.fetcher.syncServerTime();
+
+    const initialized = await this.trader.initialize();
+    if (!initialized && !config.PAPER_TRADING) {
+      console.error(`❌ [${this.series.id}] Failed to initialize trader`);
+      return false;
+    }
+    return true;
+  }
+
+  async stop(): Promise<void> {
+    this.sessionStart = null;
+    await this.marketMaker.pullAll('bot stopped');
+    this.trader.reset();
+    livePriceFeed.release(this.series.id);
+  }
+
+  getAIProfileId(): string {
+    return this.aiProfileId;
+  }
+
+  /**
+   * Switch the analyzer to another loaded AI profile; takes effect on the next evaluation
+   */
+  selectAIProfile(id: string): boolean {
+    if (!aiProfiles.get(id)) return false;
+    this.aiProfileId = id;
+    this.applyAIProfile();
+    return true;
+  }
+
+  /**
+   * (Re)load the selected profile from the store, e.g. after it was saved as a new version
+   */
+  applyAIProfile(): void {
+    const profile = aiProfiles.resolve(this.aiProfileId);
+    this.analyzer.setProfile(profile);
+    console.log(`[AI Profile][${this.series.id}] Using ${profile.id}@v${profile.version}`);
+  }
+
+  getSessionPnl(): number {
+    return this.trader
+      .getTradeHistory()
+      .filter((t) => t.side !== 'BUY' && this.sessionStart != null && new Date(t.timestamp).getTime() >= this.sessionStart)
+      .reduce((sum, t) => sum + (t.pnl || 0), 0);
+  }
+
+  getSummary(): SeriesSummary {
+    return {
+      id: this.series.id,
+      label: this.series.label,
+      paused: this.paused,
+      sessionPnl: this.getSessionPnl(),
+      totalPnl: this.trader.getTotalPnL(),
+      openPositions: Array.from(this.trader.getPositions().values()).filter((p) => p.size > 0).length,
+      completeSets: this.trader.getCompleteSets().length,
+      aiProfile: this.aiProfileId,
+    };
+  }
+
+  /**
+   * Open orders plus the most recent closed ones, newest first (dashboard + /api/orders)
+   */
+  getOrders(includeClosed = true): OrderSnapshot[] {
+    const byRecent = (a: ManagedOrder, b: ManagedOrder) => b.updatedAt - a.updatedAt;
+    const open = this.trader.orders.list({ active: true });
+    const closed = includeClosed ? this.trader.orders.list({ active: false }).sort(byRecent).slice(0, 50) : [];
+    return [...open, ...closed].sort(byRecent).map((o) => this.trader.orders.snapshot(o));
+  }
+
+  private send(type: string, data: any): void {
+    this.broadcast(type, data, this.series.id);
+  }
+
+  private sendTradeRecord(record: TradeRecord): void {
+    this.send('trade', {
+      id: `${Date.now()}-${record.tokenId}`,
+      timestamp: record.timestamp.getTime(),
+      market: record.slug || record.tokenId,
+      outcome: record.outcome,
+      side: record.side,
+      price: record.price,
+      size: record.size,
+      pnl: record.pnl,
+    });
+  }
+
+  // The spot aggregator only tracks BTC; other assets run without a spot reference
+  private getSpot(): number | null {
+    return this.series.asset === 'btc' ? rtdsPriceFeed.getLatestPrice() : null;
+  }
+
+  private getSpotSources(): SpotSourceHealth[] {
+    return this.series.asset === 'btc' ? rtdsPriceFeed.getHealth() : [];
+  }
+
+  /**
+   * Reference (strike) price of the current market: the spot at its startDate, captured once from the
+   * spot history. Unknown when the feed wasn't running at the start (e.g. bot started mid-market).
+   */
+  private getStrikeContext(state: MarketState): StrikeContext | null {
+    const market = state.currentMarket;
+    if (this.series.asset !== 'btc' || !market) return null;
+
+    let reference = this.referencePrices.get(market.slug) ?? null;
+    if (reference == null) {
+      const offset = Date.now() - this.fetcher.getServerTime();
+      reference = rtdsPriceFeed.getPriceAt(new Date(market.startDate).getTime() + offset);
+      if (reference != null) {
+        this.referencePrices.set(market.slug, reference);
+        console.log(`[Strike][${this.series.id}] ${market.slug} reference price $${reference.toFixed(2)}`);
+      }
+    }
+    for (const slug of this.referencePrices.keys()) {
+      if (!this.markets.some((m) => m.slug === slug)) this.referencePrices.delete(slug);
+    }
+    return buildStrikeContext(market, reference, this.getSpot(), state.timeToEnd, rtdsPriceFeed.getVolatility());
+  }
+
+  // Build the journal context (slug, reason, AI/LLM analysis) for a signal's order
+  private buildTradeContext(state: MarketState, tokenId: string, reason: string, ensemble?: EnsembleDecision): TradeContext {
+    const market = (state.allMarkets || []).find((m) => m.tokens?.some((t) => t.tokenId === tokenId));
+    const scope: 'next' | 'current' =
+      tokenId === state.currentUpTokenId || tokenId === state.currentDownTokenId ? 'current' : 'next';
+    const ai = this.strategy.getLastAIAnalysis(scope);
+    const llm = this.strategy.getLastLLMAnalysis(scope);
+    const profile = this.analyzer.getProfile();
+    return {
+      slug: market?.slug,
+      reason,
+      analysis: {
+        ai: ai
+          ? {
+              recommendedOutcome: ai.recommendedOutcome,
+              confidence: ai.confidence,
+              reasons: ai.reasons,
+              profile: `${profile.id}@v${profile.version}`,
+              scores: {
+                technical: ai.signals.technical.score,
+                orderBook: ai.signals.orderBook.score,
+                sentiment: ai.signals.sentiment.score,
+                timing: ai.signals.timing.score,
+                flow: ai.signals.flow.score,
+              },
+            }
+          : undefined,
+        llm: llm
+          ? { recommendedOutcome: llm.recommendedOutcome, confidence: llm.confidence, reasoning: llm.reasoning }
+          : undefined,
+        ensemble,
+      },
+    };
+  }
+
+  /**
+   * Whether a live-feed token belongs to this series' current / next market
+   */
+  ownsToken(tokenId: string): boolean {
+    return this.trackedTokens.has(tokenId);
+  }
+
+  /**
+   * Upcoming moments (local ms) that need an evaluation even without price events:
+   * entry cut-off, bracket window and pre-start clear-out before each start, clear-out and end of each market
+   */
+  getScheduleTimes(): number[] {
+    const offset = Date.now() - this.fetcher.getServerTime();
+    const points: number[] = [];
+    for (const market of this.markets) {
+      const start = new Date(market.startDate).getTime();
+      const end = new Date(market.endDate).getTime();
+      points.push(
+        start - config.MIN_TIME_TO_TRADE_MS,
+        start - BRACKET_WINDOW_MS,
+        start - config.SELL_BEFORE_START_MS,
+        start,
+        end - config.SELL_BEFORE_START_MS,
+        end
+      );
+    }
+    const now = Date.now();
+    return points
+      .filter((p) => Number.isFinite(p))
+      .map((p) => p + offset)
+      .filter((t) => t > now)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Background pass: refresh the market list, reconcile orders, sync balances and settle resolved markets
+   */
+  async reconcile(): Promise<void> {
+    try {
+      await this.refreshMarkets();
+      const state = this.fetcher.buildMarketState(this.markets);
+      if (!state) return;
+
+      // Reconcile order states first so resting-order fills are booked before balances are synced
+      await this.trader.reconcileOrders([state.upTokenId, state.downTokenId, state.currentUpTokenId, state.currentDownTokenId].filter(Boolean));
+
+      // 從 API 同步持倉（只同步當前和下一個市場，避免 rate limit）
+      await this.trader.syncPositionsFromApi(state.upTokenId, state.downTokenId, state.upPrice, state.downPrice);
+      if (state.currentUpTokenId && state.currentDownTokenId) {
+        await delay(300);
+        await this.trader.syncPositionsFromApi(state.currentUpTokenId, state.currentDownTokenId, state.currentUpPrice, state.currentDownPrice);
+      }
+
+      // Settle positions in markets that have already resolved
+      for (const record of await this.settlement.check(state)) {
+        this.sendTradeRecord(record);
+      }
+
+      // Attach market outcomes to logged LLM decisions once their markets resolve
+      await llmAuditLog.resolvePending(this.fetcher);
+    } catch (error) {
+      console.error(`[Reconcile][${this.series.id}] error:`, error);
+    }
+  }
+
+  private async refreshMarkets(): Promise<void> {
+    this.marketsFetchedAt = Date.now();
+    this.markets = await this.fetcher.fetchUpcomingMarkets();
+  }
+
+  /**
+   * Market state from the cached list; re-fetches (rate-limited) when there is no upcoming market yet
+   */
+  private async getMarketState(): Promise<MarketState | null> {
+    let state = this.fetcher.buildMarketState(this.markets);
+    if ((!state || !state.nextMarket) && Date.now() - this.marketsFetchedAt >= MARKET_REFRESH_MIN_MS) {
+      await this.refreshMarkets();
+      state = this.fetcher.buildMarketState(this.markets);
+    }
+    return state;
+  }
+
+  /**
+   * Fast path, triggered by events: prices, books, exits / entries, arbitrage, quoting and dashboard broadcasts
+   */
+  async evaluate(): Promise<void> {
+    try {
+      const state = await this.getMarketState();
+
+      if (!state) {
+        console.log('[Evaluate] No market state');
+        this.send('market', null);
+        return;
+      }
+    
+      // console.log(`[Evaluate] Up: ${state.upPrice.toFixed(1)}¢, Down: ${state.downPrice.toFixed(1)}¢, timeToStart: ${Math.round(state.timeToStart/1000)}s`);
+      // console.log('[Evaluate] Tokens next(up/down)=%s/%s current(up/down)=%s/%s', state.upTokenId, state.downTokenId, state.currentUpTokenId, state.currentDownTokenId);
+
+      // Live price feed subscription
+      const tokenIdsToSub: string[] = [];
+      if (state.upTokenId) tokenIdsToSub.push(state.upTokenId);
+      if (state.downTokenId) tokenIdsToSub.push(state.downTokenId);
+      if (state.currentUpTokenId) tokenIdsToSub.push(state.currentUpTokenId);
+      if (state.currentDownTokenId) tokenIdsToSub.push(state.currentDownTokenId);
+      if (tokenIdsToSub.length > 0) {
+        livePriceFeed.retain(this.series.id, tokenIdsToSub);
+      }
+      this.trackedTokens = new Set(tokenIdsToSub);
+      const tradeFlows = livePriceFeed.getTradeFlows(tokenIdsToSub);
+      state.strike = this.getStrikeContext(state);
+
+      // Apply live prices to state immediately if available (use cents)
+      const liveSnapshot = livePriceFeed.getPricesFresh(10_000); // only use prices within 10s
+      const liveAll = livePriceFeed.getPrices();
+      const ageMap = livePriceFeed.getPriceAges();
+
+      // Auto-resubscribe if any tracked token is stale
+      const staleTokens = tokenIdsToSub.filter((tokenId) => {
+        const age = ageMap[tokenId];
+        return age !== undefined && age > 10_000; // older than 10s
+      });
+      if (staleTokens.length > 0) {
+        livePriceFeed.retain(this.series.id, tokenIdsToSub);
+        // Seed stale tokens with latest state prices to unblock
+        if (state.upTokenId && state.upPrice != null) livePriceFeed.setPrice(state.upTokenId, state.upPrice / 100, true);
+        if (state.downTokenId && state.downPrice != null) livePriceFeed.setPrice(state.downTokenId, state.downPrice / 100, true);
+        if (state.currentUpTokenId && state.currentUpPrice != null) livePriceFeed.setPrice(state.currentUpTokenId, state.currentUpPrice / 100, true);
+        if (state.currentDownTokenId && state.currentDownPrice != null) livePriceFeed.setPrice(state.currentDownTokenId, state.currentDownPrice / 100, true);
+
+        // If everything was stale (no fresh prices), force a WS reconnect
+        if (Object.keys(liveSnapshot).length === 0) {
+          livePriceFeed.forceReconnect();
+        }
+      }
+
+      // Force reconnect if any tracked token age exceeds 15s even if snapshot not empty
+      const maxAge = Math.max(...tokenIdsToSub.map((t) => ageMap[t] ?? 0), 0);
+      if (maxAge > 15_000) {
+        livePriceFeed.forceReconnect();
+      }
+
+      if (state.upTokenId && liveSnapshot[state.upTokenId] != null) state.upPrice = liveSnapshot[state.upTokenId];
+      if (state.downTokenId && liveSnapshot[state.downTokenId] != null) state.downPrice = liveSnapshot[state.downTokenId];
+      if (state.currentUpTokenId && liveSnapshot[state.currentUpTokenId] != null) state.currentUpPrice = liveSnapshot[state.currentUpTokenId];
+      if (state.currentDownTokenId && liveSnapshot[state.currentDownTokenId] != null) state.currentDownPrice = liveSnapshot[state.currentDownTokenId];
+
+      // Seed live feed with latest API prices only if not already present (avoid re-forcing 50/50)
+      if (state.upTokenId) livePriceFeed.setPrice(state.upTokenId, state.upPrice, false);
+      if (state.downTokenId) livePriceFeed.setPrice(state.downTokenId, state.downPrice, false);
+      if (state.currentUpTokenId) livePriceFeed.setPrice(state.currentUpTokenId, state.currentUpPrice, false);
+      if (state.currentDownTokenId) livePriceFeed.setPrice(state.currentDownTokenId, state.currentDownPrice, false);
+
+      // Broadcast market state (prices will be updated after order book fetch)
+      // Initial broadcast with API prices; will be updated below after order book mids computed
+      let liveUp = state.upPrice;
+      let liveDown = state.downPrice;
+      let liveCurrentUp = state.currentUpPrice;
+      let liveCurrentDown = state.currentDownPrice;
+
+      // Update position prices (balances are synced by the background reconcile pass)
+      const positions = this.trader.getPositions();
+      this.strategy.updatePositionPrices(positions, state);
+
+      // Order books for every token we may trade or hold: paper fills, recordings, arbitrage and quotes need them
+      // regardless of AI; the AI / quoting / arb gate below only decides whether the strategy analyses them
+      const quoting = !!this.strategy.getEntryStrategy().quoting;
+      const snapshotBooks: Record<string, OrderBook> = {};
+      const restTokens = new Set<string>();
+      const bookTokens = new Set<string>(
+        [
+          state.upTokenId,
+          state.downTokenId,
+          state.currentUpTokenId,
+          state.currentDownTokenId,
+          ...Array.from(positions.values()).filter((pos) => pos.size > 0).map((pos) => pos.tokenId),
+          ...(config.PAPER_TRADING ? paperExchange.getOpenOrders().map((order) => order.tokenId) : []),
+        ].filter(Boolean)
+      );
+      // Real-time L2 books from the WS feed; REST only for tokens without a local book yet
+      await Promise.all(
+        Array.from(bookTokens).map(async (tokenId) => {
+          const live = livePriceFeed.getOrderBook(tokenId);
+          if (live) {
+            snapshotBooks[tokenId] = live;
+            return;
+          }
+          try {
+            snapshotBooks[tokenId] = normalizeOrderBook(await this.fetcher.getOrderBook(tokenId));
+            restTokens.add(tokenId);
+          } catch (e) {
+            console.log('[Books] Failed to fetch order book %s: %s', tokenId, (e as Error).message);
+          }
+        })
+      );
+
+      // WS books already drive live prices; REST mids stand in only where the local book is missing
+      const getMid = (ob: OrderBook) => {
+        const bid = ob.bids[0]?.price;
+        const ask = ob.asks[0]?.price;
+        if (bid == null || ask == null) return null;
+        const spreadCents = (ask - bid) * 100;
+        if (!isFinite(spreadCents) || spreadCents <= 0 || spreadCents > 20) return null; // ignore super wide books
+        return ((bid + ask) / 2) * 100;
+      };
+      for (const tokenId of restTokens) {
+        const mid = getMid(snapshotBooks[tokenId]);
+        if (mid !== null) livePriceFeed.setPrice(tokenId, mid, true);
+      }
+
+      // Paper mode fills against the same books the strategy sees (before any stop-loss / exit below can sell)
+      if (config.PAPER_TRADING) {
+        for (const [tokenId, book] of Object.entries(snapshotBooks)) {
+          paperExchange.updateBook(tokenId, book);
+        }
+      }
+
+      if (config.AI_ENABLED || quoting || config.ARB_ENABLED) {
+        try {
+          const currentEnabled = config.ALLOW_CURRENT_MARKET_TRADING && state.currentUpTokenId && state.currentDownTokenId;
+          const nextUpBook = snapshotBooks[state.upTokenId];
+          const nextDownBook = snapshotBooks[state.downTokenId];
+          if (!nextUpBook || !nextDownBook) throw new Error('next market books unavailable');
+          this.strategy.setOrderBooks(
+            nextUpBook,
+            nextDownBook,
+            currentEnabled ? snapshotBooks[state.currentUpTokenId] : undefined,
+            currentEnabled ? snapshotBooks[state.currentDownTokenId] : undefined
+          );
+
+          // Refresh live prices after setting from order books
+          const updatedLivePrices = livePriceFeed.getPrices();
+          this.strategy.setLivePrices(updatedLivePrices);
+          await this.trader.checkStopLossWatch(updatedLivePrices);
+
+          // Attach BTC spot (median of healthy sources; null when all are stale) for analyses
+          this.strategy.setBtcSpot(this.getSpot());
+
+          // Rolling volume / VWAP / aggressor imbalance from the market WS trade tape
+          this.strategy.setTradeFlow(tradeFlows);
+
+          // Update live price vars for broadcast
+          const wsUp = updatedLivePrices[state.upTokenId];
+          const wsDown = updatedLivePrices[state.downTokenId];
+          const wsCurUp = state.currentUpTokenId ? updatedLivePrices[state.currentUpTokenId] : undefined;
+          const wsCurDown = state.currentDownTokenId ? updatedLivePrices[state.currentDownTokenId] : undefined;
+
+          // Prefer fresh WS; if missing, fall back to mids set earlier
+          liveUp = wsUp ?? state.upPrice;
+          liveDown = wsDown ?? state.downPrice;
+          liveCurrentUp = wsCurUp ?? state.currentUpPrice;
+          liveCurrentDown = wsCurDown ?? state.currentDownPrice;
+          console.log('[Live Prices] Final broadcast: up=%.2f down=%.2f curUp=%.2f curDown=%.2f (wsUp=%s wsDown=%s)', 
+            liveUp, liveDown, liveCurrentUp, liveCurrentDown,
+            wsUp != null ? 'ws' : 'fallback', wsDown != null ? 'ws' : 'fallback');
+
+          // Sanity: log if sum drifts too far from parity (advisory only)
+          const sum = (liveUp || 0) + (liveDown || 0);
+          if (sum < 90 || sum > 110) {
+            console.warn('[Live Prices] parity warning sum=%.2f (up=%.2f down=%.2f)', sum, liveUp, liveDown);
+          }
+
+          // Pre-compute AI analyses for both scopes
+          this.strategy.refreshAIAnalyses(state, positions);
+        
+          // Update AI analyzer with trade history for win rate calculation
+          this.analyzer.updateTradeHistory(this.trader.getTradeHistory());
+        
+          // Trigger LLM analysis (non-blocking); provider availability is checked per voter in triggerLLMAnalysis
+          const now = Date.now();
+          if (config.LLM_ENABLED) {
+            if (now - this.lastLlmRun >= config.LLM_POLL_INTERVAL_MS) {
+              this.strategy.triggerLLMAnalysis(state, positions);
+              this.lastLlmRun = now;
+            }
+          }
+        } catch (e) {
+          console.log('[AI] Failed to fetch order books:', (e as Error).message);
+        }
+      }
+
+      // Broadcast market state with live prices (after order book mids computed)
+      this.send('market', {
+        currentMarket: state.currentMarket?.question || null,
+        nextMarket: state.nextMarket?.question || null,
+        upPrice: liveUp,
+        downPrice: liveDown,
+        currentUpPrice: liveCurrentUp,
+        currentDownPrice: liveCurrentDown,
+        timeToStart: state.timeToStart,
+        timeToEnd: state.timeToEnd,
+        btcSpot: this.getSpot(),
+        btcSpotSources: this.getSpotSources(),
+        strike: state.strike ?? null,
+        uptimeSeconds: this.sessionStart ? Math.floor((Date.now() - this.sessionStart) / 1000) : 0,
+      });
+      console.log('[Market broadcast] up=%d down=%d curUp=%d curDown=%d', liveUp, liveDown, liveCurrentUp, liveCurrentDown);
+
+      // Persist this evaluation's inputs for backtesting / post-mortems (books are loaded every tick, so replays can fill)
+      marketRecorder.record({
+        timestamp: this.fetcher.getServerTime(),
+        slug: state.nextMarket?.slug || state.currentMarket?.slug || '',
+        state,
+        orderBooks: snapshotBooks,
+        livePrices: livePriceFeed.getPrices(),
+        btcSpot: this.getSpot(),
+        tradeFlows,
+      });
+
+      // Broadcast positions (with market name)
+      const tokenToMarket = new Map<string, string>();
+      for (const mkt of state.allMarkets || []) {
+        for (const t of mkt.tokens || []) {
+          if (t?.tokenId) tokenToMarket.set(t.tokenId, mkt.question || mkt.slug || '');
+        }
+      }
+
+      const positionsArray = Array.from(positions.values())
+        .filter((pos) => pos.size >= 0.1)
+        .map((pos) => {
+          const marketName = tokenToMarket.get(pos.tokenId) || state.currentMarket?.question || state.nextMarket?.question || '';
+          const returnPct = pos.avgBuyPrice > 0 ? (pos.currentPrice - pos.avgBuyPrice) / pos.avgBuyPrice : 0;
+          const returnUsd = ((pos.currentPrice - pos.avgBuyPrice) * pos.size) / 100;
+          return {
+            tokenId: pos.tokenId,
+            outcome: pos.outcome,
+            size: pos.size,
+            avgBuyPrice: pos.avgBuyPrice,
+            currentPrice: pos.currentPrice,
+            unrealizedPnl: (pos.currentPrice - pos.avgBuyPrice) * pos.size,
+            returnPct,
+            returnUsd,
+            market: marketName,
+          };
+        });
+      this.send('positions', positionsArray);
+      this.send('orders', this.getOrders());
+
+      // 當前市場 ID（僅供日誌使用）
+      const marketId = state.nextMarket?.conditionId || state.currentMarket?.conditionId || '';
+
+      // 開盤前掛出 TP/SL bracket，避免過早掛單（僅 next/pre-start）
+      if (state.timeToStart <= BRACKET_WINDOW_MS && state.timeToStart >= -2_000) {
+        console.log('[Bracket] window hit timeToStart=%dms positions=%d', state.timeToStart, positions.size);
+        for (const [tokenId, pos] of positions) {
+          if (pos.size > 0 && !config.PAPER_TRADING) {
+            const placed = await this.trader.placeBracketOrders(tokenId, pos.outcome, pos.avgBuyPrice, pos.currentPrice, state.timeToStart);
+            console.log('[Bracket] token=%s outcome=%s size=%.2f placed=%s', tokenId, pos.outcome, pos.size, placed);
+          }
+        }
+      }
+
+      // Ensure live prices are warm/fresh before trading
+      const warmMaxAge = 15_000; // default 15s freshness
+      const endgameTightAge = 5_000; // tighten near market end
+      const isNearEnd = state.currentMarket && state.timeToEnd > 0 && state.timeToEnd <= config.SELL_BEFORE_START_MS + 30_000; // within clear-out window + 30s
+      const freshnessLimit = isNearEnd ? endgameTightAge : warmMaxAge;
+
+      const requiredTokens = [state.upTokenId, state.downTokenId].filter(Boolean) as string[];
+      const staleForTrade = requiredTokens.filter((t) => {
+        const age = ageMap[t];
+        return age === undefined || age > freshnessLimit;
+      });
+      if (staleForTrade.length > 0) {
+        console.warn('[Trade] prices not warm for', staleForTrade.join(','), `limit=${freshnessLimit}ms`, 'isNearEnd=', isNearEnd, '-> trigger loss exits if any');
+
+        // Even with stale prices, protect downside: force loss exits using last known prices
+        for (const [tokenId, pos] of positions) {
+          if (pos.size <= 0) continue;
+          const loss = pos.avgBuyPrice - pos.currentPrice;
+          if (loss >= config.STOP_LOSS) {
+            console.warn(`[StalePrice LossExit] ${pos.outcome} loss=${loss.toFixed(2)}¢ >= stopLoss=${config.STOP_LOSS}¢, force market sell`);
+            await this.trader.forceLiquidate(tokenId, pos.outcome, pos.currentPrice, this.buildTradeContext(state, tokenId, 'stale-price-loss-exit'));
+          }
+        }
+        await this.marketMaker.pullAll('prices not warm');
+        return;
+      }
+
+      // Generate and execute signals
+      const signals = this.strategy.generateSignals(state, positions);
+
+      for (const signal of signals) {
+        console.log(`📍 Signal: ${signal.action} ${signal.outcome} - ${signal.reason}`);
+        const context = this.buildTradeContext(state, signal.tokenId, signal.reason, signal.ensemble);
+
+        let success = false;
+        if (signal.action === 'BUY' && this.paused) {
+          console.log(`[跳過] ${this.series.id} 已達虧損上限，暫停買入`);
+          continue;
+        }
+        if (signal.action === 'BUY') {
+          // 防止重複購買: 檢查鎖和市場 ID
+          if (this.buyingInProgress) {
+            console.log(`[跳過] 購買中，等待上一筆完成`);
+            continue;
+          }
+          this.buyingInProgress = true;
+          try {
+            success = await this.trader.buy(signal.tokenId, signal.outcome, signal.price, signal.size, context);
+          } finally {
+            this.buyingInProgress = false;
+          }
+        } else if (signal.action === 'SELL') {
+          // 檢查是否是強制清倉（開局前）
+          if (signal.reason?.includes('開局清倉')) {
+            success = await this.trader.forceLiquidate(signal.tokenId, signal.outcome, signal.price, context);
+          } else {
+            success = await this.trader.sell(signal.tokenId, signal.outcome, signal.price, signal.size, signal.reason || 'signal', context);
+          }
+        }
+
+        if (success) {
+          // Broadcast trade using the most recent executed record from trader history (captures actual fill price/size)
+          const tradeMarket = tokenToMarket.get(signal.tokenId) || state.nextMarket?.question || state.currentMarket?.question || 'Unknown';
+          const history = this.trader.getTradeHistory();
+          const last = history[history.length - 1];
+          this.send('trade', {
+            id: Date.now().toString(),
+            timestamp: last?.timestamp ? new Date(last.timestamp).getTime() : Date.now(),
+            market: tradeMarket,
+            outcome: last?.outcome || signal.outcome,
+            side: last?.side || signal.action,
+            price: last?.price != null ? last.price : signal.price,
+            size: last?.size != null ? last.size : signal.size,
+            pnl: last?.pnl,
+          });
+        }
+      }
+
+      // Complete-set arbitrage is independent of the entry strategy and runs on the same books
+      if (config.ARB_ENABLED && !this.paused) {
+        for (const execution of await this.arbitrage.check(state, snapshotBooks)) {
+          this.send('arbitrage', execution);
+          execution.records.forEach((record) => this.sendTradeRecord(record));
+        }
+      }
+
+      // Two-sided quoting runs after the shared exit layer; any other strategy (or a paused series) pulls quotes
+      if (quoting && !this.paused) {
+        await this.marketMaker.update(state, snapshotBooks);
+      } else {
+        await this.marketMaker.pullAll(this.paused ? 'series paused' : 'strategy switched');
+      }
+
+      // Broadcast PnL stats + wallet balance
+      const history = this.trader.getTradeHistory();
+      const sells = history.filter((t) => t.side !== 'BUY'); // SELL + SETTLEMENT + MERGE
+      const totalPnl = sells.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const totalCost = sells.reduce((sum, t) => sum + (t.costCents || 0), 0);
+      const totalPnlPct = totalCost > 0 ? (totalPnl / totalCost) * 100 : 0;
+      const wins = sells.filter((t) => (t.pnl || 0) > 0).length;
+      const totalTrades = sells.length;
+
+      this.send('pnl', {
+        totalPnl,
+        totalTrades,
+        totalCost,
+        totalPnlPct,
+        winRate: totalTrades > 0 ? (wins / totalTrades) * 100 : 0,
+      });
+
+      // Update loss streak cooldowns
+      const lossState = riskManager.computeLossState(history, Date.now());
+      this.strategy.setLossStreaks(lossState);
+
+      this.send('cooldown', lossState);
+
+      // Broadcast recent trades (last 200) with numeric timestamps for charts
+      const recentTrades = history.slice(-200).map((t) => ({
+        ...t,
+        timestamp: typeof t.timestamp === 'number' ? t.timestamp : new Date(t.timestamp).getTime(),
+        pnl: t.pnl ?? 0,
+      }));
+      this.send('trades', recentTrades);
+
+      // Pause this series if its own loss limit is breached (per session)
+      const sessionPnl = this.getSessionPnl();
+      if (this.limits.lossLimitCents && sessionPnl <= -Math.abs(this.limits.lossLimitCents)) {
+        console.warn(`[Risk][${this.series.id}] Session PnL ${sessionPnl.toFixed(2)}¢ <= -${this.limits.lossLimitCents}¢, pausing series.`);
+        this.paused = true;
+        await this.marketMaker.pullAll('series paused');
+        return;
+      }
+
+      // Why candidate entries were blocked this session (dashboard)
+      this.send('gates', this.strategy.getGateStats());
+
+      // Broadcast AI analysis (next + current)
+      if (config.AI_ENABLED) {
+        const scopes: Array<'next' | 'current'> = ['next', 'current'];
+        for (const scope of scopes) {
+          const aiAnalysis = this.strategy.getLastAIAnalysis(scope);
+          if (aiAnalysis) {
+            this.send('ai_analysis', {
+              scope,
+              shouldTrade: aiAnalysis.shouldTrade,
+              recommendedOutcome: aiAnalysis.recommendedOutcome,
+              confidence: aiAnalysis.confidence,
+              recommendedSize: aiAnalysis.recommendedSize,
+              reasons: aiAnalysis.reasons,
+              blockedBy: aiAnalysis.blockedBy ?? null,
+              signals: {
+                technical: aiAnalysis.signals.technical.score,
+                orderBook: aiAnalysis.signals.orderBook.score,
+                sentiment: aiAnalysis.signals.sentiment.score,
+                timing: aiAnalysis.signals.timing.score,
+                flow: aiAnalysis.signals.flow.score,
+              },
+            });
+          }
+        }
+      }
+
+      // Broadcast LLM analysis (next + current)
+      if (config.LLM_ENABLED) {
+        const scopes: Array<'next' | 'current'> = ['next', 'current'];
+        for (const scope of scopes) {
+          const llmAnalysis = this.strategy.getLastLLMAnalysis(scope);
+          if (llmAnalysis) {
+            this.send('llm_analysis', { scope, ...llmAnalysis });
+          }
+        }
+      } else {
+        // Clear cached outputs to avoid stale broadcasts when disabled
+        this.strategy.clearLLMAnalysis();
+      }
+    } catch (error) {
+      console.error(`[Evaluate][${this.series.id}] error:`, error);
+    }
+  }
+}
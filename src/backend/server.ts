@@ -4,14 +4,20 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
-import { MarketFetcher } from '../market-fetcher.js';
-import { Trader } from '../trader.js';
-import { Strategy } from '../strategy.js';
 import { config } from '../config.js';
-import { aiAnalyzer } from '../ai-analyzer.js';
-import { llmAnalyzer } from '../llm-analyzer.js';
 import { livePriceFeed } from './live-price-feed.js';
 import { rtdsPriceFeed } from './rtds-price-feed.js';
+import { marketRecorder } from './market-recorder.js';
+import { userChannel } from '../user-channel.js';
+import { SeriesRunner } from './series-runner.js';
+import { TradingEngine } from './trading-engine.js';
+import { getEnabledSeries } from '../series.js';
+import { hasStrategy, listStrategies } from '../strategies/registry.js';
+import { aiProfiles } from '../ai-profile.js';
+import { listLLMProviders, llmProviders } from '../llm-providers/registry.js';
+import { llmAuditLog } from '../llm-audit-log.js';
+import { llmAnalyzer } from '../llm-analyzer.js';
+import { ensembleProviders, voterAccuracy } from '../ensemble.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -29,23 +35,14 @@ const wss = new WebSocketServer({ server, path: '/ws' });
 
 // Bot state
 let botRunning = false;
-let botInterval: NodeJS.Timeout | null = null;
 let botStartTime: number | null = null;
-const fetcher = new MarketFetcher();
-const trader = new Trader();
-const strategy = new Strategy();
-let lastLlmRun = 0;
-
-// 購買鎖 - 防止同一市場重複購買
-let buyingInProgress = false;
-// Removed single-market lock to allow multiple concurrent markets
 
 // Connected clients
 const clients = new Set<WebSocket>();
 
-// Broadcast to all clients
-function broadcast(type: string, data: any) {
-  const message = JSON.stringify({ type, data });
+// Broadcast to all clients (series-scoped messages carry the series id)
+function broadcast(type: string, data: any, series?: string) {
+  const message = JSON.stringify({ type, series, data });
   clients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
@@ -53,433 +50,35 @@ function broadcast(type: string, data: any) {
   });
 }
 
-// Helper to add delay between API calls
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Bot tick function
-async function tick() {
-  try {
-    const state = await fetcher.getMarketState();
-    await delay(500); // Rate limit protection
-
-    if (!state) {
-      console.log('[Tick] No market state');
-      broadcast('market', null);
-      return;
-    }
-    
-    // console.log(`[Tick] Up: ${state.upPrice.toFixed(1)}¢, Down: ${state.downPrice.toFixed(1)}¢, timeToStart: ${Math.round(state.timeToStart/1000)}s`);
-    // console.log('[Tick] Tokens next(up/down)=%s/%s current(up/down)=%s/%s', state.upTokenId, state.downTokenId, state.currentUpTokenId, state.currentDownTokenId);
-
-    // Live price feed subscription
-    const tokenIdsToSub: string[] = [];
-    if (state.upTokenId) tokenIdsToSub.push(state.upTokenId);
-    if (state.downTokenId) tokenIdsToSub.push(state.downTokenId);
-    if (state.currentUpTokenId) tokenIdsToSub.push(state.currentUpTokenId);
-    if (state.currentDownTokenId) tokenIdsToSub.push(state.currentDownTokenId);
-    if (tokenIdsToSub.length > 0) {
-      livePriceFeed.prune(tokenIdsToSub);
-      livePriceFeed.subscribe(tokenIdsToSub);
-    }
-
-    // Apply live prices to state immediately if available (use cents)
-    const liveSnapshot = livePriceFeed.getPricesFresh(10_000); // only use prices within 10s
-    const liveAll = livePriceFeed.getPrices();
-    const ageMap = livePriceFeed.getPriceAges();
-
-    // Auto-resubscribe if any tracked token is stale
-    const staleTokens = tokenIdsToSub.filter((tokenId) => {
-      const age = ageMap[tokenId];
-      return age !== undefined && age > 10_000; // older than 10s
-    });
-    if (staleTokens.length > 0) {
-      livePriceFeed.prune(tokenIdsToSub);
-      livePriceFeed.subscribe(tokenIdsToSub);
-      // Seed stale tokens with latest state prices to unblock
-      if (state.upTokenId && state.upPrice != null) livePriceFeed.setPrice(state.upTokenId, state.upPrice / 100, true);
-      if (state.downTokenId && state.downPrice != null) livePriceFeed.setPrice(state.downTokenId, state.downPrice / 100, true);
-      if (state.currentUpTokenId && state.currentUpPrice != null) livePriceFeed.setPrice(state.currentUpTokenId, state.currentUpPrice / 100, true);
-      if (state.currentDownTokenId && state.currentDownPrice != null) livePriceFeed.setPrice(state.currentDownTokenId, state.currentDownPrice / 100, true);
-
-      // If everything was stale (no fresh prices), force a WS reconnect
-      if (Object.keys(liveSnapshot).length === 0) {
-        livePriceFeed.forceReconnect();
-      }
-    }
-
-    // Force reconnect if any tracked token age exceeds 15s even if snapshot not empty
-    const maxAge = Math.max(...tokenIdsToSub.map((t) => ageMap[t] ?? 0), 0);
-    if (maxAge > 15_000) {
-      livePriceFeed.forceReconnect();
-    }
+// One runner per enabled series, each with its own fetcher / trader / strategy
+const runners = getEnabledSeries().map((series) => new SeriesRunner(series, broadcast));
 
-    if (state.upTokenId && liveSnapshot[state.upTokenId] != null) state.upPrice = liveSnapshot[state.upTokenId];
-    if (state.downTokenId && liveSnapshot[state.downTokenId] != null) state.downPrice = liveSnapshot[state.downTokenId];
-    if (state.currentUpTokenId && liveSnapshot[state.currentUpTokenId] != null) state.currentUpPrice = liveSnapshot[state.currentUpTokenId];
-    if (state.currentDownTokenId && liveSnapshot[state.currentDownTokenId] != null) state.currentDownPrice = liveSnapshot[state.currentDownTokenId];
-
-    // Seed live feed with latest API prices only if not already present (avoid re-forcing 50/50)
-    if (state.upTokenId) livePriceFeed.setPrice(state.upTokenId, state.upPrice, false);
-    if (state.downTokenId) livePriceFeed.setPrice(state.downTokenId, state.downPrice, false);
-    if (state.currentUpTokenId) livePriceFeed.setPrice(state.currentUpTokenId, state.currentUpPrice, false);
-    if (state.currentDownTokenId) livePriceFeed.setPrice(state.currentDownTokenId, state.currentDownPrice, false);
-
-    // Broadcast market state (prices will be updated after order book fetch)
-    // Initial broadcast with API prices; will be updated below after order book mids computed
-    let liveUp = state.upPrice;
-    let liveDown = state.downPrice;
-    let liveCurrentUp = state.currentUpPrice;
-    let liveCurrentDown = state.currentDownPrice;
-
-    // 從 API 同步持倉（只同步當前和下一個市場，避免 rate limit）
-    await trader.syncPositionsFromApi(state.upTokenId, state.downTokenId, state.upPrice, state.downPrice);
-    await delay(300);
-    if (state.currentUpTokenId && state.currentDownTokenId) {
-      await trader.syncPositionsFromApi(state.currentUpTokenId, state.currentDownTokenId, state.currentUpPrice, state.currentDownPrice);
-      await delay(300);
-    }
-
-    // Update position prices
-    const positions = trader.getPositions();
-    strategy.updatePositionPrices(positions, state);
-
-    // Fetch order books for AI analysis (if AI enabled)
-    if (config.AI_ENABLED) {
-      try {
-        const currentEnabled = config.ALLOW_CURRENT_MARKET_TRADING && state.currentUpTokenId && state.currentDownTokenId;
-
-        const [upOrderBook, downOrderBook, currentUpOrderBook, currentDownOrderBook] = await Promise.all([
-          fetcher.getOrderBook(state.upTokenId),
-          fetcher.getOrderBook(state.downTokenId),
-          currentEnabled ? fetcher.getOrderBook(state.currentUpTokenId!) : Promise.resolve(null),
-          currentEnabled ? fetcher.getOrderBook(state.currentDownTokenId!) : Promise.resolve(null),
-        ]);
-        await delay(300);
-        
-        // Normalize order book format
-        const normalizeOrderBook = (ob: any) => ({
-          bids: (ob?.bids || []).map((b: any) => ({ price: parseFloat(b.price), size: parseFloat(b.size) })),
-          asks: (ob?.asks || []).map((a: any) => ({ price: parseFloat(a.price), size: parseFloat(a.size) })),
-        });
-        
-        strategy.setOrderBooks(
-          normalizeOrderBook(upOrderBook),
-          normalizeOrderBook(downOrderBook),
-          currentEnabled ? normalizeOrderBook(currentUpOrderBook) : undefined,
-          currentEnabled ? normalizeOrderBook(currentDownOrderBook) : undefined,
-        );
-
-        // Compute mids from order books as fallback for live prices
-        const getMid = (ob: any) => {
-          const bid = ob?.bids?.[0]?.price;
-          const ask = ob?.asks?.[0]?.price;
-          if (bid == null || ask == null) return null;
-          const bidNum = parseFloat(bid);
-          const askNum = parseFloat(ask);
-          const spreadCents = (askNum - bidNum) * 100;
-          if (!isFinite(spreadCents) || spreadCents <= 0 || spreadCents > 20) return null; // ignore super wide books
-          return ((bidNum + askNum) / 2) * 100;
-        };
-        const upMid = getMid(upOrderBook);
-        const downMid = getMid(downOrderBook);
-        // Use mids only when spread is sane; otherwise keep last/live
-        if (upMid !== null && state.upTokenId) livePriceFeed.setPrice(state.upTokenId, upMid, true);
-        if (downMid !== null && state.downTokenId) livePriceFeed.setPrice(state.downTokenId, downMid, true);
-        if (currentEnabled) {
-          const curUpMid = getMid(currentUpOrderBook);
-          const curDownMid = getMid(currentDownOrderBook);
-          if (curUpMid !== null && state.currentUpTokenId) livePriceFeed.setPrice(state.currentUpTokenId, curUpMid, true);
-          if (curDownMid !== null && state.currentDownTokenId) livePriceFeed.setPrice(state.currentDownTokenId, curDownMid, true);
-        }
-
-        // Refresh live prices after setting from order books
-        const updatedLivePrices = livePriceFeed.getPrices();
-        strategy.setLivePrices(updatedLivePrices);
-        await trader.checkStopLossWatch(updatedLivePrices);
-
-        // Attach BTC spot (RTDS) for analyses
-        const btcSpot = rtdsPriceFeed.getLatestPrice();
-        strategy.setBtcSpot(btcSpot);
-
-        // Update live price vars for broadcast
-        const wsUp = updatedLivePrices[state.upTokenId];
-        const wsDown = updatedLivePrices[state.downTokenId];
-        const wsCurUp = state.currentUpTokenId ? updatedLivePrices[state.currentUpTokenId] : undefined;
-        const wsCurDown = state.currentDownTokenId ? updatedLivePrices[state.currentDownTokenId] : undefined;
-
-        // Prefer fresh WS; if missing, fall back to mids set earlier
-        liveUp = wsUp ?? state.upPrice;
-        liveDown = wsDown ?? state.downPrice;
-        liveCurrentUp = wsCurUp ?? state.currentUpPrice;
-        liveCurrentDown = wsCurDown ?? state.currentDownPrice;
-        console.log('[Live Prices] Final broadcast: up=%.2f down=%.2f curUp=%.2f curDown=%.2f (wsUp=%s wsDown=%s)', 
-          liveUp, liveDown, liveCurrentUp, liveCurrentDown,
-          wsUp != null ? 'ws' : 'fallback', wsDown != null ? 'ws' : 'fallback');
-
-        // Sanity: log if sum drifts too far from parity (advisory only)
-        const sum = (liveUp || 0) + (liveDown || 0);
-        if (sum < 90 || sum > 110) {
-          console.warn('[Live Prices] parity warning sum=%.2f (up=%.2f down=%.2f)', sum, liveUp, liveDown);
-        }
-
-        // Pre-compute AI analyses for both scopes
-        strategy.refreshAIAnalyses(state, positions);
-        
-        // Update AI analyzer with trade history for win rate calculation
-        aiAnalyzer.updateTradeHistory(trader.getTradeHistory());
-        
-        // Trigger LLM analysis (non-blocking)
-        const now = Date.now();
-        if (config.LLM_ENABLED && llmAnalyzer.isAvailable()) {
-          if (now - lastLlmRun >= (config as any).LLM_POLL_INTERVAL_MS) {
-            strategy.triggerLLMAnalysis(state, positions);
-            lastLlmRun = now;
-          }
-        }
-      } catch (e) {
-        console.log('[AI] Failed to fetch order books:', (e as Error).message);
-      }
-    }
-
-    // Broadcast market state with live prices (after order book mids computed)
-    broadcast('market', {
-      currentMarket: state.currentMarket?.question || null,
-      nextMarket: state.nextMarket?.question || null,
-      upPrice: liveUp,
-      downPrice: liveDown,
-      currentUpPrice: liveCurrentUp,
-      currentDownPrice: liveCurrentDown,
-      timeToStart: state.timeToStart,
-      timeToEnd: state.timeToEnd,
-      btcSpot: rtdsPriceFeed.getLatestPrice(),
-      uptimeSeconds: botStartTime ? Math.floor((Date.now() - botStartTime) / 1000) : 0,
-    });
-    console.log('[Market broadcast] up=%d down=%d curUp=%d curDown=%d', liveUp, liveDown, liveCurrentUp, liveCurrentDown);
-
-    // Broadcast positions (with market name)
-    const tokenToMarket = new Map<string, string>();
-    for (const mkt of state.allMarkets || []) {
-      for (const t of mkt.tokens || []) {
-        if (t?.tokenId) tokenToMarket.set(t.tokenId, mkt.question || mkt.slug || '');
-      }
-    }
-
-    const positionsArray = Array.from(positions.values())
-      .filter((pos) => pos.size >= 0.1)
-      .map((pos) => {
-        const marketName = tokenToMarket.get(pos.tokenId) || state.currentMarket?.question || state.nextMarket?.question || '';
-        const returnPct = pos.avgBuyPrice > 0 ? (pos.currentPrice - pos.avgBuyPrice) / pos.avgBuyPrice : 0;
-        const returnUsd = ((pos.currentPrice - pos.avgBuyPrice) * pos.size) / 100;
-        return {
-          tokenId: pos.tokenId,
-          outcome: pos.outcome,
-          size: pos.size,
-          avgBuyPrice: pos.avgBuyPrice,
-          currentPrice: pos.currentPrice,
-          unrealizedPnl: (pos.currentPrice - pos.avgBuyPrice) * pos.size,
-          returnPct,
-          returnUsd,
-          market: marketName,
-        };
-      });
-    broadcast('positions', positionsArray);
-
-    // 當前市場 ID（僅供日誌使用）
-    const marketId = state.nextMarket?.conditionId || state.currentMarket?.conditionId || '';
-
-    // 開盤前掛出 TP/SL bracket，避免過早掛單（僅 next/pre-start）
-    if (state.timeToStart <= 12_000 && state.timeToStart >= -2_000) {
-      console.log('[Bracket] window hit timeToStart=%dms positions=%d', state.timeToStart, positions.size);
-      for (const [tokenId, pos] of positions) {
-        if (pos.size > 0 && !config.PAPER_TRADING) {
-          const placed = await trader.placeBracketOrders(tokenId, pos.outcome, pos.avgBuyPrice, pos.currentPrice, state.timeToStart);
-          console.log('[Bracket] token=%s outcome=%s size=%.2f placed=%s', tokenId, pos.outcome, pos.size, placed);
-          await delay(150);
-        }
-      }
-    }
-
-    // Ensure live prices are warm/fresh before trading
-    const warmMaxAge = 15_000; // default 15s freshness
-    const endgameTightAge = 5_000; // tighten near market end
-    const isNearEnd = state.currentMarket && state.timeToEnd > 0 && state.timeToEnd <= config.SELL_BEFORE_START_MS + 30_000; // within clear-out window + 30s
-    const freshnessLimit = isNearEnd ? endgameTightAge : warmMaxAge;
-
-    const requiredTokens = [state.upTokenId, state.downTokenId].filter(Boolean) as string[];
-    const staleForTrade = requiredTokens.filter((t) => {
-      const age = ageMap[t];
-      return age === undefined || age > freshnessLimit;
-    });
-    if (staleForTrade.length > 0) {
-      console.warn('[Trade] prices not warm for', staleForTrade.join(','), `limit=${freshnessLimit}ms`, 'isNearEnd=', isNearEnd, '-> trigger loss exits if any');
-
-      // Even with stale prices, protect downside: force loss exits using last known prices
-      for (const [tokenId, pos] of positions) {
-        if (pos.size <= 0) continue;
-        const loss = pos.avgBuyPrice - pos.currentPrice;
-        if (loss >= config.STOP_LOSS) {
-          console.warn(`[StalePrice LossExit] ${pos.outcome} loss=${loss.toFixed(2)}¢ >= stopLoss=${config.STOP_LOSS}¢, force market sell`);
-          await trader.forceLiquidate(tokenId, pos.outcome, pos.currentPrice);
-          await delay(300);
-        }
-      }
-      return;
-    }
-
-    // Generate and execute signals
-    const signals = strategy.generateSignals(state, positions);
-
-    for (const signal of signals) {
-      console.log(`📍 Signal: ${signal.action} ${signal.outcome} - ${signal.reason}`);
-
-      let success = false;
-      if (signal.action === 'BUY') {
-        // 防止重複購買: 檢查鎖和市場 ID
-        if (buyingInProgress) {
-          console.log(`[跳過] 購買中，等待上一筆完成`);
-          continue;
-        }
-        buyingInProgress = true;
-        try {
-          success = await trader.buy(signal.tokenId, signal.outcome, signal.price, signal.size);
-        } finally {
-          buyingInProgress = false;
-        }
-      } else if (signal.action === 'SELL') {
-        // 檢查是否是強制清倉（開局前）
-        if (signal.reason?.includes('開局清倉')) {
-          success = await trader.forceLiquidate(signal.tokenId, signal.outcome, signal.price);
-        } else {
-          success = await trader.sell(signal.tokenId, signal.outcome, signal.price, signal.size, signal.reason || 'signal');
-        }
-      }
+// Loaded profiles plus each series' selection (ConfigPanel profile editor)
+function getAIProfilesPayload() {
+  return {
+    profiles: aiProfiles.list(),
+    selected: Object.fromEntries(runners.map((r) => [r.series.id, r.getAIProfileId()])),
+  };
+}
 
-      await delay(500); // Rate limit between trades
-      if (success) {
-        // Broadcast trade using the most recent executed record from trader history (captures actual fill price/size)
-        const tradeMarket = tokenToMarket.get(signal.tokenId) || state.nextMarket?.question || state.currentMarket?.question || 'Unknown';
-        const history = trader.getTradeHistory();
-        const last = history[history.length - 1];
-        broadcast('trade', {
-          id: Date.now().toString(),
-          timestamp: last?.timestamp ? new Date(last.timestamp).getTime() : Date.now(),
-          market: tradeMarket,
-          outcome: last?.outcome || signal.outcome,
-          side: last?.side || signal.action,
-          price: last?.price != null ? last.price : signal.price,
-          size: last?.size != null ? last.size : signal.size,
-          pnl: last?.pnl,
-        });
-      }
-    }
+// Price / spot / schedule events drive each series; balances and settlement reconcile in the background
+const engine = new TradingEngine(runners, {
+  onEvaluated: () => {
+    broadcast('series', runners.map((r) => r.getSummary()));
 
-    // Broadcast PnL stats + wallet balance
-    const history = trader.getTradeHistory();
-    const sells = history.filter((t) => t.side === 'SELL');
-    const totalPnl = sells.reduce((sum, t) => sum + (t.pnl || 0), 0);
-    const totalCost = sells.reduce((sum, t) => sum + (t.costCents || 0), 0);
-    const totalPnlPct = totalCost > 0 ? (totalPnl / totalCost) * 100 : 0;
-    const wins = sells.filter((t) => (t.pnl || 0) > 0).length;
-    const totalTrades = sells.length;
-    const walletBalance = await trader.getWalletBalance();
-
-    broadcast('pnl', {
-      totalPnl,
-      totalTrades,
-      totalCost,
-      totalPnlPct,
-      winRate: totalTrades > 0 ? (wins / totalTrades) * 100 : 0,
-      walletBalance,
-    });
-
-    // Update loss streak cooldowns
-    const computeLossState = () => {
-      const now = Date.now();
-      const state: Record<'Up' | 'Down', { streak: number; cooldownUntil: number }> = {
-        Up: { streak: 0, cooldownUntil: 0 },
-        Down: { streak: 0, cooldownUntil: 0 },
-      };
-      history
-        .filter((t) => t.side === 'SELL' && (t.pnl !== undefined))
-        .forEach((t) => {
-          const outcome = t.outcome as 'Up' | 'Down';
-          const ts = typeof t.timestamp === 'number' ? t.timestamp : new Date(t.timestamp as any).getTime();
-          if ((t.pnl || 0) < 0) {
-            state[outcome].streak += 1;
-          } else {
-            state[outcome].streak = 0;
-          }
-          if (state[outcome].streak >= config.LOSS_STREAK_THRESHOLD) {
-            state[outcome].cooldownUntil = Math.max(state[outcome].cooldownUntil, ts + config.LOSS_STREAK_COOLDOWN_MS);
-          }
-        });
-      // Ensure cooldown times are in the future relative to now
-      (['Up', 'Down'] as const).forEach((o) => {
-        if (state[o].cooldownUntil < now) state[o].cooldownUntil = 0;
-      });
-      return state;
-    };
-    const lossState = computeLossState();
-    strategy.setLossStreaks(lossState);
-
-    broadcast('cooldown', lossState);
-
-    // Broadcast recent trades (last 200) with numeric timestamps for charts
-    const recentTrades = history.slice(-200).map((t) => ({
-      ...t,
-      timestamp: typeof t.timestamp === 'number' ? t.timestamp : new Date(t.timestamp).getTime(),
-      pnl: t.pnl ?? 0,
-    }));
-    broadcast('trades', recentTrades);
-
-    // Hard stop if loss limit breached
-    if (config.LOSS_LIMIT_CENTS > 0 && totalPnl <= -Math.abs(config.LOSS_LIMIT_CENTS)) {
-      console.warn(`[Risk] Total PnL ${totalPnl.toFixed(2)}¢ <= -${config.LOSS_LIMIT_CENTS}¢, stopping bot.`);
-      stopBot();
-      return;
+    // Hard stop if the combined loss limit is breached (per session; journal history from earlier runs doesn't count)
+    const sessionPnl = runners.reduce((sum, r) => sum + r.getSessionPnl(), 0);
+    if (config.LOSS_LIMIT_CENTS > 0 && sessionPnl <= -Math.abs(config.LOSS_LIMIT_CENTS)) {
+      console.warn(`[Risk] Session PnL ${sessionPnl.toFixed(2)}¢ <= -${config.LOSS_LIMIT_CENTS}¢, stopping bot.`);
+      void stopBot();
     }
-
-    // Broadcast AI analysis (next + current)
-    if (config.AI_ENABLED) {
-      const scopes: Array<'next' | 'current'> = ['next', 'current'];
-      for (const scope of scopes) {
-        const aiAnalysis = strategy.getLastAIAnalysis(scope);
-        if (aiAnalysis) {
-          broadcast('ai_analysis', {
-            scope,
-            shouldTrade: aiAnalysis.shouldTrade,
-            recommendedOutcome: aiAnalysis.recommendedOutcome,
-            confidence: aiAnalysis.confidence,
-            recommendedSize: aiAnalysis.recommendedSize,
-            reasons: aiAnalysis.reasons,
-            signals: {
-              technical: aiAnalysis.signals.technical.score,
-              orderBook: aiAnalysis.signals.orderBook.score,
-              sentiment: aiAnalysis.signals.sentiment.score,
-              timing: aiAnalysis.signals.timing.score,
-            },
-          });
-        }
-      }
-    }
-
-    // Broadcast LLM analysis (next + current)
-    if (config.LLM_ENABLED) {
-      const scopes: Array<'next' | 'current'> = ['next', 'current'];
-      for (const scope of scopes) {
-        const llmAnalysis = strategy.getLastLLMAnalysis(scope);
-        if (llmAnalysis) {
-          broadcast('llm_analysis', { scope, ...llmAnalysis });
-        }
-      }
-    } else {
-      // Clear cached outputs to avoid stale broadcasts when disabled
-      strategy.clearLLMAnalysis();
-    }
-  } catch (error) {
-    console.error('[Bot] Tick error:', error);
-  }
-}
+  },
+  // Same wallet for every series - query once per reconcile cycle
+  onReconcileCycle: async () => {
+    const walletBalance = await runners[0].trader.getWalletBalance();
+    broadcast('status', { walletBalance });
+  },
+});
 
 // Start bot
 async function startBot() {
@@ -488,7 +87,6 @@ async function startBot() {
   console.log('🚀 Starting bot...');
   botRunning = true;
   botStartTime = Date.now();
-  trader.reset();
   // Connect live price feed
   try {
     livePriceFeed.connect();
@@ -496,29 +94,40 @@ async function startBot() {
     console.warn('[WS] Failed to start price feed', e);
   }
 
-  // Connect RTDS BTC spot feed
+  // Connect the BTC spot sources (median of healthy sources)
   if (config.RTDS_ENABLED) {
     try {
       rtdsPriceFeed.connect();
     } catch (e) {
-      console.warn('[RTDS] Failed to start spot feed', e);
+      console.warn('[Spot] Failed to start spot feed', e);
     }
   }
 
-  await tick(); // Initial tick
-  botInterval = setInterval(tick, config.POLL_INTERVAL_MS);
-
-  // Sync server time
-  await fetcher.syncServerTime();
-
-  // Initialize trader
-  const initialized = await trader.initialize();
-  if (!initialized && !config.PAPER_TRADING) {
-    console.error('❌ Failed to initialize trader');
-    return;
+  // Sync server time, load journal and initialize each series' trader
+  const started: SeriesRunner[] = [];
+  for (const runner of runners) {
+    started.push(runner);
+    let initialized = false;
+    try {
+      initialized = await runner.start();
+    } catch (e) {
+      console.error(`❌ [${runner.series.id}] Failed to start:`, e);
+    }
+    if (!initialized) {
+      // Roll back whatever this attempt already started so a retry begins from a clean state
+      console.warn(`[Series] Start aborted at ${runner.series.id}, rolling back ${started.length} series`);
+      await stopRunners(started);
+      userChannel.disconnect();
+      rtdsPriceFeed.disconnect();
+      botRunning = false;
+      botStartTime = null;
+      broadcast('status', { running: false, connected: true, paperTrade: config.PAPER_TRADING, uptimeSeconds: 0 });
+      return;
+    }
   }
+  console.log(`[Series] Running: ${runners.map((r) => r.series.id).join(', ')}`);
 
-  botRunning = true;
+  engine.start();
 
   broadcast('status', {
     running: true,
@@ -530,20 +139,28 @@ async function startBot() {
   console.log('✅ Bot started');
 }
 
+// Stop runners together; one failing (e.g. a quote cancel) must not leave the others running or reject unhandled
+async function stopRunners(targets: SeriesRunner[]): Promise<void> {
+  const results = await Promise.allSettled(targets.map((runner) => runner.stop()));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') console.error(`[Series] Failed to stop ${targets[i].series.id}:`, result.reason);
+  });
+}
+
 // Stop bot
-function stopBot() {
+async function stopBot() {
   if (!botRunning) return;
 
   console.log('🛑 Stopping bot...');
 
-  if (botInterval) {
-    clearInterval(botInterval);
-    botInterval = null;
-  }
+  engine.stop();
 
   botRunning = false;
   botStartTime = null;
-  trader.reset();
+  await stopRunners(runners);
+  marketRecorder.close();
+  userChannel.disconnect();
+  rtdsPriceFeed.disconnect();
 
   broadcast('status', {
     running: false,
@@ -555,6 +172,18 @@ function stopBot() {
   console.log('✅ Bot stopped');
 }
 
+// Switch the entry strategy; runners pick it up on their next evaluation
+function applyStrategy(strategyId: unknown) {
+  if (typeof strategyId !== 'string' || strategyId === config.STRATEGY) return;
+  if (!hasStrategy(strategyId)) {
+    console.warn(`[Config] Unknown strategy "${strategyId}", keeping ${config.STRATEGY}`);
+    return;
+  }
+  (config as any).STRATEGY = strategyId;
+  console.log(`[Config] Strategy -> ${strategyId}`);
+  broadcast('config', { strategy: config.STRATEGY });
+}
+
 // WebSocket connection handler
 wss.on('connection', (ws) => {
   console.log('[WS] Client connected');
@@ -575,6 +204,8 @@ wss.on('connection', (ws) => {
     })
   );
 
+  ws.send(JSON.stringify({ type: 'series', data: runners.map((r) => r.getSummary()) }));
+
   ws.send(
     JSON.stringify({
       type: 'config',
@@ -588,6 +219,8 @@ wss.on('connection', (ws) => {
         stopLoss: config.STOP_LOSS,
         stopLossPct: config.STOP_LOSS_PCT,
         combinedPriceCap: config.COMBINED_PRICE_CAP,
+        fairValueGate: config.FAIR_VALUE_GATE,
+        fairValueMinEdgeCents: config.FAIR_VALUE_MIN_EDGE_CENTS,
         maxPositionSize: config.MAX_POSITION_SIZE,
         allowCurrentMarketTrading: config.ALLOW_CURRENT_MARKET_TRADING,
         privateKey: '',
@@ -597,12 +230,24 @@ wss.on('connection', (ws) => {
         openaiModel: config.OPENAI_MODEL,
         volcanoModel: config.VOLCANO_MODEL,
         volcanoBaseUrl: config.VOLCANO_BASE_URL,
+        localLlmBaseUrl: config.LOCAL_LLM_BASE_URL,
+        localLlmModel: config.LOCAL_LLM_MODEL,
+        anthropicModel: config.ANTHROPIC_MODEL,
+        anthropicBaseUrl: config.ANTHROPIC_BASE_URL,
+        llmProviders: listLLMProviders(),
         pollIntervalMs: config.POLL_INTERVAL_MS,
         llmPollIntervalMs: (config as any).LLM_POLL_INTERVAL_MS,
+        strategy: config.STRATEGY,
+        strategies: listStrategies(),
+        ensembleMode: config.ENSEMBLE_MODE,
+        ensembleLlmProviders: config.ENSEMBLE_LLM_PROVIDERS,
+        ensembleWeightedThreshold: config.ENSEMBLE_WEIGHTED_THRESHOLD,
       },
     })
   );
 
+  ws.send(JSON.stringify({ type: 'aiProfiles', data: getAIProfilesPayload() }));
+
   // Handle messages
   ws.on('message', async (data) => {
     try {
@@ -614,7 +259,7 @@ wss.on('connection', (ws) => {
           await startBot();
           break;
         case 'stop':
-          stopBot();
+          await stopBot();
           break;
         case 'config':
           // Update config (in memory only for security)
@@ -654,6 +299,12 @@ wss.on('connection', (ws) => {
           if (payload.combinedPriceCap) {
             (config as any).COMBINED_PRICE_CAP = payload.combinedPriceCap;
           }
+          if (payload.fairValueGate !== undefined) {
+            (config as any).FAIR_VALUE_GATE = payload.fairValueGate;
+          }
+          if (payload.fairValueMinEdgeCents != null) {
+            (config as any).FAIR_VALUE_MIN_EDGE_CENTS = payload.fairValueMinEdgeCents;
+          }
           if (payload.allowCurrentMarketTrading !== undefined) {
             (config as any).ALLOW_CURRENT_MARKET_TRADING = payload.allowCurrentMarketTrading;
           }
@@ -678,12 +329,40 @@ wss.on('connection', (ws) => {
           if (payload.volcanoApiKey) {
             (config as any).VOLCANO_API_KEY = payload.volcanoApiKey;
           }
+          if (payload.localLlmBaseUrl) {
+            (config as any).LOCAL_LLM_BASE_URL = payload.localLlmBaseUrl;
+          }
+          if (payload.localLlmModel) {
+            (config as any).LOCAL_LLM_MODEL = payload.localLlmModel;
+          }
+          if (payload.localLlmApiKey) {
+            (config as any).LOCAL_LLM_API_KEY = payload.localLlmApiKey;
+          }
+          if (payload.anthropicModel) {
+            (config as any).ANTHROPIC_MODEL = payload.anthropicModel;
+          }
+          if (payload.anthropicBaseUrl) {
+            (config as any).ANTHROPIC_BASE_URL = payload.anthropicBaseUrl;
+          }
+          if (payload.anthropicApiKey) {
+            (config as any).ANTHROPIC_API_KEY = payload.anthropicApiKey;
+          }
           if (payload.pollIntervalMs) {
             (config as any).POLL_INTERVAL_MS = payload.pollIntervalMs;
           }
           if (payload.llmPollIntervalMs) {
             (config as any).LLM_POLL_INTERVAL_MS = payload.llmPollIntervalMs;
           }
+          if (payload.ensembleMode) {
+            (config as any).ENSEMBLE_MODE = payload.ensembleMode;
+          }
+          if (payload.ensembleLlmProviders !== undefined) {
+            (config as any).ENSEMBLE_LLM_PROVIDERS = payload.ensembleLlmProviders;
+          }
+          if (payload.ensembleWeightedThreshold) {
+            (config as any).ENSEMBLE_WEIGHTED_THRESHOLD = payload.ensembleWeightedThreshold;
+          }
+          applyStrategy(payload.strategy);
 
           broadcast('status', {
             running: botRunning,
@@ -693,6 +372,27 @@ wss.on('connection', (ws) => {
 
           console.log('[Config] Updated');
           break;
+        case 'aiProfile:save': {
+          // Validated and written as a new version; series using this profile pick it up immediately
+          const { profile, errors } = await aiProfiles.save(payload?.profile);
+          if (!profile) {
+            ws.send(JSON.stringify({ type: 'aiProfile:error', data: { errors } }));
+            break;
+          }
+          runners.filter((r) => r.getAIProfileId() === profile.id).forEach((r) => r.applyAIProfile());
+          broadcast('aiProfiles', getAIProfilesPayload());
+          break;
+        }
+        case 'aiProfile:select': {
+          const runner = runners.find((r) => r.series.id === payload?.series);
+          if (!runner || !runner.selectAIProfile(payload?.profileId)) {
+            ws.send(JSON.stringify({ type: 'aiProfile:error', data: { errors: [`Unknown series or profile: ${payload?.series} / ${payload?.profileId}`] } }));
+            break;
+          }
+          broadcast('aiProfiles', getAIProfilesPayload());
+          broadcast('series', runners.map((r) => r.getSummary()));
+          break;
+        }
       }
     } catch (error) {
       console.error('[WS] Message error:', error);
@@ -710,6 +410,38 @@ app.get('/api/status', (req, res) => {
   res.json({
     running: botRunning,
     paperTrade: config.PAPER_TRADING,
+    userChannelConnected: userChannel.isConnected(),
+    spotSources: rtdsPriceFeed.getHealth(),
+    series: runners.map((r) => r.getSummary()),
+    // LLM response schema violations / repairs / final failures per provider and model since startup
+    llm: { schemaConstrained: config.LLM_SCHEMA_CONSTRAINED, validation: llmAnalyzer.getValidationStats() },
+  });
+});
+
+// LLM calls, retries, tokens and estimated cost per provider / model since startup, plus ensemble voter accuracy
+app.get('/api/llm/usage', (req, res) => {
+  const provider = llmProviders.current();
+  res.json({
+    provider: provider.id,
+    model: provider.model,
+    limits: llmProviders.getLimits(provider.id),
+    usage: llmProviders.getUsage(),
+    ensemble: { mode: config.ENSEMBLE_MODE, providers: ensembleProviders(), voters: voterAccuracy.getAll() },
+  });
+});
+
+app.get('/api/ai-profiles', (req, res) => {
+  res.json(getAIProfilesPayload());
+});
+
+// Orders per series: open only by default, ?all=true adds recently closed ones; ?series= filters
+app.get('/api/orders', (req, res) => {
+  const includeClosed = req.query.all === 'true';
+  const seriesId = typeof req.query.series === 'string' ? req.query.series : undefined;
+  res.json({
+    series: runners
+      .filter((r) => !seriesId || r.series.id === seriesId)
+      .map((r) => ({ id: r.series.id, orders: r.getOrders(includeClosed) })),
   });
 });
 
@@ -718,8 +450,8 @@ app.post('/api/start', async (req, res) => {
   res.json({ running: botRunning });
 });
 
-app.post('/api/stop', (req, res) => {
-  stopBot();
+app.post('/api/stop', async (req, res) => {
+  await stopBot();
   res.json({ running: botRunning });
 });
 
@@ -737,6 +469,7 @@ app.post('/api/config', (req, res) => {
   if (payload.maxBuyPrice) {
     (config as any).MAX_BUY_PRICE = payload.maxBuyPrice;
   }
+  applyStrategy(payload.strategy);
   console.log('[Config] Updated via API:', { paperTrade: config.PAPER_TRADING });
   res.json({ success: true, paperTrade: config.PAPER_TRADING });
 });
@@ -748,6 +481,10 @@ app.get('*', (req, res) => {
 
 // Start server
 const PORT = Number(process.env.PORT || 3001);
+aiProfiles.load().then(() => runners.forEach((r) => r.applyAIProfile()));
+// Restore each ensemble voter's hit record and keep scoring as markets resolve
+llmAuditLog.load().then((records) => voterAccuracy.seed(records));
+llmAuditLog.onOutcome((slug, winningOutcome) => voterAccuracy.resolve(slug, winningOutcome));
 server.listen(PORT, () => {
   console.log(`
 ╔══════════════════════════════════════════════════════════════╗
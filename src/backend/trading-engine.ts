@@ -0,0 +1,185 @@
+import { config } from '../config.js';
+import type { OrderFillEvent } from '../order-manager.js';
+import { livePriceFeed } from './live-price-feed.js';
+import { rtdsPriceFeed } from './rtds-price-feed.js';
+import type { SeriesRunner } from './series-runner.js';
+
+export interface TradingEngineHooks {
+  onEvaluated?: (runner: SeriesRunner) => void; // after every evaluation (summaries, global loss limit)
+  onReconcileCycle?: () => Promise<void>; // once per background reconcile cycle (wallet balance)
+}
+
+type Trigger = 'start' | 'price' | 'spot' | 'fill' | 'schedule' | 'idle';
+
+interface RunnerState {
+  busy: boolean; // single-flight: one evaluate / reconcile per runner at a time
+  evaluatePending: boolean;
+  reconcilePending: boolean;
+  lastEvaluateAt: number;
+  throttleTimer: NodeJS.Timeout | null;
+  scheduleTimer: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+  onFill: (event: OrderFillEvent) => void;
+}
+
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Event-driven trading loop replacing the fixed setInterval tick.
+ *
+ * - LivePriceFeed price changes, BTC spot ticks (BTC series), order fills and market-schedule timers
+ *   (entry cut-off, bracket window, pre-start clear-out, market start / end) request an evaluation
+ * - Requests are coalesced: at most one evaluation per runner every ENGINE_MIN_EVAL_INTERVAL_MS, and a
+ *   request arriving while one is running queues exactly one re-run (single-flight guard)
+ * - With no events for POLL_INTERVAL_MS a runner is re-evaluated anyway (idle heartbeat)
+ * - Order / balance reconciliation and settlement run every RECONCILE_INTERVAL_MS through the same
+ *   single-flight guard, so they never interleave with an evaluation of the same series
+ */
+export class TradingEngine {
+  private running = false;
+  private states: Map<SeriesRunner, RunnerState> = new Map();
+  private reconcileTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly runners: SeriesRunner[], private readonly hooks: TradingEngineHooks = {}) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    for (const runner of this.runners) {
+      const state: RunnerState = {
+        busy: false,
+        evaluatePending: false,
+        reconcilePending: false,
+        lastEvaluateAt: 0,
+        throttleTimer: null,
+        scheduleTimer: null,
+        idleTimer: null,
+        onFill: () => this.requestEvaluate(runner, 'fill'),
+      };
+      this.states.set(runner, state);
+      runner.trader.orders.on('fill', state.onFill);
+      // Load the market schedule and balances first, then evaluate
+      state.reconcilePending = true;
+      this.requestEvaluate(runner, 'start');
+    }
+
+    livePriceFeed.on('price', this.onPrice);
+    rtdsPriceFeed.on('price', this.onSpot);
+    this.reconcileTimer = setInterval(() => void this.reconcileCycle(), config.RECONCILE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    livePriceFeed.off('price', this.onPrice);
+    rtdsPriceFeed.off('price', this.onSpot);
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+    for (const [runner, state] of this.states) {
+      runner.trader.orders.off('fill', state.onFill);
+      this.clearTimers(state);
+    }
+    this.states.clear();
+  }
+
+  private readonly onPrice = (tokenId: string) => {
+    for (const runner of this.runners) {
+      if (runner.ownsToken(tokenId)) this.requestEvaluate(runner, 'price');
+    }
+  };
+
+  // The spot aggregator only tracks BTC (see SeriesRunner.getSpot)
+  private readonly onSpot = () => {
+    for (const runner of this.runners) {
+      if (runner.series.asset === 'btc') this.requestEvaluate(runner, 'spot');
+    }
+  };
+
+  private requestEvaluate(runner: SeriesRunner, trigger: Trigger): void {
+    const state = this.states.get(runner);
+    if (!state || !this.running) return;
+    if (trigger === 'start' || trigger === 'schedule') {
+      console.log(`[Engine][${runner.series.id}] evaluate (${trigger})`);
+    }
+    state.evaluatePending = true;
+    void this.drain(runner, state);
+  }
+
+  private async reconcileCycle(): Promise<void> {
+    for (const [runner, state] of this.states) {
+      state.reconcilePending = true;
+      void this.drain(runner, state);
+    }
+    try {
+      await this.hooks.onReconcileCycle?.();
+    } catch (error) {
+      console.error('[Engine] Reconcile cycle hook failed:', error);
+    }
+  }
+
+  /**
+   * Run pending work for one runner; requests made meanwhile are picked up by the loop
+   */
+  private async drain(runner: SeriesRunner, state: RunnerState): Promise<void> {
+    if (state.busy) return;
+    state.busy = true;
+    try {
+      while (this.running) {
+        if (state.reconcilePending) {
+          state.reconcilePending = false;
+          await runner.reconcile();
+          continue;
+        }
+        if (!state.evaluatePending) break;
+
+        const wait = state.lastEvaluateAt + config.ENGINE_MIN_EVAL_INTERVAL_MS - Date.now();
+        if (wait > 0) {
+          if (!state.throttleTimer) {
+            state.throttleTimer = setTimeout(() => {
+              state.throttleTimer = null;
+              void this.drain(runner, state);
+            }, wait);
+          }
+          break;
+        }
+
+        state.evaluatePending = false;
+        state.lastEvaluateAt = Date.now();
+        await runner.evaluate();
+        if (!this.running) break;
+        this.armTimers(runner, state);
+        this.hooks.onEvaluated?.(runner);
+      }
+    } finally {
+      state.busy = false;
+    }
+  }
+
+  /**
+   * Re-arm the idle heartbeat and the timer for the next market-schedule point
+   */
+  private armTimers(runner: SeriesRunner, state: RunnerState): void {
+    if (state.idleTimer) clearTimeout(state.idleTimer);
+    state.idleTimer = setTimeout(() => this.requestEvaluate(runner, 'idle'), config.POLL_INTERVAL_MS);
+
+    if (state.scheduleTimer) clearTimeout(state.scheduleTimer);
+    state.scheduleTimer = null;
+    const next = runner.getScheduleTimes()[0];
+    if (next != null) {
+      const delayMs = Math.min(Math.max(next - Date.now(), 0) + 50, MAX_TIMER_MS); // land just after the boundary
+      state.scheduleTimer = setTimeout(() => this.requestEvaluate(runner, 'schedule'), delayMs);
+    }
+  }
+
+  private clearTimers(state: RunnerState): void {
+    for (const timer of [state.throttleTimer, state.scheduleTimer, state.idleTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    state.throttleTimer = null;
+    state.scheduleTimer = null;
+    state.idleTimer = null;
+  }
+}
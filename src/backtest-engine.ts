@@ -0,0 +1,243 @@
+/**
+ * 離線回測引擎 - 用錄製的市場快照重播真實 Strategy / AIAnalyzer / RiskManager
+ *
+ * - 使用與實盤相同的 Strategy 類別，確保回測結果與生產邏輯一致
+ * - Date.now / 冷卻時間由模擬時鐘驅動
+ * - 以錄製的訂單簿逐檔模擬成交（與 Paper 模式共用 simulateBookFill，含部分成交與 taker 手續費）
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { config } from './config.js';
+import { SimulatedClock } from './clock.js';
+import { Strategy } from './strategy.js';
+import { AIAnalyzer } from './ai-analyzer.js';
+import type { AIProfile } from './ai-profile.js';
+import type { TradeGateStats } from './trade-gates.js';
+import { riskManager } from './risk-manager.js';
+import { simulateBookFill, type BookFill } from './paper-exchange.js';
+import type { MarketSnapshot, OrderBook, Position, TradeRecord, TradeSignal } from './types.js';
+
+export interface ReasonStats {
+  count: number;
+  pnl: number; // cents
+}
+
+export interface BacktestResult {
+  snapshots: number;
+  startTime: number | null;
+  endTime: number | null;
+  trades: TradeRecord[];
+  totalPnl: number; // 已實現盈虧 (cents, 扣除手續費)
+  unrealizedPnl: number; // 回測結束時未平倉部位的市值盈虧 (cents)
+  totalFees: number; // cents
+  closedTrades: number;
+  wins: number;
+  winRate: number; // %
+  maxDrawdown: number; // cents (peak-to-trough of equity curve)
+  rejectedSignals: number; // 無訂單簿或零成交的信號數
+  byReason: Record<string, ReasonStats>;
+  gates: TradeGateStats; // 未進場原因統計
+}
+
+/**
+ * 將信號原因歸類（去掉價格/數字等變動部分）
+ */
+export function categorizeReason(reason: string): string {
+  const head = reason.split(/ @ | \(|:|：/)[0];
+  return head.replace(/\s*(Up|Down)\b.*$/, '').replace(/[\d.]+/g, '').trim() || reason;
+}
+
+/**
+ * 讀取錄製檔（.jsonl 或 .jsonl.gz，可傳目錄），依時間排序
+ */
+export async function loadSnapshots(inputs: string[]): Promise<MarketSnapshot[]> {
+  const files: string[] = [];
+  const collect = async (p: string): Promise<void> => {
+    const stat = await fs.stat(p);
+    if (stat.isDirectory()) {
+      for (const entry of (await fs.readdir(p)).sort()) {
+        await collect(path.join(p, entry));
+      }
+    } else if (p.endsWith('.jsonl') || p.endsWith('.jsonl.gz')) {
+      files.push(p);
+    }
+  };
+  for (const input of inputs) {
+    await collect(input);
+  }
+
+  const snapshots: MarketSnapshot[] = [];
+  for (const file of files) {
+    const raw = await fs.readFile(file);
+    // 容忍未正常關閉（被截斷）的 gzip 檔
+    const text = file.endsWith('.gz')
+      ? zlib.gunzipSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString('utf-8')
+      : raw.toString('utf-8');
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line));
+      } catch {
+        console.warn(`[Backtest] 略過無法解析的行: ${file}`);
+      }
+    }
+  }
+
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export class BacktestEngine {
+  private readonly clock = new SimulatedClock();
+  private readonly analyzer: AIAnalyzer;
+  private readonly strategy: Strategy;
+  private positions: Map<string, Position> = new Map();
+  private trades: TradeRecord[] = [];
+  private lastBooks: Map<string, OrderBook> = new Map();
+  private byReason: Record<string, ReasonStats> = {};
+  private realizedPnl = 0;
+  private totalFees = 0;
+  private rejectedSignals = 0;
+  private peakEquity = 0;
+  private maxDrawdown = 0;
+
+  constructor(options: { strategy?: string; aiProfile?: AIProfile } = {}) {
+    this.analyzer = new AIAnalyzer(options.aiProfile);
+    this.strategy = new Strategy({ clock: this.clock, aiAnalyzer: this.analyzer, strategy: options.strategy });
+  }
+
+  run(snapshots: MarketSnapshot[]): BacktestResult {
+    for (const snapshot of snapshots) {
+      this.step(snapshot);
+    }
+
+    const unrealizedPnl = this.markToMarket();
+    const closing = this.trades.filter((t) => t.side === 'SELL');
+    const wins = closing.filter((t) => (t.pnl || 0) > 0).length;
+
+    return {
+      snapshots: snapshots.length,
+      startTime: snapshots[0]?.timestamp ?? null,
+      endTime: snapshots[snapshots.length - 1]?.timestamp ?? null,
+      trades: this.trades,
+      totalPnl: this.realizedPnl,
+      unrealizedPnl,
+      totalFees: this.totalFees,
+      closedTrades: closing.length,
+      wins,
+      winRate: closing.length > 0 ? (wins / closing.length) * 100 : 0,
+      maxDrawdown: this.maxDrawdown,
+      rejectedSignals: this.rejectedSignals,
+      byReason: this.byReason,
+      gates: this.strategy.getGateStats(),
+    };
+  }
+
+  private step(snapshot: MarketSnapshot): void {
+    this.clock.set(snapshot.timestamp);
+    const { state } = snapshot;
+
+    for (const [tokenId, book] of Object.entries(snapshot.orderBooks || {})) {
+      this.lastBooks.set(tokenId, book);
+    }
+
+    // 錄製包含所有可交易 / 持有 token 的訂單簿；與實盤一致，當前市場的訂單簿只在允許當前市場交易時交給策略
+    const nextUp = snapshot.orderBooks[state.upTokenId];
+    const nextDown = snapshot.orderBooks[state.downTokenId];
+    if (nextUp && nextDown) {
+      const currentEnabled = config.ALLOW_CURRENT_MARKET_TRADING;
+      this.strategy.setOrderBooks(
+        nextUp,
+        nextDown,
+        currentEnabled ? snapshot.orderBooks[state.currentUpTokenId] : undefined,
+        currentEnabled ? snapshot.orderBooks[state.currentDownTokenId] : undefined,
+      );
+    }
+    this.strategy.setLivePrices(snapshot.livePrices || {});
+    this.strategy.setBtcSpot(snapshot.btcSpot);
+    this.strategy.setTradeFlow(snapshot.tradeFlows || {});
+    this.strategy.updatePositionPrices(this.positions, state);
+
+    this.analyzer.updateTradeHistory(this.trades);
+    this.strategy.setLossStreaks(riskManager.computeLossState(this.trades, this.clock.now()));
+
+    const signals = this.strategy.generateSignals(state, this.positions);
+    for (const signal of signals) {
+      this.execute(signal);
+    }
+
+    this.trackDrawdown();
+  }
+
+  private execute(signal: TradeSignal): void {
+    if (signal.action === 'HOLD') return;
+    const book = this.lastBooks.get(signal.tokenId);
+
+    // 與 Trader 一致：買入 +1¢ 確保成交，強制清倉 -10¢，一般賣出掛信號價
+    const isForced = signal.reason.includes('開局清倉') || signal.reason.includes('清倉已結束市場持倉');
+    const limitPrice = signal.action === 'BUY'
+      ? Math.min(signal.price + 1, 99)
+      : isForced ? Math.max(signal.price - 10, 1) : signal.price;
+
+    const position = this.positions.get(signal.tokenId);
+    const size = signal.action === 'SELL' ? Math.min(signal.size, position?.size ?? 0) : signal.size;
+    const fill = simulateBookFill(book, signal.action, size, limitPrice);
+    if (fill.filledSize <= 0) {
+      this.rejectedSignals += 1;
+      return;
+    }
+
+    const category = categorizeReason(signal.reason);
+    const stats = this.byReason[category] || { count: 0, pnl: 0 };
+    stats.count += 1;
+    this.totalFees += fill.feeCents;
+
+    if (signal.action === 'BUY') {
+      // 手續費攤入成本價
+      const effectivePrice = fill.avgPrice + fill.feeCents / fill.filledSize;
+      const existing = position || { tokenId: signal.tokenId, outcome: signal.outcome, size: 0, avgBuyPrice: 0, currentPrice: fill.avgPrice };
+      existing.avgBuyPrice = (existing.avgBuyPrice * existing.size + effectivePrice * fill.filledSize) / (existing.size + fill.filledSize);
+      existing.size += fill.filledSize;
+      this.positions.set(signal.tokenId, existing);
+      this.recordTrade(signal, 'BUY', fill, undefined, undefined);
+    } else if (position) {
+      const costCents = position.avgBuyPrice * fill.filledSize;
+      const pnl = (fill.avgPrice - position.avgBuyPrice) * fill.filledSize - fill.feeCents;
+      position.size -= fill.filledSize;
+      if (position.size <= 1e-9) this.positions.delete(signal.tokenId);
+      this.realizedPnl += pnl;
+      stats.pnl += pnl;
+      this.recordTrade(signal, 'SELL', fill, pnl, costCents);
+    }
+
+    this.byReason[category] = stats;
+  }
+
+  private recordTrade(signal: TradeSignal, side: 'BUY' | 'SELL', fill: BookFill, pnl?: number, costCents?: number): void {
+    this.trades.push({
+      timestamp: new Date(this.clock.now()),
+      tokenId: signal.tokenId,
+      market: signal.tokenId,
+      outcome: signal.outcome,
+      side,
+      price: fill.avgPrice,
+      size: fill.filledSize,
+      pnl,
+      costCents,
+    });
+  }
+
+  private markToMarket(): number {
+    let unrealized = 0;
+    for (const pos of this.positions.values()) {
+      unrealized += (pos.currentPrice - pos.avgBuyPrice) * pos.size;
+    }
+    return unrealized;
+  }
+
+  private trackDrawdown(): void {
+    const equity = this.realizedPnl + this.markToMarket();
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    this.maxDrawdown = Math.max(this.maxDrawdown, this.peakEquity - equity);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 離線回測
+ * 用法: npm run backtest -- <錄製檔或目錄...> [--strategy=ai|legacy|llm] [--ai-profile=<id>] [--verbose] [--json]
+ */
+import { BacktestEngine, loadSnapshots, type BacktestResult } from './backtest-engine.js';
+import { aiProfiles } from './ai-profile.js';
+import { config } from './config.js';
+
+function printReport(result: BacktestResult): void {
+  const fmtTime = (ts: number | null) => (ts != null ? new Date(ts).toISOString() : 'N/A');
+
+  console.log('\n=== 回測結果 ===');
+  console.log(`  區間: ${fmtTime(result.startTime)} → ${fmtTime(result.endTime)} (${result.snapshots} 個快照)`);
+  console.log(`  已實現盈虧: ${result.totalPnl.toFixed(2)}¢ ($${(result.totalPnl / 100).toFixed(2)})`);
+  console.log(`  未平倉盈虧: ${result.unrealizedPnl.toFixed(2)}¢`);
+  console.log(`  手續費: ${result.totalFees.toFixed(2)}¢ (taker ${config.TAKER_FEE_PERCENT}%)`);
+  console.log(`  平倉筆數: ${result.closedTrades} | 勝: ${result.wins} | 勝率: ${result.winRate.toFixed(1)}%`);
+  console.log(`  最大回撤: ${result.maxDrawdown.toFixed(2)}¢`);
+  console.log(`  未成交信號: ${result.rejectedSignals}`);
+
+  console.log('\n  依原因統計:');
+  const rows = Object.entries(result.byReason).sort((a, b) => b[1].count - a[1].count);
+  if (rows.length === 0) {
+    console.log('    (無交易)');
+  }
+  for (const [reason, stats] of rows) {
+    console.log(`    ${reason.padEnd(24)} ${String(stats.count).padStart(5)} 筆  PnL ${stats.pnl.toFixed(2)}¢`);
+  }
+
+  const { gates } = result;
+  console.log(`\n  未進場原因（評估 ${gates.evaluated} 次，產生信號 ${gates.passed} 次）:`);
+  for (const g of gates.blocked) {
+    console.log(`    ${g.label.padEnd(16)} ${String(g.count).padStart(6)} 次  最近: ${g.lastDetail}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const asJson = args.includes('--json');
+  const strategy = args.find((a) => a.startsWith('--strategy='))?.split('=')[1];
+  const profileId = args.find((a) => a.startsWith('--ai-profile='))?.split('=')[1];
+  const inputs = args.filter((a) => !a.startsWith('--'));
+
+  if (inputs.length === 0) {
+    console.error('用法: npm run backtest -- <錄製檔或目錄...> [--strategy=ai|legacy|llm] [--ai-profile=<id>] [--verbose] [--json]');
+    process.exit(1);
+  }
+
+  await aiProfiles.load();
+  if (profileId && !aiProfiles.get(profileId)) {
+    console.error(`❌ 找不到 AI 設定檔: ${profileId}`);
+    process.exit(1);
+  }
+  const aiProfile = aiProfiles.resolve(profileId ?? config.AI_PROFILE);
+
+  const snapshots = await loadSnapshots(inputs);
+  if (snapshots.length === 0) {
+    console.error('❌ 找不到任何快照');
+    process.exit(1);
+  }
+  console.log(`📂 載入 ${snapshots.length} 個快照 | AI 設定檔 ${aiProfile.id}@v${aiProfile.version}`);
+
+  // Strategy / AIAnalyzer 的逐 tick 日誌很多，預設靜音
+  const log = console.log;
+  if (!verbose) console.log = () => {};
+  let result: BacktestResult;
+  try {
+    result = new BacktestEngine({ strategy, aiProfile }).run(snapshots);
+  } finally {
+    console.log = log;
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify({ ...result, trades: result.trades.length }, null, 2));
+  } else {
+    printReport(result);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+/**
+ * 時鐘抽象 - 讓策略在實盤使用系統時間，在回測使用模擬時間
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * 模擬時鐘（回測用）：時間只在 set/advance 時前進
+ */
+export class SimulatedClock implements Clock {
+  private current: number;
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  set(timestamp: number): void {
+    if (timestamp < this.current) {
+      console.warn(`[Clock] 時間倒退 ${this.current} -> ${timestamp}，忽略`);
+      return;
+    }
+    this.current = timestamp;
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
@@ -22,12 +22,24 @@ export const config = {
   BUY_LEADER_PRESTART: process.env.BUY_LEADER_PRESTART === 'true', // 在開盤前，若有明顯領先者則買入
   STOP_LOSS: Number(process.env.STOP_LOSS) || 5, // cents - 止損點（虧損超過此值時賣出）
   STOP_LOSS_PCT: Number(process.env.STOP_LOSS_PCT) || 0.05, // 5% loss cap
-  LOSS_LIMIT_CENTS: Number(process.env.LOSS_LIMIT_CENTS) || 0, // 總盈虧達到此虧損上限時停止機器人（0=關閉）
+  LOSS_LIMIT_CENTS: Number(process.env.LOSS_LIMIT_CENTS) || 0, // 本次運行的盈虧達到此虧損上限時停止機器人（0=關閉，不含日誌中的歷史交易）
   MAX_POSITION_SIZE: Number(process.env.MAX_POSITION_SIZE) || 100,
   LOSS_STREAK_COOLDOWN_MS: Number(process.env.LOSS_STREAK_COOLDOWN_MS) || 120000, // 2 min cooldown after streak
   LOSS_STREAK_THRESHOLD: Number(process.env.LOSS_STREAK_THRESHOLD) || 3, // consecutive losses to trigger cooldown
   ALLOW_CURRENT_MARKET_TRADING: process.env.ALLOW_CURRENT_MARKET_TRADING !== 'false', // 是否允許盤中交易（默認開啟）
-  POLL_INTERVAL_MS: Number(process.env.POLL_INTERVAL_MS) || 10000,
+  POLL_INTERVAL_MS: Number(process.env.POLL_INTERVAL_MS) || 10000, // 無行情事件時重新評估的最長間隔
+
+  // 成交流（市場 WS 成交記錄）：AI 分析的成交流信號使用的滾動窗口
+  TRADE_FLOW_WINDOW_MS: Number(process.env.TRADE_FLOW_WINDOW_MS) || 60000,
+  TRADE_FLOW_FULL_VOLUME: Number(process.env.TRADE_FLOW_FULL_VOLUME) || 200, // 窗口成交量達此值時成交流信號全權重
+
+  // AI 評分設定檔（見 ai-profile.ts）：目錄與預設使用的設定檔，個別系列可用 SERIES_LIMITS 的 aiProfile 覆蓋
+  AI_PROFILES_DIR: process.env.AI_PROFILES_DIR || 'ai-profiles',
+  AI_PROFILE: process.env.AI_PROFILE || 'default',
+
+  // 事件驅動引擎：價格 / 現貨 / 市場時程事件觸發評估，對帳在背景慢速進行
+  ENGINE_MIN_EVAL_INTERVAL_MS: Number(process.env.ENGINE_MIN_EVAL_INTERVAL_MS) || 500, // 每個系列兩次評估的最短間隔（事件合併）
+  RECONCILE_INTERVAL_MS: Number(process.env.RECONCILE_INTERVAL_MS) || 15000, // 背景對帳（市場列表、訂單、持倉、結算）間隔
   LLM_POLL_INTERVAL_MS: Number(process.env.LLM_POLL_INTERVAL_MS) || 30000,
   PAPER_TRADING: process.env.PAPER_TRADING === 'true',
 
@@ -38,6 +50,12 @@ export const config = {
   // 手續費計算 (Polymarket: maker 0%, taker ~1%)
   TAKER_FEE_PERCENT: 1, // 1%
   MAKER_FEE_PERCENT: 0, // 0%
+  PAPER_LATENCY_MS: Number(process.env.PAPER_LATENCY_MS) || 250, // Paper 模式下單到撮合的模擬延遲
+
+  // 用戶頻道（實盤訂單 / 成交推送），斷線時回退為 REST 輪詢
+  USER_WS_ENABLED: process.env.USER_WS_ENABLED !== 'false',
+  USER_WS_URL: process.env.USER_WS_URL || 'wss://ws-subscriptions-clob.polymarket.com/ws/user', // 可指向本地測試伺服器
+  USER_WS_FILL_TIMEOUT_MS: Number(process.env.USER_WS_FILL_TIMEOUT_MS) || 2000, // 出場 / 套利腿等待成交推送的上限
 
   // API Rate Limiting
   MIN_REQUEST_INTERVAL_MS: 200, // 最小請求間隔 (5 req/sec)
@@ -47,9 +65,28 @@ export const config = {
   SELL_BEFORE_START_MS: 15000, // 開盤前 15 秒強制清倉（更早清倉以放寬進場）
   MIN_TIME_TO_TRADE_MS: 20000, // 至少距離開盤 20 秒才能交易
 
-  // Market identifiers - 可用的 Up/Down 系列
-  // 'eth-up-or-down-15m' | 'eth-up-or-down-hourly' | 'solana-up-or-down-hourly' | 'spx-daily-up-or-down'
-  TARGET_SERIES_SLUG: process.env.TARGET_SERIES_SLUG || 'eth-up-or-down-15m',
+  // 交易的 Up/Down 系列（見 src/series.ts），逗號分隔
+  // 'btc-15m' | 'eth-15m' | 'sol-15m' | 'xrp-15m' | 'btc-1h' | 'eth-1h' | 'sol-1h' | 'xrp-1h'
+  ENABLED_SERIES: process.env.ENABLED_SERIES || 'btc-15m',
+  SERIES_LIMITS: process.env.SERIES_LIMITS || '', // JSON: {"eth-15m": {"maxPositionSize": 20, "lossLimitCents": 500}}
+
+  // 進場策略（見 src/strategies/registry.ts）: 'ai' | 'legacy' | 'llm'，可於執行中從設定面板切換
+  STRATEGY: process.env.STRATEGY || 'ai',
+
+  // 雙邊做市（STRATEGY=market-maker）
+  MM_QUOTE_SIZE: Number(process.env.MM_QUOTE_SIZE) || 10, // 每邊掛單股數（交易所最小 5）
+  MM_HALF_SPREAD_CENTS: Number(process.env.MM_HALF_SPREAD_CENTS) || 2, // 買價低於公允價的距離
+  MM_MAX_INVENTORY: Number(process.env.MM_MAX_INVENTORY) || 50, // Up/Down 淨持倉上限（股），超過則停掛該邊
+  MM_SKEW_CENTS: Number(process.env.MM_SKEW_CENTS) || 3, // 淨持倉達上限時的最大報價偏移
+  MM_REQUOTE_THRESHOLD_CENTS: Number(process.env.MM_REQUOTE_THRESHOLD_CENTS) || 1, // 目標價變動達此值才撤單重掛
+  MM_REQUOTE_DEBOUNCE_MS: Number(process.env.MM_REQUOTE_DEBOUNCE_MS) || 500, // 訂單簿變動後延遲重報價
+
+  // 完整組合套利（Up 賣一 + Down 賣一 + 手續費 < 100¢ 時同時買入兩邊）
+  ARB_ENABLED: process.env.ARB_ENABLED === 'true',
+  ARB_MIN_EDGE_CENTS: Number(process.env.ARB_MIN_EDGE_CENTS) || 1, // 每組扣費後最少利潤
+  ARB_MAX_SETS: Number(process.env.ARB_MAX_SETS) || 50, // 單次最多買入組數
+  ARB_EXIT: (process.env.ARB_EXIT === 'hold' ? 'hold' : 'merge') as 'merge' | 'hold', // merge=立即合併回 USDC，hold=持有到結算
+  ARB_LEG_SLIPPAGE_CENTS: Number(process.env.ARB_LEG_SLIPPAGE_CENTS) || 1, // 第二腿限價可高於報價的幅度
 
   // AI 分析參數
   AI_ENABLED: process.env.AI_ENABLED !== 'false', // 是否啟用 AI 分析（默認開啟）
@@ -64,15 +101,75 @@ export const config = {
   LLM_ENABLED: process.env.LLM_ENABLED !== 'false', // 是否啟用 LLM 分析（默認開啟）
 
   // Volcano Engine (Doubao) - OpenAI-compatible
-  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai', // 'openai' | 'volcano'
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai', // 'openai' | 'volcano' | 'local' | 'anthropic' | 'mock'（見 llm-providers/）
   VOLCANO_API_KEY: process.env.VOLCANO_API_KEY || '',
   VOLCANO_MODEL: process.env.VOLCANO_MODEL || 'ep-20250318191336-qz8fn',
   VOLCANO_BASE_URL: process.env.VOLCANO_BASE_URL || 'https://ark.cn-beijing.volces.com/api/v3',
 
-  // Real-time BTC spot feed (RTDS)
+  // 本地 / 自架 OpenAI 兼容伺服器（llama.cpp、Ollama、vLLM）
+  LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+  LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY || '', // 多數本地伺服器不需要
+  LOCAL_LLM_JSON_SCHEMA: process.env.LOCAL_LLM_JSON_SCHEMA !== 'false', // 伺服器支援 response_format: json_schema（不支援時設 false，改用 json_object）
+
+  // Anthropic Messages API
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '',
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+  ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+
+  // Mock provider（測試用，不連網）：固定回應 JSON，或 JSON 陣列依序回應，留空則依輸入雜湊產生
+  LLM_MOCK_RESPONSE: process.env.LLM_MOCK_RESPONSE || '',
+  LLM_MOCK_LATENCY_MS: Number(process.env.LLM_MOCK_LATENCY_MS) || 0,
+
+  // 每次 LLM 呼叫的逾時與重試（本地伺服器預設 60 秒、不重試），個別 provider 可用 LLM_PROVIDER_LIMITS 覆蓋
+  LLM_TIMEOUT_MS: Number(process.env.LLM_TIMEOUT_MS) || 20000,
+  LLM_MAX_RETRIES: process.env.LLM_MAX_RETRIES !== undefined ? Number(process.env.LLM_MAX_RETRIES) : 1,
+  LLM_PROVIDER_LIMITS: process.env.LLM_PROVIDER_LIMITS || '', // JSON: {"local": {"timeoutMs": 90000}, "volcano": {"inputCostPer1M": 0.11, "outputCostPer1M": 0.28}}
+  LLM_SCHEMA_CONSTRAINED: process.env.LLM_SCHEMA_CONSTRAINED !== 'false', // 支援的 provider 以 schema 約束回應（json_schema / tool call，見 llm-schema.ts）
+  LLM_REPAIR_RETRIES: process.env.LLM_REPAIR_RETRIES !== undefined ? Number(process.env.LLM_REPAIR_RETRIES) : 1, // 回應不符合 schema 時帶著錯誤重問的次數
+
+  // 集成投票（STRATEGY=ensemble，見 ensemble.ts）：規則式 AI + ENSEMBLE_LLM_PROVIDERS 各一票
+  ENSEMBLE_MODE: process.env.ENSEMBLE_MODE || 'majority', // 'unanimous' | 'majority' | 'weighted'
+  ENSEMBLE_LLM_PROVIDERS: process.env.ENSEMBLE_LLM_PROVIDERS || '', // 逗號分隔，例: openai,local；留空則只用 LLM_PROVIDER
+  ENSEMBLE_WEIGHTED_THRESHOLD: Number(process.env.ENSEMBLE_WEIGHTED_THRESHOLD) || 0.6, // weighted 模式：贊成權重佔比門檻
+  ENSEMBLE_MAX_OPINION_AGE_MS: Number(process.env.ENSEMBLE_MAX_OPINION_AGE_MS) || 120000, // LLM 意見超過此時間視為棄權
+  // LLM prompt：模板檔目錄（system.md / user.md）與歷史上下文（見 llm-prompt.ts）
+  LLM_PROMPTS_DIR: process.env.LLM_PROMPTS_DIR || 'prompts',
+  LLM_CONTEXT_WINDOW_MS: Number(process.env.LLM_CONTEXT_WINDOW_MS) || 600000, // 價格 / 現貨序列涵蓋的時間
+  LLM_CONTEXT_POINTS: Number(process.env.LLM_CONTEXT_POINTS) || 20, // 每條序列最多幾個點
+  LLM_CONTEXT_TRADES: Number(process.env.LLM_CONTEXT_TRADES) || 5, // 附上最近幾筆已實現盈虧的交易
+  LLM_PROMPT_TOKEN_BUDGET: Number(process.env.LLM_PROMPT_TOKEN_BUDGET) || 2000, // system + user 的估算上限，超出時裁剪歷史上下文
+  LLM_AUDIT_LOG_PATH: process.env.LLM_AUDIT_LOG_PATH || 'data/llm-audit.jsonl', // 每次 LLM 呼叫的輸入 / 回應 / 結算結果（npm run llm-report）
+
+  // Real-time BTC spot feed: median of several sources (RTDS = Polymarket Real-Time Data Service)
   RTDS_ENABLED: process.env.RTDS_ENABLED !== 'false',
-  RTDS_WS_URL: process.env.RTDS_WS_URL || '', // default to Binance BTCUSDT trade stream if empty
-  RTDS_SUBSCRIBE_MESSAGE: process.env.RTDS_SUBSCRIBE_MESSAGE || '', // optional custom subscribe payload
+  SPOT_SOURCES: process.env.SPOT_SOURCES || 'polymarket,binance,coinbase', // polymarket | chainlink | binance | coinbase
+  RTDS_WS_URL: process.env.RTDS_WS_URL || '', // optional extra 'custom' source, price read from common message shapes
+  RTDS_SUBSCRIBE_MESSAGE: process.env.RTDS_SUBSCRIBE_MESSAGE || '', // optional subscribe payload for the custom source
+  SPOT_STALE_MS: Number(process.env.SPOT_STALE_MS) || 10000, // a source without updates for this long is excluded
+  SPOT_OUTLIER_BPS: Number(process.env.SPOT_OUTLIER_BPS) || 50, // deviation from the median (bps) that marks a source as an outlier
+  SPOT_REFERENCE_TOLERANCE_MS: Number(process.env.SPOT_REFERENCE_TOLERANCE_MS) || 5000, // 開盤參考價：最接近 startDate 的現貨樣本最多可差多久
+  BTC_ANNUAL_VOLATILITY: Number(process.env.BTC_ANNUAL_VOLATILITY) || 0.5, // 已實現波動率樣本不足時使用的年化波動率
+  VOL_WINDOW_MS: Number(process.env.VOL_WINDOW_MS) || 30 * 60 * 1000, // 已實現波動率的回看窗口
+  VOL_SAMPLE_INTERVAL_MS: Number(process.env.VOL_SAMPLE_INTERVAL_MS) || 5000, // 已實現波動率的取樣間隔
+
+  // 理論價門檻：市價須低於理論價至少 FAIR_VALUE_MIN_EDGE_CENTS 才買入（見 pricing.ts）
+  FAIR_VALUE_GATE: process.env.FAIR_VALUE_GATE === 'true',
+  FAIR_VALUE_MIN_EDGE_CENTS: Number(process.env.FAIR_VALUE_MIN_EDGE_CENTS) || 3,
+
+  // 交易日誌（追加式 JSONL，重啟後載入）
+  TRADE_JOURNAL_PATH: process.env.TRADE_JOURNAL_PATH || 'data/trade-journal.jsonl',
+
+  // 結算（已結束市場的持倉）
+  SETTLEMENT_CHECK_INTERVAL_MS: Number(process.env.SETTLEMENT_CHECK_INTERVAL_MS) || 30000, // 每個 token 查詢 Gamma 結算狀態的間隔
+  AUTO_REDEEM: process.env.AUTO_REDEEM === 'true', // 結算後自動在鏈上兌換贏方倉位（需要 MATIC 支付 gas）
+  POLYGON_RPC_URL: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+
+  // 市場數據錄製（回測 / 事後除錯用）
+  RECORDER_ENABLED: process.env.RECORDER_ENABLED === 'true',
+  RECORDER_DIR: process.env.RECORDER_DIR || 'recordings',
+  RECORDER_MAX_FILE_MB: Number(process.env.RECORDER_MAX_FILE_MB) || 50, // 單檔超過此大小（壓縮後）即輪替
+  RECORDER_IDLE_CLOSE_MS: Number(process.env.RECORDER_IDLE_CLOSE_MS) || 5 * 60 * 1000, // slug 閒置多久後關閉檔案
 };
 
 export function validateConfig(): void {
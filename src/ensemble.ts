@@ -0,0 +1,204 @@
+/**
+ * 集成投票 - 把規則式 AI 與一個或多個 LLM 的意見合併為單一進場決定（STRATEGY=ensemble，見 strategies/ensemble-strategy.ts）
+ *
+ * - unanimous: 全部投票者同方向才交易
+ * - majority: 同方向票數過半（棄權、無意見視同反對）
+ * - weighted: 依各投票者在已結算市場的命中率加權，贊成權重佔比 >= ENSEMBLE_WEIGHTED_THRESHOLD 才交易
+ */
+import { config } from './config.js';
+import { llmAuditLog, type LLMAuditLog, type LLMAuditRecord } from './llm-audit-log.js';
+import type { EnsembleDecision, EnsembleVote } from './types.js';
+
+export type EnsembleMode = EnsembleDecision['mode'];
+
+export const ENSEMBLE_MODES: EnsembleMode[] = ['unanimous', 'majority', 'weighted'];
+
+export interface VoterOpinion {
+  voter: string;
+  outcome: 'Up' | 'Down' | null; // null = 棄權
+  confidence: number;
+  note?: string;
+}
+
+export interface VoterRecord {
+  hits: number;
+  total: number;
+}
+
+// 沒有歷史或不優於隨機的投票者仍保留少量權重，避免權重全為 0
+const MIN_WEIGHT = 0.1;
+
+// 等待結算的市場上限（結算查詢只涵蓋有 LLM 決策的市場，其餘不會被清除）
+const MAX_TRACKED_MARKETS = 500;
+
+export function getEnsembleMode(): EnsembleMode {
+  const mode = config.ENSEMBLE_MODE as EnsembleMode;
+  if (ENSEMBLE_MODES.includes(mode)) return mode;
+  console.warn(`[Ensemble] 未知投票方式 "${config.ENSEMBLE_MODE}"，使用 majority。可用: ${ENSEMBLE_MODES.join(', ')}`);
+  return 'majority';
+}
+
+/**
+ * 參與投票的 LLM provider（ENSEMBLE_LLM_PROVIDERS，未設定時只用 LLM_PROVIDER）
+ */
+export function ensembleProviders(): string[] {
+  const ids = (config.ENSEMBLE_LLM_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+  return ids.length > 0 ? Array.from(new Set(ids)) : [config.LLM_PROVIDER?.toLowerCase() || 'openai'];
+}
+
+export function llmVoterId(provider: string, model: string): string {
+  return `llm:${provider}/${model}`;
+}
+
+/**
+ * 命中率（Laplace 平滑）的 log-odds：50% 以下或沒有歷史時為 MIN_WEIGHT
+ */
+export function accuracyWeight(record: VoterRecord | null): number {
+  const p = ((record?.hits ?? 0) + 1) / ((record?.total ?? 0) + 2);
+  return Math.max(MIN_WEIGHT, Math.log(p / (1 - p)));
+}
+
+/**
+ * 合併各投票者的意見
+ */
+export function combineVotes(
+  opinions: VoterOpinion[],
+  mode: EnsembleMode,
+  accuracyOf: (voter: string) => VoterRecord | null,
+  threshold: number = config.ENSEMBLE_WEIGHTED_THRESHOLD
+): EnsembleDecision {
+  const weights = opinions.map((o) => (mode === 'weighted' ? accuracyWeight(accuracyOf(o.voter)) : 1));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const tally = { Up: 0, Down: 0 };
+  opinions.forEach((o, i) => {
+    if (o.outcome) tally[o.outcome] += weights[i];
+  });
+
+  const outcome: 'Up' | 'Down' | null = tally.Up > tally.Down ? 'Up' : tally.Down > tally.Up ? 'Down' : null;
+  const support = outcome && totalWeight > 0 ? tally[outcome] / totalWeight : 0;
+
+  let shouldTrade = false;
+  let requirement = '';
+  if (mode === 'unanimous') {
+    shouldTrade = outcome !== null && opinions.every((o) => o.outcome === outcome);
+    requirement = '需全體一致';
+  } else if (mode === 'majority') {
+    shouldTrade = outcome !== null && support > 0.5;
+    requirement = '需過半';
+  } else {
+    shouldTrade = outcome !== null && support >= threshold;
+    requirement = `需 >= ${(threshold * 100).toFixed(0)}%`;
+  }
+
+  const votes: EnsembleVote[] = opinions.map((o, i) => ({
+    voter: o.voter,
+    outcome: o.outcome,
+    confidence: o.confidence,
+    weight: weights[i],
+    share: totalWeight > 0 ? weights[i] / totalWeight : 0,
+    accuracy: accuracyOf(o.voter),
+    agreed: outcome !== null && o.outcome === outcome,
+    ...(o.note ? { note: o.note } : {}),
+  }));
+  const agreeing = votes.filter((v) => v.agreed);
+
+  return {
+    mode,
+    outcome,
+    shouldTrade: opinions.length > 0 && shouldTrade,
+    support,
+    confidence: agreeing.length > 0 ? agreeing.reduce((sum, v) => sum + v.confidence, 0) / agreeing.length : 0,
+    votes,
+    detail: `${mode} ${outcome ?? '無共識'} 支持 ${(support * 100).toFixed(0)}% (${requirement}) | ` +
+      votes.map((v) => `${v.voter}:${v.outcome ?? '棄權'}`).join(' '),
+  };
+}
+
+/**
+ * 各投票者在已結算市場的命中紀錄：每個市場取投票者最後一次的意見，結算後計分
+ * 結算結果來自 LLM 稽核日誌的 outcome（llmAuditLog.resolvePending），計分寫回日誌供重啟後恢復
+ */
+export class VoterAccuracy {
+  private records: Map<string, VoterRecord> = new Map();
+  private lastVotes: Map<string, Map<string, 'Up' | 'Down'>> = new Map(); // slug -> voter -> 最後意見
+
+  constructor(private readonly log: LLMAuditLog = llmAuditLog) {}
+
+  get(voter: string): VoterRecord | null {
+    return this.records.get(voter) ?? null;
+  }
+
+  getAll(): Record<string, VoterRecord> {
+    return Object.fromEntries(Array.from(this.records.entries()).map(([voter, r]) => [voter, { ...r }]));
+  }
+
+  /**
+   * 記錄本次評估的意見（棄權會清除該投票者在此市場先前的意見）
+   */
+  observe(slug: string, votes: EnsembleVote[]): void {
+    let market = this.lastVotes.get(slug);
+    if (!market) {
+      market = new Map();
+      this.lastVotes.set(slug, market);
+      if (this.lastVotes.size > MAX_TRACKED_MARKETS) {
+        this.lastVotes.delete(this.lastVotes.keys().next().value as string);
+      }
+    }
+    for (const v of votes) {
+      if (v.outcome) market.set(v.voter, v.outcome);
+      else market.delete(v.voter);
+    }
+  }
+
+  resolve(slug: string, winningOutcome: 'Up' | 'Down', now: number = Date.now()): void {
+    const market = this.lastVotes.get(slug);
+    this.lastVotes.delete(slug);
+    if (!market || market.size === 0) return;
+
+    const votes = Array.from(market.entries()).map(([voter, outcome]) => ({ voter, outcome }));
+    for (const v of votes) this.score(v.voter, v.outcome === winningOutcome);
+    void this.log.recordEnsemble({ kind: 'ensemble', slug, winningOutcome, votes, resolvedAt: now });
+  }
+
+  /**
+   * 從稽核日誌恢復：ensemble 紀錄直接計分；沒有 ensemble 紀錄的市場，LLM 投票者以該市場最後一次決策計分
+   */
+  seed(records: LLMAuditRecord[]): void {
+    const outcomes = new Map<string, 'Up' | 'Down'>();
+    const covered = new Set<string>();
+    const llmVotes = new Map<string, Map<string, 'Up' | 'Down' | null>>(); // slug -> voter -> 最後意見
+
+    for (const r of records) {
+      if (r.kind === 'outcome') {
+        outcomes.set(r.slug, r.winningOutcome);
+      } else if (r.kind === 'ensemble') {
+        covered.add(r.slug);
+        for (const v of r.votes) this.score(v.voter, v.outcome === r.winningOutcome);
+      } else if (r.kind === 'decision' && r.slug && !r.error) {
+        const market = llmVotes.get(r.slug) || new Map();
+        market.set(llmVoterId(r.provider, r.model), r.decision.shouldTrade ? r.decision.recommendedOutcome : null);
+        llmVotes.set(r.slug, market);
+      }
+    }
+
+    for (const [slug, market] of Array.from(llmVotes.entries())) {
+      const winner = outcomes.get(slug);
+      if (!winner || covered.has(slug)) continue;
+      for (const [voter, outcome] of Array.from(market.entries())) {
+        if (outcome) this.score(voter, outcome === winner);
+      }
+    }
+  }
+
+  private score(voter: string, hit: boolean): void {
+    const record = this.records.get(voter) || { hits: 0, total: 0 };
+    record.total += 1;
+    if (hit) record.hits += 1;
+    this.records.set(voter, record);
+  }
+}
+
+export const voterAccuracy = new VoterAccuracy();
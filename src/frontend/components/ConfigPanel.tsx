@@ -1,16 +1,38 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Key, DollarSign, Hash, Eye, EyeOff, Wallet, Shield, AlertTriangle, Brain, Clock } from 'lucide-react';
+import { Settings, Key, DollarSign, Hash, Eye, EyeOff, Wallet, Shield, AlertTriangle, Brain, Clock, Zap } from 'lucide-react';
 import { useBotStore, BotConfig } from '../store/botStore';
 
 export function ConfigPanel() {
-  const { config, updateConfig, status } = useBotStore();
+  const {
+    config, strategies, llmProviders, updateConfig, status, series,
+    aiProfiles, aiProfileSelection, aiProfileErrors, saveAIProfile, selectAIProfile,
+  } = useBotStore();
   const [localConfig, setLocalConfig] = useState<BotConfig>(config);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
+  const [editingProfileId, setEditingProfileId] = useState('default');
+  const [profileJson, setProfileJson] = useState('');
+  const [profileParseError, setProfileParseError] = useState<string | null>(null);
 
   useEffect(() => {
     setLocalConfig(config);
   }, [config]);
 
+  // Reload the editor whenever the profile changes (e.g. saved as a new version)
+  const editingProfile = aiProfiles.find((p) => p.id === editingProfileId);
+  useEffect(() => {
+    if (editingProfile) setProfileJson(JSON.stringify(editingProfile, null, 2));
+    setProfileParseError(null);
+  }, [editingProfile]);
+
+  const handleProfileSave = () => {
+    try {
+      saveAIProfile(JSON.parse(profileJson));
+      setProfileParseError(null);
+    } catch (err) {
+      setProfileParseError((err as Error).message);
+    }
+  };
+
   const handleChange = (field: keyof BotConfig, value: string | number | boolean) => {
     setLocalConfig((prev) => ({ ...prev, [field]: value }));
   };
@@ -19,6 +41,14 @@ export function ConfigPanel() {
     updateConfig(localConfig);
   };
 
+  // Strategy can be hot-switched while the bot is running
+  const handleStrategyChange = (strategy: string) => {
+    setLocalConfig((prev) => ({ ...prev, strategy }));
+    updateConfig({ strategy });
+  };
+
+  const activeStrategy = strategies.find((s) => s.id === localConfig.strategy);
+
   return (
     <div className="space-y-6">
       {/* Trading Mode */}
@@ -114,6 +144,138 @@ export function ConfigPanel() {
         )}
       </div>
 
+      {/* Entry Strategy */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <Zap className="w-6 h-6 text-green-400" />
+          進場策略
+        </div>
+
+        <select
+          value={localConfig.strategy}
+          onChange={(e) => handleStrategyChange(e.target.value)}
+          className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors"
+        >
+          {strategies.length === 0 && <option value={localConfig.strategy}>{localConfig.strategy}</option>}
+          {strategies.map((s) => (
+            <option key={s.id} value={s.id}>{s.label} ({s.id})</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-600 mt-1">
+          {activeStrategy?.description || '選擇進場策略'} · 可在運行中切換，止損/止盈/清倉規則共用
+        </p>
+
+        {localConfig.strategy === 'ensemble' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">投票方式</label>
+              <select
+                value={localConfig.ensembleMode}
+                onChange={(e) => {
+                  handleChange('ensembleMode', e.target.value);
+                  updateConfig({ ensembleMode: e.target.value });
+                }}
+                className="w-full bg-gray-800 border border-green-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-green-500 transition-colors"
+              >
+                <option value="unanimous">一致決 (unanimous)</option>
+                <option value="majority">多數決 (majority)</option>
+                <option value="weighted">依歷史準確度加權 (weighted)</option>
+              </select>
+              <p className="text-xs text-gray-600 mt-1">AI 與每個 LLM 各一票，棄權視同反對</p>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">投票 LLM providers</label>
+              <input
+                type="text"
+                value={localConfig.ensembleLlmProviders}
+                onChange={(e) => handleChange('ensembleLlmProviders', e.target.value)}
+                onBlur={(e) => updateConfig({ ensembleLlmProviders: e.target.value })}
+                className="w-full bg-gray-800 border border-green-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-green-500 transition-colors"
+                placeholder={localConfig.llmProvider}
+              />
+              <p className="text-xs text-gray-600 mt-1">逗號分隔，例如 openai,local；留空只用目前的 LLM Provider</p>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">加權門檻</label>
+              <input
+                type="number"
+                step="0.05"
+                min="0.5"
+                max="1"
+                value={localConfig.ensembleWeightedThreshold}
+                onChange={(e) => handleChange('ensembleWeightedThreshold', parseFloat(e.target.value) || 0.6)}
+                onBlur={(e) => updateConfig({ ensembleWeightedThreshold: parseFloat(e.target.value) || 0.6 })}
+                className="w-full bg-gray-800 border border-green-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-green-500 transition-colors"
+                disabled={localConfig.ensembleMode !== 'weighted'}
+              />
+              <p className="text-xs text-gray-600 mt-1">weighted 模式：贊成權重佔比需達此值</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* AI Scoring Profiles */}
+      <div className="cyber-card rounded-xl p-6">
+        <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
+          <Brain className="w-6 h-6 text-purple-400" />
+          AI 評分設定檔
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          {series.map((s) => (
+            <div key={s.id}>
+              <label className="block text-sm text-gray-400 mb-2">{s.label}</label>
+              <select
+                value={aiProfileSelection[s.id] || ''}
+                onChange={(e) => selectAIProfile(s.id, e.target.value)}
+                className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors"
+              >
+                {aiProfiles.map((p) => (
+                  <option key={p.id} value={p.id}>{p.id} (v{p.version})</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <label className="block text-sm text-gray-400 mb-2">編輯設定檔</label>
+        <select
+          value={editingProfileId}
+          onChange={(e) => setEditingProfileId(e.target.value)}
+          className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors mb-3"
+        >
+          {aiProfiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.id} · v{p.version}{p.updatedAt ? ` · ${new Date(p.updatedAt).toLocaleString()}` : ''}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={profileJson}
+          onChange={(e) => setProfileJson(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono text-xs focus:outline-none focus:border-purple-500 transition-colors"
+        />
+        {(profileParseError || aiProfileErrors.length > 0) && (
+          <div className="mt-2 p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-xs text-red-300 space-y-1">
+            {profileParseError && <p>JSON 格式錯誤: {profileParseError}</p>}
+            {aiProfileErrors.map((e) => <p key={e}>{e}</p>)}
+          </div>
+        )}
+        <div className="flex items-center justify-between mt-3">
+          <p className="text-xs text-gray-600">
+            儲存後版本 +1，舊版本保留在 history/ · 修改 id 另存為新設定檔 · 使用中的系列立即套用
+          </p>
+          <button
+            onClick={handleProfileSave}
+            className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold transition-colors"
+          >
+            儲存設定檔
+          </button>
+        </div>
+      </div>
+
       {/* Order Settings */}
       <div className="cyber-card rounded-xl p-6">
         <div className="flex items-center gap-2 text-xl font-bold text-white mb-6">
@@ -251,6 +413,44 @@ export function ConfigPanel() {
             </label>
           </div>
 
+          <div className="p-4 bg-gray-800/50 rounded-lg border border-blue-700/40 col-span-1 md:col-span-3">
+            <label className="flex items-center justify-between cursor-pointer">
+              <div>
+                <span className="text-white font-medium">理論價門檻</span>
+                <p className="text-xs text-gray-500 mt-1">只在市價低於理論價（BTC 已實現波動率、距開盤參考價、剩餘時間）至少指定優勢時買入</p>
+              </div>
+              <div className="relative">
+                <input
+                  type="checkbox"
+                  checked={localConfig.fairValueGate}
+                  onChange={(e) => handleChange('fairValueGate', e.target.checked)}
+                  className="sr-only"
+                  disabled={status.running}
+                />
+                <div className={`w-14 h-7 rounded-full transition-colors ${
+                  localConfig.fairValueGate ? 'bg-green-600' : 'bg-gray-600'
+                }`}>
+                  <div className={`absolute top-0.5 left-0.5 w-6 h-6 bg-white rounded-full transition-transform ${
+                    localConfig.fairValueGate ? 'translate-x-7' : 'translate-x-0'
+                  }`} />
+                </div>
+              </div>
+            </label>
+            <div className="mt-3">
+              <label className="block text-sm text-gray-400 mb-2">最小優勢 (¢)</label>
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                max="50"
+                value={localConfig.fairValueMinEdgeCents}
+                onChange={(e) => handleChange('fairValueMinEdgeCents', parseFloat(e.target.value) || 0)}
+                className="w-full bg-gray-800 border border-blue-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-blue-500 transition-colors"
+                disabled={status.running || !localConfig.fairValueGate}
+              />
+            </div>
+          </div>
+
           <div>
             <label className="block text-sm text-gray-400 mb-2 flex items-center gap-1">
               <Hash className="w-4 h-4" />
@@ -388,10 +588,16 @@ export function ConfigPanel() {
               className="w-full bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-purple-500 transition-colors"
               disabled={status.running}
             >
-              <option value="openai">OpenAI</option>
-              <option value="volcano">Volcano (Doubao)</option>
+              {llmProviders.length > 0
+                ? llmProviders.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)
+                : (
+                  <>
+                    <option value="openai">OpenAI</option>
+                    <option value="volcano">Volcano (Doubao)</option>
+                  </>
+                )}
             </select>
-            <p className="text-xs text-gray-600 mt-1">OpenAI 兼容端點</p>
+            <p className="text-xs text-gray-600 mt-1">儲存後下次分析即使用新的 provider，無需重啟</p>
           </div>
 
           {localConfig.llmProvider === 'openai' && (
@@ -457,6 +663,90 @@ export function ConfigPanel() {
               </div>
             </>
           )}
+
+          {localConfig.llmProvider === 'local' && (
+            <>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Local Model</label>
+                <input
+                  type="text"
+                  value={localConfig.localLlmModel}
+                  onChange={(e) => handleChange('localLlmModel', e.target.value)}
+                  className="w-full bg-gray-800 border border-emerald-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-emerald-500 transition-colors"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">伺服器上的模型名稱，例如 llama3.1、qwen2.5:7b</p>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Local Base URL</label>
+                <input
+                  type="text"
+                  value={localConfig.localLlmBaseUrl}
+                  onChange={(e) => handleChange('localLlmBaseUrl', e.target.value)}
+                  className="w-full bg-gray-800 border border-emerald-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-emerald-500 transition-colors"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">Ollama: http://localhost:11434/v1，llama.cpp: http://localhost:8080/v1</p>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Local API Key</label>
+                <input
+                  type="password"
+                  value={localConfig.localLlmApiKey || ''}
+                  onChange={(e) => handleChange('localLlmApiKey', e.target.value)}
+                  className="w-full bg-gray-800 border border-emerald-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-emerald-500 transition-colors"
+                  placeholder="（可留空）"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">多數本地伺服器不需要金鑰</p>
+              </div>
+            </>
+          )}
+
+          {localConfig.llmProvider === 'anthropic' && (
+            <>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Anthropic Model</label>
+                <input
+                  type="text"
+                  value={localConfig.anthropicModel}
+                  onChange={(e) => handleChange('anthropicModel', e.target.value)}
+                  className="w-full bg-gray-800 border border-rose-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-rose-500 transition-colors"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">Messages API 模型名稱</p>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Anthropic Base URL</label>
+                <input
+                  type="text"
+                  value={localConfig.anthropicBaseUrl}
+                  onChange={(e) => handleChange('anthropicBaseUrl', e.target.value)}
+                  className="w-full bg-gray-800 border border-rose-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-rose-500 transition-colors"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">預設 https://api.anthropic.com，或相容 /v1/messages 的代理</p>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Anthropic API Key</label>
+                <input
+                  type="password"
+                  value={localConfig.anthropicApiKey || ''}
+                  onChange={(e) => handleChange('anthropicApiKey', e.target.value)}
+                  className="w-full bg-gray-800 border border-rose-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-rose-500 transition-colors"
+                  disabled={status.running}
+                />
+                <p className="text-xs text-gray-600 mt-1">僅本地存儲</p>
+              </div>
+            </>
+          )}
+
+          {localConfig.llmProvider === 'mock' && (
+            <div>
+              <p className="text-sm text-gray-400">Mock provider 不連網、不花費，同樣的輸入永遠得到同樣的決策（測試用）</p>
+              <p className="text-xs text-gray-600 mt-1">固定回應與延遲可用 LLM_MOCK_RESPONSE / LLM_MOCK_LATENCY_MS 設定</p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -479,7 +769,7 @@ export function ConfigPanel() {
               className="w-full bg-gray-800 border border-blue-500/30 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-blue-500 transition-colors"
               disabled={status.running}
             />
-            <p className="text-xs text-gray-600 mt-1">輪詢市場資料的毫秒間隔</p>
+            <p className="text-xs text-gray-600 mt-1">無行情事件時重新評估的最長間隔（毫秒）</p>
           </div>
 
           <div>
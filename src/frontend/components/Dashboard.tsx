@@ -2,8 +2,18 @@ import React from 'react';
 import { TrendingUp, TrendingDown, Clock, DollarSign, Activity, Target, Zap, Play, Square, Brain, Sparkles } from 'lucide-react';
 import { useBotStore } from '../store/botStore';
 
+const ORDER_PURPOSE_LABELS: Record<string, string> = {
+  entry: '進場',
+  exit: '出場',
+  'take-profit': '止盈',
+  bracket: '止盈/止損',
+  quote: '做市',
+  'arb-leg': '套利',
+  external: '外部',
+};
+
 export function Dashboard() {
-  const { status, market, positions, aiAnalysis, llmAnalysis, trades, config, startBot, stopBot } = useBotStore();
+  const { status, market, positions, orders, aiAnalysis, llmAnalysis, gates, trades, config, startBot, stopBot, series, selectedSeries, selectSeries } = useBotStore();
 
   const formatDuration = (secondsInput: number) => {
     const seconds = Math.max(0, Math.floor(secondsInput));
@@ -25,6 +35,8 @@ export function Dashboard() {
     </div>
   );
 
+  const openOrders = orders.filter((o) => o.status === 'NEW' || o.status === 'OPEN' || o.status === 'PARTIALLY_FILLED');
+
   const pnlSeries = React.useMemo(() => {
     const chronological = [...trades].reverse();
     let cum = 0;
@@ -107,6 +119,33 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Series Selector */}
+      {series.length > 1 && (
+        <div className="cyber-card rounded-xl p-4">
+          <div className="flex flex-wrap gap-3">
+            {series.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => selectSeries(s.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  s.id === selectedSeries
+                    ? 'bg-gradient-to-r from-cyan-500 to-purple-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                <span>{s.label}</span>
+                <span className={s.sessionPnl >= 0 ? 'text-green-300' : 'text-red-300'}>
+                  {s.sessionPnl >= 0 ? '+' : ''}${(s.sessionPnl / 100).toFixed(2)}
+                </span>
+                {s.openPositions > 0 && <span className="text-xs text-gray-300">{s.openPositions} 倉</span>}
+                {!!s.completeSets && <span className="text-xs text-purple-300">{s.completeSets} 組套利</span>}
+                {s.paused && <span className="text-xs px-1.5 py-0.5 rounded bg-red-600/60 text-white">已暫停</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Total PnL */}
@@ -230,12 +269,55 @@ export function Dashboard() {
               </div>
 
               {/* BTC Spot */}
-              {market.btcSpot != null && (
-                <div className="p-4 bg-gray-800/60 rounded-lg border border-yellow-400/40 flex items-center justify-between mt-4">
-                  <div className="flex items-center gap-2">
-                    <span className="text-yellow-300 font-bold">BTC 即時價</span>
+              {(market.btcSpot != null || (market.btcSpotSources?.length ?? 0) > 0) && (
+                <div className="p-4 bg-gray-800/60 rounded-lg border border-yellow-400/40 mt-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="text-yellow-300 font-bold">BTC 即時價</span>
+                      <span className="text-xs text-gray-500">多來源中位數</span>
+                    </div>
+                    <div className="text-2xl font-bold text-yellow-300 font-mono">
+                      {market.btcSpot != null ? `$${market.btcSpot.toFixed(2)}` : '無可用來源'}
+                    </div>
+                  </div>
+                  {market.btcSpotSources && market.btcSpotSources.length > 0 && (
+                    <div className="flex flex-wrap gap-3 mt-2 text-xs font-mono">
+                      {market.btcSpotSources.map((src) => {
+                        const healthy = src.connected && !src.stale && !src.outlier;
+                        const color = healthy ? 'text-green-400' : src.outlier ? 'text-red-400' : 'text-yellow-500';
+                        const state = !src.connected ? '斷線' : src.stale ? '過期' : src.outlier ? '偏離' : '正常';
+                        return (
+                          <span key={src.id} className={color} title={src.deviationBps != null ? `${src.deviationBps.toFixed(1)} bps` : undefined}>
+                            ● {src.id} {src.price != null ? src.price.toFixed(2) : '-'} ({state})
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Current market vs opening reference price */}
+              {market.strike && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-gray-800/60 rounded-lg border border-blue-400/30 mt-4">
+                  <div>
+                    <div className="text-gray-500 text-xs mb-1">開盤參考價</div>
+                    <div className="text-white font-mono">${market.strike.referencePrice.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 text-xs mb-1">距離參考價</div>
+                    <div className={`font-mono ${market.strike.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {market.strike.delta >= 0 ? '+' : ''}{market.strike.delta.toFixed(2)} ({market.strike.deltaPct >= 0 ? '+' : ''}{market.strike.deltaPct.toFixed(3)}%)
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 text-xs mb-1">剩餘時間</div>
+                    <div className="text-white font-mono">{formatDuration(market.strike.timeRemainingMs / 1000)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 text-xs mb-1">Up 理論機率</div>
+                    <div className="text-blue-300 font-mono">{(market.strike.fairUp * 100).toFixed(1)}%</div>
                   </div>
-                  <div className="text-2xl font-bold text-yellow-300 font-mono">${market.btcSpot.toFixed(2)}</div>
                 </div>
               )}
 
@@ -353,6 +435,31 @@ export function Dashboard() {
               <p>目前沒有持倉</p>
             </div>
           )}
+
+          {openOrders.length > 0 && (
+            <div className="mt-4">
+              <div className="text-gray-400 text-sm mb-2">掛單中 ({openOrders.length})</div>
+              <div className="space-y-1 text-sm">
+                {openOrders.map((o) => (
+                  <div key={o.clientId} className="flex items-center justify-between px-3 py-2 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className={o.side === 'BUY' ? 'text-green-400' : 'text-red-400'}>{o.side === 'BUY' ? '買' : '賣'}</span>
+                      <span className={o.outcome === 'Up' ? 'text-green-300' : 'text-red-300'}>{o.outcome}</span>
+                      <span className="text-xs text-gray-500">{ORDER_PURPOSE_LABELS[o.purpose] ?? o.purpose}</span>
+                    </div>
+                    <div className="flex items-center gap-3 font-mono">
+                      <span className="text-white">{o.price.toFixed(1)}¢</span>
+                      <span className="text-gray-300">{o.filledSize.toFixed(1)}/{o.size}</span>
+                      {o.stopPrice != null && <span className="text-xs text-orange-300">SL {o.stopPrice.toFixed(1)}¢</span>}
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${o.status === 'PARTIALLY_FILLED' ? 'bg-yellow-600/60' : 'bg-cyan-700/60'} text-white`}>
+                        {o.status === 'PARTIALLY_FILLED' ? '部分成交' : o.status === 'NEW' ? '送出中' : '掛單'}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -489,6 +596,39 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Why we didn't trade */}
+      {gates && gates.evaluated > 0 && (
+        <div className="cyber-card rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Activity className="w-5 h-5 text-yellow-400" />
+              <h3 className="text-lg font-bold text-white">為何沒交易</h3>
+            </div>
+            <div className="text-xs text-gray-400">
+              評估 {gates.evaluated} 次 · 產生信號 <span className="text-green-400">{gates.passed}</span> 次
+            </div>
+          </div>
+          <div className="space-y-2">
+            {gates.blocked.map((g) => (
+              <div key={g.gate} className="text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-300">{g.label}</span>
+                  <span className="text-white font-mono">
+                    {g.count} <span className="text-gray-500">({((g.count / gates.evaluated) * 100).toFixed(0)}%)</span>
+                  </span>
+                </div>
+                <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden mt-1">
+                  <div className="h-full bg-yellow-500/70" style={{ width: `${(g.count / gates.evaluated) * 100}%` }} />
+                </div>
+                <div className="text-xs text-gray-500 mt-1 truncate">
+                  最近: {g.lastDetail} · {new Date(g.lastAt).toLocaleTimeString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Bot Config Snapshot */}
       <div className="cyber-card rounded-xl p-6">
         <div className="flex items-center gap-2 mb-4">
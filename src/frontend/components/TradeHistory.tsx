@@ -69,9 +69,13 @@ export function TradeHistory() {
                     <span className={`px-2 py-1 rounded text-xs font-bold ${
                       trade.side === 'BUY' 
                         ? 'bg-cyan-900/50 text-cyan-400 border border-cyan-500/30' 
-                        : 'bg-pink-900/50 text-pink-400 border border-pink-500/30'
+                        : trade.side === 'SETTLEMENT'
+                          ? 'bg-amber-900/50 text-amber-400 border border-amber-500/30'
+                          : trade.side === 'MERGE'
+                            ? 'bg-purple-900/50 text-purple-400 border border-purple-500/30'
+                            : 'bg-pink-900/50 text-pink-400 border border-pink-500/30'
                     }`}>
-                      {trade.side === 'BUY' ? '買入' : '賣出'}
+                      {trade.side === 'BUY' ? '買入' : trade.side === 'SETTLEMENT' ? '結算' : trade.side === 'MERGE' ? '合併' : '賣出'}
                     </span>
                   </td>
                   <td className="py-4 text-right text-white font-mono">
@@ -138,9 +142,9 @@ export function TradeHistory() {
               </div>
             </div>
             <div className="p-4 bg-gray-800/50 rounded-lg">
-              <div className="text-gray-500 text-xs mb-1">賣出次數</div>
+              <div className="text-gray-500 text-xs mb-1">賣出/結算/合併次數</div>
               <div className="text-pink-400 font-bold text-xl">
-                {trades.filter(t => t.side === 'SELL').length}
+                {trades.filter(t => t.side !== 'BUY').length}
               </div>
             </div>
             <div className="p-4 bg-gray-800/50 rounded-lg">
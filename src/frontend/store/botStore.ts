@@ -16,6 +16,8 @@ export interface BotConfig {
   allowCurrentMarketTrading: boolean;
   combinedPriceCap: number;
   buyLeaderPrestart: boolean;
+  fairValueGate: boolean;
+  fairValueMinEdgeCents: number;
   privateKey: string;
   funderAddress: string;
   llmEnabled: boolean;
@@ -25,8 +27,45 @@ export interface BotConfig {
   volcanoModel: string;
   volcanoBaseUrl: string;
   volcanoApiKey?: string | null;
+  localLlmBaseUrl: string;
+  localLlmModel: string;
+  localLlmApiKey?: string | null;
+  anthropicModel: string;
+  anthropicBaseUrl: string;
+  anthropicApiKey?: string | null;
   pollIntervalMs: number;
   llmPollIntervalMs: number;
+  strategy: string;
+  ensembleMode: string; // unanimous | majority | weighted
+  ensembleLlmProviders: string; // comma-separated provider ids, empty = llmProvider only
+  ensembleWeightedThreshold: number;
+}
+
+export interface LLMProviderInfo {
+  id: string;
+  label: string;
+}
+
+export interface StrategyInfo {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// Why candidate entries were blocked this session (see trade-gates.ts)
+export interface TradeGateStats {
+  evaluated: number;
+  passed: number;
+  blocked: Array<{ gate: string; label: string; count: number; lastDetail: string; lastAt: number }>;
+}
+
+// AI scoring profile; the sections (weights, technical, ...) are edited as raw JSON
+export interface AIProfileInfo {
+  id: string;
+  version: number;
+  description?: string;
+  updatedAt?: string;
+  [section: string]: unknown;
 }
 
 export interface Position {
@@ -46,13 +85,33 @@ export interface Trade {
   timestamp: number;
   market: string;
   outcome: 'Up' | 'Down';
-  side: 'BUY' | 'SELL';
+  side: 'BUY' | 'SELL' | 'SETTLEMENT' | 'MERGE';
   price: number;
   size: number;
   pnl?: number;
   pnlPercent?: number;
 }
 
+export type OrderStatus = 'NEW' | 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+
+export interface Order {
+  id: string;
+  clientId: string;
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  filledSize: number;
+  avgFillPrice: number;
+  purpose: string;
+  status: OrderStatus;
+  stopPrice?: number;
+  slug?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface MarketState {
   currentMarket: string | null;
   nextMarket: string | null;
@@ -63,6 +122,28 @@ export interface MarketState {
   timeToStart: number;
   timeToEnd: number;
   btcSpot?: number;
+  btcSpotSources?: SpotSourceHealth[];
+  strike?: StrikeInfo | null;
+}
+
+export interface StrikeInfo {
+  slug: string;
+  referencePrice: number;
+  spot: number;
+  delta: number;
+  deltaPct: number;
+  timeRemainingMs: number;
+  fairUp: number; // 0-1
+}
+
+export interface SpotSourceHealth {
+  id: string;
+  connected: boolean;
+  price: number | null;
+  ageMs: number | null;
+  stale: boolean;
+  outlier: boolean;
+  deviationBps: number | null;
 }
 
 export interface AIAnalysisBrief {
@@ -71,11 +152,13 @@ export interface AIAnalysisBrief {
   confidence: number;
   recommendedSize: number;
   reasons?: string[];
+  blockedBy?: { gate: string; detail: string } | null;
   signals?: {
     technical?: number;
     orderBook?: number;
     sentiment?: number;
     timing?: number;
+    flow?: number;
   };
 }
 
@@ -103,19 +186,68 @@ export interface BotStatus {
   walletBalance?: number;
 }
 
+export interface SeriesSummary {
+  id: string;
+  label: string;
+  paused: boolean;
+  sessionPnl: number;
+  totalPnl: number;
+  openPositions: number;
+  completeSets?: number;
+  aiProfile?: string;
+}
+
+type SeriesPnl = Pick<BotStatus, 'totalPnl' | 'totalPnlPct' | 'totalCost' | 'totalTrades' | 'winRate'>;
+
+// Per-series view state; the selected series is mirrored into the top-level fields
+interface SeriesSlice {
+  market: MarketState | null;
+  positions: Position[];
+  trades: Trade[];
+  orders: Order[];
+  pnl: Partial<SeriesPnl>;
+  aiAnalysis: Partial<Record<AnalysisScope, AIAnalysisBrief>>;
+  llmAnalysis: Partial<Record<AnalysisScope, LLMAnalysisBrief>>;
+  gates: TradeGateStats | null;
+}
+
+const emptySlice = (): SeriesSlice => ({
+  market: null,
+  positions: [],
+  trades: [],
+  orders: [],
+  pnl: { totalPnl: 0, totalPnlPct: 0, totalCost: 0, totalTrades: 0, winRate: 0 },
+  aiAnalysis: {},
+  llmAnalysis: {},
+  gates: null,
+});
+
 interface BotStore {
   config: BotConfig;
+  strategies: StrategyInfo[];
+  llmProviders: LLMProviderInfo[];
+  aiProfiles: AIProfileInfo[];
+  aiProfileSelection: Record<string, string>; // series id -> profile id
+  aiProfileErrors: string[];
   status: BotStatus;
   positions: Position[];
   trades: Trade[];
+  orders: Order[];
   market: MarketState | null;
   aiAnalysis: Partial<Record<AnalysisScope, AIAnalysisBrief>>;
   llmAnalysis: Partial<Record<AnalysisScope, LLMAnalysisBrief>>;
+  gates: TradeGateStats | null;
+  series: SeriesSummary[];
+  selectedSeries: string | null;
+  bySeries: Record<string, SeriesSlice>;
   ws: WebSocket | null;
   
   connect: () => void;
+  selectSeries: (id: string) => void;
   disconnect: () => void;
   updateConfig: (config: Partial<BotConfig>) => void;
+  saveAIProfile: (profile: unknown) => void;
+  selectAIProfile: (series: string, profileId: string) => void;
   startBot: () => void;
   stopBot: () => void;
 }
@@ -137,6 +269,8 @@ export const useBotStore = create<BotStore>((set, get) => ({
     allowCurrentMarketTrading: true,
     combinedPriceCap: 0.98,
     buyLeaderPrestart: false,
+    fairValueGate: false,
+    fairValueMinEdgeCents: 3,
     privateKey: '',
     funderAddress: '',
     llmEnabled: true,
@@ -146,9 +280,24 @@ export const useBotStore = create<BotStore>((set, get) => ({
     volcanoModel: 'ep-20250318191336-qz8fn',
     volcanoBaseUrl: 'https://ark.cn-beijing.volces.com/api/v3',
     volcanoApiKey: '',
+    localLlmBaseUrl: 'http://localhost:11434/v1',
+    localLlmModel: 'llama3.1',
+    localLlmApiKey: '',
+    anthropicModel: 'claude-3-5-haiku-latest',
+    anthropicBaseUrl: 'https://api.anthropic.com',
+    anthropicApiKey: '',
     pollIntervalMs: 10000,
     llmPollIntervalMs: 30000,
+    strategy: 'ai',
+    ensembleMode: 'majority',
+    ensembleLlmProviders: '',
+    ensembleWeightedThreshold: 0.6,
   },
+  strategies: [],
+  llmProviders: [],
+  aiProfiles: [],
+  aiProfileSelection: {},
+  aiProfileErrors: [],
   status: {
     running: false,
     connected: false,
@@ -162,9 +311,14 @@ export const useBotStore = create<BotStore>((set, get) => ({
   },
   positions: [],
   trades: [],
+  orders: [],
   market: null,
   aiAnalysis: {},
   llmAnalysis: {},
+  gates: null,
+  series: [],
+  selectedSeries: null,
+  bySeries: {},
   ws: null,
 
   connect: () => {
@@ -191,20 +345,33 @@ export const useBotStore = create<BotStore>((set, get) => ({
       try {
         const message = JSON.parse(event.data);
         const { type, data } = message;
+        const seriesId: string = message.series || 'default';
+        const slice = get().bySeries[seriesId] || emptySlice();
+        const applySeries = (patch: Partial<SeriesSlice>) => {
+          const next = { ...slice, ...patch };
+          const selected = get().selectedSeries ?? seriesId;
+          set({ bySeries: { ...get().bySeries, [seriesId]: next }, selectedSeries: selected });
+          if (selected === seriesId) get().selectSeries(seriesId);
+        };
 
         switch (type) {
           case 'status':
             set({ status: { ...get().status, ...data, uptimeSeconds: data?.uptimeSeconds != null ? Number(data.uptimeSeconds) : get().status.uptimeSeconds } });
             break;
-          case 'config':
+          case 'config': {
+            const { strategies, llmProviders, ...configData } = data;
+            if (Array.isArray(strategies)) set({ strategies });
+            if (Array.isArray(llmProviders)) set({ llmProviders });
             set({ config: {
               ...get().config,
-              ...data,
+              ...configData,
               aiMinPositionSize: data.aiMinPositionSize ?? get().config.aiMinPositionSize,
               profitTargetPct: data.profitTargetPct ?? get().config.profitTargetPct,
               stopLossPct: data.stopLossPct ?? get().config.stopLossPct,
               combinedPriceCap: data.combinedPriceCap ?? get().config.combinedPriceCap,
               buyLeaderPrestart: data.buyLeaderPrestart ?? get().config.buyLeaderPrestart,
+              fairValueGate: data.fairValueGate ?? get().config.fairValueGate,
+              fairValueMinEdgeCents: data.fairValueMinEdgeCents ?? get().config.fairValueMinEdgeCents,
               llmEnabled: data.llmEnabled ?? get().config.llmEnabled,
               llmProvider: data.llmProvider ?? get().config.llmProvider,
               openaiModel: data.openaiModel ?? get().config.openaiModel,
@@ -214,8 +381,10 @@ export const useBotStore = create<BotStore>((set, get) => ({
               volcanoApiKey: data.volcanoApiKey ?? get().config.volcanoApiKey,
               pollIntervalMs: data.pollIntervalMs ?? get().config.pollIntervalMs,
               llmPollIntervalMs: data.llmPollIntervalMs ?? get().config.llmPollIntervalMs,
+              strategy: data.strategy ?? get().config.strategy,
             } });
             break;
+          }
           case 'market':
             // Ensure numeric prices and log for debugging
             const parsedMarket = data
@@ -229,10 +398,12 @@ export const useBotStore = create<BotStore>((set, get) => ({
                   timeToStart: Number(data.timeToStart),
                   timeToEnd: Number(data.timeToEnd),
                   btcSpot: data.btcSpot != null ? Number(data.btcSpot) : undefined,
+                  btcSpotSources: Array.isArray(data.btcSpotSources) ? data.btcSpotSources : undefined,
+                  strike: data.strike ?? null,
                 }
               : null;
-            console.log('[WS][market]', parsedMarket);
-            set({ market: parsedMarket });
+            console.log('[WS][market]', seriesId, parsedMarket);
+            applySeries({ market: parsedMarket });
             if (data?.uptimeSeconds != null) {
               set({ status: { ...get().status, uptimeSeconds: Number(data.uptimeSeconds) } });
             }
@@ -250,12 +421,12 @@ export const useBotStore = create<BotStore>((set, get) => ({
                 returnPct: p.returnPct != null ? Number(p.returnPct) : undefined,
                 returnUsd: p.returnUsd != null ? Number(p.returnUsd) : undefined,
               }));
-              console.log('[WS][positions]', parsedPositions);
-              set({ positions: parsedPositions });
+              console.log('[WS][positions]', seriesId, parsedPositions);
+              applySeries({ positions: parsedPositions });
             }
             break;
           case 'trade':
-            set({ trades: [
+            applySeries({ trades: [
               {
                 ...data,
                 price: Number(data.price) || 0,
@@ -263,7 +434,7 @@ export const useBotStore = create<BotStore>((set, get) => ({
                 pnl: data.pnl != null ? Number(data.pnl) : undefined,
                 timestamp: data.timestamp != null ? Number(data.timestamp) : Date.now(),
               },
-              ...get().trades,
+              ...slice.trades,
             ].slice(0, 200) });
             break;
           case 'trades':
@@ -275,25 +446,48 @@ export const useBotStore = create<BotStore>((set, get) => ({
                 pnl: t.pnl != null ? Number(t.pnl) : undefined,
                 timestamp: t.timestamp != null ? Number(t.timestamp) : Date.now(),
               }));
-              set({ trades: parsedTrades });
+              applySeries({ trades: parsedTrades });
             }
             break;
+          case 'orders':
+            if (Array.isArray(data)) applySeries({ orders: data });
+            break;
+          case 'order':
+            // Upsert by clientId, which survives the local id -> exchange id switch on acknowledgement
+            applySeries({ orders: [data, ...slice.orders.filter((o) => o.clientId !== data.clientId)].slice(0, 100) });
+            break;
           case 'pnl':
-            set({ status: { 
-              ...get().status,
+            applySeries({ pnl: {
               totalPnl: Number(data.totalPnl) || 0,
               totalPnlPct: data.totalPnlPct != null ? Number(data.totalPnlPct) : undefined,
               totalCost: data.totalCost != null ? Number(data.totalCost) : undefined,
               totalTrades: data.totalTrades || 0,
               winRate: data.winRate || 0,
-              walletBalance: data.walletBalance != null ? Number(data.walletBalance) : get().status.walletBalance,
             } });
             break;
           case 'ai_analysis':
-            set({ aiAnalysis: { ...get().aiAnalysis, [data.scope || 'next']: data } });
+            applySeries({ aiAnalysis: { ...slice.aiAnalysis, [data.scope || 'next']: data } });
             break;
           case 'llm_analysis':
-            set({ llmAnalysis: { ...get().llmAnalysis, [data.scope || 'next']: data } });
+            applySeries({ llmAnalysis: { ...slice.llmAnalysis, [data.scope || 'next']: data } });
+            break;
+          case 'gates':
+            applySeries({ gates: data });
+            break;
+          case 'aiProfiles':
+            set({ aiProfiles: data.profiles || [], aiProfileSelection: data.selected || {}, aiProfileErrors: [] });
+            break;
+          case 'aiProfile:error':
+            set({ aiProfileErrors: data.errors || [] });
+            break;
+          case 'series':
+            if (Array.isArray(data)) {
+              set({ series: data });
+              const selected = get().selectedSeries;
+              if (data.length > 0 && (!selected || !data.some((s: SeriesSummary) => s.id === selected))) {
+                get().selectSeries(data[0].id);
+              }
+            }
             break;
         }
       } catch (err) {
@@ -302,6 +496,21 @@ export const useBotStore = create<BotStore>((set, get) => ({
     };
   },
 
+  selectSeries: (id) => {
+    const slice = get().bySeries[id] || emptySlice();
+    set({
+      selectedSeries: id,
+      market: slice.market,
+      positions: slice.positions,
+      trades: slice.trades,
+      orders: slice.orders,
+      aiAnalysis: slice.aiAnalysis,
+      llmAnalysis: slice.llmAnalysis,
+      gates: slice.gates,
+      status: { ...get().status, ...slice.pnl },
+    });
+  },
+
   disconnect: () => {
     const { ws } = get();
     if (ws) {
@@ -320,6 +529,20 @@ export const useBotStore = create<BotStore>((set, get) => ({
     }
   },
 
+  saveAIProfile: (profile) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'aiProfile:save', data: { profile } }));
+    }
+  },
+
+  selectAIProfile: (series, profileId) => {
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'aiProfile:select', data: { series, profileId } }));
+    }
+  },
+
   startBot: () => {
     const { ws } = get();
     if (ws && ws.readyState === WebSocket.OPEN) {
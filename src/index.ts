@@ -2,17 +2,20 @@ import { config, validateConfig } from './config.js';
 import { MarketFetcher } from './market-fetcher.js';
 import { Trader } from './trader.js';
 import { Strategy } from './strategy.js';
+import { SettlementManager } from './settlement.js';
 
 class TradingBot {
   private fetcher: MarketFetcher;
   private trader: Trader;
   private strategy: Strategy;
+  private settlement: SettlementManager;
   private isRunning = false;
 
   constructor() {
     this.fetcher = new MarketFetcher();
     this.trader = new Trader();
     this.strategy = new Strategy();
+    this.settlement = new SettlementManager(this.fetcher, this.trader);
   }
 
   async start(): Promise<void> {
@@ -22,6 +25,7 @@ class TradingBot {
 
     validateConfig();
     await this.trader.initialize();
+    await this.trader.loadTradeHistory();
 
     this.isRunning = true;
     await this.runLoop();
@@ -51,6 +55,7 @@ class TradingBot {
     // 2. 更新持倉價格
     const positions = this.trader.getPositions();
     this.strategy.updatePositionPrices(positions, state);
+    await this.settlement.check(state);
 
     // 3. 顯示狀態
     this.logStatus(state);
@@ -67,14 +72,16 @@ class TradingBot {
           signal.tokenId,
           signal.outcome,
           signal.price,
-          signal.size
+          signal.size,
+          { slug: state.nextMarket?.slug, reason: signal.reason }
         );
       } else if (signal.action === 'SELL') {
         await this.trader.sell(
           signal.tokenId,
           signal.outcome,
           signal.price,
-          signal.size
+          signal.size,
+          signal.reason
         );
       }
     }
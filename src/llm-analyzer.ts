@@ -1,5 +1,8 @@
-import OpenAI from 'openai';
 import { config } from './config.js';
+import { llmAuditLog, type LLMUsage } from './llm-audit-log.js';
+import { buildRepairPrompt, LLM_ANALYSIS_SCHEMA, validateLLMResponse, type LLMResponse } from './llm-schema.js';
+import { promptTemplates, type LLMPromptContext, type RenderedPrompt } from './llm-prompt.js';
+import { llmProviders } from './llm-providers/registry.js';
 import type { MarketState, OrderBook, Position } from './types.js';
 
 /**
@@ -14,148 +17,192 @@ export interface LLMAnalysis {
   marketSummary: string;
 }
 
+/**
+ * 單次 LLM 呼叫的追蹤資訊（寫入稽核日誌）
+ */
+interface LLMCallTrace {
+  provider: string;
+  model: string;
+  latencyMs: number;
+  usage: LLMUsage | null;
+  rawResponse: string | null;
+  attempts: number;
+  costUsd: number;
+  schemaErrors: string[]; // 第一次回應不符合 schema 的原因（重問成功時仍保留）
+  repaired: boolean; // 重問後才通過驗證
+}
+
+/**
+ * 回應格式驗證統計（每個 provider / 模型，自啟動起；GET /api/status）
+ */
+export interface LLMValidationStats {
+  provider: string;
+  model: string;
+  analyses: number; // 取得回應的分析次數（API 呼叫失敗不計入）
+  firstPassValid: number; // 第一次回應即通過
+  repaired: number; // 重問後通過
+  failed: number; // 重問後仍不符合，視為不交易
+  empty: number; // 以下三項按回應計（含重問）
+  parseErrors: number;
+  schemaErrors: number;
+  constrained: number; // 受 schema 約束的回應數
+  violationRate: number; // 第一次回應不符合的比例
+  failureRate: number; // 最終失敗的比例
+}
+
 /**
  * LLM 市場分析器
- * 使用 OpenAI GPT 模型分析市場數據並做出交易決策
+ * 組 prompt（模板見 llm-prompt.ts）、解析 JSON 回應；實際呼叫經由 provider 註冊表（OpenAI / Volcano / 本地 / Anthropic / Mock，見 llm-providers/）
  */
 export class LLMAnalyzer {
-  private openai: OpenAI | null = null;
   private lastAnalysis: LLMAnalysis | null = null;
-  // Cache disabled to avoid stale outputs
-  private analysisCache: Map<string, { analysis: LLMAnalysis; timestamp: number }> = new Map();
-  private readonly CACHE_TTL_MS = 0;
-
-  constructor() {
-    // Support OpenAI-compatible providers (OpenAI or Volcano Engine/Doubao)
-    const provider = config.LLM_PROVIDER?.toLowerCase() || 'openai';
-    if (!config.LLM_ENABLED) return;
-
-    if (provider === 'volcano') {
-      if (!config.VOLCANO_API_KEY) return;
-      this.openai = new OpenAI({
-        apiKey: config.VOLCANO_API_KEY,
-        baseURL: config.VOLCANO_BASE_URL, // e.g. https://ark.cn-beijing.volces.com/api/v3
-      });
-    } else {
-      if (!config.OPENAI_API_KEY) return;
-      this.openai = new OpenAI({
-        apiKey: config.OPENAI_API_KEY,
-      });
-    }
+  private validation: Map<string, Omit<LLMValidationStats, 'violationRate' | 'failureRate'>> = new Map(); // `${provider}/${model}` -> 統計
+
+  /**
+   * 檢查 LLM 是否可用（provider 依目前設定建立，設定面板修改後即時生效）
+   */
+  isAvailable(providerId?: string): boolean {
+    return llmProviders.isAvailable(providerId);
   }
 
   /**
-   * 檢查 LLM 是否可用
+   * provider 實際使用的 id 與模型（未知 id 會回退到預設 provider）
    */
-  isAvailable(): boolean {
-    if (!config.LLM_ENABLED) return false;
-    const provider = config.LLM_PROVIDER?.toLowerCase() || 'openai';
-    if (provider === 'volcano') {
-      return !!this.openai && !!config.VOLCANO_API_KEY;
-    }
-    return !!this.openai && !!config.OPENAI_API_KEY;
+  getProviderInfo(providerId?: string): { id: string; model: string } {
+    const provider = llmProviders.get(providerId);
+    return { id: provider.id, model: provider.model };
   }
 
   /**
-   * 分析市場並給出交易建議
+   * 分析市場並給出交易建議（每次呼叫寫入稽核日誌，見 llm-audit-log.ts）
+   * providerId 省略時用 config.LLM_PROVIDER；集成投票（ensemble 策略）會對每個投票 provider 各呼叫一次
+   * context 為歷史上下文（價格 / 現貨序列、最近交易），在 LLM_PROMPT_TOKEN_BUDGET 內附加到市場數據後
    */
   async analyze(
     state: MarketState,
     upOrderBook: OrderBook,
     downOrderBook: OrderBook,
-    positions: Map<string, Position>
+    positions: Map<string, Position>,
+    scope: 'next' | 'current' = 'next',
+    providerId?: string,
+    context?: LLMPromptContext
   ): Promise<LLMAnalysis> {
-    if (!this.isAvailable()) {
+    if (!this.isAvailable(providerId)) {
       return this.getDefaultAnalysis('LLM 未啟用或 API Key 未設置');
     }
 
+    // 準備市場數據摘要
+    let marketData = this.prepareMarketData(state, upOrderBook, downOrderBook, positions);
+    const provider = llmProviders.get(providerId);
+    const trace: LLMCallTrace = {
+      provider: provider.id,
+      model: provider.model,
+      latencyMs: 0,
+      usage: null,
+      rawResponse: null,
+      attempts: 0,
+      costUsd: 0,
+      schemaErrors: [],
+      repaired: false,
+    };
+    const startedAt = Date.now();
+
     try {
-      const analysis = await this.callLLM(state, upOrderBook, downOrderBook, positions);
+      const prompt = await promptTemplates.render(state, marketData, context);
+      marketData = prompt.marketData;
+      const analysis = await this.callLLM(prompt, trace, providerId);
       this.lastAnalysis = analysis;
+      this.audit(state, scope, marketData, trace, analysis);
       return analysis;
     } catch (error: any) {
       console.error('[LLM] 分析失敗:', error?.message);
-      return this.getDefaultAnalysis(`API 錯誤: ${error?.message}`);
+      trace.latencyMs = Date.now() - startedAt;
+      const analysis = this.getDefaultAnalysis(`API 錯誤: ${error?.message}`);
+      this.audit(state, scope, marketData, trace, analysis, String(error?.message || error));
+      return analysis;
     }
   }
 
   /**
-   * 調用 LLM API
+   * 調用 LLM API（延遲、token 用量、原始回應寫入 trace，重問的呼叫一併累計；輸入與原始回應只寫入稽核日誌，不印到 console）
+   * 回應不符合 schema 時帶著錯誤重問（LLM_REPAIR_RETRIES 次），仍不符合則不交易
    */
-  private async callLLM(
-    state: MarketState,
-    upOrderBook: OrderBook,
-    downOrderBook: OrderBook,
-    positions: Map<string, Position>
-  ): Promise<LLMAnalysis> {
-    if (!this.openai) {
-      return this.getDefaultAnalysis('OpenAI 客戶端未初始化');
-    }
+  private async callLLM(prompt: RenderedPrompt, trace: LLMCallTrace, providerId?: string): Promise<LLMAnalysis> {
+    const schema = config.LLM_SCHEMA_CONSTRAINED ? LLM_ANALYSIS_SCHEMA : undefined;
+    let user = prompt.user;
+    for (let round = 0; ; round++) {
+      const result = await llmProviders.complete({
+        system: prompt.system,
+        user,
+        temperature: 0.3, // 較低溫度以獲得更一致的結果
+        maxTokens: 500,
+        json: true,
+        schema,
+      }, providerId);
+      Object.assign(trace, {
+        provider: result.provider,
+        model: result.model,
+        latencyMs: trace.latencyMs + result.latencyMs,
+        usage: this.addUsage(trace.usage, result.usage),
+        attempts: trace.attempts + result.attempts,
+        costUsd: trace.costUsd + result.costUsd,
+        rawResponse: result.content ?? null,
+      });
 
-    // 準備市場數據摘要
-    const marketData = this.prepareMarketData(state, upOrderBook, downOrderBook, positions);
-
-    console.log('[LLM][Input]\n' + marketData);
-
-    const systemPrompt = `You are an expert cryptocurrency trading analyst specializing in short-term BTC price prediction markets.
-
-Your task is to analyze market data and decide whether to trade in a 15-minute BTC Up/Down prediction market on Polymarket.
-
-IMPORTANT RULES:
-1. You can only BUY one side (Up or Down) before the market starts
-2. The market resolves based on whether BTC price goes up or down in the next 15 minutes
-3. You want to buy at a price below 50¢ and sell for profit before market starts, OR hold until resolution
-4. Consider order book depth, price momentum, and market sentiment
-5. Be conservative - only recommend trading when you have reasonable confidence
-6. Position size should scale with confidence (20-100 shares)
-7. Only trade when Up+Down price sum is below ${ (config.COMBINED_PRICE_CAP * 100).toFixed(0) }¢ (combined price cap)
-8. Identify the current leader: whichever side has the higher price is favored to win; reflect this in reasoning and only go contrarian with strong evidence
-
-Respond in JSON format ONLY:
-{
-  "shouldTrade": boolean,
-  "recommendedOutcome": "Up" | "Down" | null,
-  "confidence": number (0-100),
-  "recommendedSize": number (20-100),
-  "reasoning": "brief explanation",
-  "marketSummary": "one line market condition summary"
-}`;
-
-    const userPrompt = `Analyze this market data and decide if we should trade:
-
-${marketData}
-
-Remember: Only recommend trading if you see a clear opportunity. Be specific about why you chose Up or Down.`;
-
-    const response = await this.openai.chat.completions.create({
-      model: (config.LLM_PROVIDER?.toLowerCase() === 'volcano'
-        ? config.VOLCANO_MODEL
-        : config.OPENAI_MODEL),
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.3, // 較低溫度以獲得更一致的結果
-      max_tokens: 500,
-      response_format: { type: 'json_object' },
-    });
+      const check = validateLLMResponse(result.content);
+      const stats = this.getValidationStatsFor(result.provider, result.model);
+      if (round === 0) stats.analyses += 1;
+      if (result.constrained) stats.constrained += 1;
+      if (check.response) {
+        if (round === 0) stats.firstPassValid += 1;
+        else stats.repaired += 1;
+        trace.repaired = round > 0;
+        return this.validateAndNormalize(check.response);
+      }
+
+      if (check.problem === 'empty') stats.empty += 1;
+      else if (check.problem === 'parse') stats.parseErrors += 1;
+      else stats.schemaErrors += 1;
+      if (round === 0) trace.schemaErrors = check.errors;
+      console.warn(`[LLM] 回應不符合格式（第 ${round + 1} 次）: ${check.errors.join('; ')}`);
+
+      if (round >= config.LLM_REPAIR_RETRIES) {
+        stats.failed += 1;
+        return this.getDefaultAnalysis(`回應不符合格式: ${check.errors.join('; ')}`);
+      }
+      user = buildRepairPrompt(prompt.user, result.content, check.errors);
+    }
+  }
 
-    console.log('[LLM][Provider]', config.LLM_PROVIDER || 'openai');
-    console.log('[LLM][Model]', config.LLM_PROVIDER?.toLowerCase() === 'volcano' ? config.VOLCANO_MODEL : config.OPENAI_MODEL);
-    console.log('[LLM][Raw]', JSON.stringify(response.choices?.[0] ?? {}, null, 2));
+  /**
+   * 各 provider / 模型的回應格式統計
+   */
+  getValidationStats(): LLMValidationStats[] {
+    return Array.from(this.validation.values()).map((s) => ({
+      ...s,
+      violationRate: s.analyses > 0 ? (s.analyses - s.firstPassValid) / s.analyses : 0,
+      failureRate: s.analyses > 0 ? s.failed / s.analyses : 0,
+    }));
+  }
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return this.getDefaultAnalysis('LLM 返回空響應');
+  private getValidationStatsFor(provider: string, model: string): Omit<LLMValidationStats, 'violationRate' | 'failureRate'> {
+    const key = `${provider}/${model}`;
+    let stats = this.validation.get(key);
+    if (!stats) {
+      stats = { provider, model, analyses: 0, firstPassValid: 0, repaired: 0, failed: 0, empty: 0, parseErrors: 0, schemaErrors: 0, constrained: 0 };
+      this.validation.set(key, stats);
     }
+    return stats;
+  }
 
-    try {
-      const parsed = JSON.parse(content);
-      return this.validateAndNormalize(parsed);
-    } catch (e) {
-      console.error('[LLM] JSON 解析失敗:', content);
-      return this.getDefaultAnalysis('JSON 解析失敗');
-    }
+  private addUsage(total: LLMUsage | null, usage: LLMUsage | null): LLMUsage | null {
+    if (!usage) return total;
+    if (!total) return { ...usage };
+    return {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    };
   }
 
   /**
@@ -181,6 +228,16 @@ Remember: Only recommend trading if you see a clear opportunity. Be specific abo
     const downBestBid = downOrderBook.bids[0]?.price || 0;
     const downBestAsk = downOrderBook.asks[0]?.price || 0;
 
+    // 當前市場相對開盤參考價（strike）的位置
+    const strike = state.strike;
+    const strikeInfo = strike
+      ? `Reference (Start) Price: $${strike.referencePrice.toFixed(2)}
+Spot Now: $${strike.spot.toFixed(2)}
+Distance to Strike: ${strike.delta >= 0 ? '+' : ''}${strike.delta.toFixed(2)} USD (${strike.deltaPct >= 0 ? '+' : ''}${strike.deltaPct.toFixed(3)}%)
+Time Remaining: ${Math.round(strike.timeRemainingMs / 1000)}s
+Fair Probability of Up: ${(strike.fairUp * 100).toFixed(1)}% (annualized vol ${(strike.volatility * 100).toFixed(0)}%)`
+      : 'Unavailable (no spot reference captured at market start)';
+
     // 持倉狀態
     const hasPosition = positions.size > 0;
     const positionInfo = hasPosition
@@ -201,6 +258,9 @@ Price Sum: ${(state.upPrice + state.downPrice).toFixed(2)}¢ (should be ~100¢)
 Combined Price Cap: ${(config.COMBINED_PRICE_CAP * 100).toFixed(0)}¢ (must be below to buy)
 Leader: ${state.upPrice > state.downPrice ? 'Up' : state.downPrice > state.upPrice ? 'Down' : 'Tie'} (${Math.abs(state.upPrice - state.downPrice).toFixed(2)}¢ gap)
 
+=== CURRENT MARKET VS STRIKE ===
+${strikeInfo}
+
 === UP ORDER BOOK ===
 Best Bid: ${(upBestBid * 100).toFixed(2)}¢ | Best Ask: ${(upBestAsk * 100).toFixed(2)}¢
 Spread: ${((upBestAsk - upBestBid) * 100).toFixed(2)}¢
@@ -231,19 +291,11 @@ Min Position Size: ${config.AI_MIN_POSITION_SIZE} shares
   /**
    * 驗證並標準化 LLM 響應
    */
-  private validateAndNormalize(parsed: any): LLMAnalysis {
-    const shouldTrade = Boolean(parsed.shouldTrade);
-    let recommendedOutcome: 'Up' | 'Down' | null = null;
-    
-    if (parsed.recommendedOutcome === 'Up' || parsed.recommendedOutcome === 'Down') {
-      recommendedOutcome = parsed.recommendedOutcome;
-    }
+  private validateAndNormalize(parsed: LLMResponse): LLMAnalysis {
+    const { shouldTrade, recommendedOutcome, confidence } = parsed;
 
-    const confidence = Math.max(0, Math.min(100, Number(parsed.confidence) || 0));
-    
-    // 根據信心度計算倉位大小
-    let recommendedSize = Number(parsed.recommendedSize) || config.AI_MIN_POSITION_SIZE;
-    recommendedSize = Math.max(config.AI_MIN_POSITION_SIZE, Math.min(config.MAX_POSITION_SIZE, recommendedSize));
+    // 倉位限制在 AI_MIN_POSITION_SIZE ~ MAX_POSITION_SIZE
+    const recommendedSize = Math.max(config.AI_MIN_POSITION_SIZE, Math.min(config.MAX_POSITION_SIZE, parsed.recommendedSize));
 
     // 如果信心度低於門檻，不交易
     if (confidence < config.AI_MIN_CONFIDENCE) {
@@ -258,15 +310,53 @@ Min Position Size: ${config.AI_MIN_POSITION_SIZE} shares
     }
 
     return {
-      shouldTrade: shouldTrade && recommendedOutcome !== null,
+      shouldTrade,
       recommendedOutcome,
       confidence,
       recommendedSize: shouldTrade ? recommendedSize : 0,
-      reasoning: String(parsed.reasoning || 'No reasoning provided'),
-      marketSummary: String(parsed.marketSummary || 'No summary'),
+      reasoning: parsed.reasoning || 'No reasoning provided',
+      marketSummary: parsed.marketSummary || 'No summary',
     };
   }
 
+  /**
+   * 寫入稽核日誌：分析對象為 scope 對應的市場（next = 盤前市場，current = 進行中市場）
+   */
+  private audit(
+    state: MarketState,
+    scope: 'next' | 'current',
+    input: string,
+    trace: LLMCallTrace,
+    decision: LLMAnalysis,
+    error?: string
+  ): void {
+    const market = scope === 'next' ? state.nextMarket : state.currentMarket;
+    const now = Date.now();
+    void llmAuditLog.recordDecision({
+      kind: 'decision',
+      id: `${now}-${state.series?.id ?? 'btc-15m'}-${scope}`,
+      timestamp: now,
+      series: state.series?.id ?? 'btc-15m',
+      scope,
+      slug: market?.slug ?? null,
+      upTokenId: (scope === 'next' ? state.upTokenId : state.currentUpTokenId) || null,
+      endDate: market?.endDate ?? null,
+      provider: trace.provider,
+      model: trace.model,
+      latencyMs: trace.latencyMs,
+      attempts: trace.attempts,
+      usage: trace.usage,
+      costUsd: trace.costUsd,
+      input,
+      rawResponse: trace.rawResponse,
+      decision,
+      ...(trace.schemaErrors.length > 0 ? { schemaErrors: trace.schemaErrors, repaired: trace.repaired } : {}),
+      ...(error ? { error } : {}),
+      upPrice: scope === 'next' ? state.upPrice : state.currentUpPrice,
+      downPrice: scope === 'next' ? state.downPrice : state.currentDownPrice,
+    });
+  }
+
   /**
    * 獲取默認分析結果（不交易）
    */
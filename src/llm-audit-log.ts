@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import type { LLMAnalysis } from './llm-analyzer.js';
+import type { MarketFetcher } from './market-fetcher.js';
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * 一次 LLM 呼叫（成功或失敗都記錄）
+ */
+export interface LLMDecisionRecord {
+  kind: 'decision';
+  id: string;
+  timestamp: number; // ms
+  series: string;
+  scope: 'next' | 'current';
+  slug: string | null; // 分析對象市場
+  upTokenId: string | null; // 用於查詢結算結果
+  endDate: string | null;
+  provider: string;
+  model: string;
+  latencyMs: number; // 含重試
+  attempts: number;
+  usage: LLMUsage | null;
+  costUsd: number; // 依 provider 價格估算（見 llm-providers/registry.ts）
+  input: string; // 送給模型的市場數據（prepareMarketData + 預算內的歷史上下文，見 llm-prompt.ts）
+  rawResponse: string | null; // 最後一次回應（有重問時為重問的回應）
+  decision: LLMAnalysis;
+  schemaErrors?: string[]; // 第一次回應不符合 schema 的原因（見 llm-schema.ts）
+  repaired?: boolean; // 重問後通過驗證
+  error?: string;
+  upPrice: number; // 呼叫當下分析對象的價格 (cents)
+  downPrice: number;
+}
+
+/**
+ * 市場結算結果（每個 slug 一行，寫在對應決策之後）
+ */
+export interface LLMOutcomeRecord {
+  kind: 'outcome';
+  slug: string;
+  winningOutcome: 'Up' | 'Down';
+  resolvedAt: number; // ms
+}
+
+/**
+ * 集成投票各投票者在某市場的最後意見與結算結果（供重啟後恢復各投票者的歷史準確度，見 ensemble.ts）
+ */
+export interface LLMEnsembleRecord {
+  kind: 'ensemble';
+  slug: string;
+  winningOutcome: 'Up' | 'Down';
+  votes: Array<{ voter: string; outcome: 'Up' | 'Down' }>;
+  resolvedAt: number; // ms
+}
+
+export type LLMAuditRecord = LLMDecisionRecord | LLMOutcomeRecord | LLMEnsembleRecord;
+
+/**
+ * LLM 決策稽核日誌 - 追加式 JSONL 檔，每次 LLM 呼叫一行，市場結算後再追加結果
+ * 供 npm run llm-report 計算各模型 / provider 的命中率與信心校準
+ */
+export class LLMAuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private pending: Map<string, { upTokenId: string; endTime: number }> = new Map(); // slug -> 待查結算
+  private lastChecked: Map<string, number> = new Map();
+  private resolving: Set<string> = new Set();
+  private outcomeListeners: Array<(slug: string, winningOutcome: 'Up' | 'Down') => void> = [];
+
+  constructor(private readonly filePath: string = config.LLM_AUDIT_LOG_PATH) {}
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<LLMAuditRecord[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return []; // 尚無日誌
+    }
+
+    const records: LLMAuditRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // 最後一行可能在寫入中途被中斷
+        console.warn(`[LLM Audit] 略過無法解析的行: ${line.slice(0, 80)}`);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * 記錄一次 LLM 呼叫；有分析對象市場時排入待查結算
+   */
+  recordDecision(record: LLMDecisionRecord): Promise<void> {
+    if (record.slug && record.upTokenId && !this.pending.has(record.slug)) {
+      const endTime = record.endDate ? new Date(record.endDate).getTime() : record.timestamp;
+      this.pending.set(record.slug, { upTokenId: record.upTokenId, endTime });
+    }
+    return this.append(record);
+  }
+
+  recordOutcome(record: LLMOutcomeRecord): Promise<void> {
+    for (const listener of this.outcomeListeners) listener(record.slug, record.winningOutcome);
+    return this.append(record);
+  }
+
+  recordEnsemble(record: LLMEnsembleRecord): Promise<void> {
+    return this.append(record);
+  }
+
+  /**
+   * 市場結算結果寫入時通知（集成投票據此更新各投票者的準確度）
+   */
+  onOutcome(listener: (slug: string, winningOutcome: 'Up' | 'Down') => void): void {
+    this.outcomeListeners.push(listener);
+  }
+
+  /**
+   * 查詢已結束市場的結算結果並寫入日誌（由 SeriesRunner.reconcile 定期呼叫，間隔同 SETTLEMENT_CHECK_INTERVAL_MS）
+   */
+  async resolvePending(fetcher: MarketFetcher, now: number = Date.now()): Promise<void> {
+    for (const [slug, entry] of Array.from(this.pending.entries())) {
+      if (now < entry.endTime || this.resolving.has(slug)) continue;
+      if (now - (this.lastChecked.get(slug) || 0) < config.SETTLEMENT_CHECK_INTERVAL_MS) continue;
+      this.lastChecked.set(slug, now);
+
+      this.resolving.add(slug);
+      try {
+        const resolution = await fetcher.fetchMarketResolution(entry.upTokenId);
+        if (!resolution?.resolved || !resolution.winningOutcome) continue;
+        this.pending.delete(slug);
+        this.lastChecked.delete(slug);
+        await this.recordOutcome({ kind: 'outcome', slug, winningOutcome: resolution.winningOutcome, resolvedAt: now });
+      } finally {
+        this.resolving.delete(slug);
+      }
+    }
+  }
+
+  /**
+   * 追加一行（依呼叫順序串行寫入，不阻塞交易流程）
+   */
+  private append(record: LLMAuditRecord): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+      })
+      .catch((err) => {
+        console.warn('[LLM Audit] Failed to append record:', (err as Error)?.message || err);
+      });
+    return this.writeQueue;
+  }
+}
+
+export const llmAuditLog = new LLMAuditLog();
@@ -0,0 +1,305 @@
+/**
+ * LLM prompt 組裝 - 模板檔（LLM_PROMPTS_DIR）+ 市場數據 + 可裁剪的歷史上下文
+ *
+ * - 模板為 system.md / user.md，以 {{name}} 代入變數；檔案修改後下次呼叫自動重新讀取
+ * - 歷史上下文（Up/Down 價格、現貨路徑、前幾局結果、我們最近的交易）超出 LLM_PROMPT_TOKEN_BUDGET 時
+ *   依優先順序先縮短、再捨棄，必要的市場數據不裁剪
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import type { MarketState, TradeRecord } from './types.js';
+
+export interface SeriesPoint {
+  t: number; // ms
+  v: number;
+}
+
+/**
+ * 一次 LLM 分析可用的歷史上下文（由 Strategy 依 scope 組裝）
+ */
+export interface LLMPromptContext {
+  now: number; // ms
+  up: SeriesPoint[]; // cents
+  down: SeriesPoint[]; // cents
+  spot: SeriesPoint[]; // USD
+  recentTrades: TradeRecord[];
+}
+
+export interface PromptSection {
+  title: string;
+  priority: number; // 超出預算時數字小的先裁剪
+  variants: string[]; // 由詳細到精簡；全部裁剪後整段捨棄
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  marketData: string; // 代入 user 模板的市場數據（含歷史上下文），寫入稽核日誌
+  estimatedTokens: number;
+  trimmed: string[]; // 被縮短或捨棄的段落
+}
+
+// 同一序列兩次取樣的最小間隔，更密的更新只覆蓋最後一點
+const MIN_SAMPLE_SPACING_MS = 1000;
+
+/**
+ * 依 tokenId（或現貨）記錄帶時間戳的價格，只保留 LLM_CONTEXT_WINDOW_MS 內的取樣
+ */
+export class PriceSeriesRecorder {
+  private series: Map<string, SeriesPoint[]> = new Map();
+
+  record(key: string, value: number, now: number): void {
+    if (!Number.isFinite(value)) return;
+    const points = this.series.get(key) || [];
+    const last = points[points.length - 1];
+    if (last && now - last.t < MIN_SAMPLE_SPACING_MS) {
+      last.v = value;
+    } else {
+      points.push({ t: now, v: value });
+    }
+    this.series.set(key, points);
+    this.prune(now);
+  }
+
+  window(key: string, now: number, windowMs: number = config.LLM_CONTEXT_WINDOW_MS): SeriesPoint[] {
+    return (this.series.get(key) || []).filter((p) => p.t >= now - windowMs && p.t <= now);
+  }
+
+  /**
+   * 丟棄窗口外的取樣；已結束市場的 token 不再更新，整條序列隨之清除
+   */
+  private prune(now: number): void {
+    const cutoff = now - config.LLM_CONTEXT_WINDOW_MS;
+    for (const [key, points] of Array.from(this.series.entries())) {
+      const firstKept = points.findIndex((p) => p.t >= cutoff);
+      if (firstKept === -1) this.series.delete(key);
+      else if (firstKept > 0) points.splice(0, firstKept);
+    }
+  }
+}
+
+/**
+ * 粗估 token 數（英文約 4 字元 / token）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * 把序列壓成固定步長的 points 個點（每步取最後一筆，空步沿用前值）
+ */
+export function downsample(points: SeriesPoint[], count: number, from: number, to: number): number[] {
+  if (points.length === 0 || count < 1 || to <= from) return [];
+  const step = (to - from) / count;
+  const values: number[] = [];
+  let i = 0;
+  let last: number | null = null;
+  for (let bucket = 1; bucket <= count; bucket++) {
+    const end = from + step * bucket;
+    while (i < points.length && points[i].t <= end) last = points[i++].v;
+    if (last !== null) values.push(last);
+  }
+  return values;
+}
+
+function formatDuration(ms: number): string {
+  const sec = Math.round(ms / 1000);
+  if (sec < 60) return `${sec}s`;
+  const min = sec / 60;
+  return Number.isInteger(min) ? `${min}m` : `${min.toFixed(1)}m`;
+}
+
+function signed(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * 序列段落：每種點數一個版本（LLM_CONTEXT_POINTS、一半、四分之一）
+ */
+function seriesVariants(lines: Array<{ label: string; points: SeriesPoint[]; unit: string; digits: number }>, now: number): string[] {
+  const windowMs = config.LLM_CONTEXT_WINDOW_MS;
+  const from = now - windowMs;
+  const counts = Array.from(new Set([config.LLM_CONTEXT_POINTS, Math.ceil(config.LLM_CONTEXT_POINTS / 2), Math.ceil(config.LLM_CONTEXT_POINTS / 4)]))
+    .filter((n) => n >= 2);
+
+  return counts.map((count) => {
+    const body = lines
+      .filter((line) => line.points.length > 0)
+      .map(({ label, points, unit, digits }) => {
+        const values = downsample(points, count, from, now);
+        const first = points[0].v;
+        const latest = points[points.length - 1].v;
+        const min = Math.min(...points.map((p) => p.v));
+        const max = Math.max(...points.map((p) => p.v));
+        return `${label} (${unit}): ${values.map((v) => v.toFixed(digits)).join(' ')}\n` +
+          `  change ${signed(latest - first, digits)}${unit === '¢' ? '¢' : ''} over ${formatDuration(now - points[0].t)}, range ${min.toFixed(digits)}-${max.toFixed(digits)}`;
+      })
+      .join('\n');
+    return `Sampled every ${formatDuration(windowMs / count)}, oldest → newest\n${body}`;
+  });
+}
+
+/**
+ * 可裁剪的歷史上下文段落
+ */
+export function buildContextSections(state: MarketState, context: LLMPromptContext | undefined): PromptSection[] {
+  const sections: PromptSection[] = [];
+  const now = context?.now ?? Date.now();
+
+  if (context && (context.up.length > 0 || context.down.length > 0)) {
+    sections.push({
+      title: `PRICE HISTORY (last ${formatDuration(config.LLM_CONTEXT_WINDOW_MS)})`,
+      priority: 3,
+      variants: seriesVariants([
+        { label: 'Up', points: context.up, unit: '¢', digits: 1 },
+        { label: 'Down', points: context.down, unit: '¢', digits: 1 },
+      ], now),
+    });
+  }
+
+  if (context && context.spot.length > 0) {
+    const asset = (state.series?.asset || 'btc').toUpperCase();
+    const digits = context.spot[context.spot.length - 1].v >= 1000 ? 0 : 2;
+    const variants = seriesVariants([{ label: `${asset} Spot`, points: context.spot, unit: 'USD', digits }], now);
+    const strike = state.strike;
+    sections.push({
+      title: `${asset} SPOT PATH (last ${formatDuration(config.LLM_CONTEXT_WINDOW_MS)})`,
+      priority: 4,
+      variants: strike
+        ? variants.map((v) => `${v}\n  vs reference $${strike.referencePrice.toFixed(2)}: ${signed(strike.delta, 2)} USD now`)
+        : variants,
+    });
+  }
+
+  const outcomes = state.previousOutcomes || [];
+  if (outcomes.length > 0) {
+    const up = outcomes.filter((o) => o === 'Up').length;
+    const down = outcomes.filter((o) => o === 'Down').length;
+    sections.push({
+      title: 'PREVIOUS MARKET OUTCOMES',
+      priority: 2,
+      variants: [`Oldest → newest: ${outcomes.join(' ')} (Up ${up} / Down ${down})`],
+    });
+  }
+
+  const series = state.series?.id ?? 'btc-15m';
+  const closed = (context?.recentTrades || [])
+    .filter((t) => (t.series ?? 'btc-15m') === series && t.pnl != null)
+    .slice(-config.LLM_CONTEXT_TRADES);
+  if (closed.length > 0) {
+    const row = (t: TradeRecord) =>
+      `${formatDuration(now - new Date(t.timestamp).getTime())} ago: ${t.side} ${t.outcome} ${t.size.toFixed(0)} @ ${t.price.toFixed(1)}¢ → PnL ${signed(t.pnl!, 1)}¢`;
+    const summary = (list: TradeRecord[]) => {
+      const wins = list.filter((t) => t.pnl! > 0).length;
+      const total = list.reduce((sum, t) => sum + t.pnl!, 0);
+      return `${wins}/${list.length} profitable, net ${signed(total, 1)}¢`;
+    };
+    const recent = closed.slice(-Math.ceil(closed.length / 2));
+    sections.push({
+      title: 'OUR RECENT TRADE RESULTS',
+      priority: 1,
+      variants: Array.from(new Set([
+        `${closed.map(row).join('\n')}\n${summary(closed)}`,
+        `${recent.map(row).join('\n')}\n${summary(closed)}`,
+        summary(closed),
+      ])),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * 在 token 預算內組合段落：超出時把優先度最低、尚未裁完的段落換成下一個精簡版本或捨棄
+ */
+export function fitSections(
+  base: string,
+  sections: PromptSection[],
+  overheadTokens: number,
+  budget: number = config.LLM_PROMPT_TOKEN_BUDGET
+): { text: string; trimmed: string[] } {
+  const level = sections.map(() => 0); // 目前使用的版本；variants.length = 捨棄
+  const render = () =>
+    [base, ...sections
+      .map((s, i) => (level[i] < s.variants.length ? `=== ${s.title} ===\n${s.variants[level[i]]}` : ''))
+      .filter(Boolean)].join('\n\n');
+
+  let text = render();
+  while (budget > 0 && overheadTokens + estimateTokens(text) > budget) {
+    const candidates = sections
+      .map((s, i) => ({ s, i }))
+      .filter(({ s, i }) => level[i] < s.variants.length)
+      .sort((a, b) => a.s.priority - b.s.priority);
+    if (candidates.length === 0) break; // 只剩必要數據，仍超出也照送
+    level[candidates[0].i] += 1;
+    text = render();
+  }
+
+  const trimmed = sections
+    .map((s, i) => (level[i] === 0 ? '' : `${s.title} ${level[i] >= s.variants.length ? '(dropped)' : '(shortened)'}`))
+    .filter(Boolean);
+  return { text, trimmed };
+}
+
+/**
+ * 以 {{name}} 代入變數；未定義的變數留空並警告
+ */
+export function renderTemplate(template: string, vars: Record<string, string | number>, name: string): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    if (key in vars) return String(vars[key]);
+    console.warn(`[LLM Prompt] ${name} 使用了未知變數 {{${key}}}`);
+    return '';
+  });
+}
+
+/**
+ * 模板檔讀取：每次取用時比對修改時間，有變更才重新讀取
+ */
+export class PromptTemplates {
+  private cache: Map<string, { mtimeMs: number; text: string }> = new Map();
+
+  constructor(private readonly dir?: string) {}
+
+  async get(name: 'system' | 'user'): Promise<string> {
+    const file = path.join(this.dir ?? config.LLM_PROMPTS_DIR, `${name}.md`);
+    let stat;
+    try {
+      stat = await fs.stat(file);
+    } catch {
+      throw new Error(`找不到 prompt 模板 ${file}`);
+    }
+    const cached = this.cache.get(file);
+    if (cached && cached.mtimeMs === stat.mtimeMs) return cached.text;
+
+    const text = (await fs.readFile(file, 'utf-8')).trim();
+    if (cached) console.log(`[LLM Prompt] 模板已重新載入: ${file}`);
+    this.cache.set(file, { mtimeMs: stat.mtimeMs, text });
+    return text;
+  }
+
+  /**
+   * 組出完整 prompt：模板變數 + 市場數據 + 預算內的歷史上下文
+   */
+  async render(state: MarketState, marketData: string, context?: LLMPromptContext): Promise<RenderedPrompt> {
+    const vars = {
+      asset: (state.series?.asset || 'btc').toUpperCase(),
+      minutes: state.series?.intervalMinutes ?? 15,
+      combinedPriceCap: (config.COMBINED_PRICE_CAP * 100).toFixed(0),
+      contextWindow: formatDuration(config.LLM_CONTEXT_WINDOW_MS),
+    };
+    const system = renderTemplate(await this.get('system'), vars, 'system.md');
+    const userTemplate = await this.get('user');
+    const overhead = estimateTokens(system) + estimateTokens(renderTemplate(userTemplate, { ...vars, marketData: '' }, 'user.md'));
+
+    const { text, trimmed } = fitSections(marketData, buildContextSections(state, context), overhead);
+    const user = renderTemplate(userTemplate, { ...vars, marketData: text }, 'user.md');
+    const estimatedTokens = estimateTokens(system) + estimateTokens(user);
+    if (trimmed.length > 0) {
+      console.log(`[LLM Prompt] 約 ${estimatedTokens} tokens（預算 ${config.LLM_PROMPT_TOKEN_BUDGET}），已裁剪: ${trimmed.join(', ')}`);
+    }
+    return { system, user, marketData: text, estimatedTokens, trimmed };
+  }
+}
+
+export const promptTemplates = new PromptTemplates();
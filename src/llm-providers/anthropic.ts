@@ -0,0 +1,73 @@
+import axios from 'axios';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+export interface AnthropicOptions {
+  model: string;
+  apiKey: string;
+  baseURL: string; // 例: https://api.anthropic.com，或相容 Messages API 的代理
+}
+
+/**
+ * Anthropic Messages API（/v1/messages）及相容端點
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  readonly label = 'Anthropic';
+  readonly model: string;
+
+  constructor(private readonly options: AnthropicOptions) {
+    this.model = options.model;
+  }
+
+  isAvailable(): boolean {
+    return !!this.options.apiKey && !!this.options.model && !!this.options.baseURL;
+  }
+
+  async complete(request: LLMCompletionRequest, signal: AbortSignal): Promise<LLMCompletion> {
+    // 有 schema 時強制呼叫唯一的工具，工具輸入即為決策物件；
+    // 否則（Messages API 沒有 JSON mode）預填 assistant 的 "{"，回應從物件內部接續
+    const schema = request.schema;
+    const prefill = request.json && !schema ? '{' : '';
+    const response = await axios.post(
+      `${this.options.baseURL.replace(/\/$/, '')}/v1/messages`,
+      {
+        model: this.model,
+        system: request.system,
+        messages: [
+          { role: 'user', content: request.user },
+          ...(prefill ? [{ role: 'assistant', content: prefill }] : []),
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(schema
+          ? {
+              tools: [{ name: schema.name, description: schema.description, input_schema: schema.schema }],
+              tool_choice: { type: 'tool', name: schema.name },
+            }
+          : {}),
+      },
+      {
+        headers: {
+          'x-api-key': this.options.apiKey,
+          'anthropic-version': '2023-06-01',
+          'content-type': 'application/json',
+        },
+        signal,
+      }
+    );
+
+    const data = response.data;
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+    const toolUse = schema ? blocks.find((block) => block?.type === 'tool_use' && block.name === schema.name) : undefined;
+    const text = blocks.filter((block) => block?.type === 'text').map((block) => block.text).join('');
+    const input = Number(data?.usage?.input_tokens) || 0;
+    const output = Number(data?.usage?.output_tokens) || 0;
+
+    return {
+      content: toolUse ? JSON.stringify(toolUse.input ?? null) : text ? prefill + text : null,
+      usage: data?.usage ? { promptTokens: input, completionTokens: output, totalTokens: input + output } : null,
+      raw: data,
+      constrained: !!toolUse,
+    };
+  }
+}
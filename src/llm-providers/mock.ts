@@ -0,0 +1,86 @@
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+export interface MockOptions {
+  response: string; // 固定回應（JSON 字串）；JSON 字串陣列則依序回應（用完後重複最後一個）；空字串時依輸入雜湊產生
+  latencyMs: number;
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * 測試用 provider：不連網、不花費，同樣的輸入永遠得到同樣的回應
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock（測試用）';
+  readonly model = 'mock';
+
+  private readonly script: string[] | null; // 依序回應（測試格式錯誤後重問等情境）
+  private calls = 0;
+
+  constructor(private readonly options: MockOptions) {
+    this.script = MockLLMProvider.parseScript(options.response);
+  }
+
+  private static parseScript(response: string): string[] | null {
+    if (!response.trim().startsWith('[')) return null;
+    try {
+      const parsed = JSON.parse(response);
+      return Array.isArray(parsed) && parsed.length > 0 ? parsed.map((r) => (typeof r === 'string' ? r : JSON.stringify(r))) : null;
+    } catch {
+      return null; // 不是有效陣列，當作固定回應
+    }
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest, signal: AbortSignal): Promise<LLMCompletion> {
+    if (this.options.latencyMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.options.latencyMs);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('aborted'));
+        });
+      });
+    }
+
+    const content = this.script
+      ? this.script[Math.min(this.calls++, this.script.length - 1)]
+      : this.options.response || this.decide(request.user);
+    const promptTokens = Math.ceil((request.system.length + request.user.length) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      raw: { mock: true },
+      constrained: false,
+    };
+  }
+
+  private decide(input: string): string {
+    const h = hash(input);
+    const confidence = 50 + (h % 41); // 50-90
+    const shouldTrade = confidence >= 70;
+    return JSON.stringify({
+      shouldTrade,
+      recommendedOutcome: h & 0x10000 ? 'Up' : 'Down',
+      confidence,
+      recommendedSize: shouldTrade ? 20 : 0,
+      reasoning: `mock decision (hash ${h.toString(16)})`,
+      marketSummary: 'mock',
+    });
+  }
+}
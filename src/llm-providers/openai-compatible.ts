@@ -0,0 +1,81 @@
+import OpenAI from 'openai';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string; // 省略時為 OpenAI 官方端點
+  requireApiKey: boolean; // 本地伺服器（llama.cpp / Ollama）通常不需要金鑰
+  jsonSchema: boolean; // 端點支援 response_format: json_schema（否則只用 json_object）
+}
+
+/**
+ * OpenAI Chat Completions 相容端點：OpenAI、Volcano Engine (Doubao)、本地 llama.cpp / Ollama / vLLM 等
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.id = options.id;
+    this.label = options.label;
+    this.model = options.model;
+    if (!this.isAvailable()) return;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed', // SDK 要求非空字串
+      baseURL: options.baseURL || undefined,
+      maxRetries: 0, // 重試由 registry 處理
+    });
+  }
+
+  isAvailable(): boolean {
+    if (!this.model) return false;
+    if (this.options.requireApiKey && !this.options.apiKey) return false;
+    return this.options.baseURL !== '';
+  }
+
+  async complete(request: LLMCompletionRequest, signal: AbortSignal): Promise<LLMCompletion> {
+    if (!this.client) throw new Error(`${this.label} 未設定`);
+    const constrained = !!request.schema && this.options.jsonSchema;
+
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.user },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(constrained
+          ? {
+              response_format: {
+                type: 'json_schema' as const,
+                json_schema: { name: request.schema!.name, description: request.schema!.description, schema: request.schema!.schema, strict: true },
+              },
+            }
+          : request.json
+            ? { response_format: { type: 'json_object' as const } }
+            : {}),
+      },
+      { signal }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : null,
+      raw: response.choices?.[0] ?? {},
+      constrained,
+    };
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * LLM provider 註冊表 - config.LLM_PROVIDER 選擇（集成投票可同時使用多個），設定變更（設定面板 config 訊息）後下次呼叫自動重建
+ *
+ * 每個 provider 有各自的逾時 / 重試 / 價格（LLM_PROVIDER_LIMITS 覆蓋），並累計 token 用量與花費
+ */
+import { config } from '../config.js';
+import { AnthropicProvider } from './anthropic.js';
+import { MockLLMProvider } from './mock.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import type { LLMUsage } from '../llm-audit-log.js';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderLimits } from './types.js';
+
+export interface LLMProviderInfo {
+  id: string;
+  label: string;
+}
+
+export interface LLMCallResult extends LLMCompletion {
+  provider: string;
+  model: string;
+  latencyMs: number; // 含重試的總耗時
+  attempts: number;
+  costUsd: number;
+}
+
+export interface LLMUsageStats {
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number; // 重試用盡仍失敗
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export const DEFAULT_LLM_PROVIDER_ID = 'openai';
+
+interface ProviderEntry {
+  label: string;
+  create: () => LLMProvider;
+  limits: () => LLMProviderLimits; // 預設值（讀取當下的 config）
+}
+
+const remoteLimits = (inputCostPer1M: number, outputCostPer1M: number) => (): LLMProviderLimits => ({
+  timeoutMs: config.LLM_TIMEOUT_MS,
+  maxRetries: config.LLM_MAX_RETRIES,
+  inputCostPer1M,
+  outputCostPer1M,
+});
+
+const providers = new Map<string, ProviderEntry>([
+  [
+    'openai',
+    {
+      label: 'OpenAI',
+      create: () =>
+        new OpenAICompatibleProvider({ id: 'openai', label: 'OpenAI', model: config.OPENAI_MODEL, apiKey: config.OPENAI_API_KEY, requireApiKey: true, jsonSchema: true }),
+      limits: remoteLimits(0.15, 0.6), // gpt-4o-mini 牌價
+    },
+  ],
+  [
+    'volcano',
+    {
+      label: 'Volcano (Doubao)',
+      create: () =>
+        new OpenAICompatibleProvider({
+          id: 'volcano',
+          label: 'Volcano (Doubao)',
+          model: config.VOLCANO_MODEL,
+          apiKey: config.VOLCANO_API_KEY,
+          baseURL: config.VOLCANO_BASE_URL,
+          requireApiKey: true,
+          jsonSchema: false, // 接入點模型不一定支援，只用 json_object
+        }),
+      limits: remoteLimits(0, 0), // 依接入點計價，請用 LLM_PROVIDER_LIMITS 設定
+    },
+  ],
+  [
+    'local',
+    {
+      label: '本地 OpenAI 兼容伺服器',
+      create: () =>
+        new OpenAICompatibleProvider({
+          id: 'local',
+          label: '本地 OpenAI 兼容伺服器',
+          model: config.LOCAL_LLM_MODEL,
+          apiKey: config.LOCAL_LLM_API_KEY,
+          baseURL: config.LOCAL_LLM_BASE_URL,
+          requireApiKey: false,
+          jsonSchema: config.LOCAL_LLM_JSON_SCHEMA, // llama.cpp / vLLM / Ollama 新版支援；舊版伺服器請關閉
+        }),
+      // 本地推理較慢，且重試只會排在同一個佇列後面
+      limits: () => ({ timeoutMs: Math.max(config.LLM_TIMEOUT_MS, 60000), maxRetries: 0, inputCostPer1M: 0, outputCostPer1M: 0 }),
+    },
+  ],
+  [
+    'anthropic',
+    {
+      label: 'Anthropic',
+      create: () =>
+        new AnthropicProvider({ model: config.ANTHROPIC_MODEL, apiKey: config.ANTHROPIC_API_KEY, baseURL: config.ANTHROPIC_BASE_URL }),
+      limits: remoteLimits(0.8, 4),
+    },
+  ],
+  [
+    'mock',
+    {
+      label: 'Mock（測試用）',
+      create: () => new MockLLMProvider({ response: config.LLM_MOCK_RESPONSE, latencyMs: config.LLM_MOCK_LATENCY_MS }),
+      limits: () => ({ timeoutMs: config.LLM_TIMEOUT_MS, maxRetries: 0, inputCostPer1M: 0, outputCostPer1M: 0 }),
+    },
+  ],
+]);
+
+/**
+ * 註冊新 provider（id 重複時覆蓋）
+ */
+export function registerLLMProvider(id: string, label: string, create: () => LLMProvider, limits?: () => LLMProviderLimits): void {
+  providers.set(id, { label, create, limits: limits ?? remoteLimits(0, 0) });
+}
+
+export function listLLMProviders(): LLMProviderInfo[] {
+  return Array.from(providers.entries()).map(([id, entry]) => ({ id, label: entry.label }));
+}
+
+/**
+ * 逾時、網路錯誤、429 與 5xx 可重試；其他 4xx（金鑰錯誤、模型不存在）直接失敗
+ */
+function isRetryable(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  return true;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class LLMProviderRegistry {
+  private instances: Map<string, { provider: LLMProvider; signature: string }> = new Map();
+  private usage: Map<string, LLMUsageStats> = new Map();
+
+  /**
+   * 目前選用的 provider（config.LLM_PROVIDER）
+   */
+  current(): LLMProvider {
+    return this.get();
+  }
+
+  /**
+   * 指定 id 的 provider（省略時為 config.LLM_PROVIDER）；相關設定與上次建立時不同則重建
+   */
+  get(id?: string): LLMProvider {
+    const requested = (id ?? config.LLM_PROVIDER)?.toLowerCase() || DEFAULT_LLM_PROVIDER_ID;
+    const resolved = this.resolveId(requested);
+    const signature = this.configSignature();
+    const cached = this.instances.get(resolved);
+    if (cached && cached.signature === signature) return cached.provider;
+
+    if (resolved !== requested) {
+      console.warn(`[LLM] 未知 provider "${requested}"，使用 ${DEFAULT_LLM_PROVIDER_ID}。可用: ${Array.from(providers.keys()).join(', ')}`);
+    }
+    const provider = providers.get(resolved)!.create();
+    if (cached) {
+      console.log(`[LLM] Provider 已重建: ${provider.label} / ${provider.model}`);
+    }
+    this.instances.set(resolved, { provider, signature });
+    return provider;
+  }
+
+  isAvailable(id?: string): boolean {
+    return config.LLM_ENABLED && this.get(id).isAvailable();
+  }
+
+  /**
+   * 預設值合併 LLM_PROVIDER_LIMITS（JSON: {"local": {"timeoutMs": 90000}, "volcano": {"inputCostPer1M": 0.11}}）
+   */
+  getLimits(id: string = this.current().id): LLMProviderLimits {
+    const defaults = (providers.get(id) ?? providers.get(DEFAULT_LLM_PROVIDER_ID)!).limits();
+    try {
+      const all = JSON.parse(config.LLM_PROVIDER_LIMITS || '{}');
+      return { ...defaults, ...(all?.[id] || {}) };
+    } catch {
+      console.warn('[LLM] LLM_PROVIDER_LIMITS 不是有效的 JSON，忽略');
+      return defaults;
+    }
+  }
+
+  /**
+   * 送出一次對話：逐次嘗試（各自逾時），可重試錯誤以指數退避重試；providerId 省略時用目前選用的 provider
+   */
+  async complete(request: LLMCompletionRequest, providerId?: string): Promise<LLMCallResult> {
+    const provider = this.get(providerId);
+    const limits = this.getLimits(provider.id);
+    const stats = this.getStats(provider);
+    const startedAt = Date.now();
+    stats.calls += 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), limits.timeoutMs);
+      try {
+        const completion = await provider.complete(request, controller.signal);
+        const costUsd = this.cost(completion.usage, limits);
+        stats.promptTokens += completion.usage?.promptTokens ?? 0;
+        stats.completionTokens += completion.usage?.completionTokens ?? 0;
+        stats.costUsd += costUsd;
+        return { ...completion, provider: provider.id, model: provider.model, latencyMs: Date.now() - startedAt, attempts: attempt, costUsd };
+      } catch (error: any) {
+        const reason = controller.signal.aborted ? `逾時 ${limits.timeoutMs}ms` : error?.message || String(error);
+        if (attempt > limits.maxRetries || (!controller.signal.aborted && !isRetryable(error))) {
+          stats.failures += 1;
+          throw new Error(`${provider.label} 呼叫失敗（第 ${attempt} 次）: ${reason}`);
+        }
+        stats.retries += 1;
+        console.warn(`[LLM] ${provider.label} 第 ${attempt} 次呼叫失敗，重試: ${reason}`);
+        await delay(500 * Math.pow(2, attempt - 1));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  getUsage(): LLMUsageStats[] {
+    return Array.from(this.usage.values()).map((s) => ({ ...s }));
+  }
+
+  private cost(usage: LLMUsage | null, limits: LLMProviderLimits): number {
+    if (!usage) return 0;
+    return (usage.promptTokens * limits.inputCostPer1M + usage.completionTokens * limits.outputCostPer1M) / 1_000_000;
+  }
+
+  private getStats(provider: LLMProvider): LLMUsageStats {
+    const key = `${provider.id}/${provider.model}`;
+    let stats = this.usage.get(key);
+    if (!stats) {
+      stats = { provider: provider.id, model: provider.model, calls: 0, failures: 0, retries: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+      this.usage.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * 未知 id 回退到預設 provider
+   */
+  private resolveId(id: string): string {
+    return providers.has(id) ? id : DEFAULT_LLM_PROVIDER_ID;
+  }
+
+  private configSignature(): string {
+    return JSON.stringify([
+      config.OPENAI_MODEL,
+      config.OPENAI_API_KEY,
+      config.VOLCANO_MODEL,
+      config.VOLCANO_API_KEY,
+      config.VOLCANO_BASE_URL,
+      config.LOCAL_LLM_MODEL,
+      config.LOCAL_LLM_API_KEY,
+      config.LOCAL_LLM_BASE_URL,
+      config.LOCAL_LLM_JSON_SCHEMA,
+      config.ANTHROPIC_MODEL,
+      config.ANTHROPIC_API_KEY,
+      config.ANTHROPIC_BASE_URL,
+      config.LLM_MOCK_RESPONSE,
+      config.LLM_MOCK_LATENCY_MS,
+    ]);
+  }
+}
+
+export const llmProviders = new LLMProviderRegistry();
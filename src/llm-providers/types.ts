@@ -0,0 +1,45 @@
+/**
+ * LLM provider 介面
+ *
+ * LLMAnalyzer 只組 prompt 與解析 JSON 回應；provider 負責把一次對話送到對應的 API。
+ * 逾時、重試與花費統計由 registry 統一處理（見 registry.ts）
+ */
+import type { LLMUsage } from '../llm-audit-log.js';
+import type { LLMResponseSchema } from '../llm-schema.js';
+
+export interface LLMCompletionRequest {
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+  json: boolean; // 要求回應為 JSON 物件
+  schema?: LLMResponseSchema; // 支援結構化輸出的 provider 依此約束回應；不支援的只用 JSON mode
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  usage: LLMUsage | null;
+  raw: unknown; // provider 原始回應（日誌用）
+  constrained: boolean; // 回應是否受 schema 約束（json_schema / tool call）
+}
+
+/**
+ * 每個 provider 的逾時、重試與價格（LLM_PROVIDER_LIMITS 可覆蓋）
+ */
+export interface LLMProviderLimits {
+  timeoutMs: number;
+  maxRetries: number; // 逾時 / 網路錯誤 / 429 / 5xx 時的重試次數
+  inputCostPer1M: number; // USD / 百萬輸入 token
+  outputCostPer1M: number; // USD / 百萬輸出 token
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string; // 顯示名稱
+  readonly model: string;
+  /**
+   * 設定是否齊全（API key / base URL）
+   */
+  isAvailable(): boolean;
+  complete(request: LLMCompletionRequest, signal: AbortSignal): Promise<LLMCompletion>;
+}
@@ -0,0 +1,255 @@
+/**
+ * LLM 決策報告：依 provider / 模型統計命中率、信心校準、延遲與 token 用量（資料來源見 llm-audit-log.ts）
+ * 用法: npm run llm-report -- [--file=data/llm-audit.jsonl] [--since=<ISO 時間>] [--series=<id>] [--no-resolve] [--json]
+ *
+ * 尚未有結算結果的已結束市場會先向 Gamma 查詢並追加到日誌（--no-resolve 跳過，純離線）
+ */
+import { config } from './config.js';
+import { LLMAuditLog, type LLMAuditRecord, type LLMDecisionRecord } from './llm-audit-log.js';
+import { MarketFetcher } from './market-fetcher.js';
+
+interface CalibrationBucket {
+  range: string; // 例: 60-70
+  count: number;
+  meanConfidence: number; // %
+  hitRate: number; // %
+}
+
+interface ModelReport {
+  provider: string;
+  model: string;
+  calls: number;
+  errors: number;
+  schemaViolations: number; // 第一次回應不符合 schema
+  repaired: number; // 其中重問後通過
+  meanLatencyMs: number;
+  p95LatencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number; // 依 provider 價格估算
+  directional: number; // 有方向且市場已結算的決策
+  hits: number;
+  hitRate: number; // %
+  brier: number | null; // 信心 vs 結果的 Brier 分數，越低越好（0.25 = 隨機猜 50%）
+  calibration: CalibrationBucket[];
+  trades: number; // shouldTrade 且已結算
+  tradeHits: number;
+  tradeHitRate: number; // %
+  pnl: number; // 每筆建議以推薦方向價格買 1 股持有到結算的假設盈虧 (cents)
+  pnlPer1kTokens: number | null;
+  pnlPerUsd: number | null; // 假設盈虧 (cents) / 花費 (USD)
+  unresolved: number; // 市場尚未結算（或無分析對象）的呼叫
+}
+
+/**
+ * 模型原始回應中的方向與信心（validateAndNormalize 會把低信心決策的方向清空，校準需要原始值）
+ */
+function rawCall(record: LLMDecisionRecord): { outcome: 'Up' | 'Down' | null; confidence: number } {
+  try {
+    const parsed = record.rawResponse ? JSON.parse(record.rawResponse) : null;
+    if (parsed && (parsed.recommendedOutcome === 'Up' || parsed.recommendedOutcome === 'Down')) {
+      return { outcome: parsed.recommendedOutcome, confidence: Math.max(0, Math.min(100, Number(parsed.confidence) || 0)) };
+    }
+  } catch {
+    // 非 JSON 回應：沿用解析後的決策
+  }
+  return { outcome: record.decision.recommendedOutcome, confidence: record.decision.confidence };
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function buildReport(decisions: LLMDecisionRecord[], outcomes: Map<string, 'Up' | 'Down'>): ModelReport[] {
+  const groups = new Map<string, LLMDecisionRecord[]>();
+  for (const d of decisions) {
+    const key = `${d.provider}\u0000${d.model}`;
+    const list = groups.get(key) || [];
+    list.push(d);
+    groups.set(key, list);
+  }
+
+  const reports: ModelReport[] = [];
+  for (const list of Array.from(groups.values())) {
+    const ok = list.filter((d) => !d.error);
+    const latencies = ok.map((d) => d.latencyMs);
+    const buckets = Array.from({ length: 10 }, () => ({ count: 0, confidence: 0, hits: 0 }));
+    let directional = 0;
+    let hits = 0;
+    let brierSum = 0;
+    let trades = 0;
+    let tradeHits = 0;
+    let pnl = 0;
+    let unresolved = 0;
+
+    for (const d of ok) {
+      const winner = d.slug ? outcomes.get(d.slug) : undefined;
+      if (!winner) {
+        unresolved += 1;
+        continue;
+      }
+
+      const { outcome, confidence } = rawCall(d);
+      if (outcome) {
+        const hit = outcome === winner ? 1 : 0;
+        directional += 1;
+        hits += hit;
+        brierSum += Math.pow(confidence / 100 - hit, 2);
+        const bucket = buckets[Math.min(9, Math.floor(confidence / 10))];
+        bucket.count += 1;
+        bucket.confidence += confidence;
+        bucket.hits += hit;
+      }
+
+      const side = d.decision.recommendedOutcome;
+      if (d.decision.shouldTrade && side) {
+        const price = side === 'Up' ? d.upPrice : d.downPrice;
+        trades += 1;
+        if (side === winner) {
+          tradeHits += 1;
+          pnl += 100 - price;
+        } else {
+          pnl -= price;
+        }
+      }
+    }
+
+    const totalTokens = list.reduce((sum, d) => sum + (d.usage?.totalTokens ?? 0), 0);
+    const costUsd = list.reduce((sum, d) => sum + (d.costUsd ?? 0), 0); // 舊紀錄無此欄位
+    reports.push({
+      provider: list[0].provider,
+      model: list[0].model,
+      calls: list.length,
+      errors: list.length - ok.length,
+      schemaViolations: list.filter((d) => d.schemaErrors?.length).length,
+      repaired: list.filter((d) => d.repaired).length,
+      meanLatencyMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
+      p95LatencyMs: percentile(latencies, 95),
+      promptTokens: list.reduce((sum, d) => sum + (d.usage?.promptTokens ?? 0), 0),
+      completionTokens: list.reduce((sum, d) => sum + (d.usage?.completionTokens ?? 0), 0),
+      totalTokens,
+      costUsd,
+      directional,
+      hits,
+      hitRate: directional > 0 ? (hits / directional) * 100 : 0,
+      brier: directional > 0 ? brierSum / directional : null,
+      calibration: buckets
+        .map((b, i) => ({
+          range: `${i * 10}-${i * 10 + 10}`,
+          count: b.count,
+          meanConfidence: b.count > 0 ? b.confidence / b.count : 0,
+          hitRate: b.count > 0 ? (b.hits / b.count) * 100 : 0,
+        }))
+        .filter((b) => b.count > 0),
+      trades,
+      tradeHits,
+      tradeHitRate: trades > 0 ? (tradeHits / trades) * 100 : 0,
+      pnl,
+      pnlPer1kTokens: totalTokens > 0 ? (pnl / totalTokens) * 1000 : null,
+      pnlPerUsd: costUsd > 0 ? pnl / costUsd : null,
+      unresolved,
+    });
+  }
+  return reports.sort((a, b) => b.calls - a.calls);
+}
+
+/**
+ * 查詢已結束但尚無結果的市場，結果追加到日誌
+ */
+async function resolveMissing(log: LLMAuditLog, decisions: LLMDecisionRecord[], outcomes: Map<string, 'Up' | 'Down'>): Promise<void> {
+  const now = Date.now();
+  const targets = new Map<string, string>(); // slug -> upTokenId
+  for (const d of decisions) {
+    if (!d.slug || !d.upTokenId || outcomes.has(d.slug) || targets.has(d.slug)) continue;
+    if (d.endDate && new Date(d.endDate).getTime() > now) continue;
+    targets.set(d.slug, d.upTokenId);
+  }
+  if (targets.size === 0) return;
+
+  console.error(`🔎 查詢 ${targets.size} 個市場的結算結果...`);
+  const fetcher = new MarketFetcher();
+  for (const [slug, upTokenId] of Array.from(targets.entries())) {
+    const resolution = await fetcher.fetchMarketResolution(upTokenId);
+    if (!resolution?.resolved || !resolution.winningOutcome) continue;
+    outcomes.set(slug, resolution.winningOutcome);
+    await log.recordOutcome({ kind: 'outcome', slug, winningOutcome: resolution.winningOutcome, resolvedAt: Date.now() });
+  }
+}
+
+function printReport(reports: ModelReport[], total: number): void {
+  const fmtPnl = (cents: number) => `${cents >= 0 ? '+' : ''}${cents.toFixed(2)}¢`;
+
+  console.log(`\n=== LLM 決策報告（${total} 次呼叫）===`);
+  if (reports.length === 0) {
+    console.log('  (無紀錄)');
+  }
+  for (const r of reports) {
+    console.log(`\n  ${r.provider} / ${r.model}`);
+    console.log(
+      `    呼叫 ${r.calls} 次 | 錯誤 ${r.errors} | 格式不符 ${r.schemaViolations}（重問通過 ${r.repaired}） | 延遲 平均 ${r.meanLatencyMs.toFixed(0)}ms / p95 ${r.p95LatencyMs.toFixed(0)}ms` +
+        ` | tokens ${r.totalTokens} (輸入 ${r.promptTokens} / 輸出 ${r.completionTokens}) | 花費 $${r.costUsd.toFixed(4)}`,
+    );
+    console.log(
+      `    方向命中: ${r.hits}/${r.directional} (${r.hitRate.toFixed(1)}%)` +
+        ` | Brier ${r.brier != null ? r.brier.toFixed(3) : 'N/A'} | 未結算 ${r.unresolved}`,
+    );
+    console.log(
+      `    建議交易: ${r.tradeHits}/${r.trades} 命中 (${r.tradeHitRate.toFixed(1)}%) | 假設盈虧 ${fmtPnl(r.pnl)}/股` +
+        ` | 每千 token ${r.pnlPer1kTokens != null ? fmtPnl(r.pnlPer1kTokens) : 'N/A'}` +
+        ` | 每 $1 花費 ${r.pnlPerUsd != null ? fmtPnl(r.pnlPerUsd) : 'N/A'}`,
+    );
+    if (r.calibration.length > 0) {
+      console.log('    信心校準（信心區間 → 實際命中率）:');
+      for (const b of r.calibration) {
+        console.log(
+          `      ${b.range.padStart(6)}%  ${String(b.count).padStart(5)} 次  平均信心 ${b.meanConfidence.toFixed(1).padStart(5)}%  命中 ${b.hitRate.toFixed(1).padStart(5)}%`,
+        );
+      }
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+  const asJson = args.includes('--json');
+  const since = option('since');
+  const sinceMs = since ? new Date(since).getTime() : 0;
+  if (Number.isNaN(sinceMs)) {
+    console.error(`❌ 無效的時間: ${since}`);
+    process.exit(1);
+  }
+  const series = option('series');
+
+  const log = new LLMAuditLog(option('file') ?? config.LLM_AUDIT_LOG_PATH);
+  const records: LLMAuditRecord[] = await log.load();
+  const outcomes = new Map<string, 'Up' | 'Down'>();
+  const decisions: LLMDecisionRecord[] = [];
+  for (const r of records) {
+    if (r.kind === 'outcome') {
+      outcomes.set(r.slug, r.winningOutcome);
+    } else if (r.kind === 'decision' && r.timestamp >= sinceMs && (!series || r.series === series)) {
+      decisions.push(r);
+    }
+  }
+  console.error(`📂 ${log.getPath()}: ${decisions.length} 次呼叫，${outcomes.size} 個已結算市場`);
+
+  if (!args.includes('--no-resolve')) {
+    await resolveMissing(log, decisions, outcomes);
+  }
+
+  const reports = buildReport(decisions, outcomes);
+  if (asJson) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    printReport(reports, decisions.length);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
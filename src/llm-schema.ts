@@ -0,0 +1,115 @@
+/**
+ * LLM 回應格式 - 決策 JSON 的 schema 與驗證
+ *
+ * - LLM_ANALYSIS_SCHEMA 送給支援結構化輸出的 provider（OpenAI json_schema、Anthropic tool call），約束模型只能回應這個形狀
+ * - 不論 provider 是否支援，回應都經過 validateLLMResponse；不符合時由 LLMAnalyzer 帶著錯誤重問一次
+ * - 數值範圍只寫在 description（部分結構化輸出實作不接受 minimum / maximum），由 validateLLMResponse 檢查
+ */
+
+/**
+ * 模型回應的原始決策（尚未套用信心門檻與倉位上下限）
+ */
+export interface LLMResponse {
+  shouldTrade: boolean;
+  recommendedOutcome: 'Up' | 'Down' | null;
+  confidence: number; // 0-100
+  recommendedSize: number;
+  reasoning: string;
+  marketSummary: string;
+}
+
+export interface LLMResponseSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>; // JSON Schema
+}
+
+export const LLM_ANALYSIS_SCHEMA: LLMResponseSchema = {
+  name: 'trade_decision',
+  description: 'Trading decision for the Up/Down prediction market',
+  schema: {
+    type: 'object',
+    properties: {
+      shouldTrade: { type: 'boolean', description: 'Whether to buy now' },
+      recommendedOutcome: { type: ['string', 'null'], enum: ['Up', 'Down', null], description: 'Side to buy; null when not trading' },
+      confidence: { type: 'number', description: 'Confidence in the recommended side, 0-100' },
+      recommendedSize: { type: 'number', description: 'Shares to buy (>= 0); 0 when not trading' },
+      reasoning: { type: 'string', description: 'Brief explanation' },
+      marketSummary: { type: 'string', description: 'One line market condition summary' },
+    },
+    required: ['shouldTrade', 'recommendedOutcome', 'confidence', 'recommendedSize', 'reasoning', 'marketSummary'],
+    additionalProperties: false,
+  },
+};
+
+export type LLMResponseProblem = 'empty' | 'parse' | 'schema';
+
+export interface LLMResponseCheck {
+  response: LLMResponse | null;
+  problem: LLMResponseProblem | null;
+  errors: string[];
+}
+
+/**
+ * 解析並驗證模型回應；不做任何型別轉換，不符合就回報錯誤
+ */
+export function validateLLMResponse(content: string | null): LLMResponseCheck {
+  if (!content || !content.trim()) {
+    return { response: null, problem: 'empty', errors: ['回應為空'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    return { response: null, problem: 'parse', errors: [`不是有效的 JSON: ${(e as Error).message}`] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { response: null, problem: 'schema', errors: ['回應必須是 JSON 物件'] };
+  }
+
+  const errors: string[] = [];
+  const allowed = LLM_ANALYSIS_SCHEMA.schema.required as string[];
+  for (const key of allowed) {
+    if (!(key in parsed)) errors.push(`${key}: 缺少欄位`);
+  }
+  for (const key of Object.keys(parsed)) {
+    if (!allowed.includes(key)) errors.push(`${key}: 不允許的欄位`);
+  }
+
+  if ('shouldTrade' in parsed && typeof parsed.shouldTrade !== 'boolean') errors.push('shouldTrade: 必須是 boolean');
+  if ('recommendedOutcome' in parsed && parsed.recommendedOutcome !== 'Up' && parsed.recommendedOutcome !== 'Down' && parsed.recommendedOutcome !== null) {
+    errors.push('recommendedOutcome: 必須是 "Up"、"Down" 或 null');
+  }
+  if ('confidence' in parsed && (typeof parsed.confidence !== 'number' || !Number.isFinite(parsed.confidence) || parsed.confidence < 0 || parsed.confidence > 100)) {
+    errors.push('confidence: 必須是 0-100 的數字');
+  }
+  if ('recommendedSize' in parsed && (typeof parsed.recommendedSize !== 'number' || !Number.isFinite(parsed.recommendedSize) || parsed.recommendedSize < 0)) {
+    errors.push('recommendedSize: 必須是 >= 0 的數字');
+  }
+  for (const key of ['reasoning', 'marketSummary'] as const) {
+    if (key in parsed && typeof parsed[key] !== 'string') errors.push(`${key}: 必須是字串`);
+  }
+  if (parsed.shouldTrade === true && parsed.recommendedOutcome == null) {
+    errors.push('recommendedOutcome: shouldTrade 為 true 時必須指定 "Up" 或 "Down"');
+  }
+
+  return errors.length > 0
+    ? { response: null, problem: 'schema', errors }
+    : { response: parsed as LLMResponse, problem: null, errors };
+}
+
+/**
+ * 不符合 schema 時的重問 prompt：附上原回應與錯誤
+ */
+export function buildRepairPrompt(user: string, content: string | null, errors: string[]): string {
+  return `${user}
+
+Your previous response was rejected:
+${content ? content.slice(0, 2000) : '(empty)'}
+
+Problems:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Respond again with a single JSON object containing exactly these fields: shouldTrade (boolean), recommendedOutcome ("Up" | "Down" | null; required when shouldTrade is true), confidence (number 0-100), recommendedSize (number >= 0), reasoning (string), marketSummary (string). No other text.`;
+}
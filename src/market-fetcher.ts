@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { config } from './config.js';
-import type { Market, MarketState } from './types.js';
+import { DEFAULT_SERIES_ID, SERIES, type SeriesDefinition } from './series.js';
+import type { Market, MarketResolution, MarketState } from './types.js';
 
 const GAMMA_API_URL = 'https://gamma-api.polymarket.com';
 const CLOB_HTTP_URL = 'https://clob.polymarket.com';
@@ -8,6 +9,8 @@ const CLOB_HTTP_URL = 'https://clob.polymarket.com';
 export class MarketFetcher {
   private serverTimeOffset: number = 0;
 
+  constructor(readonly series: SeriesDefinition = SERIES[DEFAULT_SERIES_ID]) {}
+
   /**
    * 同步服務器時間
    */
@@ -28,19 +31,19 @@ export class MarketFetcher {
   }
 
   /**
-   * 獲取即將來臨的 BTC 15分鐘市場
-   * 使用 slug 格式: btc-updown-15m-{unix_timestamp}
+   * 獲取本系列即將來臨的市場
+   * slug 由系列定義產生，例如 btc-updown-15m-{unix_timestamp}
    */
-  async fetchUpcomingBTC15MinMarkets(): Promise<Market[]> {
+  async fetchUpcomingMarkets(): Promise<Market[]> {
     const now = this.getServerTime();
     const markets: Market[] = [];
+    const { intervalMs } = this.series;
 
-    // 嘗試獲取過去和接下來幾個 15 分鐘區間的市場（擴大範圍以捕捉所有持倉）
+    // 嘗試獲取過去和接下來幾個區間的市場（擴大範圍以捕捉所有持倉）
     for (let i = -4; i < 5; i++) {
-      const baseTime = i < 0 ? now : now + i * 15 * 60 * 1000;
-      const intervalStart = Math.floor(baseTime / (15 * 60 * 1000)) * (15 * 60 * 1000);
-      const timestamp = Math.floor(intervalStart / 1000);
-      const slug = `btc-updown-15m-${timestamp}`;
+      const baseTime = i < 0 ? now : now + i * intervalMs;
+      const intervalStart = Math.floor(baseTime / intervalMs) * intervalMs;
+      const slug = this.series.slugFor(intervalStart);
 
       try {
         const response = await axios.get(`${GAMMA_API_URL}/events`, {
@@ -63,7 +66,7 @@ export class MarketFetcher {
     try {
       const response = await axios.get(`${GAMMA_API_URL}/events`, {
         params: {
-          tag: '15M',
+          tag: this.series.tag,
           active: true,
           closed: false,
           limit: 20,
@@ -72,7 +75,7 @@ export class MarketFetcher {
 
       if (Array.isArray(response.data)) {
         for (const event of response.data) {
-          if (event.slug?.startsWith('btc-updown-15m-')) {
+          if (event.slug?.startsWith(this.series.slugPrefix)) {
             const market = this.parseEventToMarket(event);
             if (market && !market.closed && !markets.find(m => m.conditionId === market.conditionId)) {
               markets.push(market);
@@ -126,10 +129,15 @@ export class MarketFetcher {
    * 獲取當前市場狀態
    */
   async getMarketState(): Promise<MarketState | null> {
-    const markets = await this.fetchUpcomingBTC15MinMarkets();
+    return this.buildMarketState(await this.fetchUpcomingMarkets());
+  }
 
+  /**
+   * 由已獲取的市場列表與當前服務器時間組出市場狀態（不發請求，事件驅動評估時重複使用市場列表）
+   */
+  buildMarketState(markets: Market[]): MarketState | null {
     if (markets.length === 0) {
-      console.log('[市場] 找不到活躍的 BTC 15分鐘市場');
+      console.log(`[市場] 找不到活躍的 ${this.series.label} 市場`);
       return null;
     }
 
@@ -190,9 +198,53 @@ export class MarketFetcher {
       timeToStart: nextMarket ? new Date(nextMarket.startDate).getTime() - now : 0,
       timeToEnd: currentMarket ? new Date(currentMarket.endDate).getTime() - now : 0,
       previousOutcomes,
+      series: {
+        id: this.series.id,
+        asset: this.series.asset,
+        intervalMinutes: this.series.intervalMs / 60000,
+      },
     };
   }
 
+  /**
+   * 查詢 token 所屬市場的結算狀態
+   * 只有在市場已關閉且 outcomePrices 為 1/0 時才視為已結算
+   */
+  async fetchMarketResolution(tokenId: string): Promise<MarketResolution | null> {
+    try {
+      const response = await axios.get(`${GAMMA_API_URL}/markets`, {
+        params: { clob_token_ids: tokenId },
+      });
+      const market = Array.isArray(response.data) ? response.data[0] : null;
+      if (!market) return null;
+
+      const clobTokenIds: string[] = market.clobTokenIds ? JSON.parse(market.clobTokenIds) : [];
+      const outcomes: string[] = market.outcomes ? JSON.parse(market.outcomes) : ['Up', 'Down'];
+      const outcomePrices: number[] = (market.outcomePrices ? JSON.parse(market.outcomePrices) : []).map(Number);
+
+      const winnerIdx = outcomePrices.findIndex((p) => p === 1);
+      const resolved = market.closed === true && winnerIdx >= 0 && outcomePrices.every((p) => p === 0 || p === 1);
+
+      const payouts: Record<string, number> = {};
+      if (resolved) {
+        clobTokenIds.forEach((id, idx) => {
+          payouts[id] = outcomePrices[idx] * 100;
+        });
+      }
+
+      return {
+        conditionId: market.conditionId,
+        slug: market.slug,
+        resolved,
+        winningOutcome: resolved ? (outcomes[winnerIdx] === 'Up' ? 'Up' : 'Down') : null,
+        payouts,
+      };
+    } catch (error) {
+      console.error('[市場] 查詢結算狀態失敗:', (error as Error)?.message || error);
+      return null;
+    }
+  }
+
   /**
    * 獲取特定 token 的訂單簿
    */
@@ -0,0 +1,155 @@
+/**
+ * 參數最佳化 CLI（離線，見 optimizer.ts）
+ * 用法: npm run optimize -- <錄製檔或目錄...> [--grid=<grid.json>] [--strategy=ai|legacy|market-maker] [--ai-profile=<id>]
+ *       [--folds=3] [--metric=pnl|pnl-dd] [--min-trades=5] [--max-combos=200] [--seed=1] [--top=10] [--json]
+ */
+import fs from 'fs/promises';
+import { loadSnapshots } from './backtest-engine.js';
+import { aiProfiles } from './ai-profile.js';
+import { config } from './config.js';
+import { Optimizer, formatParams, validateGrid, type OptimizationReport, type OptimizeMetric, type ParameterGrid } from './optimizer.js';
+
+const USAGE =
+  '用法: npm run optimize -- <錄製檔或目錄...> [--grid=<grid.json>] [--strategy=ai|legacy|market-maker] [--ai-profile=<id>] ' +
+  '[--folds=3] [--metric=pnl|pnl-dd] [--min-trades=5] [--max-combos=200] [--seed=1] [--top=10] [--json]';
+
+// 未指定 --grid 時的預設掃描範圍（見 optimize-grid.example.json）
+const DEFAULT_GRID: ParameterGrid = {
+  config: {
+    PROFIT_TARGET_PCT: [0.03, 0.05, 0.08],
+    STOP_LOSS_PCT: [0.03, 0.05, 0.1],
+    COMBINED_PRICE_CAP: [0.96, 0.98],
+  },
+  aiProfile: {
+    'weights.orderBook': [0.2, 0.3, 0.4],
+    'timing.optimalWindowMaxMs': [180000, 300000],
+  },
+};
+
+function printReport(report: OptimizationReport, top: number): void {
+  const fmtTime = (ts: number) => new Date(ts).toISOString();
+  const fmtPnl = (cents: number) => `${cents >= 0 ? '+' : ''}${cents.toFixed(2)}¢`;
+
+  console.log('\n=== 參數最佳化 ===');
+  const sampled = report.sampled < report.totalCombos ? `，由 ${report.totalCombos} 組抽樣 ${report.sampled} 組` : '';
+  console.log(`  組合: ${report.combos} 組有效${sampled} | 評分: ${report.metric}`);
+  report.segments.forEach((s, i) => console.log(`  分段 ${i + 1}: ${fmtTime(s.start)} → ${fmtTime(s.end)} (${s.snapshots} 個快照)`));
+  if (report.invalid.length > 0) {
+    console.log(`  無效組合 ${report.invalid.length} 組（設定檔驗證失敗），例: ${report.invalid[0]}`);
+  }
+
+  console.log(`\n  全期排名（樣本內，前 ${top}）:`);
+  const row = (label: string, r: OptimizationReport['baseline']) =>
+    console.log(
+      `    ${label.padEnd(4)} ${fmtPnl(r.pnl).padStart(11)}  ${String(r.closedTrades).padStart(4)} 筆  勝率 ${r.winRate.toFixed(1).padStart(5)}%` +
+        `  回撤 ${r.maxDrawdown.toFixed(2).padStart(8)}¢  盈利分段 ${r.profitableSegments}/${report.segments.length}` +
+        `${r.eligible ? '' : '  (筆數不足)'}  ${formatParams(r.params)}`,
+    );
+  report.ranked.slice(0, top).forEach((r, i) => row(`#${i + 1}`, r));
+  row('基準', report.baseline);
+
+  console.log('\n  Walk-forward（樣本外）:');
+  if (report.walkForward.length === 0) {
+    console.log('    (資料只能切成一段，無法驗證；需要更多市場的錄製)');
+  }
+  for (const f of report.walkForward) {
+    console.log(
+      `    第 ${f.fold} 折 訓練 ${fmtTime(f.trainStart)} → ${fmtTime(f.trainEnd)} | 測試 ${fmtTime(f.testStart)} → ${fmtTime(f.testEnd)}`,
+    );
+    console.log(
+      `      選出 ${f.params ? formatParams(f.params) : '(訓練期筆數不足，沿用目前設定)'} | 訓練 ${f.trainScore.toFixed(2)}` +
+        ` | 測試 ${fmtPnl(f.testPnl)} (${f.testTrades} 筆) vs 基準 ${fmtPnl(f.baselineTestPnl)}`,
+    );
+  }
+  if (report.walkForward.length > 0) {
+    console.log(`    樣本外合計: ${fmtPnl(report.walkForwardPnl)} vs 基準 ${fmtPnl(report.baselineWalkForwardPnl)}`);
+  }
+
+  console.log('\n  參數敏感度（各取值的平均分數）:');
+  for (const s of report.sensitivity) {
+    const values = s.values.map((v) => `${v.value}: ${v.meanScore.toFixed(2)}`).join(' | ');
+    console.log(`    ${s.param.padEnd(32)} ${values}${s.noEffect ? '  ⚠️ 在此資料上無影響（或沒有策略讀取此參數）' : ''}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+  const asJson = args.includes('--json');
+  const strategy = option('strategy');
+  const folds = Number(option('folds') ?? 3);
+  const metric = (option('metric') ?? 'pnl') as OptimizeMetric;
+  const top = Number(option('top') ?? 10);
+  const inputs = args.filter((a) => !a.startsWith('--'));
+
+  if (inputs.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (strategy === 'llm') {
+    console.error('❌ llm 策略需要網路，無法離線最佳化');
+    process.exit(1);
+  }
+  if (metric !== 'pnl' && metric !== 'pnl-dd') {
+    console.error(`❌ 未知的評分方式: ${metric}`);
+    process.exit(1);
+  }
+
+  await aiProfiles.load();
+  const profileId = option('ai-profile');
+  if (profileId && !aiProfiles.get(profileId)) {
+    console.error(`❌ 找不到 AI 設定檔: ${profileId}`);
+    process.exit(1);
+  }
+  const baseProfile = aiProfiles.resolve(profileId ?? config.AI_PROFILE);
+
+  const gridFile = option('grid');
+  const grid: ParameterGrid = gridFile ? JSON.parse(await fs.readFile(gridFile, 'utf-8')) : DEFAULT_GRID;
+  const gridErrors = validateGrid(grid, baseProfile);
+  if (gridErrors.length > 0) {
+    console.error(`❌ 掃描範圍無效:\n  ${gridErrors.join('\n  ')}`);
+    process.exit(1);
+  }
+
+  const snapshots = await loadSnapshots(inputs);
+  if (snapshots.length === 0) {
+    console.error('❌ 找不到任何快照');
+    process.exit(1);
+  }
+  console.error(`📂 載入 ${snapshots.length} 個快照 | AI 設定檔 ${baseProfile.id}@v${baseProfile.version}`);
+
+  const optimizer = new Optimizer({
+    strategy,
+    baseProfile,
+    folds: Math.max(1, folds),
+    metric,
+    minTrades: Number(option('min-trades') ?? 5),
+    maxCombos: Number(option('max-combos') ?? 200),
+    seed: Number(option('seed') ?? 1),
+    onProgress: (done, total) => {
+      if (done % 20 === 0 || done === total) process.stderr.write(`\r⏳ ${done}/${total} 次回測`);
+      if (done === total) process.stderr.write('\n');
+    },
+  });
+
+  // Strategy / AIAnalyzer 的逐 tick 日誌很多，最佳化期間靜音
+  const log = console.log;
+  console.log = () => {};
+  let report: OptimizationReport;
+  try {
+    report = optimizer.run(snapshots, grid);
+  } finally {
+    console.log = log;
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report, top);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
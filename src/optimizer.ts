@@ -0,0 +1,358 @@
+/**
+ * 參數最佳化 - 用錄製的快照對風控參數與 AI 設定檔做網格搜尋，並以 walk-forward 驗證
+ *
+ * - 每組參數以 BacktestEngine 重播（與實盤相同的 Strategy / AIAnalyzer），完全離線
+ * - 快照依時間切成 folds + 1 段（切在市場切換處），每組參數每段各跑一次
+ * - Walk-forward：第 i 折以前 i 段選出最佳參數，再看它在第 i + 1 段（未見過的資料）的表現
+ * - 全期排名只是樣本內結果；walk-forward 的樣本外盈虧才是過度擬合的參考
+ */
+import { config } from './config.js';
+import { BacktestEngine } from './backtest-engine.js';
+import { validateAIProfile, type AIProfile } from './ai-profile.js';
+import type { MarketSnapshot } from './types.js';
+
+/**
+ * 掃描範圍：config 為 config.ts 的欄位，aiProfile 為設定檔的欄位路徑（如 weights.technical）
+ */
+export interface ParameterGrid {
+  config?: Record<string, Array<number | boolean>>;
+  aiProfile?: Record<string, number[]>;
+}
+
+// 一組參數；AI 設定檔欄位以 ai. 為前綴
+export type ParameterSet = Record<string, number | boolean>;
+
+export type OptimizeMetric = 'pnl' | 'pnl-dd';
+
+export interface OptimizerOptions {
+  strategy?: string;
+  baseProfile: AIProfile; // AI 設定檔覆蓋的基底
+  folds: number;
+  metric: OptimizeMetric;
+  minTrades: number; // 平倉筆數少於此值的參數不參與選擇
+  maxCombos: number; // 組合超過此數時以 seed 抽樣
+  seed: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface SegmentInfo {
+  start: number;
+  end: number;
+  snapshots: number;
+}
+
+interface SegmentScore {
+  pnl: number; // 已實現 + 未平倉 (cents)
+  closedTrades: number;
+  wins: number;
+  maxDrawdown: number;
+}
+
+export interface RankedCandidate {
+  params: ParameterSet;
+  pnl: number;
+  closedTrades: number;
+  winRate: number;
+  maxDrawdown: number;
+  score: number;
+  eligible: boolean; // 平倉筆數 >= minTrades
+  profitableSegments: number; // 盈利的分段數（一致性）
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  params: ParameterSet | null; // null = 訓練期沒有符合 minTrades 的參數，沿用目前設定
+  trainScore: number;
+  testPnl: number;
+  testTrades: number;
+  baselineTestPnl: number;
+}
+
+export interface ParameterSensitivity {
+  param: string;
+  values: Array<{ value: number | boolean; meanScore: number; runs: number }>;
+  noEffect: boolean; // 只改變此參數的組合結果都相同（在此資料上無作用，或沒有策略讀取此參數）
+}
+
+export interface OptimizationReport {
+  metric: OptimizeMetric;
+  combos: number; // 通過驗證並回測的組合數
+  sampled: number; // 抽樣後的組合數（含無效組合）
+  totalCombos: number;
+  invalid: string[];
+  segments: SegmentInfo[];
+  baseline: RankedCandidate;
+  ranked: RankedCandidate[];
+  walkForward: WalkForwardFold[];
+  walkForwardPnl: number; // 各折選出參數的樣本外盈虧總和
+  baselineWalkForwardPnl: number; // 目前設定在同樣區間的盈虧
+  sensitivity: ParameterSensitivity[];
+}
+
+interface Candidate {
+  params: ParameterSet;
+  profile: AIProfile;
+  segments: SegmentScore[];
+}
+
+const AI_PREFIX = 'ai.';
+
+/**
+ * 檢查掃描範圍：config 欄位必須存在且型別相符，AI 欄位路徑必須存在於設定檔
+ */
+export function validateGrid(grid: ParameterGrid, baseProfile: AIProfile): string[] {
+  const errors: string[] = [];
+  for (const [key, values] of Object.entries(grid.config || {})) {
+    const current = (config as Record<string, unknown>)[key];
+    if (typeof current !== 'number' && typeof current !== 'boolean') {
+      errors.push(`config.${key}: 不是可掃描的數值 / 開關設定`);
+    } else if (!Array.isArray(values) || values.length === 0 || values.some((v) => typeof v !== typeof current)) {
+      errors.push(`config.${key}: 需要非空的 ${typeof current} 陣列`);
+    }
+  }
+  for (const [key, values] of Object.entries(grid.aiProfile || {})) {
+    const current = key.split('.').reduce<any>((obj, part) => obj?.[part], baseProfile);
+    if (typeof current !== 'number') {
+      errors.push(`aiProfile.${key}: 設定檔沒有此數值欄位`);
+    } else if (!Array.isArray(values) || values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+      errors.push(`aiProfile.${key}: 需要非空的數字陣列`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 所有參數組合（笛卡兒積）
+ */
+export function expandGrid(grid: ParameterGrid): ParameterSet[] {
+  const axes: Array<[string, Array<number | boolean>]> = [
+    ...Object.entries(grid.config || {}),
+    ...Object.entries(grid.aiProfile || {}).map(([key, values]) => [AI_PREFIX + key, values] as [string, number[]]),
+  ];
+  return axes.reduce<ParameterSet[]>(
+    (combos, [key, values]) => combos.flatMap((combo) => values.map((value) => ({ ...combo, [key]: value }))),
+    [{}],
+  );
+}
+
+/**
+ * 依時間切成 count 段，切點往後移到市場（slug）切換處，避免同一市場跨段
+ */
+export function splitSegments(snapshots: MarketSnapshot[], count: number): MarketSnapshot[][] {
+  const segments: MarketSnapshot[][] = [];
+  let start = 0;
+  for (let i = 1; i < count && start < snapshots.length; i++) {
+    let cut = Math.max(start + 1, Math.round((snapshots.length * i) / count));
+    while (cut < snapshots.length && snapshots[cut].slug === snapshots[cut - 1].slug) cut++;
+    if (cut >= snapshots.length) break;
+    segments.push(snapshots.slice(start, cut));
+    start = cut;
+  }
+  segments.push(snapshots.slice(start));
+  return segments.filter((s) => s.length > 0);
+}
+
+/**
+ * 把 ai.* 參數套到基底設定檔並驗證（例如 shortMaPeriod >= longMaPeriod 的組合無效）
+ */
+function buildProfile(base: AIProfile, params: ParameterSet): { profile: AIProfile | null; errors: string[] } {
+  const raw = JSON.parse(JSON.stringify(base));
+  for (const [key, value] of Object.entries(params)) {
+    if (!key.startsWith(AI_PREFIX)) continue;
+    const parts = key.slice(AI_PREFIX.length).split('.');
+    const parent = parts.slice(0, -1).reduce((obj, part) => obj[part], raw);
+    parent[parts[parts.length - 1]] = value;
+  }
+  return validateAIProfile(raw);
+}
+
+// 簡單的可重現亂數（Park-Miller），抽樣用
+function seededRandom(seed: number): () => number {
+  let state = Math.max(1, Math.floor(seed) % 2147483647);
+  return () => (state = (state * 16807) % 2147483647) / 2147483647;
+}
+
+export class Optimizer {
+  constructor(private readonly options: OptimizerOptions) {}
+
+  run(snapshots: MarketSnapshot[], grid: ParameterGrid): OptimizationReport {
+    const { baseProfile, metric } = this.options;
+    const segments = splitSegments(snapshots, this.options.folds + 1);
+    const folds = segments.length - 1;
+
+    const all = expandGrid(grid);
+    const combos = this.sample(all);
+    const invalid: string[] = [];
+    const candidates: Candidate[] = [];
+    for (const params of combos) {
+      const { profile, errors } = buildProfile(baseProfile, params);
+      if (!profile) {
+        invalid.push(`${formatParams(params)}: ${errors.join('; ')}`);
+        continue;
+      }
+      candidates.push({ params, profile, segments: [] });
+    }
+
+    // 目前設定（不覆蓋任何參數）作為比較基準
+    const baseline: Candidate = { params: {}, profile: baseProfile, segments: [] };
+    const runs = [baseline, ...candidates];
+    const total = runs.length * segments.length;
+    let done = 0;
+    for (const candidate of runs) {
+      for (const segment of segments) {
+        candidate.segments.push(this.evaluate(candidate, segment));
+        this.options.onProgress?.(++done, total);
+      }
+    }
+
+    const allSegments = segments.map((_, i) => i);
+    const ranked = candidates
+      .map((c) => this.rank(c, allSegments))
+      .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score);
+
+    // Anchored walk-forward：訓練集逐折擴大，測試集為緊接的下一段
+    const walkForward: WalkForwardFold[] = [];
+    for (let fold = 1; fold <= folds; fold++) {
+      const train = allSegments.slice(0, fold);
+      const best = candidates
+        .map((c) => ({ c, ...this.aggregate(c, train) }))
+        .filter((r) => r.closedTrades >= this.options.minTrades)
+        .sort((a, b) => b.score - a.score)[0];
+      const chosen = best?.c ?? baseline;
+      const test = chosen.segments[fold];
+      walkForward.push({
+        fold,
+        trainStart: segments[0][0].timestamp,
+        trainEnd: segments[fold - 1][segments[fold - 1].length - 1].timestamp,
+        testStart: segments[fold][0].timestamp,
+        testEnd: segments[fold][segments[fold].length - 1].timestamp,
+        params: best ? best.c.params : null,
+        trainScore: best ? best.score : this.aggregate(baseline, train).score,
+        testPnl: test.pnl,
+        testTrades: test.closedTrades,
+        baselineTestPnl: baseline.segments[fold].pnl,
+      });
+    }
+
+    return {
+      metric,
+      combos: candidates.length,
+      sampled: combos.length,
+      totalCombos: all.length,
+      invalid,
+      segments: segments.map((s) => ({ start: s[0].timestamp, end: s[s.length - 1].timestamp, snapshots: s.length })),
+      baseline: this.rank(baseline, allSegments),
+      ranked,
+      walkForward,
+      walkForwardPnl: walkForward.reduce((sum, f) => sum + f.testPnl, 0),
+      baselineWalkForwardPnl: walkForward.reduce((sum, f) => sum + f.baselineTestPnl, 0),
+      sensitivity: this.sensitivity(ranked),
+    };
+  }
+
+  // 組合太多時抽樣（結果可用 seed 重現）
+  private sample(combos: ParameterSet[]): ParameterSet[] {
+    if (combos.length <= this.options.maxCombos) return combos;
+    const random = seededRandom(this.options.seed);
+    const pool = [...combos];
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, this.options.maxCombos);
+  }
+
+  /**
+   * 以暫時覆蓋的 config 重播一段快照；LLM 分析關閉以保持離線
+   */
+  private evaluate(candidate: Candidate, segment: MarketSnapshot[]): SegmentScore {
+    const overrides: Record<string, unknown> = { LLM_ENABLED: false };
+    for (const [key, value] of Object.entries(candidate.params)) {
+      if (!key.startsWith(AI_PREFIX)) overrides[key] = value;
+    }
+    const saved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(overrides)) {
+      saved[key] = (config as any)[key];
+      (config as any)[key] = value;
+    }
+    try {
+      const result = new BacktestEngine({ strategy: this.options.strategy, aiProfile: candidate.profile }).run(segment);
+      return {
+        pnl: result.totalPnl + result.unrealizedPnl,
+        closedTrades: result.closedTrades,
+        wins: result.wins,
+        maxDrawdown: result.maxDrawdown,
+      };
+    } finally {
+      for (const [key, value] of Object.entries(saved)) {
+        (config as any)[key] = value;
+      }
+    }
+  }
+
+  private aggregate(candidate: Candidate, indices: number[]) {
+    const parts = indices.map((i) => candidate.segments[i]);
+    const pnl = parts.reduce((sum, s) => sum + s.pnl, 0);
+    const closedTrades = parts.reduce((sum, s) => sum + s.closedTrades, 0);
+    const wins = parts.reduce((sum, s) => sum + s.wins, 0);
+    const maxDrawdown = Math.max(0, ...parts.map((s) => s.maxDrawdown));
+    const score = this.options.metric === 'pnl-dd' ? pnl - maxDrawdown : pnl;
+    return { pnl, closedTrades, wins, maxDrawdown, score };
+  }
+
+  private rank(candidate: Candidate, indices: number[]): RankedCandidate {
+    const { pnl, closedTrades, wins, maxDrawdown, score } = this.aggregate(candidate, indices);
+    return {
+      params: candidate.params,
+      pnl,
+      closedTrades,
+      winRate: closedTrades > 0 ? (wins / closedTrades) * 100 : 0,
+      maxDrawdown,
+      score,
+      eligible: closedTrades >= this.options.minTrades,
+      profitableSegments: indices.filter((i) => candidate.segments[i].pnl > 0).length,
+    };
+  }
+
+  // 各參數每個取值的平均分數
+  private sensitivity(ranked: RankedCandidate[]): ParameterSensitivity[] {
+    const keys = Array.from(new Set(ranked.flatMap((r) => Object.keys(r.params))));
+    return keys.map((param) => {
+      const byValue = new Map<number | boolean, number[]>();
+      for (const r of ranked) {
+        const scores = byValue.get(r.params[param]) || [];
+        scores.push(r.score);
+        byValue.set(r.params[param], scores);
+      }
+      const values = Array.from(byValue.entries()).map(([value, scores]) => ({
+        value,
+        meanScore: scores.reduce((a, b) => a + b, 0) / scores.length,
+        runs: scores.length,
+      }));
+      // 只改變此參數的組合結果完全相同 → 此參數沒有作用
+      const others = (r: RankedCandidate) =>
+        JSON.stringify(Object.entries(r.params).filter(([k]) => k !== param).sort(([a], [b]) => a.localeCompare(b)));
+      const groups = new Map<string, { runs: number; outcomes: Set<string> }>();
+      for (const r of ranked) {
+        const key = others(r);
+        const group = groups.get(key) || { runs: 0, outcomes: new Set<string>() };
+        group.runs += 1;
+        group.outcomes.add(`${r.pnl}|${r.closedTrades}|${r.maxDrawdown}`);
+        groups.set(key, group);
+      }
+      // 抽樣後可能沒有可比較的組合，此時不下結論
+      const comparable = Array.from(groups.values()).filter((g) => g.runs > 1);
+      const noEffect = comparable.length > 0 && comparable.every((g) => g.outcomes.size === 1);
+      return { param, values, noEffect };
+    });
+  }
+}
+
+export function formatParams(params: ParameterSet): string {
+  const entries = Object.entries(params);
+  return entries.length > 0 ? entries.map(([k, v]) => `${k}=${v}`).join(' ') : '(目前設定)';
+}
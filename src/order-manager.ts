@@ -0,0 +1,408 @@
+/**
+ * 訂單生命週期管理 - 每筆訂單依狀態機流轉：
+ *
+ *   NEW ─→ OPEN ─→ PARTIALLY_FILLED ─→ FILLED
+ *    │       │             │
+ *    │       └─────────────┴──→ CANCELLED / EXPIRED
+ *    └──→ REJECTED（交易所拒單）/ FILLED / CANCELLED（FAK 下單即結束）
+ *
+ * - 成交量與狀態以此為準，取代 Trader 內分散的 pending / bracket / stop-loss 狀態
+ * - 實盤由用戶頻道推送更新（見 user-channel.ts），斷線時以 getOpenOrders / getOrder 對帳；
+ *   Paper 模式由 PaperExchange 的 fill 事件驅動
+ * - 事件：'order'（狀態或成交量變化，參數為訂單快照）、'fill'（新增成交，OrderFillEvent）
+ */
+import { EventEmitter } from 'events';
+import type { ClobClient, OpenOrder } from '@polymarket/clob-client';
+import { config } from './config.js';
+import type { TradeContext } from './types.js';
+
+export type OrderStatus = 'NEW' | 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+
+/**
+ * 訂單用途：arb-leg 與 Paper 模式的 exit/entry 為即時成交單，由下單方直接處理成交；
+ * take-profit/bracket/quote 與實盤 entry/exit 的成交由 'fill' 事件處理；
+ * external 為對帳時發現的非本次運行訂單
+ */
+export type OrderPurpose = 'entry' | 'exit' | 'take-profit' | 'bracket' | 'quote' | 'arb-leg' | 'external';
+
+export interface ManagedOrder {
+  id: string; // 交易所 orderId（確認前為本地 id）
+  clientId: string; // 建立時的本地 id，確認後不變（儀表板以此去重）
+  series: string;
+  tokenId: string;
+  outcome: 'Up' | 'Down';
+  side: 'BUY' | 'SELL';
+  price: number; // 限價 (cents)
+  size: number;
+  filledSize: number;
+  avgFillPrice: number; // cents
+  feeCents: number;
+  orderType: 'GTC' | 'GTD' | 'FAK';
+  purpose: OrderPurpose;
+  status: OrderStatus;
+  stopPrice?: number; // bracket 止盈單附帶的止損觸發價 (cents)
+  expiresAt?: number; // GTD 到期時間 (ms)
+  createdAt: number;
+  updatedAt: number;
+  context?: TradeContext;
+}
+
+/**
+ * 儀表板 / API 用快照（不含交易上下文）
+ */
+export type OrderSnapshot = Omit<ManagedOrder, 'context'> & { slug?: string };
+
+export type NewOrder = Pick<ManagedOrder, 'tokenId' | 'outcome' | 'side' | 'price' | 'size' | 'orderType' | 'purpose'> &
+  Partial<Pick<ManagedOrder, 'stopPrice' | 'expiresAt' | 'context'>>;
+
+export interface OrderFillEvent {
+  order: ManagedOrder;
+  size: number;
+  price: number; // cents
+  feeCents: number;
+}
+
+export interface OrderFilter {
+  tokenId?: string;
+  side?: 'BUY' | 'SELL';
+  purpose?: OrderPurpose;
+  active?: boolean;
+}
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  NEW: ['OPEN', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'REJECTED'],
+  OPEN: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['FILLED', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+  REJECTED: [],
+};
+
+const ACTIVE_STATUSES: ReadonlySet<OrderStatus> = new Set(['NEW', 'OPEN', 'PARTIALLY_FILLED']);
+const MAX_CLOSED_ORDERS = 200; // 保留最近的已結束訂單供儀表板顯示
+
+export function isActiveStatus(status: OrderStatus): boolean {
+  return ACTIVE_STATUSES.has(status);
+}
+
+/**
+ * 把 CLOB 訂單轉成統一格式（size_matched / original_size / status）
+ */
+export function parseExchangeOrder(info: OpenOrder): { status: OrderStatus; filledSize: number; size: number; price: number } {
+  const size = parseFloat(info.original_size || '0');
+  const filledSize = parseFloat(info.size_matched || '0');
+  const price = parseFloat(info.price || '0') * 100;
+  const raw = String(info.status || '').toUpperCase();
+
+  let status: OrderStatus;
+  if (raw.includes('EXPIRED')) {
+    status = 'EXPIRED';
+  } else if (raw.startsWith('CANCEL')) {
+    status = 'CANCELLED';
+  } else if (raw === 'MATCHED' || (size > 0 && filledSize >= size - 1e-9)) {
+    status = 'FILLED';
+  } else {
+    status = filledSize > 0 ? 'PARTIALLY_FILLED' : 'OPEN'; // LIVE / DELAYED / UNMATCHED
+  }
+  return { status, filledSize, size, price };
+}
+
+export class OrderManager extends EventEmitter {
+  private orders: Map<string, ManagedOrder> = new Map();
+  private seq = 0;
+
+  constructor(private readonly series: string) {
+    super();
+  }
+
+  /**
+   * 建立本地訂單（NEW），送出後以 acknowledge / reject 更新
+   */
+  create(params: NewOrder): ManagedOrder {
+    const now = Date.now();
+    const id = `local-${this.series}-${++this.seq}`;
+    const order: ManagedOrder = {
+      ...params,
+      id,
+      clientId: id,
+      series: this.series,
+      filledSize: 0,
+      avgFillPrice: 0,
+      feeCents: 0,
+      status: 'NEW',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+    this.emitOrder(order);
+    return order;
+  }
+
+  /**
+   * 交易所已接受：換成交易所 orderId 並轉為 OPEN
+   */
+  acknowledge(order: ManagedOrder, exchangeId: string): void {
+    // 對帳可能先於下單回應看到這張單並以 external 收養，以本地記錄為準
+    const adopted = this.orders.get(exchangeId);
+    if (adopted && adopted !== order) this.orders.delete(exchangeId);
+    this.orders.delete(order.id);
+    order.id = exchangeId;
+    this.orders.set(order.id, order);
+    if (order.status === 'NEW') this.transition(order, 'OPEN');
+    if (!adopted || adopted === order) return;
+
+    // 收養期間的成交補記到本地訂單（觸發 'fill'，持倉與交易記錄才會更新），再套用收養副本的結束狀態
+    const delta = adopted.filledSize - order.filledSize;
+    if (delta > 1e-9) {
+      const price = adopted.avgFillPrice || adopted.price;
+      const feeCents = adopted.feeCents > 0 ? (adopted.feeCents * delta) / adopted.filledSize : this.estimateFee(order, delta, price);
+      this.recordFill(order.id, delta, price, feeCents);
+    }
+    if (!isActiveStatus(adopted.status) && isActiveStatus(order.status)) this.transition(order, adopted.status);
+  }
+
+  reject(order: ManagedOrder, reason: string): void {
+    console.warn(`[訂單] ${order.side} ${order.outcome} ${order.size} @ ${order.price.toFixed(2)}¢ 被拒: ${reason}`);
+    this.transition(order, 'REJECTED');
+  }
+
+  /**
+   * 新增成交（增量），成交完畢轉 FILLED，否則 PARTIALLY_FILLED
+   */
+  recordFill(orderId: string, size: number, price: number, feeCents: number): void {
+    const order = this.orders.get(orderId);
+    if (!order || size <= 0) return;
+    order.avgFillPrice = (order.avgFillPrice * order.filledSize + price * size) / (order.filledSize + size);
+    order.filledSize += size;
+    order.feeCents += feeCents;
+    order.updatedAt = Date.now();
+
+    const next: OrderStatus = order.filledSize >= order.size - 1e-9 ? 'FILLED' : 'PARTIALLY_FILLED';
+    if (next !== order.status && isActiveStatus(order.status)) {
+      this.transition(order, next);
+    } else {
+      this.emitOrder(order);
+    }
+    this.emit('fill', { order, size, price, feeCents } satisfies OrderFillEvent);
+  }
+
+  /**
+   * 結束訂單（撤單 / 到期 / FAK 剩餘作廢）；已結束的訂單不受影響
+   */
+  close(orderId: string, status: 'CANCELLED' | 'EXPIRED' = 'CANCELLED'): void {
+    const order = this.orders.get(orderId);
+    if (order && isActiveStatus(order.status)) this.transition(order, status);
+  }
+
+  /**
+   * 以交易所回傳的訂單更新（REST 查詢結果，成交以限價計）
+   */
+  applyExchangeState(order: ManagedOrder, info: OpenOrder): void {
+    const parsed = parseExchangeOrder(info);
+    this.applyUpdate(order, { filledSize: parsed.filledSize, status: parsed.status, fillPrice: parsed.price });
+  }
+
+  /**
+   * 套用累計狀態（REST 查詢或用戶頻道推送）：先補記新增成交，再套用狀態；重複套用不會重複記帳
+   */
+  applyUpdate(
+    order: ManagedOrder,
+    update: { filledSize?: number; status?: OrderStatus; fillPrice?: number; liquidity?: 'taker' | 'maker' }
+  ): void {
+    const delta = (update.filledSize ?? 0) - order.filledSize;
+    if (delta > 1e-9) {
+      const price = update.fillPrice || order.price;
+      this.recordFill(order.id, delta, price, this.estimateFee(order, delta, price, update.liquidity));
+    }
+    // 部分成交已由 recordFill 轉換，這裡只處理確認 (NEW→OPEN) 與結束狀態
+    const status = update.status;
+    if (!status || !isActiveStatus(order.status)) return;
+    if (!isActiveStatus(status) || (status === 'OPEN' && order.status === 'NEW')) {
+      this.transition(order, status);
+    }
+  }
+
+  /**
+   * 等待訂單狀態滿足條件（由 'order' 事件觸發），逾時則直接返回目前狀態
+   */
+  waitFor(orderId: string, done: (order: ManagedOrder) => boolean, timeoutMs: number): Promise<ManagedOrder | undefined> {
+    const current = this.orders.get(orderId);
+    if (!current || done(current)) return Promise.resolve(current);
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.off('order', onOrder);
+        resolve(this.orders.get(orderId));
+      };
+      const onOrder = (snapshot: OrderSnapshot) => {
+        const order = this.orders.get(orderId);
+        if (snapshot.id === orderId && order && done(order)) finish();
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      this.on('order', onOrder);
+    });
+  }
+
+  /**
+   * 查詢單張訂單最新狀態
+   */
+  async refresh(client: ClobClient, orderId: string): Promise<ManagedOrder | undefined> {
+    const order = this.orders.get(orderId);
+    if (!order || order.id.startsWith('local-')) return order;
+    try {
+      const info = await client.getOrder(orderId);
+      if (info) this.applyExchangeState(order, info);
+    } catch (e: any) {
+      console.log(`[訂單] 查詢 ${orderId} 失敗: ${e?.message}`);
+    }
+    return order;
+  }
+
+  /**
+   * 與交易所對帳：逐 token 比對 getOpenOrders，
+   * 本地仍開放但已不在掛單列表者查 getOrder 取得最終狀態；未追蹤的掛單以 external 收養
+   */
+  async reconcile(client: ClobClient, tokenIds: string[] = []): Promise<void> {
+    this.expireDue();
+    const tokens = new Set([...tokenIds.filter(Boolean), ...this.list({ active: true }).map((o) => o.tokenId)]);
+
+    for (const tokenId of tokens) {
+      let open: OpenOrder[];
+      try {
+        open = (await client.getOpenOrders({ asset_id: tokenId })) || [];
+      } catch (e: any) {
+        console.log(`[訂單] 對帳查詢掛單失敗 token=${tokenId.slice(0, 8)}…: ${e?.message}`);
+        continue;
+      }
+
+      const seen = new Set<string>();
+      for (const info of open) {
+        seen.add(info.id);
+        const tracked = this.orders.get(info.id);
+        if (tracked) {
+          this.applyExchangeState(tracked, info);
+        } else {
+          this.adopt(info);
+        }
+      }
+
+      for (const order of this.list({ tokenId, active: true })) {
+        if (seen.has(order.id) || order.status === 'NEW') continue;
+        let info: OpenOrder | null = null;
+        try {
+          info = await client.getOrder(order.id);
+        } catch {
+          // 查不到視為已撤
+        }
+        if (info) {
+          this.applyExchangeState(order, info);
+        } else {
+          this.close(order.id);
+        }
+      }
+    }
+  }
+
+  get(orderId: string): ManagedOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  isActive(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    return !!order && isActiveStatus(order.status);
+  }
+
+  list(filter: OrderFilter = {}): ManagedOrder[] {
+    return Array.from(this.orders.values()).filter(
+      (o) =>
+        (!filter.tokenId || o.tokenId === filter.tokenId) &&
+        (!filter.side || o.side === filter.side) &&
+        (!filter.purpose || o.purpose === filter.purpose) &&
+        (filter.active === undefined || isActiveStatus(o.status) === filter.active)
+    );
+  }
+
+  /**
+   * 清空追蹤（重啟前）；實盤掛單在下次對帳時以 external 重新收養
+   */
+  clear(): void {
+    this.orders.clear();
+  }
+
+  snapshot(order: ManagedOrder): OrderSnapshot {
+    const { context, ...rest } = order;
+    return { ...rest, slug: context?.slug };
+  }
+
+  private adopt(info: OpenOrder): void {
+    const parsed = parseExchangeOrder(info);
+    const now = Date.now();
+    const order: ManagedOrder = {
+      id: info.id,
+      clientId: info.id,
+      series: this.series,
+      tokenId: info.asset_id,
+      outcome: String(info.outcome).toLowerCase() === 'down' ? 'Down' : 'Up',
+      side: String(info.side).toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+      price: parsed.price,
+      size: parsed.size,
+      filledSize: parsed.filledSize,
+      avgFillPrice: parsed.filledSize > 0 ? parsed.price : 0,
+      feeCents: 0,
+      orderType: String(info.order_type).toUpperCase() === 'GTD' ? 'GTD' : 'GTC',
+      purpose: 'external',
+      status: parsed.status,
+      expiresAt: Number(info.expiration) > 0 ? Number(info.expiration) * 1000 : undefined,
+      createdAt: info.created_at ? info.created_at * 1000 : now,
+      updatedAt: now,
+    };
+    console.log(`[訂單] 收養未追蹤掛單 ${order.id} ${order.side} ${order.outcome} ${order.size} @ ${order.price.toFixed(2)}¢`);
+    this.orders.set(order.id, order);
+    this.emitOrder(order);
+  }
+
+  /**
+   * GTD 訂單到期即轉 EXPIRED（對帳時執行；用戶頻道連線時由 Trader 每輪呼叫）
+   */
+  expireDue(): void {
+    const now = Date.now();
+    for (const order of this.list({ active: true })) {
+      if (order.expiresAt && order.expiresAt <= now) this.transition(order, 'EXPIRED');
+    }
+  }
+
+  /**
+   * 推送 / 查詢結果不含手續費時依 taker / maker 費率估算（未知時 FAK 視為 taker）
+   */
+  private estimateFee(order: ManagedOrder, size: number, price: number, liquidity?: 'taker' | 'maker'): number {
+    const taker = liquidity ? liquidity === 'taker' : order.orderType === 'FAK';
+    const feePercent = taker ? config.TAKER_FEE_PERCENT : config.MAKER_FEE_PERCENT;
+    return (size * price * feePercent) / 100;
+  }
+
+  private transition(order: ManagedOrder, next: OrderStatus): void {
+    if (!TRANSITIONS[order.status].includes(next)) {
+      console.warn(`[訂單] 忽略非法狀態轉換 ${order.id}: ${order.status} -> ${next}`);
+      return;
+    }
+    order.status = next;
+    order.updatedAt = Date.now();
+    this.emitOrder(order);
+    if (!isActiveStatus(next)) this.prune();
+  }
+
+  private emitOrder(order: ManagedOrder): void {
+    this.emit('order', this.snapshot(order));
+  }
+
+  private prune(): void {
+    const closed = Array.from(this.orders.values()).filter((o) => !isActiveStatus(o.status));
+    if (closed.length <= MAX_CLOSED_ORDERS) return;
+    closed
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, closed.length - MAX_CLOSED_ORDERS)
+      .forEach((o) => this.orders.delete(o.id));
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * 模擬交易所 - Paper 模式下用快取訂單簿撮合，取代「按信號價立即成交」
+ *
+ * - 可成交部分逐檔吃單（部分成交、taker 手續費）
+ * - GTC 剩餘部分掛單排隊：記錄下單時同價位前方數量，隨訂單簿變化消耗，
+ *   價格穿越時全部成交（maker 手續費）
+ * - 下單後等待 PAPER_LATENCY_MS 再撮合，模擬網路與交易所延遲
+ */
+import { EventEmitter } from 'events';
+import { config } from './config.js';
+import type { OrderBook } from './types.js';
+
+export type PaperSide = 'BUY' | 'SELL';
+export type TimeInForce = 'GTC' | 'FAK'; // FAK: 可成交部分成交，剩餘撤單
+
+export interface BookFill {
+  filledSize: number;
+  avgPrice: number; // cents
+  feeCents: number;
+}
+
+export interface PaperFill {
+  orderId: string;
+  tokenId: string;
+  side: PaperSide;
+  price: number; // cents
+  size: number;
+  feeCents: number;
+  liquidity: 'taker' | 'maker';
+}
+
+export interface PaperOrder {
+  id: string;
+  tokenId: string;
+  side: PaperSide;
+  price: number; // limit price in cents
+  size: number;
+  filledSize: number;
+  avgFillPrice: number; // cents
+  feeCents: number;
+  status: 'open' | 'filled' | 'canceled';
+  queueAhead: number; // 同價位排在前面的數量
+  lastLevelSize: number; // 上次看到的同價位總量
+  createdAt: number;
+}
+
+/**
+ * 逐檔吃單模擬成交（BUY 吃 asks，SELL 吃 bids），limitPrice 為 cents
+ */
+export function simulateBookFill(
+  book: OrderBook | undefined,
+  side: PaperSide,
+  size: number,
+  limitPrice: number
+): BookFill {
+  const levels = side === 'BUY' ? book?.asks : book?.bids;
+  if (!levels || levels.length === 0 || size <= 0) {
+    return { filledSize: 0, avgPrice: 0, feeCents: 0 };
+  }
+
+  const sorted = [...levels].sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+  let filled = 0;
+  let cost = 0;
+  for (const level of sorted) {
+    const levelCents = level.price * 100;
+    if (side === 'BUY' ? levelCents > limitPrice : levelCents < limitPrice) break;
+    const take = Math.min(level.size, size - filled);
+    if (take <= 0) break;
+    filled += take;
+    cost += take * levelCents;
+    if (filled >= size) break;
+  }
+
+  if (filled <= 0) return { filledSize: 0, avgPrice: 0, feeCents: 0 };
+  return {
+    filledSize: filled,
+    avgPrice: cost / filled,
+    feeCents: (cost * config.TAKER_FEE_PERCENT) / 100,
+  };
+}
+
+function levelSizeAt(levels: OrderBook['bids'] | undefined, priceCents: number): number {
+  return (levels || [])
+    .filter((l) => Math.abs(l.price * 100 - priceCents) < 1e-6)
+    .reduce((sum, l) => sum + l.size, 0);
+}
+
+export class PaperExchange extends EventEmitter {
+  private books: Map<string, OrderBook> = new Map();
+  private orders: Map<string, PaperOrder> = new Map();
+  private seq = 0;
+
+  /**
+   * 更新訂單簿並撮合掛單
+   */
+  updateBook(tokenId: string, book: OrderBook): void {
+    this.books.set(tokenId, book);
+    for (const order of this.orders.values()) {
+      if (order.tokenId === tokenId && order.status === 'open') {
+        this.matchResting(order, book);
+      }
+    }
+  }
+
+  getBook(tokenId: string): OrderBook | undefined {
+    return this.books.get(tokenId);
+  }
+
+  /**
+   * 下限價單：延遲後吃掉可成交部分，GTC 剩餘掛單，FAK 剩餘撤單
+   */
+  async placeOrder(
+    tokenId: string,
+    side: PaperSide,
+    size: number,
+    limitPrice: number,
+    timeInForce: TimeInForce = 'GTC'
+  ): Promise<PaperOrder> {
+    const order: PaperOrder = {
+      id: `paper-${Date.now()}-${++this.seq}`,
+      tokenId,
+      side,
+      price: limitPrice,
+      size,
+      filledSize: 0,
+      avgFillPrice: 0,
+      feeCents: 0,
+      status: 'open',
+      queueAhead: 0,
+      lastLevelSize: 0,
+      createdAt: Date.now(),
+    };
+
+    if (config.PAPER_LATENCY_MS > 0) {
+      await new Promise((resolve) => setTimeout(resolve, config.PAPER_LATENCY_MS));
+    }
+
+    const book = this.books.get(tokenId);
+    const fill = simulateBookFill(book, side, size, limitPrice);
+    if (fill.filledSize > 0) {
+      this.applyFill(order, fill.filledSize, fill.avgPrice, fill.feeCents, 'taker');
+    }
+
+    if (order.status === 'open') {
+      if (timeInForce === 'FAK') {
+        order.status = 'canceled';
+      } else {
+        const ownSide = side === 'BUY' ? book?.bids : book?.asks;
+        order.lastLevelSize = levelSizeAt(ownSide, limitPrice);
+        order.queueAhead = order.lastLevelSize;
+        this.orders.set(order.id, order);
+      }
+    }
+
+    console.log(
+      `[PaperExchange] ${side} ${size} @ ${limitPrice.toFixed(2)}¢ (${timeInForce}) -> filled ${order.filledSize.toFixed(2)}` +
+        (order.filledSize > 0 ? ` avg ${order.avgFillPrice.toFixed(2)}¢` : '') +
+        (order.status === 'open' ? ` | resting, queue ahead ${order.queueAhead.toFixed(2)}` : '')
+    );
+    return { ...order };
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== 'open') return false;
+    order.status = 'canceled';
+    this.orders.delete(orderId);
+    return true;
+  }
+
+  getOrder(orderId: string): PaperOrder | undefined {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : undefined;
+  }
+
+  getOpenOrders(tokenId?: string): PaperOrder[] {
+    return Array.from(this.orders.values())
+      .filter((o) => o.status === 'open' && (!tokenId || o.tokenId === tokenId))
+      .map((o) => ({ ...o }));
+  }
+
+  /**
+   * 掛單撮合：
+   * - 對手價觸及或穿越限價 → 剩餘全部以限價成交
+   * - 否則同價位減少的數量視為從隊首成交，先消耗 queueAhead，超出部分才輪到本單
+   */
+  private matchResting(order: PaperOrder, book: OrderBook): void {
+    const remaining = order.size - order.filledSize;
+    const bestOpposite = order.side === 'BUY'
+      ? Math.min(...book.asks.map((a) => a.price * 100))
+      : Math.max(...book.bids.map((b) => b.price * 100));
+    // 對手價等於限價即可成交（價格以小數 × 100 換算，容許浮點誤差）
+    const crossed = order.side === 'BUY' ? bestOpposite <= order.price + 1e-6 : bestOpposite >= order.price - 1e-6;
+
+    let fillSize = 0;
+    if (Number.isFinite(bestOpposite) && crossed) {
+      fillSize = remaining;
+    } else {
+      const ownSide = order.side === 'BUY' ? book.bids : book.asks;
+      const levelSize = levelSizeAt(ownSide, order.price);
+      const consumed = Math.max(0, order.lastLevelSize - levelSize);
+      const overflow = consumed - order.queueAhead;
+      order.queueAhead = Math.max(0, order.queueAhead - consumed);
+      order.lastLevelSize = levelSize;
+      if (overflow > 0) fillSize = Math.min(overflow, remaining);
+    }
+
+    if (fillSize <= 0) return;
+    const feeCents = (fillSize * order.price * config.MAKER_FEE_PERCENT) / 100;
+    this.applyFill(order, fillSize, order.price, feeCents, 'maker');
+    if (order.status !== 'open') this.orders.delete(order.id);
+  }
+
+  private applyFill(order: PaperOrder, size: number, price: number, feeCents: number, liquidity: 'taker' | 'maker'): void {
+    order.avgFillPrice = (order.avgFillPrice * order.filledSize + price * size) / (order.filledSize + size);
+    order.filledSize += size;
+    order.feeCents += feeCents;
+    if (order.filledSize >= order.size - 1e-9) order.status = 'filled';
+
+    const fill: PaperFill = { orderId: order.id, tokenId: order.tokenId, side: order.side, price, size, feeCents, liquidity };
+    this.emit('fill', fill);
+  }
+}
+
+export const paperExchange = new PaperExchange();
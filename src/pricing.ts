@@ -0,0 +1,135 @@
+/**
+ * 定價 - 由現貨相對開盤參考價（strike）的距離、剩餘時間與波動率估算 Up / Down 的理論價值
+ *
+ * 假設現貨在剩餘時間內為無漂移的對數常態分佈：
+ *   P(S_T >= K) = N((ln(S/K) - σ²τ/2) / (σ√τ))，τ 以年計
+ *
+ * - σ 取自 VolatilityEstimator（現貨的已實現波動率），樣本不足時用 BTC_ANNUAL_VOLATILITY
+ * - 盤中（已有參考價）理論價 = 機率 × 100¢；盤前下一局尚未開盤，現貨即參考價，理論價為 50¢
+ * - 策略只在市價低於理論價至少 FAIR_VALUE_MIN_EDGE_CENTS 時買入（FAIR_VALUE_GATE，見 entry-guards.ts）
+ */
+import { config } from './config.js';
+import type { Market, StrikeContext } from './types.js';
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const MIN_VOL_RETURNS = 20; // 少於此報酬樣本數時不估計，回退預設波動率
+const VOL_FLOOR = 0.05;
+const VOL_CEILING = 5;
+
+/**
+ * 已實現波動率估計 - 現貨按 VOL_SAMPLE_INTERVAL_MS 取樣（每格取最後一價），
+ * 以 VOL_WINDOW_MS 內對數報酬平方和 / 經過時間換算年化
+ */
+export class VolatilityEstimator {
+  private samples: Array<{ bucket: number; timestamp: number; price: number }> = [];
+
+  constructor(
+    private readonly sampleIntervalMs: number = config.VOL_SAMPLE_INTERVAL_MS,
+    private readonly windowMs: number = config.VOL_WINDOW_MS
+  ) {}
+
+  record(price: number, timestamp: number = Date.now()): void {
+    if (!(price > 0)) return;
+    const bucket = Math.floor(timestamp / this.sampleIntervalMs);
+    const last = this.samples[this.samples.length - 1];
+    if (last && last.bucket === bucket) {
+      last.timestamp = timestamp;
+      last.price = price;
+    } else if (!last || bucket > last.bucket) {
+      this.samples.push({ bucket, timestamp, price });
+    }
+    const cutoff = timestamp - this.windowMs;
+    const expired = this.samples.findIndex((s) => s.timestamp >= cutoff);
+    if (expired > 0) this.samples.splice(0, expired);
+  }
+
+  /**
+   * 年化已實現波動率；樣本不足時為 null
+   */
+  getRealized(): number | null {
+    if (this.samples.length < MIN_VOL_RETURNS + 1) return null;
+    let sumSquares = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const r = Math.log(this.samples[i].price / this.samples[i - 1].price);
+      sumSquares += r * r;
+    }
+    const elapsedMs = this.samples[this.samples.length - 1].timestamp - this.samples[0].timestamp;
+    if (elapsedMs <= 0) return null;
+    return Math.sqrt((sumSquares / elapsedMs) * MS_PER_YEAR);
+  }
+
+  /**
+   * 定價使用的波動率：已實現值（限制在合理範圍），樣本不足時用 BTC_ANNUAL_VOLATILITY
+   */
+  getVolatility(): number {
+    const realized = this.getRealized();
+    if (realized == null) return config.BTC_ANNUAL_VOLATILITY;
+    return Math.max(VOL_FLOOR, Math.min(VOL_CEILING, realized));
+  }
+}
+
+/**
+ * 標準常態累積分佈（Abramowitz-Stegun 7.1.26，誤差 < 1.5e-7）
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * 現貨在結算時 >= strike 的機率（0-1）；到期或波動率為 0 時直接比較價格（平盤算 Up）
+ */
+export function fairUpProbability(
+  spot: number,
+  referencePrice: number,
+  timeRemainingMs: number,
+  annualVolatility: number = config.BTC_ANNUAL_VOLATILITY
+): number {
+  if (!(spot > 0) || !(referencePrice > 0)) return 0.5;
+  const sigmaSqrtT = annualVolatility * Math.sqrt(Math.max(0, timeRemainingMs) / MS_PER_YEAR);
+  if (sigmaSqrtT <= 0) return spot >= referencePrice ? 1 : 0;
+  const d2 = (Math.log(spot / referencePrice) - (sigmaSqrtT * sigmaSqrtT) / 2) / sigmaSqrtT;
+  return normalCdf(d2);
+}
+
+/**
+ * 組裝當前市場的 strike 狀態（缺參考價或現貨時為 null）
+ */
+export function buildStrikeContext(
+  market: Market | null,
+  referencePrice: number | null,
+  spot: number | null,
+  timeRemainingMs: number,
+  annualVolatility: number = config.BTC_ANNUAL_VOLATILITY
+): StrikeContext | null {
+  if (!market || referencePrice == null || spot == null || !(referencePrice > 0)) return null;
+  const remaining = Math.max(0, timeRemainingMs);
+  const delta = spot - referencePrice;
+  return {
+    slug: market.slug,
+    referencePrice,
+    spot,
+    delta,
+    deltaPct: (delta / referencePrice) * 100,
+    timeRemainingMs: remaining,
+    volatility: annualVolatility,
+    fairUp: fairUpProbability(spot, referencePrice, remaining, annualVolatility),
+  };
+}
+
+/**
+ * Up / Down 理論價 (cents)
+ *
+ * 盤中用 strike 狀態；盤前下一局尚無參考價，開盤時參考價即當時現貨，無漂移下兩邊各 50¢。
+ * 盤中缺參考價（例如盤中才啟動）時為 null
+ */
+export function fairValueCents(
+  scope: 'next' | 'current',
+  strike: StrikeContext | null | undefined
+): { up: number; down: number } | null {
+  if (scope === 'next') return { up: 50, down: 50 };
+  if (!strike) return null;
+  return { up: strike.fairUp * 100, down: (1 - strike.fairUp) * 100 };
+}
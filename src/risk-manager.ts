@@ -2,6 +2,7 @@
  * 風險管理器 - 處理滑點、手續費、流動性和 API 限制
  */
 import { config } from './config.js';
+import type { TradeRecord } from './types.js';
 
 interface OrderBookLevel {
   price: number;
@@ -13,6 +14,8 @@ interface OrderBook {
   asks: OrderBookLevel[];
 }
 
+export type LossState = Record<'Up' | 'Down', { streak: number; cooldownUntil: number }>;
+
 interface TradeAnalysis {
   canTrade: boolean;
   reason: string;
@@ -220,6 +223,35 @@ export class RiskManager {
     return { canTrade: true, reason: 'OK' };
   }
 
+  /**
+   * 根據交易歷史計算連續虧損與冷卻時間
+   */
+  computeLossState(history: TradeRecord[], now: number): LossState {
+    const state: LossState = {
+      Up: { streak: 0, cooldownUntil: 0 },
+      Down: { streak: 0, cooldownUntil: 0 },
+    };
+    history
+      .filter((t) => t.side !== 'BUY' && (t.pnl !== undefined))
+      .forEach((t) => {
+        const outcome = t.outcome as 'Up' | 'Down';
+        const ts = typeof t.timestamp === 'number' ? t.timestamp : new Date(t.timestamp as any).getTime();
+        if ((t.pnl || 0) < 0) {
+          state[outcome].streak += 1;
+        } else {
+          state[outcome].streak = 0;
+        }
+        if (state[outcome].streak >= config.LOSS_STREAK_THRESHOLD) {
+          state[outcome].cooldownUntil = Math.max(state[outcome].cooldownUntil, ts + config.LOSS_STREAK_COOLDOWN_MS);
+        }
+      });
+    // Ensure cooldown times are in the future relative to now
+    (['Up', 'Down'] as const).forEach((o) => {
+      if (state[o].cooldownUntil < now) state[o].cooldownUntil = 0;
+    });
+    return state;
+  }
+
   /**
    * 綜合風險評估
    */
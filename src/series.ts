@@ -0,0 +1,103 @@
+/**
+ * Up/Down 市場系列定義（資產 + 週期 + slug 規則）
+ *
+ * - 15m 系列: {asset}-updown-15m-{unix_ts}
+ * - 1h 系列:  {assetName}-up-or-down-{month}-{day}-{hour}{am|pm}-et（美東時間）
+ */
+import { config } from './config.js';
+
+export type SeriesAsset = 'btc' | 'eth' | 'sol' | 'xrp';
+
+export interface SeriesDefinition {
+  id: string; // e.g. 'btc-15m'
+  label: string; // 顯示名稱
+  asset: SeriesAsset;
+  intervalMs: number;
+  tag: string; // Gamma 事件 tag，用於備援搜尋
+  slugPrefix: string; // 備援搜尋時過濾事件 slug
+  slugFor(intervalStartMs: number): string;
+}
+
+export interface SeriesLimits {
+  maxPositionSize?: number; // 覆蓋 MAX_POSITION_SIZE
+  lossLimitCents?: number; // 本系列本次運行虧損上限，觸發後暫停此系列（0=關閉）
+  aiProfile?: string; // 覆蓋 AI_PROFILE（AI 評分設定檔 id）
+}
+
+const ASSET_NAMES: Record<SeriesAsset, string> = {
+  btc: 'bitcoin',
+  eth: 'ethereum',
+  sol: 'solana',
+  xrp: 'xrp',
+};
+
+const etFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  hour12: true,
+});
+
+function fifteenMinute(asset: SeriesAsset): SeriesDefinition {
+  return {
+    id: `${asset}-15m`,
+    label: `${asset.toUpperCase()} 15m`,
+    asset,
+    intervalMs: 15 * 60 * 1000,
+    tag: '15M',
+    slugPrefix: `${asset}-updown-15m-`,
+    slugFor: (intervalStartMs) => `${asset}-updown-15m-${Math.floor(intervalStartMs / 1000)}`,
+  };
+}
+
+function hourly(asset: SeriesAsset): SeriesDefinition {
+  const name = ASSET_NAMES[asset];
+  return {
+    id: `${asset}-1h`,
+    label: `${asset.toUpperCase()} 1h`,
+    asset,
+    intervalMs: 60 * 60 * 1000,
+    tag: '1H',
+    slugPrefix: `${name}-up-or-down-`,
+    slugFor: (intervalStartMs) => {
+      const parts = Object.fromEntries(
+        etFormatter.formatToParts(new Date(intervalStartMs)).map((p) => [p.type, p.value])
+      );
+      return `${name}-up-or-down-${parts.month.toLowerCase()}-${parts.day}-${parts.hour}${parts.dayPeriod.toLowerCase()}-et`;
+    },
+  };
+}
+
+export const SERIES: Record<string, SeriesDefinition> = Object.fromEntries(
+  (['btc', 'eth', 'sol', 'xrp'] as SeriesAsset[])
+    .flatMap((asset) => [fifteenMinute(asset), hourly(asset)])
+    .map((s) => [s.id, s])
+);
+
+export const DEFAULT_SERIES_ID = 'btc-15m';
+
+/**
+ * 讀取 ENABLED_SERIES（逗號分隔），忽略未知 id
+ */
+export function getEnabledSeries(): SeriesDefinition[] {
+  const ids = config.ENABLED_SERIES.split(',').map((s) => s.trim()).filter(Boolean);
+  const enabled = ids.filter((id) => {
+    if (!SERIES[id]) console.warn(`[Series] 未知系列 "${id}"，可用: ${Object.keys(SERIES).join(', ')}`);
+    return !!SERIES[id];
+  });
+  return (enabled.length > 0 ? enabled : [DEFAULT_SERIES_ID]).map((id) => SERIES[id]);
+}
+
+/**
+ * 讀取 SERIES_LIMITS（JSON: {"eth-15m": {"maxPositionSize": 20, "lossLimitCents": 500, "aiProfile": "conservative"}}）
+ */
+export function getSeriesLimits(seriesId: string): SeriesLimits {
+  try {
+    const all = JSON.parse(config.SERIES_LIMITS || '{}');
+    return all?.[seriesId] || {};
+  } catch {
+    console.warn('[Series] SERIES_LIMITS 不是有效的 JSON，忽略');
+    return {};
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * 結算處理 - 已結束市場的持倉不再發出不可能成交的 SELL，
+ * 而是查詢 Gamma 結算結果，按 100¢ / 0¢ 記錄 SETTLEMENT 交易，並可選擇在鏈上兌換贏方倉位
+ */
+import { Contract, Wallet, constants, providers } from 'ethers';
+import { config } from './config.js';
+import type { MarketFetcher } from './market-fetcher.js';
+import type { Trader } from './trader.js';
+import type { MarketState, TradeRecord } from './types.js';
+
+// Polygon 主網 Conditional Tokens Framework 與 USDC.e
+const CTF_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045';
+const USDC_ADDRESS = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174';
+const CTF_ABI = [
+  'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+  'function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)',
+];
+
+/**
+ * 鏈上兌換 / 合併介面（可替換為 MockRedeemer 方便測試）
+ */
+export interface Redeemer {
+  redeem(conditionId: string): Promise<string | null>; // 回傳交易 hash
+  merge(conditionId: string, size: number): Promise<string | null>; // 合併 size 組 Up+Down 回 USDC
+}
+
+/**
+ * 直接呼叫 CTF redeemPositions / mergePositions（僅 EOA 錢包；Proxy 錢包持倉需經 Polymarket 代理合約操作）
+ */
+export class CtfRedeemer implements Redeemer {
+  async redeem(conditionId: string): Promise<string | null> {
+    if (config.FUNDER_ADDRESS) {
+      console.warn(`[結算] Proxy Wallet 持倉無法由 EOA 直接兌換，請在 Polymarket 網頁上 Redeem (condition=${conditionId})`);
+      return null;
+    }
+
+    // Binary market: indexSets [1, 2] 涵蓋兩個 outcome，輸方兌付為 0
+    const tx = await this.contract().redeemPositions(USDC_ADDRESS, constants.HashZero, conditionId, [1, 2]);
+    console.log(`[結算] Redeem 交易已送出: ${tx.hash}`);
+    await tx.wait();
+    return tx.hash;
+  }
+
+  async merge(conditionId: string, size: number): Promise<string | null> {
+    if (config.FUNDER_ADDRESS) {
+      console.warn(`[合併] Proxy Wallet 持倉無法由 EOA 直接合併，改為持有到結算 (condition=${conditionId})`);
+      return null;
+    }
+
+    // CTF 份額與 USDC 同為 6 位小數
+    const amount = Math.floor(size * 1e6);
+    const tx = await this.contract().mergePositions(USDC_ADDRESS, constants.HashZero, conditionId, [1, 2], amount);
+    console.log(`[合併] Merge 交易已送出: ${tx.hash}`);
+    await tx.wait();
+    return tx.hash;
+  }
+
+  private contract(): Contract {
+    const provider = new providers.JsonRpcProvider(config.POLYGON_RPC_URL);
+    const signer = new Wallet(config.PRIVATE_KEY, provider);
+    return new Contract(CTF_ADDRESS, CTF_ABI, signer);
+  }
+}
+
+/**
+ * 測試用：只記錄呼叫，不送出交易
+ */
+export class MockRedeemer implements Redeemer {
+  readonly calls: string[] = [];
+  readonly merges: Array<{ conditionId: string; size: number }> = [];
+
+  async redeem(conditionId: string): Promise<string | null> {
+    this.calls.push(conditionId);
+    return `mock-redeem-${this.calls.length}`;
+  }
+
+  async merge(conditionId: string, size: number): Promise<string | null> {
+    this.merges.push({ conditionId, size });
+    return `mock-merge-${this.merges.length}`;
+  }
+}
+
+export class SettlementManager {
+  private lastChecked: Map<string, number> = new Map(); // tokenId -> 上次查詢時間
+  private redeemedConditions: Set<string> = new Set();
+
+  constructor(
+    private readonly fetcher: MarketFetcher,
+    private readonly trader: Trader,
+    private readonly redeemer: Redeemer = new CtfRedeemer()
+  ) {}
+
+  /**
+   * 檢查不屬於當前/下一市場的持倉，已結算者按兌付價平倉
+   */
+  async check(state: MarketState): Promise<TradeRecord[]> {
+    const activeTokenIds = new Set(
+      [state.upTokenId, state.downTokenId, state.currentUpTokenId, state.currentDownTokenId].filter((id) => id)
+    );
+    const now = Date.now();
+    const settled: TradeRecord[] = [];
+
+    for (const [tokenId, position] of Array.from(this.trader.getPositions().entries())) {
+      if (position.size <= 0 || activeTokenIds.has(tokenId)) continue;
+      if (now - (this.lastChecked.get(tokenId) || 0) < config.SETTLEMENT_CHECK_INTERVAL_MS) continue;
+      this.lastChecked.set(tokenId, now);
+
+      const resolution = await this.fetcher.fetchMarketResolution(tokenId);
+      if (!resolution?.resolved) {
+        console.log(`[結算] ${position.outcome} ${position.size.toFixed(2)} 股所屬市場尚未結算，等待中`);
+        continue;
+      }
+
+      const payout = resolution.payouts[tokenId] ?? 0;
+      const record = this.trader.settlePosition(tokenId, payout, {
+        slug: resolution.slug,
+        reason: `結算 (勝方: ${resolution.winningOutcome})`,
+      });
+      this.lastChecked.delete(tokenId);
+      if (record) settled.push(record);
+
+      if (payout > 0 && !config.PAPER_TRADING && config.AUTO_REDEEM) {
+        await this.redeem(resolution.conditionId);
+      }
+    }
+
+    // 套利持有到結算的完整組合：每組兌付 100¢，利潤已鎖定
+    for (const set of this.trader.getCompleteSets()) {
+      if (set.upTokenId === state.upTokenId || set.upTokenId === state.currentUpTokenId) continue;
+      const key = `set:${set.conditionId}`;
+      if (now - (this.lastChecked.get(key) || 0) < config.SETTLEMENT_CHECK_INTERVAL_MS) continue;
+      this.lastChecked.set(key, now);
+
+      const resolution = await this.fetcher.fetchMarketResolution(set.upTokenId);
+      if (!resolution?.resolved) continue;
+
+      settled.push(
+        ...this.trader.closeCompleteSet(set.conditionId, 'SETTLEMENT', {
+          slug: resolution.slug ?? set.slug,
+          reason: `完整組合結算 (勝方: ${resolution.winningOutcome})`,
+        })
+      );
+      this.lastChecked.delete(key);
+
+      if (!config.PAPER_TRADING && config.AUTO_REDEEM) {
+        await this.redeem(resolution.conditionId);
+      }
+    }
+
+    return settled;
+  }
+
+  private async redeem(conditionId: string): Promise<void> {
+    if (this.redeemedConditions.has(conditionId)) return;
+    try {
+      const txHash = await this.redeemer.redeem(conditionId);
+      if (txHash) {
+        this.redeemedConditions.add(conditionId);
+        console.log(`✅ [結算] 已兌換 condition=${conditionId} tx=${txHash}`);
+      }
+    } catch (err: any) {
+      console.error('[結算] Redeem 失敗:', err?.message || err);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * 規則式 AI 策略（預設）- 依 AIAnalyzer 的推薦方向與倉位買入
+ */
+import { config } from '../config.js';
+import type { TradeSignal } from '../types.js';
+import { exceedsCombinedCap, holdsOpposite, lacksFairValueEdge, remainingCapacity } from './entry-guards.js';
+import type { EntryContext, TradingStrategy } from './types.js';
+
+export class AIStrategy implements TradingStrategy {
+  readonly id = 'ai';
+  readonly label = 'AI 規則分析';
+  readonly description = '技術面 / 訂單簿 / 情緒 / 時機綜合評分，信心足夠時買入推薦方向';
+
+  evaluateEntry(ctx: EntryContext): TradeSignal | null {
+    const { state, upTokenId, downTokenId, upPrice, downPrice, label, scope } = ctx;
+    const analysis = ctx.aiAnalysis;
+
+    if (!analysis?.recommendedOutcome) {
+      console.log(`[AI] 無推薦方向: ${analysis?.reasons[0] || 'unknown'}`);
+      return ctx.gates.block(analysis?.blockedBy?.gate ?? 'no-analysis', analysis?.blockedBy?.detail ?? analysis?.reasons[0] ?? '無分析結果', ctx.now);
+    }
+
+    // 評分 / 信心 / 價差門檻（AIAnalyzer 決策時檢查）
+    if (!analysis.shouldTrade) {
+      const blocked = analysis.blockedBy ?? { gate: 'no-analysis' as const, detail: analysis.reasons[0] || 'unknown' };
+      console.log(`[AI] 未通過門檻: ${blocked.detail}`);
+      return ctx.gates.block(blocked.gate, blocked.detail, ctx.now);
+    }
+
+    const isUp = analysis.recommendedOutcome === 'Up';
+    const tokenId = isUp ? upTokenId : downTokenId;
+    const price = isUp ? upPrice : downPrice;
+    if (holdsOpposite(ctx, analysis.recommendedOutcome, 'AI')) return null;
+
+    if (price < config.PRICE_FLOOR) {
+      console.log(`[AI] 價格低於下限 ${config.PRICE_FLOOR}¢ (got ${price.toFixed(2)}¢), 不買`);
+      return ctx.gates.block('price-range', `${price.toFixed(2)}¢ < 下限 ${config.PRICE_FLOOR}¢`, ctx.now);
+    }
+
+    if (price > config.PRICE_CEILING) {
+      console.log(`[AI] 價格高於上限 ${config.PRICE_CEILING}¢ (got ${price.toFixed(2)}¢), 不買`);
+      return ctx.gates.block('price-range', `${price.toFixed(2)}¢ > 上限 ${config.PRICE_CEILING}¢`, ctx.now);
+    }
+
+    // Leader pre-start override: only for next market, gap 5-8¢, toggle on
+    const isPreStart = scope === 'next' && state.timeToStart > 0;
+    const priceGap = Math.abs(upPrice - downPrice);
+    const leaderOutcome: 'Up' | 'Down' | null = upPrice > downPrice ? 'Up' : downPrice > upPrice ? 'Down' : null;
+    const leaderOverride = config.BUY_LEADER_PRESTART && isPreStart && leaderOutcome && priceGap >= 5 && priceGap <= 8;
+
+    // Combined cap guard (skip only if leader pre-start override)
+    if (!leaderOverride && exceedsCombinedCap(ctx, 'AI')) return null;
+
+    const remainingCap = remainingCapacity(ctx, tokenId);
+    if (remainingCap <= 0) {
+      console.log(`[AI] 已達最大倉位 ${ctx.maxPositionSize}, 不再加倉 ${analysis.recommendedOutcome}`);
+      return ctx.gates.block('max-position', `${analysis.recommendedOutcome} 已達 ${ctx.maxPositionSize} 股`, ctx.now);
+    }
+
+    const finalSize = Math.min(analysis.recommendedSize, remainingCap);
+
+    // If leader override, force buy leader outcome regardless of AI pick, bypass combined cap
+    if (leaderOverride) {
+      const tokenIdLeader = leaderOutcome === 'Up' ? upTokenId : downTokenId;
+      const priceLeader = leaderOutcome === 'Up' ? upPrice : downPrice;
+      if (lacksFairValueEdge(ctx, leaderOutcome, priceLeader, 'AI')) return null;
+      console.log(`[AI][LeaderOverride] Gap=${priceGap.toFixed(1)}¢ (${leaderOutcome}) pre-start -> 買入領先方 (忽略 combined cap)`);
+      return {
+        action: 'BUY',
+        tokenId: tokenIdLeader,
+        outcome: leaderOutcome,
+        price: priceLeader,
+        size: finalSize,
+        reason: `[LeaderOverride] Pre-start leader ${leaderOutcome} gap=${priceGap.toFixed(1)}¢ (cap bypass)`,
+      };
+    }
+
+    if (lacksFairValueEdge(ctx, analysis.recommendedOutcome, price, 'AI')) return null;
+
+    return {
+      action: 'BUY',
+      tokenId,
+      outcome: analysis.recommendedOutcome,
+      price,
+      size: finalSize,
+      reason: `[AI] ${label}買入 ${analysis.recommendedOutcome} @ ${price.toFixed(1)}¢ (信心: ${analysis.confidence.toFixed(0)}%, 倉位: ${finalSize}/${ctx.maxPositionSize})`,
+    };
+  }
+}
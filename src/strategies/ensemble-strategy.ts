@@ -0,0 +1,109 @@
+/**
+ * 集成投票策略 - 規則式 AI 與 ENSEMBLE_LLM_PROVIDERS 的 LLM 各投一票，依 ENSEMBLE_MODE 合併（見 ensemble.ts）
+ */
+import { config } from '../config.js';
+import { combineVotes, ensembleProviders, getEnsembleMode, llmVoterId, voterAccuracy, type VoterOpinion } from '../ensemble.js';
+import type { TradeSignal } from '../types.js';
+import { exceedsCombinedCap, exceedsPriceSkew, holdsOpposite, inCooldown, lacksFairValueEdge, remainingCapacity } from './entry-guards.js';
+import type { EntryContext, TradingStrategy } from './types.js';
+
+export class EnsembleStrategy implements TradingStrategy {
+  readonly id = 'ensemble';
+  readonly label = '集成投票';
+  readonly description = '規則式 AI 與一個或多個 LLM 投票（一致 / 多數 / 依歷史準確度加權），通過才買入';
+
+  evaluateEntry(ctx: EntryContext): TradeSignal | null {
+    const { upTokenId, downTokenId, upPrice, downPrice, label } = ctx;
+    const slug = (ctx.scope === 'next' ? ctx.state.nextMarket : ctx.state.currentMarket)?.slug ?? null;
+
+    const decision = combineVotes(this.collectOpinions(ctx, slug), getEnsembleMode(), (voter) => voterAccuracy.get(voter));
+    if (slug) voterAccuracy.observe(slug, decision.votes);
+
+    if (!decision.shouldTrade || !decision.outcome) {
+      console.log(`[Ensemble] 不交易: ${decision.detail}`);
+      return ctx.gates.block('ensemble-declined', decision.detail, ctx.now);
+    }
+
+    const outcome = decision.outcome;
+    const isUp = outcome === 'Up';
+    const tokenId = isUp ? upTokenId : downTokenId;
+    const price = isUp ? upPrice : downPrice;
+    if (holdsOpposite(ctx, outcome, 'Ensemble')) return null;
+    if (exceedsCombinedCap(ctx, 'Ensemble')) return null;
+    if (exceedsPriceSkew(ctx, 'Ensemble')) return null;
+    if (inCooldown(ctx, outcome, 'Ensemble')) return null;
+    if (lacksFairValueEdge(ctx, outcome, price, 'Ensemble')) return null;
+
+    if (price < config.PRICE_FLOOR || price > config.PRICE_CEILING) {
+      console.log(`[Ensemble] 價格超出範圍 ${config.PRICE_FLOOR}-${config.PRICE_CEILING}¢ (got ${price.toFixed(2)}¢), 不買`);
+      return ctx.gates.block('price-range', `${price.toFixed(2)}¢ 不在 ${config.PRICE_FLOOR}-${config.PRICE_CEILING}¢`, ctx.now);
+    }
+
+    const remainingCap = remainingCapacity(ctx, tokenId);
+    if (remainingCap <= 0) {
+      console.log(`[Ensemble] 已達最大倉位 ${ctx.maxPositionSize}, 不再加倉 ${outcome}`);
+      return ctx.gates.block('max-position', `${outcome} 已達 ${ctx.maxPositionSize} 股`, ctx.now);
+    }
+
+    return {
+      action: 'BUY',
+      tokenId,
+      outcome,
+      price,
+      size: Math.min(this.recommendedSize(ctx, outcome, slug), remainingCap),
+      reason: `[Ensemble] ${label}買入 ${outcome} @ ${price.toFixed(1)}¢ (信心: ${decision.confidence.toFixed(0)}%) | ${decision.detail}`,
+      ensemble: decision,
+    };
+  }
+
+  /**
+   * 規則式 AI 一票 + 每個投票 provider 一票；沒有意見、意見過期或分析的不是同一個市場時視為棄權
+   */
+  private collectOpinions(ctx: EntryContext, slug: string | null): VoterOpinion[] {
+    const ai = ctx.aiAnalysis;
+    const opinions: VoterOpinion[] = [
+      {
+        voter: 'ai',
+        outcome: ai?.shouldTrade ? ai.recommendedOutcome : null,
+        confidence: ai?.confidence ?? 0,
+        ...(ai && !ai.shouldTrade ? { note: ai.blockedBy?.detail ?? ai.reasons[0] } : {}),
+      },
+    ];
+
+    for (const providerId of ensembleProviders()) {
+      const opinion = ctx.llmOpinions.find((o) => o.provider === providerId);
+      if (!config.LLM_ENABLED || !opinion) {
+        opinions.push({ voter: `llm:${providerId}`, outcome: null, confidence: 0, note: config.LLM_ENABLED ? '尚無分析結果' : 'LLM 未啟用' });
+        continue;
+      }
+
+      const voter = llmVoterId(opinion.provider, opinion.model);
+      const { analysis } = opinion;
+      if (ctx.now - opinion.at > config.ENSEMBLE_MAX_OPINION_AGE_MS || opinion.slug !== slug) {
+        opinions.push({ voter, outcome: null, confidence: analysis.confidence, note: '意見過期' });
+        continue;
+      }
+      opinions.push({
+        voter,
+        outcome: analysis.shouldTrade ? analysis.recommendedOutcome : null,
+        confidence: analysis.confidence,
+        ...(analysis.shouldTrade ? {} : { note: analysis.reasoning }),
+      });
+    }
+    return opinions;
+  }
+
+  /**
+   * 倉位：AI 贊成時用 AI 建議，否則取贊成的 LLM 建議的平均
+   */
+  private recommendedSize(ctx: EntryContext, outcome: 'Up' | 'Down', slug: string | null): number {
+    const ai = ctx.aiAnalysis;
+    if (ai?.shouldTrade && ai.recommendedOutcome === outcome && ai.recommendedSize > 0) return ai.recommendedSize;
+
+    const sizes = ctx.llmOpinions
+      .filter((o) => o.slug === slug && o.analysis.shouldTrade && o.analysis.recommendedOutcome === outcome && o.analysis.recommendedSize > 0)
+      .map((o) => o.analysis.recommendedSize);
+    if (sizes.length === 0) return config.AI_MIN_POSITION_SIZE;
+    return Math.round(sizes.reduce((a, b) => a + b, 0) / sizes.length);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 各進場策略共用的買入前檢查
+ */
+import { config } from '../config.js';
+import { checkPriceSkew } from '../trade-gates.js';
+import type { EntryContext } from './types.js';
+
+/**
+ * 已持有相反方向倉位時不買（需先賣出）
+ */
+export function holdsOpposite(ctx: EntryContext, outcome: 'Up' | 'Down', tag: string): boolean {
+  const oppositeTokenId = outcome === 'Up' ? ctx.downTokenId : ctx.upTokenId;
+  const oppositeSize = ctx.positions.get(oppositeTokenId)?.size ?? 0;
+  if (oppositeSize > 0) {
+    console.log(`[${tag}] 已持有相反倉位 ${oppositeSize.toFixed(3)} 股，先賣出再買 ${outcome}`);
+    ctx.gates.block('opposite-position', `持有 ${oppositeSize.toFixed(3)} 股相反倉位`, ctx.now);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Up + Down 價格（優先用持倉的最新價）
+ */
+export function combinedPrice(ctx: EntryContext): number {
+  return (ctx.positions.get(ctx.upTokenId)?.currentPrice ?? ctx.upPrice) + (ctx.positions.get(ctx.downTokenId)?.currentPrice ?? ctx.downPrice);
+}
+
+export function exceedsCombinedCap(ctx: EntryContext, tag: string): boolean {
+  const combined = combinedPrice(ctx);
+  if (combined >= config.COMBINED_PRICE_CAP * 100) {
+    console.log(`[${tag}] 雙邊價格過高 up+down=${combined.toFixed(1)}¢ >= cap ${config.COMBINED_PRICE_CAP * 100}¢，不買`);
+    ctx.gates.block('combined-cap', `up+down=${combined.toFixed(1)}¢ >= ${config.COMBINED_PRICE_CAP * 100}¢`, ctx.now);
+    return true;
+  }
+  return false;
+}
+
+export function inCooldown(ctx: EntryContext, outcome: 'Up' | 'Down', tag: string): boolean {
+  const cooldown = ctx.lossStreaks[outcome]?.cooldownUntil || 0;
+  if (cooldown > ctx.now) {
+    console.log(`[${tag}] 冷卻中 (${outcome}) until ${new Date(cooldown).toISOString()}, skip buy`);
+    ctx.gates.block('cooldown', `${outcome} 冷卻至 ${new Date(cooldown).toISOString()}`, ctx.now);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 理論價門檻（FAIR_VALUE_GATE）：市價須低於理論價至少 FAIR_VALUE_MIN_EDGE_CENTS；
+ * 沒有理論價（盤中缺參考價、非 BTC 系列）時不擋
+ */
+export function lacksFairValueEdge(ctx: EntryContext, outcome: 'Up' | 'Down', price: number, tag: string): boolean {
+  if (!config.FAIR_VALUE_GATE || !ctx.fairValue) return false;
+  const fair = outcome === 'Up' ? ctx.fairValue.up : ctx.fairValue.down;
+  const edge = fair - price;
+  if (edge < config.FAIR_VALUE_MIN_EDGE_CENTS) {
+    console.log(`[${tag}] ${outcome} 市價 ${price.toFixed(2)}¢ 理論價 ${fair.toFixed(2)}¢，優勢 ${edge.toFixed(2)}¢ < ${config.FAIR_VALUE_MIN_EDGE_CENTS}¢，不買`);
+    ctx.gates.block('fair-value-edge', `${outcome} 優勢 ${edge.toFixed(2)}¢ < ${config.FAIR_VALUE_MIN_EDGE_CENTS}¢`, ctx.now);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Up/Down 價差超過 PRICE_SKEW_LIMIT_CENTS 時不買（AI 策略已在 AIAnalyzer 決策時檢查）
+ */
+export function exceedsPriceSkew(ctx: EntryContext, tag: string): boolean {
+  const blocked = checkPriceSkew(ctx.upPrice, ctx.downPrice);
+  if (blocked) {
+    console.log(`[${tag}] ${blocked.detail}，不買`);
+    ctx.gates.block(blocked.gate, blocked.detail, ctx.now);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 距離倉位上限還可買入的股數
+ */
+export function remainingCapacity(ctx: EntryContext, tokenId: string): number {
+  const existing = ctx.positions.get(tokenId)?.size ?? 0;
+  return Math.max(0, ctx.maxPositionSize - existing);
+}
@@ -0,0 +1,84 @@
+/**
+ * 傳統門檻策略 - 價格介於 PRICE_FLOOR 與 min(PRICE_CEILING, MAX_BUY_PRICE) 之間即買入（先 Up 後 Down）
+ */
+import { config } from '../config.js';
+import type { MarketState, TradeSignal } from '../types.js';
+import { exceedsCombinedCap, exceedsPriceSkew, holdsOpposite, inCooldown, lacksFairValueEdge, remainingCapacity } from './entry-guards.js';
+import type { EntryContext, TradingStrategy } from './types.js';
+
+export class LegacyStrategy implements TradingStrategy {
+  readonly id = 'legacy';
+  readonly label = '傳統門檻';
+  readonly description = '低於最高買入價即買入，以倉位上限補滿';
+
+  private lastPrices: Map<string, number[]> = new Map();
+  private readonly PRICE_HISTORY_LENGTH = 60;
+
+  evaluateEntry(ctx: EntryContext): TradeSignal | null {
+    const trend = this.analyzeCurrentMarketTrend(ctx.state);
+    // Up 在買入區間內優先；Up 價格太高才檢查 Down
+    if (this.inBuyRange(ctx.upPrice)) return this.tryOutcome(ctx, 'Up', trend);
+    if (this.inBuyRange(ctx.downPrice)) return this.tryOutcome(ctx, 'Down', trend);
+    return ctx.gates.block('price-range', `Up ${ctx.upPrice.toFixed(1)}¢ / Down ${ctx.downPrice.toFixed(1)}¢ 不在買入區間`, ctx.now);
+  }
+
+  private inBuyRange(price: number): boolean {
+    return price >= config.PRICE_FLOOR && price <= config.PRICE_CEILING && price < config.MAX_BUY_PRICE;
+  }
+
+  private tryOutcome(ctx: EntryContext, outcome: 'Up' | 'Down', trend: 'Up' | 'Down' | null): TradeSignal | null {
+    const tokenId = outcome === 'Up' ? ctx.upTokenId : ctx.downTokenId;
+    const price = outcome === 'Up' ? ctx.upPrice : ctx.downPrice;
+    if (holdsOpposite(ctx, outcome, 'Legacy')) return null;
+    if (exceedsCombinedCap(ctx, 'Legacy')) return null;
+    if (exceedsPriceSkew(ctx, 'Legacy')) return null;
+    if (inCooldown(ctx, outcome, 'Legacy')) return null;
+    if (lacksFairValueEdge(ctx, outcome, price, 'Legacy')) return null;
+
+    const momentum = this.calculateMomentum(tokenId, price);
+    const remaining = remainingCapacity(ctx, tokenId);
+    if (remaining <= 0) return ctx.gates.block('max-position', `${outcome} 已達 ${ctx.maxPositionSize} 股`, ctx.now);
+    if (price >= 98) return ctx.gates.block('price-range', `${price.toFixed(1)}¢ >= 98¢`, ctx.now);
+
+    return {
+      action: 'BUY',
+      tokenId,
+      outcome,
+      price,
+      size: remaining,
+      reason: `${ctx.label}買入 ${outcome} @ ${price.toFixed(1)}¢ (trend: ${trend || 'none'}, momentum: ${momentum.toFixed(2)})`,
+    };
+  }
+
+  /**
+   * 分析當前盤口走勢
+   * 返回預測的下一局有利方向
+   */
+  private analyzeCurrentMarketTrend(state: MarketState): 'Up' | 'Down' | null {
+    if (!state.currentMarket) return null;
+
+    // 簡單策略：如果當前盤口 Up 價格高，下一局盤前可能 Up 會先漲
+    // 這是基於市場慣性的假設
+    if (state.upPrice > 55) return 'Up';
+    if (state.downPrice > 55) return 'Down';
+
+    return null; // 無明顯趨勢
+  }
+
+  /**
+   * 計算價格動量
+   */
+  private calculateMomentum(tokenId: string, currentPrice: number): number {
+    const history = this.lastPrices.get(tokenId) || [];
+
+    const recentPrices = [...history, currentPrice].slice(-3);
+    const avgRecent = recentPrices.reduce((a, b) => a + b, 0) / recentPrices.length;
+
+    history.push(currentPrice);
+    if (history.length > this.PRICE_HISTORY_LENGTH) {
+      history.shift();
+    }
+    this.lastPrices.set(tokenId, history);
+    return currentPrice - avgRecent;
+  }
+}
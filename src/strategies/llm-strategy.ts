@@ -0,0 +1,53 @@
+/**
+ * LLM 策略 - 依最近一次 LLM 分析的建議買入（需 LLM_ENABLED 且 API key 可用）
+ */
+import type { TradeSignal } from '../types.js';
+import { exceedsCombinedCap, exceedsPriceSkew, holdsOpposite, inCooldown, lacksFairValueEdge, remainingCapacity } from './entry-guards.js';
+import type { EntryContext, TradingStrategy } from './types.js';
+
+export class LLMStrategy implements TradingStrategy {
+  readonly id = 'llm';
+  readonly label = 'LLM 分析';
+  readonly description = '由 LLM 閱讀盤口與持倉後給出方向、信心與倉位建議';
+
+  evaluateEntry(ctx: EntryContext): TradeSignal | null {
+    const { upTokenId, downTokenId, upPrice, downPrice, label } = ctx;
+    const analysis = ctx.llmAnalysis;
+
+    if (!analysis || !analysis.shouldTrade || !analysis.recommendedOutcome) {
+      console.log(`[LLM] 不建議交易: ${analysis?.reasoning || '尚無分析結果'}`);
+      return analysis
+        ? ctx.gates.block('llm-declined', analysis.reasoning, ctx.now)
+        : ctx.gates.block('no-analysis', '尚無 LLM 分析結果', ctx.now);
+    }
+
+    const isUp = analysis.recommendedOutcome === 'Up';
+    const tokenId = isUp ? upTokenId : downTokenId;
+    const price = isUp ? upPrice : downPrice;
+    if (holdsOpposite(ctx, analysis.recommendedOutcome, 'LLM')) return null;
+    if (exceedsCombinedCap(ctx, 'LLM')) return null;
+    if (exceedsPriceSkew(ctx, 'LLM')) return null;
+    if (inCooldown(ctx, analysis.recommendedOutcome, 'LLM')) return null;
+    if (lacksFairValueEdge(ctx, analysis.recommendedOutcome, price, 'LLM')) return null;
+
+    if (price >= 98) {
+      console.log(`[LLM] 價格過高 (${price.toFixed(1)}¢) 不買`);
+      return ctx.gates.block('price-range', `${price.toFixed(1)}¢ >= 98¢`, ctx.now);
+    }
+
+    const remainingCap = remainingCapacity(ctx, tokenId);
+    if (remainingCap <= 0) {
+      console.log(`[LLM] 已達最大倉位 ${ctx.maxPositionSize}, 不再加倉 ${analysis.recommendedOutcome}`);
+      return ctx.gates.block('max-position', `${analysis.recommendedOutcome} 已達 ${ctx.maxPositionSize} 股`, ctx.now);
+    }
+
+    return {
+      action: 'BUY',
+      tokenId,
+      outcome: analysis.recommendedOutcome,
+      price,
+      size: Math.min(analysis.recommendedSize, remainingCap),
+      reason: `[LLM] ${label}買入 ${analysis.recommendedOutcome} @ ${price.toFixed(1)}¢ (信心: ${analysis.confidence}%) | ${analysis.reasoning}`,
+    };
+  }
+}
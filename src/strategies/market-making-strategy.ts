@@ -0,0 +1,92 @@
+/**
+ * 雙邊做市策略 - 同時在 Up 與 Down 掛限價買單，兩邊成交即鎖定 100¢ - (買價總和) 的利潤
+ *
+ * - 公允價: Up 與 (100 - Down) 的中間價平均，Up + Down = 100
+ * - 買價 = 公允價 - MM_HALF_SPREAD_CENTS，不穿越賣一（只做 maker）
+ * - 兩邊買價總和 < COMBINED_PRICE_CAP；已持有單邊時，另一邊買價不超過 cap - 持倉成本
+ * - 庫存偏移: 淨持倉偏 Up 時壓低 Up 買價、抬高 Down 買價，達 MM_MAX_INVENTORY 停掛偏重的一邊
+ *
+ * 掛單與撤單由 backend/market-maker.ts 執行，本類只負責計算報價
+ */
+import { config } from '../config.js';
+import type { TradeSignal } from '../types.js';
+import type { EntryContext, TradingStrategy } from './types.js';
+
+const MIN_ORDER_SIZE = 5; // 交易所最小下單量
+
+export interface QuoteInput {
+  upBid: number | null; // cents
+  upAsk: number | null;
+  downBid: number | null;
+  downAsk: number | null;
+  upInventory: number; // 股數
+  downInventory: number;
+  upAvgCost: number | null; // cents
+  downAvgCost: number | null;
+  maxPositionSize: number;
+}
+
+export interface Quote {
+  outcome: 'Up' | 'Down';
+  price: number; // cents（整數）
+  size: number;
+}
+
+export interface QuotePlan {
+  up: Quote | null;
+  down: Quote | null;
+  reason?: string; // 不報價的原因
+}
+
+export function computeQuotes(input: QuoteInput): QuotePlan {
+  const { upBid, upAsk, downBid, downAsk } = input;
+  if (upBid == null || upAsk == null || downBid == null || downAsk == null) {
+    return { up: null, down: null, reason: '訂單簿不完整' };
+  }
+
+  const fairUp = ((upBid + upAsk) / 2 + (100 - (downBid + downAsk) / 2)) / 2;
+  const fairDown = 100 - fairUp;
+
+  const net = input.upInventory - input.downInventory;
+  const skewRatio = Math.max(-1, Math.min(1, net / config.MM_MAX_INVENTORY));
+  const skew = config.MM_SKEW_CENTS * skewRatio;
+
+  let upPrice = Math.min(fairUp - config.MM_HALF_SPREAD_CENTS - skew, upAsk - 1);
+  let downPrice = Math.min(fairDown - config.MM_HALF_SPREAD_CENTS + skew, downAsk - 1);
+
+  const capCents = config.COMBINED_PRICE_CAP * 100;
+  const excess = upPrice + downPrice - capCents;
+  if (excess > 0) {
+    upPrice -= excess / 2;
+    downPrice -= excess / 2;
+  }
+
+  // 補齊配對時，不讓配對總成本超過 cap
+  if (net > 0 && input.upAvgCost != null) downPrice = Math.min(downPrice, capCents - input.upAvgCost);
+  if (net < 0 && input.downAvgCost != null) upPrice = Math.min(upPrice, capCents - input.downAvgCost);
+
+  const build = (outcome: 'Up' | 'Down', rawPrice: number, inventory: number, otherInventory: number): Quote | null => {
+    const price = Math.floor(rawPrice);
+    if (price < 1 || price > 99) return null;
+    if (inventory - otherInventory >= config.MM_MAX_INVENTORY) return null; // 庫存偏重，停掛這一邊
+    const size = Math.min(config.MM_QUOTE_SIZE, input.maxPositionSize - inventory);
+    if (size < MIN_ORDER_SIZE) return null;
+    return { outcome, price, size };
+  };
+
+  return {
+    up: build('Up', upPrice, input.upInventory, input.downInventory),
+    down: build('Down', downPrice, input.downInventory, input.upInventory),
+  };
+}
+
+export class MarketMakingStrategy implements TradingStrategy {
+  readonly id = 'market-maker';
+  readonly label = '雙邊做市';
+  readonly description = 'Up / Down 同時掛限價買單，總成本低於 combined cap，依庫存偏移報價';
+  readonly quoting = true;
+
+  evaluateEntry(_ctx: EntryContext): TradeSignal | null {
+    return null; // 進場由 MarketMaker 的掛單完成
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * 進場策略註冊表 - config.STRATEGY 選擇，可於執行中切換
+ */
+import { AIStrategy } from './ai-strategy.js';
+import { EnsembleStrategy } from './ensemble-strategy.js';
+import { LegacyStrategy } from './legacy-strategy.js';
+import { LLMStrategy } from './llm-strategy.js';
+import { MarketMakingStrategy } from './market-making-strategy.js';
+import type { TradingStrategy } from './types.js';
+
+export interface StrategyInfo {
+  id: string;
+  label: string;
+  description: string;
+  quoting: boolean;
+}
+
+export const DEFAULT_STRATEGY_ID = 'ai';
+
+const factories = new Map<string, () => TradingStrategy>([
+  ['ai', () => new AIStrategy()],
+  ['legacy', () => new LegacyStrategy()],
+  ['llm', () => new LLMStrategy()],
+  ['market-maker', () => new MarketMakingStrategy()],
+  ['ensemble', () => new EnsembleStrategy()],
+]);
+
+/**
+ * 註冊新策略（id 重複時覆蓋）
+ */
+export function registerStrategy(id: string, factory: () => TradingStrategy): void {
+  factories.set(id, factory);
+}
+
+export function hasStrategy(id: string): boolean {
+  return factories.has(id);
+}
+
+/**
+ * 建立策略實例；未知 id 回退到預設策略
+ */
+export function createTradingStrategy(id: string): TradingStrategy {
+  const factory = factories.get(id);
+  if (!factory) {
+    console.warn(`[Strategy] 未知策略 "${id}"，使用 ${DEFAULT_STRATEGY_ID}。可用: ${Array.from(factories.keys()).join(', ')}`);
+    return factories.get(DEFAULT_STRATEGY_ID)!();
+  }
+  return factory();
+}
+
+export function listStrategies(): StrategyInfo[] {
+  return Array.from(factories.values()).map((factory) => {
+    const { id, label, description, quoting } = factory();
+    return { id, label, description, quoting: !!quoting };
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * 可插拔進場策略介面
+ *
+ * 出場 / 風控（孤兒倉清理、開局清倉、止損、止盈、時間窗口）由 Strategy 統一處理，
+ * TradingStrategy 只負責在允許交易時決定是否買入、買哪一邊、買多少
+ */
+import type { AIAnalysis } from '../ai-analyzer.js';
+import type { LLMAnalysis } from '../llm-analyzer.js';
+import type { TradeGateRecorder } from '../trade-gates.js';
+import type { MarketState, OrderBook, Position, StrikeContext, TradeSignal } from '../types.js';
+
+export type AnalysisScope = 'next' | 'current';
+
+/**
+ * 某個 LLM provider 最近一次的分析（集成投票用，每個 provider 一份）
+ */
+export interface LLMOpinion {
+  provider: string;
+  model: string;
+  slug: string | null; // 分析對象市場
+  analysis: LLMAnalysis;
+  at: number; // ms
+}
+
+export type LossStreaks = Record<'Up' | 'Down', { streak: number; cooldownUntil: number }>;
+
+export interface EntryContext {
+  state: MarketState;
+  positions: Map<string, Position>;
+  scope: AnalysisScope; // 'next' = 盤前, 'current' = 盤中
+  label: string; // 日誌用：'盤前' / '盤中低吸'
+  upTokenId: string;
+  downTokenId: string;
+  upPrice: number; // cents
+  downPrice: number; // cents
+  orderBooks: { up: OrderBook; down: OrderBook } | null;
+  aiAnalysis: AIAnalysis | null; // 本 tick 的規則式 AI 分析
+  llmAnalysis: LLMAnalysis | null; // 最近一次完成的 LLM 分析（非阻塞，可能為 null）
+  llmOpinions: LLMOpinion[]; // 各 LLM provider 最近一次的分析（ensemble 策略時每個投票 provider 一份，否則只有 LLM_PROVIDER）
+  strike: StrikeContext | null; // 當前市場的開盤參考價、距離與 Up 理論機率（盤前 scope 的下一局尚無參考價）
+  fairValue: { up: number; down: number } | null; // 本 scope 的理論價 (cents)，盤中缺參考價時為 null（見 pricing.ts）
+  lossStreaks: LossStreaks;
+  maxPositionSize: number;
+  gates: TradeGateRecorder; // 擋下候選交易時記錄原因（儀表板「為何沒交易」）
+  now: number;
+}
+
+export interface TradingStrategy {
+  readonly id: string;
+  readonly label: string; // 顯示名稱
+  readonly description: string;
+  readonly quoting?: boolean; // true: 不產生吃單信號，改由 MarketMaker 雙邊掛限價買單
+  evaluateEntry(ctx: EntryContext): TradeSignal | null;
+}
@@ -1,8 +1,24 @@
 import { config } from './config.js';
 import { riskManager } from './risk-manager.js';
-import { aiAnalyzer, type AIAnalysis } from './ai-analyzer.js';
+import { aiAnalyzer, type AIAnalyzer, type AIAnalysis } from './ai-analyzer.js';
 import { llmAnalyzer, type LLMAnalysis } from './llm-analyzer.js';
-import type { MarketState, TradeSignal, Position, OrderBook } from './types.js';
+import { ensembleProviders } from './ensemble.js';
+import { PriceSeriesRecorder, type LLMPromptContext } from './llm-prompt.js';
+import { systemClock, type Clock } from './clock.js';
+import { fairValueCents } from './pricing.js';
+import { createTradingStrategy } from './strategies/registry.js';
+import { TradeGateRecorder, type TradeGateStats } from './trade-gates.js';
+import type { AnalysisScope, LLMOpinion, LossStreaks, TradingStrategy } from './strategies/types.js';
+import type { MarketState, TradeSignal, Position, OrderBook, TradeFlow } from './types.js';
+
+const SPOT_SERIES_KEY = 'spot'; // 現貨在 priceSeries 中的 key（其餘為 tokenId）
+
+export interface StrategyOptions {
+  clock?: Clock; // 回測時注入模擬時鐘
+  aiAnalyzer?: AIAnalyzer; // 回測時使用獨立的分析器（避免污染實盤價格歷史）
+  maxPositionSize?: number; // 系列層級的倉位上限，未設定則使用 config.MAX_POSITION_SIZE
+  strategy?: string; // 固定使用的進場策略 id（回測用），未設定則跟隨 config.STRATEGY
+}
 
 /**
  * 盤前套利策略 (包含風控)
@@ -17,10 +33,12 @@ import type { MarketState, TradeSignal, Position, OrderBook } from './types.js';
  * - 滑點保護: 檢查訂單簿深度
  * - 手續費計算: 確保淨利潤 > 0
  * - 時間窗口: 開盤前 60秒強制清倉
+ *
+ * 出場與風控由本類統一處理；進場決策委派給 strategies/ 下的 TradingStrategy
  */
 export class Strategy {
-  private lastPrices: Map<string, number[]> = new Map();
-  private readonly PRICE_HISTORY_LENGTH = 60;
+  private readonly clock: Clock;
+  private readonly analyzer: AIAnalyzer;
   private minProfitableMove: number = 0; // 考慮手續費後的最小獲利價格變動
   private lastAIAnalysis: { next: AIAnalysis | null; current: AIAnalysis | null } = { next: null, current: null }; // 最近一次 AI 分析結果
   private lastLLMAnalysis: { next: LLMAnalysis | null; current: LLMAnalysis | null } = { next: null, current: null }; // 最近一次 LLM 分析結果
@@ -28,57 +46,48 @@ export class Strategy {
     next: { up: OrderBook; down: OrderBook } | null;
     current: { up: OrderBook; down: OrderBook } | null;
   } = { next: null, current: null };
-  private pendingLLMAnalysis: { next: Promise<LLMAnalysis> | null; current: Promise<LLMAnalysis> | null } = { next: null, current: null };
+  private llmOpinions: Record<AnalysisScope, Map<string, LLMOpinion>> = { next: new Map(), current: new Map() }; // provider id -> 最近一次分析
+  private pendingLLMAnalysis: Map<string, Promise<LLMAnalysis>> = new Map(); // `${scope}:${provider}` -> 進行中的分析
   private livePrices: Record<string, number> = {};
   private btcSpot: number | null = null;
-  private lossStreaks: Record<'Up' | 'Down', { streak: number; cooldownUntil: number }> = {
+  private readonly priceSeries = new PriceSeriesRecorder(); // 帶時間戳的價格 / 現貨取樣，供 LLM 歷史上下文
+  private tradeFlows: Record<string, TradeFlow> = {};
+  private lossStreaks: LossStreaks = {
     Up: { streak: 0, cooldownUntil: 0 },
     Down: { streak: 0, cooldownUntil: 0 },
   };
 
-  /**
-   * 分析當前盤口走勢
-   * 返回預測的下一局有利方向
-   */
-  analyzeCurrentMarketTrend(state: MarketState): 'Up' | 'Down' | null {
-    if (!state.currentMarket) return null;
-
-    // 簡單策略：如果當前盤口 Up 價格高，下一局盤前可能 Up 會先漲
-    // 這是基於市場慣性的假設
-    const upPrice = state.upPrice;
-    const downPrice = state.downPrice;
-
-    if (upPrice > 55) return 'Up'; // 當前看漲，盤前可能延續
-    if (downPrice > 55) return 'Down';
+  private readonly maxPositionOverride?: number;
+  private readonly strategyOverride?: string;
+  private entryStrategy: TradingStrategy | null = null;
+  private entryStrategyRequest: string | null = null; // 最近一次請求的 id（未知 id 會回退，避免每 tick 重建）
+  private readonly gates = new TradeGateRecorder(); // 候選交易被哪個門檻擋下
+
+  constructor(options: StrategyOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.analyzer = options.aiAnalyzer ?? aiAnalyzer;
+    this.maxPositionOverride = options.maxPositionSize;
+    this.strategyOverride = options.strategy;
+  }
 
-    return null; // 無明顯趨勢
+  private get maxPositionSize(): number {
+    return this.maxPositionOverride ?? config.MAX_POSITION_SIZE;
   }
 
   /**
-   * 計算價格動量
+   * 當前進場策略；config.STRATEGY 變更時下一個 tick 即切換
    */
-  calculateMomentum(tokenId: string, currentPrice: number): number {
-    const history = this.lastPrices.get(tokenId) || [];
-
-    const effectiveHistory = [...history, currentPrice];
-    const lookback = 3;
-    const recentPrices = effectiveHistory.slice(-lookback);
-    if (recentPrices.length === 0) return 0;
-
-    const avgRecent = recentPrices.reduce((a, b) => a + b, 0) / recentPrices.length;
-    const momentum = currentPrice - avgRecent;
-
-    this.updatePriceHistory(tokenId, currentPrice);
-    return momentum;
-  }
-
-  private updatePriceHistory(tokenId: string, price: number): void {
-    const history = this.lastPrices.get(tokenId) || [];
-    history.push(price);
-    if (history.length > this.PRICE_HISTORY_LENGTH) {
-      history.shift();
+  getEntryStrategy(): TradingStrategy {
+    const requested = this.strategyOverride ?? config.STRATEGY;
+    if (!this.entryStrategy || this.entryStrategyRequest !== requested) {
+      const previous = this.entryStrategy?.id;
+      this.entryStrategy = createTradingStrategy(requested);
+      this.entryStrategyRequest = requested;
+      if (previous && previous !== this.entryStrategy.id) {
+        console.log(`[策略] 進場策略切換: ${previous} -> ${this.entryStrategy.id}`);
+      }
     }
-    this.lastPrices.set(tokenId, history);
+    return this.entryStrategy;
   }
 
   /**
@@ -89,7 +98,6 @@ export class Strategy {
     positions: Map<string, Position>
   ): TradeSignal[] {
     const signals: TradeSignal[] = [];
-    const now = Date.now();
 
     // 情況 0: 檢測並清倉已結束市場的持倉（orphaned positions）
     const validTokenIds = new Set([
@@ -101,7 +109,13 @@ export class Strategy {
     
     for (const [tokenId, position] of positions) {
       if (position.size > 0 && !validTokenIds.has(tokenId)) {
-        console.log(`[策略] 發現已結束市場的持倉: ${position.outcome} ${position.size} 股，強制清倉`);
+        // 市場已結束則無法再賣出，交給 SettlementManager 按結算結果處理
+        const market = (state.allMarkets || []).find((m) => m.tokens.some((t) => t.tokenId === tokenId));
+        if (!market || new Date(market.endDate).getTime() <= this.clock.now()) {
+          console.log(`[策略] 已結束市場的持倉: ${position.outcome} ${position.size} 股，等待結算`);
+          continue;
+        }
+        console.log(`[策略] 發現非當前市場的持倉: ${position.outcome} ${position.size} 股，強制清倉`);
         signals.push({
           action: 'SELL',
           tokenId,
@@ -219,7 +233,7 @@ export class Strategy {
 
     // 情況 4a: 盤前買入（下一個市場）
     if (state.nextMarket && state.timeToStart > config.MIN_TIME_TO_TRADE_MS) {
-      const signal = this.tryBuyWithAI(
+      const signal = this.evaluateEntry(
         state,
         positions,
         state.upTokenId,
@@ -227,7 +241,7 @@ export class Strategy {
         state.upPrice,
         state.downPrice,
         '盤前',
-        this.cachedOrderBooks.next as any,
+        this.cachedOrderBooks.next,
         'next'
       );
       if (signal) {
@@ -237,7 +251,7 @@ export class Strategy {
     
     // 情況 4b: 盤中低吸（當前市場）- 市場進行中且距離結束還有足夠時間
     if (config.ALLOW_CURRENT_MARKET_TRADING && state.currentMarket && state.timeToEnd > config.SELL_BEFORE_START_MS + 60000) { // 至少比清倉時間多 1 分鐘
-      const signal = this.tryBuyWithAI(
+      const signal = this.evaluateEntry(
         state,
         positions,
         state.currentUpTokenId,
@@ -245,7 +259,7 @@ export class Strategy {
         state.currentUpPrice,
         state.currentDownPrice,
         '盤中低吸',
-        (this.cachedOrderBooks.current || this.cachedOrderBooks.next) as any,
+        this.cachedOrderBooks.current || this.cachedOrderBooks.next,
         'current'
       );
       if (signal) {
@@ -273,10 +287,20 @@ export class Strategy {
 
   setLivePrices(prices: Record<string, number>): void {
     this.livePrices = prices;
+    const now = this.clock.now();
+    for (const [tokenId, price] of Object.entries(prices)) this.priceSeries.record(tokenId, price, now);
   }
 
   setBtcSpot(price: number | null): void {
     this.btcSpot = price;
+    if (price != null) this.priceSeries.record(SPOT_SERIES_KEY, price, this.clock.now());
+  }
+
+  /**
+   * 設置成交流（tokenId -> 滾動成交統計），供 AI 分析的成交流信號使用
+   */
+  setTradeFlow(flows: Record<string, TradeFlow>): void {
+    this.tradeFlows = flows;
   }
 
   /**
@@ -293,37 +317,79 @@ export class Strategy {
     return this.lastLLMAnalysis[scope];
   }
 
+  /**
+   * 「為何沒交易」統計（自上次 resetGateStats 起）
+   */
+  getGateStats(): TradeGateStats {
+    return this.gates.getStats();
+  }
+
+  resetGateStats(): void {
+    this.gates.reset();
+  }
+
   clearLLMAnalysis(): void {
     this.lastLLMAnalysis.next = null;
     this.lastLLMAnalysis.current = null;
+    this.llmOpinions.next.clear();
+    this.llmOpinions.current.clear();
   }
 
   /**
    * 預先觸發 LLM 分析（非阻塞）
+   * ensemble 策略時對每個投票 provider 各分析一次，其餘策略只用 LLM_PROVIDER
    */
   triggerLLMAnalysis(state: MarketState, positions: Map<string, Position>): void {
-    if (!config.LLM_ENABLED || !llmAnalyzer.isAvailable()) return;
+    if (!config.LLM_ENABLED) return;
+
+    const providerIds = this.getEntryStrategy().id === 'ensemble' ? ensembleProviders() : [config.LLM_PROVIDER?.toLowerCase() || 'openai'];
+    const primary = providerIds.includes(config.LLM_PROVIDER?.toLowerCase()) ? config.LLM_PROVIDER.toLowerCase() : providerIds[0];
 
-    const launch = (scope: 'next' | 'current', orderBooks?: { up: OrderBook; down: OrderBook }) => {
+    const launch = (scope: 'next' | 'current', providerId: string, orderBooks?: { up: OrderBook; down: OrderBook }) => {
       if (!orderBooks) return;
       if (scope === 'current' && state.timeToEnd < 180_000) return; // skip current market if <3 minutes left
-      if (this.pendingLLMAnalysis[scope]) return; // already running
-      this.pendingLLMAnalysis[scope] = llmAnalyzer.analyze(state, orderBooks.up, orderBooks.down, positions)
+      if (!llmAnalyzer.isAvailable(providerId)) return;
+      const key = `${scope}:${providerId}`;
+      if (this.pendingLLMAnalysis.has(key)) return; // already running
+
+      const { id, model } = llmAnalyzer.getProviderInfo(providerId);
+      const slug = (scope === 'next' ? state.nextMarket : state.currentMarket)?.slug ?? null;
+      const context = this.buildLLMContext(state, scope);
+      this.pendingLLMAnalysis.set(key, llmAnalyzer.analyze(state, orderBooks.up, orderBooks.down, positions, scope, providerId, context)
         .then(analysis => {
-          this.lastLLMAnalysis[scope] = analysis;
-          this.pendingLLMAnalysis[scope] = null;
+          if (providerId === primary) this.lastLLMAnalysis[scope] = analysis;
+          this.llmOpinions[scope].set(id, { provider: id, model, slug, analysis, at: this.clock.now() });
+          this.pendingLLMAnalysis.delete(key);
           console.log(llmAnalyzer.getAnalysisSummary(analysis));
           return analysis;
         })
         .catch(err => {
           console.error('[LLM] 分析失敗:', err);
-          this.pendingLLMAnalysis[scope] = null;
+          this.pendingLLMAnalysis.delete(key);
           return this.getDefaultLLMAnalysis();
-        });
+        }));
     };
 
-    launch('next', this.cachedOrderBooks.next || undefined);
-    launch('current', this.cachedOrderBooks.current || undefined);
+    for (const providerId of providerIds) {
+      launch('next', providerId, this.cachedOrderBooks.next || undefined);
+      launch('current', providerId, this.cachedOrderBooks.current || undefined);
+    }
+  }
+
+  /**
+   * LLM 歷史上下文：分析對象市場的 Up/Down 價格、現貨路徑與最近交易
+   */
+  private buildLLMContext(state: MarketState, scope: 'next' | 'current'): LLMPromptContext {
+    const now = this.clock.now();
+    const upTokenId = scope === 'next' ? state.upTokenId : state.currentUpTokenId;
+    const downTokenId = scope === 'next' ? state.downTokenId : state.currentDownTokenId;
+    return {
+      now,
+      up: upTokenId ? this.priceSeries.window(upTokenId, now) : [],
+      down: downTokenId ? this.priceSeries.window(downTokenId, now) : [],
+      spot: this.priceSeries.window(SPOT_SERIES_KEY, now),
+      recentTrades: this.analyzer.getTradeHistory(),
+    };
   }
 
   /**
@@ -351,51 +417,9 @@ export class Strategy {
   }
 
   /**
-    if (!analysis || !analysis.shouldTrade || !analysis.recommendedOutcome) {
-      console.log(`[LLM] 不建議交易: ${analysis?.reasoning || 'unknown'}`);
-      return null;
-    }
-
-    const isUp = analysis.recommendedOutcome === 'Up';
-    const tokenId = isUp ? upTokenId : downTokenId;
-    const price = isUp ? upPrice : downPrice;
-    const oppositeTokenId = isUp ? downTokenId : upTokenId;
-    const oppositeSize = positions.get(oppositeTokenId)?.size ?? 0;
-    if (oppositeSize > 0) {
-      console.log(`[AI] 已持有相反倉位 ${oppositeSize.toFixed(3)} 股，先賣出再買 ${analysis.recommendedOutcome}`);
-      return null;
-    }
-
-    const combinedPriceCents = (positions.get(upTokenId)?.currentPrice ?? upPrice) + (positions.get(downTokenId)?.currentPrice ?? downPrice);
-    if (combinedPriceCents >= config.COMBINED_PRICE_CAP * 100) {
-      console.log(`[LLM] 雙邊價格過高 up+down=${combinedPriceCents.toFixed(1)}¢ >= cap ${config.COMBINED_PRICE_CAP * 100}¢，不買`);
-      return null;
-    }
-    const cooldown = this.lossStreaks[analysis.recommendedOutcome]?.cooldownUntil || 0;
-    if (cooldown > Date.now()) {
-      console.log(`[AI] 冷卻中 (${analysis.recommendedOutcome}) until ${new Date(cooldown).toISOString()}, skip buy`);
-      return null;
-    }
-
-    if (price >= 98) {
-      console.log(`[AI] 價格過高 (${price.toFixed(1)}¢) 不買`);
-      return null;
-    }
-
-    return {
-      action: 'BUY',
-      tokenId,
-      outcome: analysis.recommendedOutcome,
-      price,
-      size: analysis.recommendedSize,
-      reason: `[LLM] ${label}買入 ${analysis.recommendedOutcome} @ ${price.toFixed(1)}¢ (信心: ${analysis.confidence}%) | ${analysis.reasoning}`,
-    };
-  }
-
-  /**
-   * 規則式 AI 分析買入決策
+   * 組裝進場上下文並交給當前 TradingStrategy 決策
    */
-  private tryBuyWithAI(
+  private evaluateEntry(
     state: MarketState,
     positions: Map<string, Position>,
     upTokenId: string,
@@ -403,87 +427,36 @@ export class Strategy {
     upPrice: number,
     downPrice: number,
     label: string,
-    orderBooks: { up: OrderBook; down: OrderBook },
-    scope: 'next' | 'current'
+    orderBooks: { up: OrderBook; down: OrderBook } | null,
+    scope: AnalysisScope
   ): TradeSignal | null {
-    // 同步執行 AI 分析（使用指定的訂單簿）
+    // 同步執行 AI 分析（使用指定的訂單簿），供 AI 策略與儀表板使用
     const analysis = this.runAIAnalysisSync(state, positions, orderBooks, this.livePrices, this.btcSpot ?? undefined);
     this.lastAIAnalysis[scope] = analysis;
-
-    // 輸出 AI 分析摘要
-    console.log(aiAnalyzer.getAnalysisSummary(analysis));
-
-    if (!analysis.recommendedOutcome) {
-      console.log(`[AI] 無推薦方向: ${analysis.reasons[0] || 'unknown'}`);
-      return null;
-    }
-
-    const isUp = analysis.recommendedOutcome === 'Up';
-    const tokenId = isUp ? upTokenId : downTokenId;
-    const price = isUp ? upPrice : downPrice;
-    const oppositeTokenId = isUp ? downTokenId : upTokenId;
-    const oppositeSize = positions.get(oppositeTokenId)?.size ?? 0;
-    if (oppositeSize > 0) {
-      console.log(`[AI] 已持有相反倉位 ${oppositeSize.toFixed(3)} 股，先賣出再買 ${analysis.recommendedOutcome}`);
-      return null;
-    }
-
-    if (price < config.PRICE_FLOOR) {
-      console.log(`[AI] 價格低於下限 ${config.PRICE_FLOOR}¢ (got ${price.toFixed(2)}¢), 不買`);
-      return null;
-    }
-
-    if (price > config.PRICE_CEILING) {
-      console.log(`[AI] 價格高於上限 ${config.PRICE_CEILING}¢ (got ${price.toFixed(2)}¢), 不買`);
-      return null;
-    }
-
-    // Combined cap guard (skip only if leader pre-start override below)
-    const combinedPriceCents = (positions.get(upTokenId)?.currentPrice ?? upPrice) + (positions.get(downTokenId)?.currentPrice ?? downPrice);
-
-    // Leader pre-start override: only for next market, gap 5-8¢, toggle on
-    const isPreStart = scope === 'next' && state.timeToStart > 0;
-    const priceGap = Math.abs(upPrice - downPrice);
-    const leaderOutcome: 'Up' | 'Down' | null = upPrice > downPrice ? 'Up' : downPrice > upPrice ? 'Down' : null;
-    const leaderOverride = config.BUY_LEADER_PRESTART && isPreStart && leaderOutcome && priceGap >= 5 && priceGap <= 8;
-
-    if (!leaderOverride && combinedPriceCents >= config.COMBINED_PRICE_CAP * 100) {
-      console.log(`[AI] 雙邊價格過高 up+down=${combinedPriceCents.toFixed(1)}¢ >= cap ${config.COMBINED_PRICE_CAP * 100}¢，不買`);
-      return null;
-    }
-
-    const existingSize = positions.get(tokenId)?.size ?? 0;
-    const remainingCap = Math.max(0, config.MAX_POSITION_SIZE - existingSize);
-    if (remainingCap <= 0) {
-      console.log(`[AI] 已達最大倉位 ${config.MAX_POSITION_SIZE}, 不再加倉 ${analysis.recommendedOutcome}`);
-      return null;
-    }
-
-    const finalSize = Math.min(analysis.recommendedSize, remainingCap);
-
-    // If leader override, force buy leader outcome regardless of AI pick, bypass combined cap
-    if (leaderOverride) {
-      const tokenIdLeader = leaderOutcome === 'Up' ? upTokenId : downTokenId;
-      const priceLeader = leaderOutcome === 'Up' ? upPrice : downPrice;
-      console.log(`[AI][LeaderOverride] Gap=${priceGap.toFixed(1)}¢ (${leaderOutcome}) pre-start -> 買入領先方 (忽略 combined cap)`);
-      return {
-        action: 'BUY',
-        tokenId: tokenIdLeader,
-        outcome: leaderOutcome,
-        price: priceLeader,
-        size: finalSize,
-        reason: `[LeaderOverride] Pre-start leader ${leaderOutcome} gap=${priceGap.toFixed(1)}¢ (cap bypass)`,
-      };
-    }
-
-    return {
-      action: 'BUY',
-      tokenId,
-      outcome: analysis.recommendedOutcome,
-      price,
-      size: finalSize,
-      reason: `[AI] ${label}買入 ${analysis.recommendedOutcome} @ ${price.toFixed(1)}¢ (信心: ${analysis.confidence.toFixed(0)}%, 倉位: ${finalSize}/${config.MAX_POSITION_SIZE})`,
-    };
+    console.log(this.analyzer.getAnalysisSummary(analysis));
+
+    const now = this.clock.now();
+    const strategy = this.getEntryStrategy();
+    return this.gates.track(now, () => strategy.evaluateEntry({
+      state,
+      positions,
+      scope,
+      label,
+      upTokenId,
+      downTokenId,
+      upPrice,
+      downPrice,
+      orderBooks,
+      aiAnalysis: analysis,
+      llmAnalysis: this.lastLLMAnalysis[scope],
+      llmOpinions: Array.from(this.llmOpinions[scope].values()),
+      strike: state.strike ?? null,
+      fairValue: fairValueCents(scope, state.strike),
+      lossStreaks: this.lossStreaks,
+      maxPositionSize: this.maxPositionSize,
+      gates: this.gates,
+      now,
+    }));
   }
 
   /**
@@ -508,99 +481,20 @@ export class Strategy {
           orderBook: { bidAskSpread: 0, depthImbalance: 0, liquidityScore: 0, score: 0 },
           sentiment: { priceDeviation: 0, recentWinRate: 50, marketBias: 'neutral', score: 0 },
           timing: { timeToStart: 0, optimalWindow: false, urgency: 0, score: 0 },
+          flow: { trades: 0, volume: 0, vwap: null, imbalance: 0, vwapDeviation: 0, score: 0 },
         },
       };
     }
 
     // 直接調用同步版本的 analyze
     const spot = btcSpot ?? this.btcSpot ?? undefined;
-    return aiAnalyzer.analyzeSync(state, orderBooks.up, orderBooks.down, positions, livePrices, spot);
+    return this.analyzer.analyzeSync(state, orderBooks.up, orderBooks.down, positions, livePrices, spot, this.tradeFlows);
   }
 
-  setLossStreaks(lossState: Record<'Up' | 'Down', { streak: number; cooldownUntil: number }>): void {
+  setLossStreaks(lossState: LossStreaks): void {
     this.lossStreaks = lossState;
   }
 
-  /**
-   * 傳統買入邏輯（AI 關閉時使用）
-   */
-  private tryBuyLegacy(
-    state: MarketState,
-    positions: Map<string, Position>,
-    upTokenId: string,
-    downTokenId: string,
-    upPrice: number,
-    downPrice: number,
-    label: string,
-    trend: 'Up' | 'Down' | null
-  ): TradeSignal | null {
-    // 檢查 Up
-    if (upPrice >= config.PRICE_FLOOR && upPrice <= config.PRICE_CEILING && upPrice < config.MAX_BUY_PRICE) {
-      const downHeld = positions.get(downTokenId)?.size ?? 0;
-      if (downHeld > 0) {
-        console.log(`[Legacy] 已持有 Down ${downHeld.toFixed(3)} 股，先賣出再買 Up`);
-        return null;
-      }
-      const combinedPriceCents = (positions.get(upTokenId)?.currentPrice ?? upPrice) + (positions.get(downTokenId)?.currentPrice ?? downPrice);
-      if (combinedPriceCents >= config.COMBINED_PRICE_CAP * 100) {
-        console.log(`[Legacy] 雙邊價格過高 up+down=${combinedPriceCents.toFixed(1)}¢ >= cap ${config.COMBINED_PRICE_CAP * 100}¢，不買 Up`);
-        return null;
-      }
-      const cooldown = this.lossStreaks['Up']?.cooldownUntil || 0;
-      if (cooldown > Date.now()) {
-        console.log(`[Legacy] Up 冷卻中 until ${new Date(cooldown).toISOString()}, skip buy`);
-        return null;
-      }
-      const upMomentum = this.calculateMomentum(upTokenId, upPrice);
-      const existing = positions.get(upTokenId)?.size ?? 0;
-      const remaining = Math.max(0, config.MAX_POSITION_SIZE - existing);
-      if (remaining <= 0) return null;
-      if (upPrice >= 98) return null;
-      return {
-        action: 'BUY',
-        tokenId: upTokenId,
-        outcome: 'Up',
-        price: upPrice,
-        size: remaining,
-        reason: `${label}買入 Up @ ${upPrice.toFixed(1)}¢ (trend: ${trend || 'none'}, momentum: ${upMomentum.toFixed(2)})`,
-      };
-    }
-
-    // 如果 Up 價格太高，檢查 Down
-    if (downPrice >= config.PRICE_FLOOR && downPrice <= config.PRICE_CEILING && downPrice < config.MAX_BUY_PRICE) {
-      const upHeld = positions.get(upTokenId)?.size ?? 0;
-      if (upHeld > 0) {
-        console.log(`[Legacy] 已持有 Up ${upHeld.toFixed(3)} 股，先賣出再買 Down`);
-        return null;
-      }
-      const combinedPriceCents = upPrice + downPrice;
-      if (combinedPriceCents >= config.COMBINED_PRICE_CAP * 100) {
-        console.log(`[Legacy] 雙邊價格過高 up+down=${combinedPriceCents.toFixed(1)}¢ >= cap ${config.COMBINED_PRICE_CAP * 100}¢，不買 Down`);
-        return null;
-      }
-      const cooldown = this.lossStreaks['Down']?.cooldownUntil || 0;
-      if (cooldown > Date.now()) {
-        console.log(`[Legacy] Down 冷卻中 until ${new Date(cooldown).toISOString()}, skip buy`);
-        return null;
-      }
-      const downMomentum = this.calculateMomentum(downTokenId, downPrice);
-      const existing = positions.get(downTokenId)?.size ?? 0;
-      const remaining = Math.max(0, config.MAX_POSITION_SIZE - existing);
-      if (remaining <= 0) return null;
-      if (downPrice >= 98) return null;
-      return {
-        action: 'BUY',
-        tokenId: downTokenId,
-        outcome: 'Down',
-        price: downPrice,
-        size: remaining,
-        reason: `${label}買入 Down @ ${downPrice.toFixed(1)}¢ (trend: ${trend || 'none'}, momentum: ${downMomentum.toFixed(2)})`,
-      };
-    }
-
-    return null;
-  }
-
   /**
    * 更新持倉的當前價格
    */
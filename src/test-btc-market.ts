@@ -13,7 +13,7 @@ async function test() {
   
   // 獲取市場
   console.log('\n📊 獲取即將來臨的 BTC 15min 市場...');
-  const markets = await fetcher.fetchUpcomingBTC15MinMarkets();
+  const markets = await fetcher.fetchUpcomingMarkets();
   
   if (markets.length === 0) {
     console.log('❌ 找不到 BTC 15min 市場');
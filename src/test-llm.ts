@@ -0,0 +1,152 @@
+/**
+ * 測試腳本 - 以 mock provider（不連網）驗證 LLM 呼叫鏈與集成投票
+ *
+ * 1. 格式錯誤的回應 → 帶著錯誤重問一次 → 第二次回應通過驗證（repaired 計數、attempts、costUsd）
+ * 2. 逾時 → 依 LLM_PROVIDER_LIMITS 重試 → 仍逾時則失敗（retries / failures 計數）
+ * 3. combineVotes 在 unanimous / majority / weighted 三種模式下的決定
+ */
+import { config } from './config.js';
+import { combineVotes, type VoterOpinion, type VoterRecord } from './ensemble.js';
+import { llmAnalyzer } from './llm-analyzer.js';
+import { llmAuditLog, type LLMDecisionRecord } from './llm-audit-log.js';
+import { llmProviders } from './llm-providers/registry.js';
+import type { MarketState, OrderBook } from './types.js';
+
+const INPUT_COST_PER_1M = 1;
+const OUTPUT_COST_PER_1M = 2;
+
+const GOOD_RESPONSE = {
+  shouldTrade: true,
+  recommendedOutcome: 'Up',
+  confidence: 80,
+  recommendedSize: 20,
+  reasoning: 'mock: Up leads and spot is above the reference',
+  marketSummary: 'mock',
+};
+
+const book: OrderBook = {
+  bids: [{ price: 0.47, size: 100 }],
+  asks: [{ price: 0.49, size: 100 }],
+} as OrderBook;
+
+const state = {
+  upPrice: 48,
+  downPrice: 52,
+  currentUpPrice: 50,
+  currentDownPrice: 50,
+  upTokenId: 'test-up-token',
+  downTokenId: 'test-down-token',
+  currentUpTokenId: '',
+  currentDownTokenId: '',
+  timeToStart: 60_000,
+  timeToEnd: 600_000,
+  currentMarket: null,
+  nextMarket: null,
+  series: { id: 'test', asset: 'btc', intervalMinutes: 15 },
+} as unknown as MarketState;
+
+function check(label: string, ok: boolean, detail: string): boolean {
+  console.log(`   ${ok ? '✅' : '❌'} ${label}: ${detail}`);
+  return ok;
+}
+
+function mockStats() {
+  return llmProviders.getUsage().find((s) => s.provider === 'mock');
+}
+
+async function testRepair(records: LLMDecisionRecord[]): Promise<boolean> {
+  console.log('1. Bad response, then a valid one after the repair prompt...');
+  config.LLM_MOCK_RESPONSE = JSON.stringify(['{"shouldTrade": "yes", "recommendedOutcome": "Sideways"}', JSON.stringify(GOOD_RESPONSE)]);
+  config.LLM_MOCK_LATENCY_MS = 0;
+  config.LLM_PROVIDER_LIMITS = JSON.stringify({ mock: { inputCostPer1M: INPUT_COST_PER_1M, outputCostPer1M: OUTPUT_COST_PER_1M } });
+
+  const before = mockStats();
+  const analysis = await llmAnalyzer.analyze(state, book, book, new Map(), 'next', 'mock');
+  const after = mockStats()!;
+  const record = records[records.length - 1];
+  const validation = llmAnalyzer.getValidationStats().find((s) => s.provider === 'mock');
+
+  const promptTokens = after.promptTokens - (before?.promptTokens ?? 0);
+  const completionTokens = after.completionTokens - (before?.completionTokens ?? 0);
+  const expectedCost = (promptTokens * INPUT_COST_PER_1M + completionTokens * OUTPUT_COST_PER_1M) / 1_000_000;
+
+  return [
+    check('decision', analysis.shouldTrade && analysis.recommendedOutcome === 'Up', `${analysis.recommendedOutcome} ${analysis.confidence}%`),
+    check('repaired counter', validation?.repaired === 1 && validation.firstPassValid === 0 && validation.failed === 0,
+      `repaired=${validation?.repaired} firstPassValid=${validation?.firstPassValid} failed=${validation?.failed}`),
+    check('audit record', !!record?.repaired && (record.schemaErrors?.length ?? 0) > 0, `repaired=${record?.repaired} errors=${record?.schemaErrors?.length}`),
+    check('attempts', record?.attempts === 2 && after.calls - (before?.calls ?? 0) === 2, `record=${record?.attempts} calls=${after.calls - (before?.calls ?? 0)}`),
+    check('costUsd', expectedCost > 0 && Math.abs((record?.costUsd ?? 0) - expectedCost) < 1e-12,
+      `record=${record?.costUsd} expected=${expectedCost} (${promptTokens} in / ${completionTokens} out)`),
+  ].every(Boolean);
+}
+
+async function testTimeoutRetry(): Promise<boolean> {
+  console.log('\n2. Timeout on every attempt with one retry allowed...');
+  config.LLM_MOCK_RESPONSE = JSON.stringify(GOOD_RESPONSE);
+  config.LLM_MOCK_LATENCY_MS = 200;
+  config.LLM_PROVIDER_LIMITS = JSON.stringify({ mock: { timeoutMs: 50, maxRetries: 1 } });
+
+  const before = mockStats()!;
+  let error = '';
+  try {
+    await llmProviders.complete({ system: 'test', user: 'test', temperature: 0, maxTokens: 50, json: true }, 'mock');
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  const after = mockStats()!;
+
+  return [
+    check('error', error.includes('第 2 次') && error.includes('逾時'), error || '(no error)'),
+    check('retries / failures', after.retries - before.retries === 1 && after.failures - before.failures === 1,
+      `retries +${after.retries - before.retries} failures +${after.failures - before.failures}`),
+  ].every(Boolean);
+}
+
+function testEnsemble(): boolean {
+  console.log('\n3. Ensemble decisions (ai Up, llm:a Up, llm:b Down)...');
+  const opinions: VoterOpinion[] = [
+    { voter: 'ai', outcome: 'Up', confidence: 70 },
+    { voter: 'llm:a', outcome: 'Up', confidence: 65 },
+    { voter: 'llm:b', outcome: 'Down', confidence: 80 },
+  ];
+  // b 在已結算市場 9/10 命中，ai 與 a 不優於隨機 → 權重取下限
+  const accuracy: Record<string, VoterRecord> = { ai: { hits: 4, total: 10 }, 'llm:a': { hits: 5, total: 10 }, 'llm:b': { hits: 9, total: 10 } };
+  const accuracyOf = (voter: string) => accuracy[voter] ?? null;
+
+  const unanimous = combineVotes(opinions, 'unanimous', accuracyOf, 0.6);
+  const majority = combineVotes(opinions, 'majority', accuracyOf, 0.6);
+  const weighted = combineVotes(opinions, 'weighted', accuracyOf, 0.6);
+  const abstain = combineVotes([...opinions.slice(0, 2), { voter: 'llm:b', outcome: null, confidence: 0 }, { voter: 'llm:c', outcome: null, confidence: 0 }], 'majority', accuracyOf, 0.6);
+
+  return [
+    check('unanimous', !unanimous.shouldTrade && unanimous.outcome === 'Up', unanimous.detail),
+    check('majority', majority.shouldTrade && majority.outcome === 'Up' && Math.abs(majority.support - 2 / 3) < 1e-9, majority.detail),
+    check('weighted', weighted.shouldTrade && weighted.outcome === 'Down' && weighted.support >= 0.6, weighted.detail),
+    check('abstentions count against', !abstain.shouldTrade && abstain.support === 0.5, abstain.detail),
+  ].every(Boolean);
+}
+
+async function testLLM() {
+  console.log('🔍 Testing LLM provider, repair retry and ensemble voting with the mock provider...\n');
+  config.LLM_ENABLED = true;
+  config.LLM_PROVIDER = 'mock';
+  config.LLM_SCHEMA_CONSTRAINED = true;
+  config.LLM_REPAIR_RETRIES = 1;
+
+  // 只收集稽核紀錄，不寫入 LLM_AUDIT_LOG_PATH
+  const records: LLMDecisionRecord[] = [];
+  llmAuditLog.recordDecision = async (record) => {
+    records.push(record);
+  };
+
+  const repairOk = await testRepair(records);
+  const timeoutOk = await testTimeoutRetry();
+  const ensembleOk = testEnsemble();
+
+  const ok = repairOk && timeoutOk && ensembleOk;
+  console.log(ok ? '\n✅ LLM test passed' : '\n❌ LLM test failed');
+  process.exit(ok ? 0 : 1);
+}
+
+testLLM();
@@ -0,0 +1,77 @@
+/**
+ * 測試腳本 - 對帳先於下單回應收養訂單（external）時，acknowledge 需補記收養期間的成交並套用結束狀態
+ *
+ * 用假的 ClobClient 回傳掛單列表：
+ * 1. 部分成交中的掛單（6/10）被收養 → acknowledge 後持倉 6、交易記錄 1 筆、之後的推送不重複記帳
+ * 2. 部分成交後已撤的掛單（3/10, CANCELED）被收養 → acknowledge 後持倉 +3、訂單轉 CANCELLED
+ */
+import type { ClobClient, OpenOrder } from '@polymarket/clob-client';
+import { config } from './config.js';
+import { Trader } from './trader.js';
+
+const TOKEN_ID = 'test-up-token';
+
+function exchangeOrder(id: string, sizeMatched: string, status: string): OpenOrder {
+  return {
+    id,
+    status,
+    owner: 'test',
+    maker_address: '0x0',
+    market: 'test-market',
+    asset_id: TOKEN_ID,
+    side: 'BUY',
+    original_size: '10',
+    size_matched: sizeMatched,
+    price: '0.52',
+    associate_trades: [],
+    outcome: 'Up',
+    created_at: Math.floor(Date.now() / 1000),
+    expiration: '0',
+    order_type: 'GTC',
+  } as OpenOrder;
+}
+
+function standInClient(open: OpenOrder[]): ClobClient {
+  return {
+    getOpenOrders: async () => open,
+    getOrder: async (id: string) => open.find((o) => o.id === id) ?? null,
+  } as unknown as ClobClient;
+}
+
+async function testAcknowledgeRace() {
+  console.log('🔍 Testing acknowledge after reconcile adopted the order...\n');
+  config.PAPER_TRADING = false;
+
+  const trader = new Trader({ series: 'test' });
+  let fills = 0;
+  trader.orders.on('fill', () => fills++);
+
+  console.log('1. Partially filled order adopted before the post-order response...');
+  const first = trader.orders.create({ tokenId: TOKEN_ID, outcome: 'Up', side: 'BUY', price: 52, size: 10, orderType: 'GTC', purpose: 'entry' });
+  await trader.orders.reconcile(standInClient([exchangeOrder('order-1', '6', 'LIVE')]), [TOKEN_ID]);
+  console.log(`   收養: ${trader.orders.get('order-1')?.purpose} ${trader.orders.get('order-1')?.filledSize}/10`);
+  trader.orders.acknowledge(first, 'order-1');
+  // 之後的推送帶相同累計量，不應重複記帳
+  trader.orders.applyUpdate(first, { filledSize: 6, status: 'PARTIALLY_FILLED', fillPrice: 52 });
+
+  const afterFirst = trader.getPositions().get(TOKEN_ID)?.size ?? 0;
+  console.log(`   訂單: ${first.status} ${first.filledSize}/${first.size} @ ${first.avgFillPrice.toFixed(2)}¢ fee=${first.feeCents.toFixed(4)}¢`);
+  console.log(`   持倉: ${afterFirst} | fill 事件: ${fills} | 交易記錄: ${trader.getTradeHistory().length} 筆`);
+  const firstOk = first.status === 'PARTIALLY_FILLED' && first.filledSize === 6 && afterFirst === 6 && fills === 1 && trader.getTradeHistory().length === 1;
+
+  console.log('\n2. Adopted copy already cancelled after a partial fill...');
+  const second = trader.orders.create({ tokenId: TOKEN_ID, outcome: 'Up', side: 'BUY', price: 52, size: 10, orderType: 'GTC', purpose: 'entry' });
+  await trader.orders.reconcile(standInClient([exchangeOrder('order-2', '3', 'CANCELED')]), [TOKEN_ID]);
+  trader.orders.acknowledge(second, 'order-2');
+
+  const afterSecond = trader.getPositions().get(TOKEN_ID)?.size ?? 0;
+  console.log(`   訂單: ${second.status} ${second.filledSize}/${second.size}`);
+  console.log(`   持倉: ${afterSecond} | fill 事件: ${fills} | 交易記錄: ${trader.getTradeHistory().length} 筆`);
+  const secondOk = second.status === 'CANCELLED' && second.filledSize === 3 && afterSecond === 9 && fills === 2;
+
+  const ok = firstOk && secondOk && !trader.orders.list().some((o) => o.purpose === 'external');
+  console.log(ok ? '\n✅ Acknowledge race test passed' : '\n❌ Acknowledge race test failed');
+  process.exit(ok ? 0 : 1);
+}
+
+testAcknowledgeRace();
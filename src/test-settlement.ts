@@ -0,0 +1,103 @@
+/**
+ * 測試腳本 - SettlementManager 以假的 MarketFetcher 與 MockRedeemer 結算已結束市場（不連網、不送出交易）
+ *
+ * 1. 已結算市場：贏方持倉按 100¢、輸方按 0¢ 記錄 SETTLEMENT 並移除持倉，完整組合每組兌付 100¢
+ * 2. 贏方 condition 只兌換一次；未結算市場與目前交易中的市場持倉保留
+ * 3. 再次檢查不重複結算
+ */
+import { config } from './config.js';
+import type { MarketFetcher } from './market-fetcher.js';
+import { MockRedeemer, SettlementManager } from './settlement.js';
+import { Trader } from './trader.js';
+import type { MarketResolution, MarketState } from './types.js';
+
+const RESOLVED: MarketResolution = {
+  conditionId: 'resolved-condition',
+  slug: 'btc-updown-15m-resolved',
+  resolved: true,
+  winningOutcome: 'Up',
+  payouts: { 'resolved-up': 100, 'resolved-down': 0 },
+};
+
+function standInFetcher(): MarketFetcher {
+  return {
+    fetchMarketResolution: async (tokenId: string) =>
+      tokenId.startsWith('resolved-')
+        ? RESOLVED
+        : { conditionId: 'pending-condition', slug: 'btc-updown-15m-pending', resolved: false, winningOutcome: null, payouts: {} },
+  } as unknown as MarketFetcher;
+}
+
+const state = {
+  upTokenId: 'active-up',
+  downTokenId: 'active-down',
+  currentUpTokenId: '',
+  currentDownTokenId: '',
+} as unknown as MarketState;
+
+function near(a: number | undefined, b: number): boolean {
+  return a !== undefined && Math.abs(a - b) < 1e-9;
+}
+
+async function testSettlement() {
+  console.log('🔍 Testing settlement and redeem against MockRedeemer...\n');
+  config.PAPER_TRADING = false;
+  config.AUTO_REDEEM = true;
+
+  const trader = new Trader({ series: 'test' });
+  trader.adoptPosition('resolved-up', 'Up', 10, 40);
+  trader.adoptPosition('resolved-down', 'Down', 5, 55);
+  trader.adoptPosition('pending-up', 'Up', 8, 50);
+  trader.adoptPosition('active-up', 'Up', 6, 45);
+  trader.addCompleteSet({
+    conditionId: RESOLVED.conditionId,
+    slug: RESOLVED.slug,
+    upTokenId: 'resolved-up',
+    downTokenId: 'resolved-down',
+    size: 4,
+    upAvgPrice: 45,
+    downAvgPrice: 50,
+    createdAt: Date.now(),
+  });
+
+  const redeemer = new MockRedeemer();
+  const settlement = new SettlementManager(standInFetcher(), trader, redeemer);
+
+  console.log('1. Settling positions of the resolved market...');
+  const records = await settlement.check(state);
+  for (const r of records) {
+    console.log(`   ${r.side} ${r.outcome} ${r.size} @ ${r.price}¢ | PnL: ${r.pnl?.toFixed(2)}¢`);
+  }
+  const up = records.find((r) => r.tokenId === 'resolved-up' && r.costCents === 400);
+  const down = records.find((r) => r.tokenId === 'resolved-down' && r.costCents === 275);
+  const sets = records.filter((r) => r.costCents === 180 || r.costCents === 200);
+  const payoutOk =
+    records.length === 4 &&
+    records.every((r) => r.side === 'SETTLEMENT') &&
+    up?.price === 100 && near(up.pnl, 600) &&
+    down?.price === 0 && near(down.pnl, -275) &&
+    sets.length === 2 && near(sets.reduce((sum, r) => sum + (r.pnl ?? 0), 0), 20);
+
+  const positions = trader.getPositions();
+  console.log(`   持倉: ${Array.from(positions.keys()).join(', ') || '無'} | 完整組合: ${trader.getCompleteSets().length}`);
+  const cleanupOk =
+    !positions.has('resolved-up') && !positions.has('resolved-down') &&
+    positions.get('pending-up')?.size === 8 && positions.get('active-up')?.size === 6 &&
+    trader.getCompleteSets().length === 0;
+
+  console.log('\n2. Redeem calls...');
+  console.log(`   redeem: ${redeemer.calls.join(', ') || '無'}`);
+  const redeemOk = redeemer.calls.length === 1 && redeemer.calls[0] === RESOLVED.conditionId;
+
+  console.log('\n3. Checking again...');
+  config.SETTLEMENT_CHECK_INTERVAL_MS = 0;
+  const again = await settlement.check(state);
+  console.log(`   新結算: ${again.length} 筆 | redeem: ${redeemer.calls.length} 次`);
+  const repeatOk = again.length === 0 && redeemer.calls.length === 1 && trader.getPositions().has('pending-up');
+
+  const ok = payoutOk && cleanupOk && redeemOk && repeatOk;
+  console.log(ok ? '\n✅ Settlement test passed' : '\n❌ Settlement test failed');
+  process.exit(ok ? 0 : 1);
+}
+
+testSettlement();
@@ -0,0 +1,107 @@
+/**
+ * 測試腳本 - 用本地 WS 伺服器模擬 Polymarket 用戶頻道，驗證推送成交會更新訂單、持倉與交易記錄
+ *
+ * 伺服器收到認證訊息後依序推送：PLACEMENT、兩筆不同價格的 taker 成交（其中一筆重複推送 CONFIRMED）、UPDATE
+ * 檢查每筆成交的記帳價格與持倉成本
+ */
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { config } from './config.js';
+import { Trader } from './trader.js';
+import { userChannel } from './user-channel.js';
+
+const TOKEN_ID = 'test-up-token';
+const ORDER_ID = 'test-order-1';
+
+function startStandInServer(): Promise<WebSocketServer> {
+  return new Promise((resolve) => {
+    const wss = new WebSocketServer({ port: 0 }, () => resolve(wss));
+    wss.on('connection', (socket) => {
+      socket.on('message', (data) => {
+        const text = data.toString();
+        if (text === 'PING') {
+          socket.send('PONG');
+          return;
+        }
+        const auth = JSON.parse(text);
+        console.log(`   伺服器收到認證: type=${auth.type} apiKey=${auth.auth?.apiKey}`);
+
+        const order = (type: string, sizeMatched: string) => ({
+          event_type: 'order',
+          type,
+          id: ORDER_ID,
+          asset_id: TOKEN_ID,
+          side: 'BUY',
+          price: '0.52',
+          original_size: '10',
+          size_matched: sizeMatched,
+        });
+        const trade = (id: string, size: string, price: string, status: string) => ({
+          event_type: 'trade',
+          id,
+          status,
+          asset_id: TOKEN_ID,
+          taker_order_id: ORDER_ID,
+          side: 'BUY',
+          size,
+          price,
+          maker_orders: [{ order_id: 'someone-else', asset_id: TOKEN_ID, matched_amount: size, price }],
+        });
+
+        socket.send(JSON.stringify([order('PLACEMENT', '0')]));
+        socket.send(JSON.stringify(trade('trade-1', '6', '0.51', 'MATCHED')));
+        socket.send(JSON.stringify(trade('trade-1', '6', '0.51', 'CONFIRMED')));
+        socket.send(JSON.stringify(order('UPDATE', '6')));
+        socket.send(JSON.stringify(trade('trade-2', '4', '0.52', 'MATCHED')));
+        socket.send(JSON.stringify(order('UPDATE', '10')));
+      });
+    });
+  });
+}
+
+async function testUserChannel() {
+  console.log('🔍 Testing user channel fill feed against a local stand-in server...\n');
+  config.PAPER_TRADING = false;
+
+  const wss = await startStandInServer();
+  config.USER_WS_URL = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+
+  const trader = new Trader({ series: 'test' });
+  const order = trader.orders.create({
+    tokenId: TOKEN_ID,
+    outcome: 'Up',
+    side: 'BUY',
+    price: 52,
+    size: 10,
+    orderType: 'GTC',
+    purpose: 'entry',
+  });
+  trader.orders.acknowledge(order, ORDER_ID);
+
+  console.log('1. Connecting user channel...');
+  userChannel.connect({ apiKey: 'test-key', secret: 'test-secret', passphrase: 'test-passphrase' });
+
+  console.log('2. Waiting for the order to fill...');
+  await trader.orders.waitFor(ORDER_ID, (o) => o.status === 'FILLED', 3000);
+
+  const position = trader.getPositions().get(TOKEN_ID);
+  const trades = trader.getTradeHistory();
+  console.log(`   訂單: ${order.status} ${order.filledSize}/${order.size} @ ${order.avgFillPrice.toFixed(2)}¢ fee=${order.feeCents.toFixed(2)}¢`);
+  console.log(`   持倉: ${position?.size ?? 0} @ ${position?.avgBuyPrice.toFixed(2) ?? '-'}¢`);
+  console.log(`   交易記錄: ${trades.map((t) => `${t.size}@${t.price}¢ fee=${(t.feeCents ?? 0).toFixed(4)}¢`).join(', ')}`);
+
+  userChannel.disconnect();
+  wss.close();
+
+  // 每筆成交以該筆的成交價記帳（6 @ 51¢、4 @ 52¢），持倉成本含手續費
+  const pricesOk = trades.length === 2 && trades[0].size === 6 && trades[0].price === 51 && trades[1].size === 4 && trades[1].price === 52;
+  const expectedCost = (6 * 51 + 4 * 52 + order.feeCents) / 10;
+  const costOk = Math.abs(order.avgFillPrice - 51.4) < 1e-9 && Math.abs((position?.avgBuyPrice ?? 0) - expectedCost) < 1e-9;
+  console.log(`   成本: 均價 ${order.avgFillPrice.toFixed(2)}¢ (預期 51.40) | 持倉 ${position?.avgBuyPrice.toFixed(4) ?? '-'}¢ (預期 ${expectedCost.toFixed(4)})`);
+
+  const ok = order.status === 'FILLED' && order.filledSize === 10 && position?.size === 10 && pricesOk && costOk;
+  console.log(ok ? '\n✅ User channel test passed' : '\n❌ User channel test failed');
+  process.exit(ok ? 0 : 1);
+}
+
+testUserChannel();
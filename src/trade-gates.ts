@@ -0,0 +1,139 @@
+/**
+ * 交易門檻 - 進場前的評分 / 信心 / 價差 / 理論價等檢查，並統計每個候選交易被哪個門檻擋下
+ *
+ * - checkDecisionGates 供 AIAnalyzer 決定 shouldTrade（AI_MIN_SCORE、AI_MIN_CONFIDENCE、PRICE_SKEW_LIMIT_CENTS）
+ * - 各策略與 entry-guards 擋下候選交易時呼叫 TradeGateRecorder.block，儀表板顯示「為何沒交易」
+ */
+import { config } from './config.js';
+
+export type TradeGate =
+  | 'no-analysis'
+  | 'min-score'
+  | 'min-confidence'
+  | 'price-skew'
+  | 'combined-cap'
+  | 'fair-value-edge'
+  | 'price-range'
+  | 'opposite-position'
+  | 'cooldown'
+  | 'max-position'
+  | 'llm-declined'
+  | 'ensemble-declined'
+  | 'no-signal';
+
+export const TRADE_GATE_LABELS: Record<TradeGate, string> = {
+  'no-analysis': '無分析 / 無推薦方向',
+  'min-score': '評分不足',
+  'min-confidence': '信心不足',
+  'price-skew': 'Up/Down 價差過大',
+  'combined-cap': '雙邊價格過高',
+  'fair-value-edge': '理論價優勢不足',
+  'price-range': '價格超出範圍',
+  'opposite-position': '持有相反倉位',
+  'cooldown': '連虧冷卻中',
+  'max-position': '已達倉位上限',
+  'llm-declined': 'LLM 不建議交易',
+  'ensemble-declined': '集成投票未通過',
+  'no-signal': '策略無信號',
+};
+
+export interface GateBlock {
+  gate: TradeGate;
+  detail: string;
+}
+
+export interface TradeGateCount {
+  gate: TradeGate;
+  label: string;
+  count: number;
+  lastDetail: string;
+  lastAt: number; // ms
+}
+
+export interface TradeGateStats {
+  evaluated: number; // 評估過的候選交易（每個 scope 每次評估算一次）
+  passed: number; // 產生買入信號的次數
+  blocked: TradeGateCount[]; // 依次數排序
+}
+
+/**
+ * Up/Down 價差超過 PRICE_SKEW_LIMIT_CENTS（市場已明顯偏向一邊）
+ */
+export function checkPriceSkew(upPrice: number, downPrice: number): GateBlock | null {
+  const skew = Math.abs(upPrice - downPrice);
+  if (skew > config.PRICE_SKEW_LIMIT_CENTS) {
+    return { gate: 'price-skew', detail: `Up/Down 價差 ${skew.toFixed(1)}¢ > ${config.PRICE_SKEW_LIMIT_CENTS}¢` };
+  }
+  return null;
+}
+
+/**
+ * AI 決策門檻：綜合評分、信心度、價差（依序檢查，回傳第一個未通過的門檻）
+ */
+export function checkDecisionGates(input: { score: number; confidence: number; upPrice: number; downPrice: number }): GateBlock | null {
+  if (input.score < config.AI_MIN_SCORE) {
+    return { gate: 'min-score', detail: `評分 ${input.score.toFixed(1)} < ${config.AI_MIN_SCORE}` };
+  }
+  if (input.confidence < config.AI_MIN_CONFIDENCE) {
+    return { gate: 'min-confidence', detail: `信心 ${input.confidence.toFixed(0)}% < ${config.AI_MIN_CONFIDENCE}%` };
+  }
+  return checkPriceSkew(input.upPrice, input.downPrice);
+}
+
+/**
+ * 候選交易的門檻統計（每個 Strategy 一份，即每個系列一份）
+ */
+export class TradeGateRecorder {
+  private counts: Map<TradeGate, TradeGateCount> = new Map();
+  private evaluated = 0;
+  private passed = 0;
+  private blockedThisRound = false;
+
+  /**
+   * 記錄一次阻擋；回傳 null 方便策略 `return ctx.gates.block(...)`
+   */
+  block(gate: TradeGate, detail: string, now: number): null {
+    // 同一次評估只記第一個門檻
+    if (this.blockedThisRound) return null;
+    this.blockedThisRound = true;
+    const entry = this.counts.get(gate) || { gate, label: TRADE_GATE_LABELS[gate], count: 0, lastDetail: '', lastAt: 0 };
+    entry.count += 1;
+    entry.lastDetail = detail;
+    entry.lastAt = now;
+    this.counts.set(gate, entry);
+    return null;
+  }
+
+  /**
+   * 包住一次進場評估：有信號計為通過，沒有信號又沒記錄門檻時歸為 no-signal
+   */
+  track<T>(now: number, evaluate: () => T | null): T | null {
+    this.evaluated += 1;
+    this.blockedThisRound = false;
+    const result = evaluate();
+    if (result) {
+      this.passed += 1;
+    } else if (!this.blockedThisRound) {
+      this.block('no-signal', '策略未產生信號', now);
+    }
+    this.blockedThisRound = false;
+    return result;
+  }
+
+  getStats(): TradeGateStats {
+    return {
+      evaluated: this.evaluated,
+      passed: this.passed,
+      blocked: Array.from(this.counts.values())
+        .map((c) => ({ ...c }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  reset(): void {
+    this.counts.clear();
+    this.evaluated = 0;
+    this.passed = 0;
+    this.blockedThisRound = false;
+  }
+}
@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import type { TradeRecord } from './types.js';
+
+/**
+ * 交易日誌 - 追加式 JSONL 檔，每筆 BUY/SELL 一行
+ * 重啟後重新載入，保留 PnL / 勝率 / 連敗冷卻所需的歷史
+ */
+export class TradeJournal {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = config.TRADE_JOURNAL_PATH) {}
+
+  async load(): Promise<TradeRecord[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return []; // 尚無日誌
+    }
+
+    const records: TradeRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line);
+        records.push({ ...parsed, timestamp: new Date(parsed.timestamp) });
+      } catch {
+        // 最後一行可能在寫入中途被中斷
+        console.warn(`[Journal] 略過無法解析的行: ${line.slice(0, 80)}`);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * 追加一筆交易（依呼叫順序串行寫入，不阻塞交易流程）
+   */
+  append(record: TradeRecord): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+      })
+      .catch((err) => {
+        console.warn('[Journal] Failed to append trade:', (err as Error)?.message || err);
+      });
+    return this.writeQueue;
+  }
+}
+
+export const tradeJournal = new TradeJournal();
@@ -4,11 +4,20 @@ import path from 'path';
 import { Wallet } from 'ethers';
 import { getAddress } from 'ethers/lib/utils.js';
 import { config } from './config.js';
-import type { Position, TradeRecord } from './types.js';
+import { tradeJournal } from './trade-journal.js';
+import { paperExchange, type PaperFill } from './paper-exchange.js';
+import { DEFAULT_SERIES_ID } from './series.js';
+import { OrderManager, type ManagedOrder, type NewOrder, type OrderFillEvent } from './order-manager.js';
+import { userChannel, type UserOrderUpdate } from './user-channel.js';
+import type { CompleteSet, Position, TradeContext, TradeRecord } from './types.js';
 
 const CLOB_HTTP_URL = config.CLOB_HOST;
 const CHAIN_ID = config.CHAIN_ID;
-const POS_CACHE_PATH = path.join(process.cwd(), 'positions-cache.json');
+// 預設系列沿用原檔名，其他系列各自一個快取檔（避免互相覆蓋）
+const posCachePath = (series: string) =>
+  path.join(process.cwd(), series === DEFAULT_SERIES_ID ? 'positions-cache.json' : `positions-cache-${series}.json`);
+// 實盤強制清倉單的 reason（實盤 exit 單的成交一律由 'fill' 事件記錄，見 onOrderFill）
+const FORCE_LIQUIDATE_REASON = 'force-liquidate';
 
 export interface ApiCredentials {
   apiKey: string;
@@ -16,31 +25,67 @@ export interface ApiCredentials {
   passphrase: string;
 }
 
+/**
+ * 單腿 FAK 成交結果（套利用，不更新持倉）
+ */
+export interface LegFill {
+  orderId?: string;
+  filledSize: number;
+  avgPrice: number; // cents
+  feeCents: number;
+}
+
 export class Trader {
   private clobClient: ClobClient | null = null;
   private apiCredentials: ApiCredentials | null = null;
   private positions: Map<string, Position> = new Map();
   private tradeHistory: TradeRecord[] = [];
-  private pendingSellOrders: Map<string, string> = new Map(); // tokenId -> orderId
-  private pendingBuyOrders: Map<string, { orderId: string; outcome: 'Up' | 'Down' }> = new Map();
-  private bracketOrdersPlaced: Set<string> = new Set(); // tokenIds that already got TP/SL orders
-  private stopLossWatch: Map<string, { outcome: 'Up' | 'Down'; price: number }> = new Map();
   private cachedAvgPrices: Map<string, number> = new Map();
+  private historyLoaded = false;
+  private completeSets: Map<string, CompleteSet> = new Map(); // conditionId -> 完整組合（套利 / 做市配對）
+  private ordersNeedResync = true; // 啟動或用戶頻道重連後先以 REST 對帳一次，補回漏掉的推送
+
+  readonly series: string;
+  readonly orders: OrderManager; // 所有訂單的狀態機（掛單、成交、對帳）
+
+  constructor(options: { series?: string } = {}) {
+    this.series = options.series ?? DEFAULT_SERIES_ID;
+    this.orders = new OrderManager(this.series);
+    this.orders.on('fill', (event: OrderFillEvent) => this.onOrderFill(event));
+    paperExchange.on('fill', (fill: PaperFill) => this.onPaperFill(fill));
+    userChannel.on('order', (update: UserOrderUpdate) => this.onUserOrder(update));
+    userChannel.on('connected', () => {
+      this.ordersNeedResync = true;
+    });
+  }
 
-  // 檢查止損監視（用市價兜底）
+  // 檢查 bracket 止盈單附帶的止損觸發價（用市價兜底）
   async checkStopLossWatch(prices: Record<string, number>): Promise<void> {
-    for (const [tokenId, watch] of this.stopLossWatch.entries()) {
-      const price = prices[tokenId];
-      if (price == null) continue;
-      const priceCents = price;
-      if (priceCents <= watch.price) {
-        console.warn('[StopWatch] 觸發市價止損 token=%s price=%.2f¢ threshold=%.2f¢', tokenId, priceCents, watch.price);
-        await this.forceLiquidate(tokenId, watch.outcome, priceCents);
-        this.stopLossWatch.delete(tokenId);
+    for (const order of this.orders.list({ purpose: 'bracket', active: true })) {
+      const priceCents = prices[order.tokenId];
+      if (priceCents == null || order.stopPrice == null) continue;
+      if (priceCents <= order.stopPrice) {
+        console.warn('[StopWatch] 觸發市價止損 token=%s price=%.2f¢ threshold=%.2f¢', order.tokenId, priceCents, order.stopPrice);
+        await this.cancelOrder(order.id);
+        await this.forceLiquidate(order.tokenId, order.outcome, priceCents);
       }
     }
   }
 
+  /**
+   * 實盤：與交易所對帳訂單狀態（Paper 模式由 PaperExchange 事件驅動，無需對帳）
+   * 用戶頻道連線中由推送更新，只在啟動 / 重連後對帳一次；斷線時每次都以 REST 輪詢
+   */
+  async reconcileOrders(tokenIds: string[]): Promise<void> {
+    if (config.PAPER_TRADING || !this.clobClient) return;
+    if (userChannel.isConnected() && !this.ordersNeedResync) {
+      this.orders.expireDue();
+      return;
+    }
+    this.ordersNeedResync = false;
+    await this.orders.reconcile(this.clobClient, tokenIds);
+  }
+
   async initialize(): Promise<boolean> {
     if (config.PAPER_TRADING) {
       console.log('🧪 Paper trading mode - no real trades will be executed');
@@ -71,6 +116,10 @@ export class Trader {
 
       console.log(`[交易] API 憑證已獲取: ${this.apiCredentials.apiKey.slice(0, 8)}...`);
 
+      if (config.USER_WS_ENABLED) {
+        userChannel.connect(this.apiCredentials);
+      }
+
       // 創建 L2 客戶端用於交易
       if (config.FUNDER_ADDRESS) {
         // Proxy wallet 模式 (signatureType=1)
@@ -113,7 +162,7 @@ export class Trader {
     try {
       // 查詢 Up 持倉
       const upBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: upTokenId });
-      const upBalance = parseFloat(upBalances?.balance || '0') / 1e6;
+      const upBalance = parseFloat(upBalances?.balance || '0') / 1e6 - this.getLockedShares(upTokenId);
       
       if (upBalance >= 0.001) {
         if (!this.positions.has(upTokenId)) {
@@ -141,9 +190,6 @@ export class Trader {
         if (upBalance < 0.0001) {
           console.log(`[同步] Up 持倉已清空 (on-chain ${upBalance.toFixed(6)})`);
           this.positions.delete(upTokenId);
-          this.pendingSellOrders.delete(upTokenId);
-          this.bracketOrdersPlaced.delete(upTokenId);
-          this.stopLossWatch.delete(upTokenId);
           this.cachedAvgPrices.delete(upTokenId);
           void this.savePriceCache();
         }
@@ -151,7 +197,7 @@ export class Trader {
 
       // 查詢 Down 持倉
       const downBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: downTokenId });
-      const downBalance = parseFloat(downBalances?.balance || '0') / 1e6;
+      const downBalance = parseFloat(downBalances?.balance || '0') / 1e6 - this.getLockedShares(downTokenId);
       
       if (downBalance >= 0.001) {
         if (!this.positions.has(downTokenId)) {
@@ -177,9 +223,6 @@ export class Trader {
         if (downBalance < 0.0001) {
           console.log(`[同步] Down 持倉已清空 (on-chain ${downBalance.toFixed(6)})`);
           this.positions.delete(downTokenId);
-          this.pendingSellOrders.delete(downTokenId);
-          this.bracketOrdersPlaced.delete(downTokenId);
-          this.stopLossWatch.delete(downTokenId);
           this.cachedAvgPrices.delete(downTokenId);
           void this.savePriceCache();
         }
@@ -202,45 +245,13 @@ export class Trader {
       return false;
     }
 
-    // 檢查是否已有掛單（必須有有效的 orderId）
-    const existingOrder = this.pendingSellOrders.get(tokenId);
-    if (existingOrder && existingOrder.length > 0) {
-      if (existingOrder === 'under-min-size') {
-        console.log(`[Limit Sell] 清除殘留 under-min 標記，停止重試 dust 倉位`);
-        this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
-        return true;
-      }
-      // 檢查該掛單是否仍然存在或已成交/取消
-      try {
-        const orderInfo: any = await this.clobClient?.getOrder(existingOrder);
-        const status = orderInfo?.status || orderInfo?.state || '';
-        const filled = parseFloat(orderInfo?.averagePrice ?? orderInfo?.average_price ?? '0');
-        const sizeFilled = parseFloat(orderInfo?.sizeFilled ?? orderInfo?.size_filled ?? orderInfo?.filled ?? orderInfo?.filledSize ?? orderInfo?.totalFilled ?? orderInfo?.size_filled_total ?? '0');
-        if (status && status.toLowerCase() === 'filled') {
-          console.log(`[Limit Sell] 掛單 ${existingOrder} 已成交，清除 pending`);
-          this.pendingSellOrders.delete(tokenId);
-          // 同步一次持倉數量（根據 on-chain balance）
-          try {
-            const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
-            const rawBalance = parseFloat(balances?.balance || '0') / 1e6;
-            const pos = this.positions.get(tokenId);
-            if (pos) pos.size = rawBalance;
-          } catch {}
-          return true;
-        }
-        // 若無法取得訂單或狀態非開放，清除 pending 讓後續重新掛單
-        if (!orderInfo || status.toLowerCase() === 'cancelled' || status.toLowerCase() === 'canceled') {
-          console.log(`[Limit Sell] 掛單 ${existingOrder} 不存在或已取消，清除 pending 重試`);
-          this.pendingSellOrders.delete(tokenId);
-        } else {
-          console.log(`[Limit Sell] 已有掛單: ${existingOrder} status=${status} filled=${sizeFilled} avg=${filled}`);
-          return true;
-        }
-      } catch (e: any) {
-        console.log(`[Limit Sell] 查詢掛單失敗，清除 pending 以允許重掛: ${e?.message}`);
-        this.pendingSellOrders.delete(tokenId);
-      }
+    // 先對帳，已有開放中的賣單（本地或交易所既有）則不重複掛單
+    await this.reconcileOrders([tokenId]);
+    const openSells = this.orders.list({ tokenId, side: 'SELL', active: true });
+    if (openSells.length > 0) {
+      const existing = openSells[0];
+      console.log(`[Limit Sell] 已有掛單: ${existing.id} status=${existing.status} filled=${existing.filledSize}/${existing.size}`);
+      return true;
     }
 
     try {
@@ -256,19 +267,6 @@ export class Trader {
       
       console.log(`[Limit Sell] balance=${rawBalance.toFixed(4)}, allowance=${rawAllowance.toFixed(4)}`);
 
-      // 查詢是否有該 token 的 open sell order，若有則標記並退出，避免重複掛單
-      try {
-        const openOrders = await this.clobClient.getOpenOrders({ asset_id: tokenId });
-        const sellOrders = openOrders?.filter((o: any) => o.side === 'SELL') || [];
-        if (sellOrders.length > 0) {
-          console.log(`[Limit Sell] 已有 ${sellOrders.length} 個賣單掛單中`);
-          this.pendingSellOrders.set(tokenId, sellOrders[0].id || 'existing');
-          return true;
-        }
-      } catch (e: any) {
-        console.log(`[Limit Sell] 查詢掛單失敗: ${e?.message}`);
-      }
-
       // 如果 allowance=0 但 balance>0，嘗試 approve 一次
       if (rawAllowance < 0.1 && rawBalance > 0.1) {
         console.log(`[Limit Sell] allowance 為 0，嘗試 approve token...`);
@@ -292,20 +290,16 @@ export class Trader {
       const actualSize = rawBalance > 0.05 ? Math.floor(rawBalance * 10) / 10 : 0;
       if (actualSize <= 0) {
         console.warn(`[Limit Sell] 可賣數量為 0，跳過`);
-        // 清除殘留標記，避免反覆重試
+        // 清除殘留持倉，避免反覆重試
         this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
         return false;
       }
       if (actualSize < 5) {
         console.warn(`[Limit Sell] 可賣數量 ${actualSize.toFixed(1)} < 5 (交易所最小值)，改用市價清理一次`);
         const cleaned = await this.marketSellRemainder(tokenId, outcome, currentPrice, 'under-min');
         if (!cleaned) {
-          // 如果清理失敗，仍然把本地持倉/掛單清掉，避免無限重試
+          // 如果清理失敗，仍然把本地持倉清掉，避免無限重試
           this.positions.delete(tokenId);
-          this.pendingSellOrders.delete(tokenId);
-        } else {
-          this.pendingSellOrders.delete(tokenId);
         }
         return false;
       }
@@ -315,15 +309,18 @@ export class Trader {
 
       console.log(`📊 補掛 Limit Sell: ${actualSize} 股 ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (+${(config.PROFIT_TARGET_PCT * 100).toFixed(2)}%) [raw balance: ${rawBalance}]`);
 
-      const sellResponse = await this.clobClient.createAndPostOrder({
-        tokenID: tokenId,
-        price: targetSellPriceDecimal,
+      const order = await this.postLiveOrder({
+        tokenId,
+        outcome,
+        side: 'SELL',
+        price: targetSellPrice,
         size: actualSize,
-        side: Side.SELL,
+        orderType: 'GTC',
+        purpose: 'take-profit',
       });
+      if (!order) return false;
 
-      console.log(`📌 LIMIT SELL order placed: ${sellResponse.orderID} @ ${targetSellPriceDecimal.toFixed(2)} x ${actualSize}`);
-      this.pendingSellOrders.set(tokenId, sellResponse.orderID || '');
+      console.log(`📌 LIMIT SELL order placed: ${order.id} @ ${targetSellPriceDecimal.toFixed(2)} x ${actualSize}`);
       return true;
     } catch (error: any) {
       console.error('[Limit Sell] 補掛失敗:', error?.message || error);
@@ -364,7 +361,6 @@ export class Trader {
       const sellSize = parseFloat(rawAllowance.toFixed(2));
       if (sellSize <= 0) {
         this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
         return false;
       }
 
@@ -373,26 +369,27 @@ export class Trader {
 
       console.log(`🧹 Market Sell (${reason}) 清理: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
 
-      const sellResponse = await this.clobClient.createAndPostOrder({
-        tokenID: tokenId,
-        price: marketPrice,
+      const order = await this.postLiveOrder({
+        tokenId,
+        outcome,
+        side: 'SELL',
+        price: marketPrice * 100,
         size: sellSize,
-        side: Side.SELL,
+        orderType: 'GTC',
+        purpose: 'exit',
+        context: { reason: `market-sell-remainder:${reason}` },
       });
+      if (!order) {
+        this.positions.delete(tokenId);
+        return false;
+      }
 
-      console.log(`✅ Market Sell 完成: ${sellResponse.orderID}`);
-      const pos = this.positions.get(tokenId);
-      const pnl = pos ? (currentPrice - pos.avgBuyPrice) * sellSize : 0;
-      const costCents = pos ? pos.avgBuyPrice * sellSize : undefined;
-      this.recordTrade(tokenId, outcome, 'SELL', currentPrice, sellSize, pnl, costCents, tokenId);
-      this.updatePosition(tokenId, outcome, -sellSize, currentPrice);
-      // 清除 pending，避免對同一殘餘倉位重複嘗試
-      this.pendingSellOrders.delete(tokenId);
+      // 成交由 'fill' 事件按實際成交記錄並扣減持倉
+      console.log(`✅ Market Sell 已下單: ${order.id}（已成交 ${order.filledSize.toFixed(2)}/${sellSize}）`);
       return true;
     } catch (error: any) {
       console.error('[Market Sell] 失敗:', error?.message || error);
       this.positions.delete(tokenId);
-      this.pendingSellOrders.delete(tokenId);
       return false;
     }
   }
@@ -404,28 +401,23 @@ export class Trader {
     tokenId: string,
     outcome: 'Up' | 'Down',
     price: number,
-    size: number
+    size: number,
+    context?: TradeContext
   ): Promise<boolean> {
-    // Avoid switching sides while any buy order is still open
-    for (const [pendingToken, pending] of Array.from(this.pendingBuyOrders.entries())) {
-      if (pending.outcome !== outcome) {
-        try {
-          const info: any = await this.clobClient?.getOrder(pending.orderId);
-          const status = info?.status || info?.state || '';
-          if (status && status.toLowerCase() === 'open') {
-            console.log(`[BUY] Skip because pending buy order ${pending.orderId} (${pending.outcome}) still open`);
-            return false;
-          }
-          // Clean up if filled/canceled
-          this.pendingBuyOrders.delete(pendingToken);
-        } catch (e: any) {
-          console.log(`[BUY] Pending buy check failed, skip to avoid side flip: ${e?.message}`);
+    // Avoid switching sides while any entry buy order is still open
+    if (this.clobClient && !config.PAPER_TRADING) {
+      const pendingEntries = this.orders.list({ purpose: 'entry', active: true }).filter((o) => o.outcome !== outcome);
+      if (pendingEntries.length > 0) {
+        await this.reconcileOrders(pendingEntries.map((o) => o.tokenId));
+        const stillOpen = pendingEntries.find((o) => this.orders.isActive(o.id));
+        if (stillOpen) {
+          console.log(`[BUY] Skip because pending buy order ${stillOpen.id} (${stillOpen.outcome}) still open`);
           return false;
         }
       }
     }
 
-    // 單邊持倉防護：若持有相反方向的任何倉位則不買
+    // 單邊持倉防護：若持有相反方向的任何倉位則不買（做市的雙邊掛單走 placeLimitBuy）
     for (const pos of this.positions.values()) {
       if (pos.size > 0 && pos.outcome !== outcome) {
         console.log(`[BUY] 已持有相反倉位 ${pos.size.toFixed(3)} ${pos.outcome}，先清空後再買 ${outcome}`);
@@ -438,11 +430,31 @@ export class Trader {
     const targetSellPriceDecimal = targetSellPrice / 100;
 
     if (config.PAPER_TRADING) {
-      console.log(`📝 [PAPER] BUY ${size} ${outcome} @ ${priceDecimal.toFixed(2)}`);
-      console.log(`📝 [PAPER] LIMIT SELL ${size} ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (target: +${config.PROFIT_TARGET}¢)`);
-      this.updatePosition(tokenId, outcome, size, price);
-      this.recordTrade(tokenId, outcome, 'BUY', price, size, undefined, undefined, tokenId);
-      this.pendingSellOrders.set(tokenId, `paper-${Date.now()}`);
+      // 與實盤一致：+1¢ 吃單，按訂單簿深度成交，未成交部分撤單
+      const order = await this.placePaperOrder({
+        tokenId,
+        outcome,
+        side: 'BUY',
+        price: Math.min(price + 1, 99),
+        size,
+        orderType: 'FAK',
+        purpose: 'entry',
+        context,
+      });
+      if (order.filledSize <= 0) {
+        console.log(`📝 [PAPER] BUY ${size} ${outcome} @ ${priceDecimal.toFixed(2)} 未成交（訂單簿流動性不足）`);
+        return false;
+      }
+      console.log(`📝 [PAPER] BUY ${order.filledSize.toFixed(2)}/${size} ${outcome} @ ${(order.avgFillPrice / 100).toFixed(4)} fee=${order.feeCents.toFixed(2)}¢`);
+      // 手續費攤入成本價，使 PnL 為扣費後淨值
+      this.updatePosition(tokenId, outcome, order.filledSize, order.avgFillPrice + order.feeCents / order.filledSize);
+      this.recordTrade(tokenId, outcome, 'BUY', order.avgFillPrice, order.filledSize, undefined, undefined, tokenId, {
+        orderId: order.id,
+        feeCents: order.feeCents,
+        context,
+      });
+      console.log(`📝 [PAPER] LIMIT SELL ${outcome} @ ${targetSellPriceDecimal.toFixed(2)} (target: +${config.PROFIT_TARGET}¢)`);
+      await this.placePaperTakeProfit(tokenId, outcome, context);
       return true;
     }
 
@@ -453,8 +465,8 @@ export class Trader {
 
     try {
       // 如果已有開放中的 BUY 訂單，避免重複下單
-      const openOrders = await this.clobClient.getOpenOrders({ asset_id: tokenId });
-      const openBuys = openOrders?.filter((o: any) => o.side === 'BUY') || [];
+      await this.reconcileOrders([tokenId]);
+      const openBuys = this.orders.list({ tokenId, side: 'BUY', active: true });
       if (openBuys.length > 0) {
         console.log(`[BUY] 已有 ${openBuys.length} 筆 BUY 掛單，跳過重複下單`);
         return true;
@@ -463,90 +475,25 @@ export class Trader {
       // 1. 執行買入 (使用較高價格確保成交)
       const buyPrice = Math.min(priceDecimal + 0.01, 0.99); // 加 1¢ 確保成交
       const buyPriceCents = Math.round(buyPrice * 100);
-      const buyResponse = await this.clobClient.createAndPostOrder({
-        tokenID: tokenId,
-        price: buyPrice,
+      const order = await this.postLiveOrder({
+        tokenId,
+        outcome,
+        side: 'BUY',
+        price: buyPriceCents,
         size,
-        side: Side.BUY,
+        orderType: 'GTC',
+        purpose: 'entry',
+        context,
       });
-      console.log(`✅ BUY order placed: ${buyResponse.orderID} @ ${buyPrice.toFixed(2)}`);
-      this.pendingBuyOrders.set(tokenId, { orderId: buyResponse.orderID, outcome });
-      // 嘗試獲取成交均價以與 Polymarket 顯示一致
-      let executedPriceCents = buyPriceCents;
-      try {
-        for (let i = 0; i < 5; i++) {
-          await this.sleep(400);
-          const orderInfo: any = await this.clobClient.getOrder(buyResponse.orderID);
-          const avg = orderInfo?.averagePrice ?? orderInfo?.average_price;
-          if (avg) {
-            executedPriceCents = Math.round(parseFloat(avg) * 100);
-            console.log(`[BUY] 成交均價: ${executedPriceCents / 100} (from getOrder)`);
-            break;
-          }
-        }
-      } catch (e: any) {
-        console.log(`[BUY] 讀取成交價失敗，使用提交價: ${e?.message}`);
-      }
-
-      // 2. 等待買單成交並輪詢確認
-      console.log(`⏳ 等待買單成交...`);
-      let actualSize = 0;
-      let attempts = 0;
-      const maxAttempts = 10; // 最多等 10 秒
-      
-      while (attempts < maxAttempts) {
-        await this.sleep(1000);
-        attempts++;
-        
-        try {
-          const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
-          const rawBalance = parseFloat(balances?.balance || '0') / 1e6;
-          console.log(`📊 [${attempts}/${maxAttempts}] balance=${rawBalance.toFixed(2)}`);
-          
-          if (rawBalance >= size * 0.9) { // 至少 90% 成交
-            // 確保有 allowance
-            const rawAllowance = parseFloat(balances?.allowance || '0') / 1e6;
-            if (rawAllowance < rawBalance * 0.9) {
-              console.log(`🔓 Approving token for selling...`);
-              await this.clobClient.updateBalanceAllowance({ 
-                asset_type: 'CONDITIONAL' as any, 
-                token_id: tokenId 
-              });
-              await this.sleep(500);
-              const newBalances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
-              actualSize = parseFloat((parseFloat(newBalances?.allowance || '0') / 1e6).toFixed(1));
-            } else {
-              actualSize = parseFloat(rawAllowance.toFixed(1));
-            }
-            console.log(`✅ 買單成交確認: ${actualSize} 股`);
-            break;
-          }
-        } catch (e: any) {
-          console.log(`⚠️ 查詢失敗: ${e?.message}`);
-        }
+      if (!order) return false;
+      console.log(`✅ BUY order placed: ${order.id} @ ${buyPrice.toFixed(2)}`);
+
+      // 2. 成交經 'fill' 事件更新持倉、記錄交易並掛止盈（applyEntryFill）
+      //    用戶頻道連線時由推送觸發，不阻塞本輪；斷線時輪詢訂單狀態（最多 10 秒）
+      if (!userChannel.isConnected()) {
+        console.log(`⏳ 等待買單成交...`);
+        await this.pollOrder(order, (o) => !this.orders.isActive(o.id) || o.filledSize >= o.size * 0.9, 10, 1000);
       }
-
-      if (actualSize <= 0) {
-        console.log(`⚠️ 買單未成交或 allowance 為 0，撤回本地持倉記錄`);
-        // 確保不留殘留持倉
-        this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
-        this.pendingBuyOrders.delete(tokenId);
-        return true;
-      }
-
-      // 以實際成交均價與數量更新持倉並記錄交易
-      this.updatePosition(tokenId, outcome, actualSize, executedPriceCents);
-      this.recordTrade(tokenId, outcome, 'BUY', executedPriceCents, actualSize, undefined, undefined, tokenId);
-      this.pendingBuyOrders.delete(tokenId);
-
-      if (actualSize < 5) {
-        console.warn(`[Limit Sell] 買單成交數量 ${actualSize} < 5，跳過掛單（交易所最小）`);
-        return true;
-      }
-
-      // Immediately place TP limit sell at buy time
-      await this.placeLimitSellForPosition(tokenId, outcome, executedPriceCents, executedPriceCents);
       return true;
     } catch (error: any) {
       console.error('Buy order failed:', error?.message || error);
@@ -560,19 +507,18 @@ export class Trader {
   async forceLiquidate(
     tokenId: string,
     outcome: 'Up' | 'Down',
-    currentPrice: number
+    currentPrice: number,
+    context?: TradeContext
   ): Promise<boolean> {
     if (config.PAPER_TRADING) {
       console.log(`📝 [PAPER] FORCE LIQUIDATE ${outcome}`);
       const pos = this.positions.get(tokenId);
-      if (pos && pos.size > 0) {
-        const pnl = pos ? (currentPrice - pos.avgBuyPrice) * pos.size : 0;
-        const costCents = pos ? pos.avgBuyPrice * pos.size : undefined;
-        this.recordTrade(tokenId, outcome, 'SELL', currentPrice, pos.size, pnl, costCents);
+      if (!pos || pos.size <= 0) {
+        this.positions.delete(tokenId);
+        return true;
       }
-      this.positions.delete(tokenId);
-      this.pendingSellOrders.delete(tokenId);
-      return true;
+      // 與實盤一致：當前價 -10¢ 市價賣出
+      return this.paperSell(tokenId, outcome, Math.max(currentPrice - 10, 1), pos.size, { reason: 'force-liquidate', ...context });
     }
 
     if (!this.clobClient) {
@@ -591,7 +537,6 @@ export class Trader {
       if (sellSize <= 0) {
         console.log(`[強制清倉] 無可賣股份`);
         this.positions.delete(tokenId);
-        this.pendingSellOrders.delete(tokenId);
         return true;
       }
 
@@ -599,16 +544,20 @@ export class Trader {
       const marketPrice = Math.max((currentPrice - 10) / 100, 0.01); // 當前價 -10¢
       console.log(`🚨 Market Sell: ${sellSize} 股 ${outcome} @ ${marketPrice.toFixed(2)}`);
 
-      const response = await this.clobClient.createAndPostOrder({
-        tokenID: tokenId,
-        price: marketPrice,
+      const order = await this.postLiveOrder({
+        tokenId,
+        outcome,
+        side: 'SELL',
+        price: marketPrice * 100,
         size: sellSize,
-        side: Side.SELL,
+        orderType: 'GTC',
+        purpose: 'exit',
+        context: { ...context, reason: FORCE_LIQUIDATE_REASON },
       });
+      if (!order) return false;
 
-      console.log(`✅ 強制清倉完成: ${response.orderID}`);
-      this.positions.delete(tokenId);
-      this.pendingSellOrders.delete(tokenId);
+      // 成交（可能部分、價格優於限價）由 'fill' 事件按實際成交記錄並扣減持倉
+      console.log(`✅ 強制清倉已下單: ${order.id}（已成交 ${order.filledSize.toFixed(2)}/${sellSize}）`);
       return true;
     } catch (error: any) {
       console.error('[強制清倉] 失敗:', error?.message || error);
@@ -616,6 +565,167 @@ export class Trader {
     }
   }
 
+  /**
+   * 市場結算：按兌付價（100¢ / 0¢）平掉持倉並記錄 SETTLEMENT 交易，不經過訂單簿
+   */
+  settlePosition(tokenId: string, payoutCents: number, context?: TradeContext): TradeRecord | null {
+    const pos = this.positions.get(tokenId);
+    if (!pos || pos.size <= 0) return null;
+
+    this.cancelPaperOrders(tokenId);
+    const pnl = (payoutCents - pos.avgBuyPrice) * pos.size;
+    console.log(`🏁 結算 ${pos.size.toFixed(2)} 股 ${pos.outcome} @ ${payoutCents}¢ | PnL: ${pnl.toFixed(2)}¢`);
+    const record = this.recordTrade(tokenId, pos.outcome, 'SETTLEMENT', payoutCents, pos.size, pnl, pos.avgBuyPrice * pos.size, tokenId, {
+      feeCents: 0,
+      context,
+    });
+
+    this.positions.delete(tokenId);
+    this.cachedAvgPrices.delete(tokenId);
+    void this.savePriceCache();
+    return record;
+  }
+
+  /**
+   * 套利單腿：FAK 吃單，記錄交易但不更新持倉（由呼叫方組成完整組合或轉入持倉）
+   * SELL 時以 costBasis（cents/股）計算 PnL
+   */
+  async executeLeg(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    side: 'BUY' | 'SELL',
+    limitPrice: number,
+    size: number,
+    context?: TradeContext,
+    costBasis?: number
+  ): Promise<LegFill> {
+    let fill: LegFill = { filledSize: 0, avgPrice: 0, feeCents: 0 };
+
+    const params: NewOrder = {
+      tokenId,
+      outcome,
+      side,
+      price: Math.min(Math.max(limitPrice, 1), 99),
+      size,
+      orderType: 'FAK',
+      purpose: 'arb-leg',
+      context,
+    };
+    if (config.PAPER_TRADING) {
+      const order = await this.placePaperOrder(params);
+      fill = { orderId: order.id, filledSize: order.filledSize, avgPrice: order.avgFillPrice, feeCents: order.feeCents };
+    } else if (this.clobClient) {
+      try {
+        const order = await this.postLiveOrder(params);
+        if (order) {
+          // 輪詢時無成交明細，以限價保守估計
+          await this.awaitOrder(order, (o) => !this.orders.isActive(o.id), 1, 400);
+          this.orders.close(order.id); // FAK 剩餘部分已作廢
+          fill = { orderId: order.id, filledSize: order.filledSize, avgPrice: order.avgFillPrice, feeCents: order.feeCents };
+        }
+      } catch (error: any) {
+        console.error(`[套利] ${side} ${outcome} 下單失敗:`, error?.message || error);
+      }
+    } else {
+      console.error('Trading client not initialized');
+    }
+
+    const tag = config.PAPER_TRADING ? '📝 [PAPER]' : '✅';
+    console.log(`${tag} [套利] ${side} ${fill.filledSize.toFixed(2)}/${size} ${outcome} @ ${(fill.avgPrice / 100).toFixed(4)} (limit ${limitPrice.toFixed(0)}¢)`);
+    if (fill.filledSize > 0) {
+      const pnl = side === 'SELL' && costBasis != null ? (fill.avgPrice - costBasis) * fill.filledSize - fill.feeCents : undefined;
+      const costCents = side === 'SELL' && costBasis != null ? costBasis * fill.filledSize : undefined;
+      this.recordTrade(tokenId, outcome, side, fill.avgPrice, fill.filledSize, pnl, costCents, tokenId, {
+        orderId: fill.orderId,
+        feeCents: fill.feeCents,
+        context,
+      });
+    }
+    return fill;
+  }
+
+  /**
+   * 把套利未配對的單腿轉為一般持倉，交由出場邏輯處理
+   */
+  adoptPosition(tokenId: string, outcome: 'Up' | 'Down', size: number, avgPrice: number): void {
+    if (size <= 0) return;
+    this.updatePosition(tokenId, outcome, size, avgPrice);
+  }
+
+  addCompleteSet(set: CompleteSet): void {
+    const existing = this.completeSets.get(set.conditionId);
+    if (existing) {
+      const total = existing.size + set.size;
+      existing.upAvgPrice = (existing.upAvgPrice * existing.size + set.upAvgPrice * set.size) / total;
+      existing.downAvgPrice = (existing.downAvgPrice * existing.size + set.downAvgPrice * set.size) / total;
+      existing.size = total;
+    } else {
+      this.completeSets.set(set.conditionId, { ...set });
+    }
+  }
+
+  /**
+   * 把同一市場等量的 Up / Down 持倉（做市雙邊成交）轉為完整組合，持有到合併或結算以實現鎖定利潤，不再逐腿出場
+   * 返回轉換的組數
+   */
+  pairCompleteSet(market: { conditionId: string; slug?: string; upTokenId: string; downTokenId: string }): number {
+    const up = this.positions.get(market.upTokenId);
+    const down = this.positions.get(market.downTokenId);
+    if (!up || !down) return 0;
+    const size = Math.min(up.size, down.size);
+    if (size < 1e-9) return 0;
+
+    const upAvgPrice = up.avgBuyPrice;
+    const downAvgPrice = down.avgBuyPrice;
+    this.updatePosition(market.upTokenId, 'Up', -size, up.currentPrice);
+    this.updatePosition(market.downTokenId, 'Down', -size, down.currentPrice);
+    this.addCompleteSet({
+      conditionId: market.conditionId,
+      slug: market.slug,
+      upTokenId: market.upTokenId,
+      downTokenId: market.downTokenId,
+      size,
+      upAvgPrice,
+      downAvgPrice,
+      createdAt: Date.now(),
+    });
+    console.log(`🔗 配對 ${size.toFixed(2)} 組 Up+Down 為完整組合 | 鎖定 ${(100 - upAvgPrice - downAvgPrice).toFixed(2)}¢/組`);
+    return size;
+  }
+
+  getCompleteSets(): CompleteSet[] {
+    return Array.from(this.completeSets.values());
+  }
+
+  private getLockedShares(tokenId: string): number {
+    let locked = 0;
+    for (const set of this.completeSets.values()) {
+      if (set.upTokenId === tokenId || set.downTokenId === tokenId) locked += set.size;
+    }
+    return locked;
+  }
+
+  /**
+   * 平掉完整組合：每組兌付 100¢（合併或結算），鎖定利潤平均分攤到兩腿
+   */
+  closeCompleteSet(conditionId: string, side: 'MERGE' | 'SETTLEMENT', context?: TradeContext): TradeRecord[] {
+    const set = this.completeSets.get(conditionId);
+    if (!set) return [];
+    this.completeSets.delete(conditionId);
+
+    const edge = 100 - set.upAvgPrice - set.downAvgPrice; // cents / 組
+    console.log(`🔗 ${side === 'MERGE' ? '合併' : '結算'} ${set.size.toFixed(2)} 組 Up+Down | 鎖定利潤 ${(edge * set.size).toFixed(2)}¢ (${edge.toFixed(2)}¢/組)`);
+    return [
+      { tokenId: set.upTokenId, outcome: 'Up' as const, avg: set.upAvgPrice },
+      { tokenId: set.downTokenId, outcome: 'Down' as const, avg: set.downAvgPrice },
+    ].map((leg) =>
+      this.recordTrade(leg.tokenId, leg.outcome, side, leg.avg + edge / 2, set.size, (edge / 2) * set.size, leg.avg * set.size, leg.tokenId, {
+        feeCents: 0,
+        context: { slug: set.slug, ...context },
+      })
+    );
+  }
+
   /**
    * 賣出指定 outcome
    */
@@ -624,18 +734,13 @@ export class Trader {
     outcome: 'Up' | 'Down',
     price: number,
     size: number,
-    reason: string = 'signal'
+    reason: string = 'signal',
+    context?: TradeContext
   ): Promise<boolean> {
-    const priceDecimal = price / 100;
     const position = this.positions.get(tokenId);
 
     if (config.PAPER_TRADING) {
-      const pnl = position ? (price - position.avgBuyPrice) * size : 0;
-      console.log(`📝 [PAPER] SELL ${size} ${outcome} @ ${priceDecimal.toFixed(2)} | PnL: ${pnl.toFixed(2)}¢`);
-      this.updatePosition(tokenId, outcome, -size, price);
-      const costCents = position ? position.avgBuyPrice * size : undefined;
-      this.recordTrade(tokenId, outcome, 'SELL', price, size, pnl, costCents, tokenId);
-      return true;
+      return this.paperSell(tokenId, outcome, price, size, { reason, ...context });
     }
 
     if (!this.clobClient) {
@@ -643,8 +748,13 @@ export class Trader {
       return false;
     }
 
+    const pendingExit = this.orders.list({ tokenId, purpose: 'exit', active: true })[0];
+    if (pendingExit) {
+      console.log(`[SELL] Skip because exit order ${pendingExit.id} is still open (${pendingExit.filledSize.toFixed(2)}/${pendingExit.size})`);
+      return false;
+    }
+
     try {
-      const avgBuy = position?.avgBuyPrice ?? price;
       let plannedSize = size;
       const isStopLoss = reason.toLowerCase().includes('stop') || reason.includes('止損');
       const meetsTarget = position ? ((price - position.avgBuyPrice) / position.avgBuyPrice) >= config.PROFIT_TARGET_PCT : true;
@@ -675,36 +785,21 @@ export class Trader {
         console.log(`[SELL] balance/allowance check failed, proceed with planned size ${plannedSize}: ${e?.message}`);
       }
 
-      const response = await this.clobClient.createAndPostOrder({
-        tokenID: tokenId,
-        price: priceDecimal,
+      const order = await this.postLiveOrder({
+        tokenId,
+        outcome,
+        side: 'SELL',
+        price,
         size: plannedSize,
-        side: Side.SELL,
+        orderType: 'GTC',
+        purpose: 'exit',
+        context: { reason, ...context },
       });
-      let executedPriceCents = price;
-      let executedSize = plannedSize;
-      try {
-        for (let i = 0; i < 5; i++) {
-          await this.sleep(400);
-          const orderInfo: any = await this.clobClient.getOrder(response.orderID);
-          const avg = orderInfo?.averagePrice ?? orderInfo?.average_price;
-          const filled = orderInfo?.sizeFilled ?? orderInfo?.size_filled ?? orderInfo?.filled ?? orderInfo?.filledSize ?? orderInfo?.totalFilled ?? orderInfo?.size_filled_total;
-          if (avg) executedPriceCents = Math.round(parseFloat(avg) * 100);
-          if (filled) executedSize = parseFloat(filled);
-          if (avg || filled) break;
-        }
-      } catch (e: any) {
-        console.log(`[SELL] 讀取成交價失敗，使用提交價: ${e?.message}`);
-      }
-
-      // Clamp executed size to available position to avoid over-deducting
-      const sizeToClose = position ? Math.min(executedSize, position.size) : executedSize;
-      const pnl = position ? (executedPriceCents - avgBuy) * sizeToClose : 0;
-      const costCents = position ? avgBuy * sizeToClose : undefined;
+      if (!order) return false;
 
-      console.log(`✅ SELL order placed: ${response.orderID} | filled ${sizeToClose.toFixed(2)} @ ${(executedPriceCents / 100).toFixed(2)} | PnL: ${pnl.toFixed(2)}¢ | reason=${reason}`);
-      this.updatePosition(tokenId, outcome, -sizeToClose, executedPriceCents);
-      this.recordTrade(tokenId, outcome, 'SELL', executedPriceCents, sizeToClose, pnl, costCents, tokenId);
+      // 成交（含掛單之後才到的部分）由 'fill' 事件記錄；稍等首筆回報，讓呼叫方廣播到實際成交
+      await this.awaitOrder(order, (o) => o.filledSize > 0, 5, 400);
+      console.log(`✅ SELL order placed: ${order.id} | filled ${order.filledSize.toFixed(2)}/${plannedSize} | reason=${reason}`);
       return true;
     } catch (error) {
       console.error('Sell order failed:', error);
@@ -712,14 +807,147 @@ export class Trader {
     }
   }
 
+  /**
+   * 掛限價買單（做市用）：不受單邊持倉限制，成交部分直接加入持倉
+   * 返回 orderId；下單時已全部成交或失敗則返回 null
+   */
+  async placeLimitBuy(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    price: number,
+    size: number,
+    context?: TradeContext
+  ): Promise<string | null> {
+    const params: NewOrder = { tokenId, outcome, side: 'BUY', price, size, orderType: 'GTC', purpose: 'quote', context };
+    if (config.PAPER_TRADING) {
+      const order = await this.placePaperOrder(params);
+      return this.orders.isActive(order.id) ? order.id : null;
+    }
+
+    if (!this.clobClient) {
+      console.error('Trading client not initialized');
+      return null;
+    }
+
+    try {
+      const order = await this.postLiveOrder(params);
+      if (!order) return null;
+      console.log(`📌 [做市] BID ${outcome} ${size} @ ${(price / 100).toFixed(2)} (${order.id})`);
+      return order.id;
+    } catch (error: any) {
+      console.error('[做市] 掛單失敗:', error?.message || error);
+      return null;
+    }
+  }
+
+  /**
+   * 撤單：Paper 模式從模擬交易所撤下；實盤撤單後再查一次，補記撤單前的成交
+   */
+  async cancelOrder(orderId: string): Promise<boolean> {
+    if (!this.orders.isActive(orderId)) return false;
+    if (config.PAPER_TRADING) {
+      paperExchange.cancelOrder(orderId);
+      this.orders.close(orderId);
+      return true;
+    }
+
+    try {
+      await this.clobClient?.cancelOrder({ orderID: orderId });
+      if (this.clobClient) await this.orders.refresh(this.clobClient, orderId);
+      this.orders.close(orderId);
+      return true;
+    } catch (error: any) {
+      console.error('[訂單] 撤單失敗:', error?.message || error);
+      return false;
+    }
+  }
+
+  /**
+   * 掛單的成交（做市買單、止盈 / bracket 賣單）與實盤進場單；其餘即時成交單由下單方直接處理
+   */
+  private onOrderFill({ order, size, price, feeCents }: OrderFillEvent): void {
+    if (order.purpose === 'exit' && !config.PAPER_TRADING) {
+      this.applyExitFill(order, size, price, feeCents);
+    } else if (order.purpose === 'quote') {
+      this.applyLimitBuyFill(order, size, price, feeCents);
+    } else if (order.purpose === 'take-profit' || order.purpose === 'bracket') {
+      this.applyRestingSellFill(order, size, price, feeCents);
+    } else if (order.purpose === 'entry' && !config.PAPER_TRADING) {
+      this.applyEntryFill(order, size, price, feeCents);
+    }
+  }
+
+  /**
+   * 實盤進場單成交：更新持倉並記錄；累計成交首次達 90% 時掛止盈
+   */
+  private applyEntryFill(order: ManagedOrder, size: number, price: number, feeCents: number): void {
+    console.log(`✅ BUY FILLED ${size.toFixed(2)} ${order.outcome} @ ${(price / 100).toFixed(2)} (${order.filledSize.toFixed(2)}/${order.size})`);
+    this.updatePosition(order.tokenId, order.outcome, size, price + feeCents / size);
+    this.recordTrade(order.tokenId, order.outcome, 'BUY', price, size, undefined, undefined, order.tokenId, {
+      orderId: order.id,
+      feeCents,
+      context: order.context,
+    });
+
+    const threshold = order.size * 0.9;
+    if (order.filledSize - size >= threshold || order.filledSize < threshold) return;
+    if (order.filledSize < 5) {
+      console.warn(`[Limit Sell] 買單成交數量 ${order.filledSize} < 5，跳過掛單（交易所最小）`);
+      return;
+    }
+    void this.placeLimitSellForPosition(order.tokenId, order.outcome, order.avgFillPrice, order.avgFillPrice);
+  }
+
+  /**
+   * 用戶頻道推送：只套用本 Trader 追蹤中的訂單（同一帳戶的其他系列會收到相同推送）
+   */
+  private onUserOrder(update: UserOrderUpdate): void {
+    const order = this.orders.get(update.orderId);
+    if (order) this.orders.applyUpdate(order, update);
+  }
+
+  /**
+   * 等待訂單成交回報：用戶頻道連線時等推送（最多 USER_WS_FILL_TIMEOUT_MS），否則輪詢 getOrder
+   */
+  private async awaitOrder(order: ManagedOrder, done: (o: ManagedOrder) => boolean, attempts: number, intervalMs: number): Promise<void> {
+    if (userChannel.isConnected()) {
+      await this.orders.waitFor(order.id, done, config.USER_WS_FILL_TIMEOUT_MS);
+      return;
+    }
+    await this.pollOrder(order, done, attempts, intervalMs);
+  }
+
+  private async pollOrder(order: ManagedOrder, done: (o: ManagedOrder) => boolean, attempts: number, intervalMs: number): Promise<void> {
+    for (let i = 0; i < attempts && !done(order); i++) {
+      await this.sleep(intervalMs);
+      await this.orders.refresh(this.clobClient!, order.id);
+    }
+  }
+
+  private applyLimitBuyFill(order: ManagedOrder, size: number, price: number, feeCents: number): void {
+    console.log(`${config.PAPER_TRADING ? '📝 [PAPER]' : '✅'} [做市] BID FILLED ${size.toFixed(2)} ${order.outcome} @ ${(price / 100).toFixed(2)} (${order.filledSize.toFixed(2)}/${order.size})`);
+    // 手續費攤入成本價，使 PnL 為扣費後淨值
+    this.updatePosition(order.tokenId, order.outcome, size, price + feeCents / size);
+    this.recordTrade(order.tokenId, order.outcome, 'BUY', price, size, undefined, undefined, order.tokenId, {
+      orderId: order.id,
+      feeCents,
+      context: order.context,
+    });
+  }
+
   /**
    * 取消所有未成交訂單
    */
   async cancelAllOrders(): Promise<void> {
-    if (config.PAPER_TRADING || !this.clobClient) return;
+    if (config.PAPER_TRADING) {
+      this.cancelPaperOrders();
+      return;
+    }
+    if (!this.clobClient) return;
 
     try {
       await this.clobClient.cancelAll();
+      this.orders.list({ active: true }).forEach((o) => this.orders.close(o.id));
       console.log('🗑️ All orders cancelled');
     } catch (error) {
       console.error('Failed to cancel orders:', error);
@@ -738,6 +966,165 @@ export class Trader {
     }
   }
 
+  /**
+   * 實盤下單：建立訂單記錄後送出（FAK 用 createOrder + postOrder，其餘 createAndPostOrder）
+   * 交易所未回傳 orderId 時標記 REJECTED 並返回 null；送出時拋錯則標記 REJECTED 後重新拋出
+   */
+  private async postLiveOrder(params: NewOrder): Promise<ManagedOrder | null> {
+    const order = this.orders.create(params);
+    try {
+      const userOrder = {
+        tokenID: params.tokenId,
+        price: params.price / 100,
+        size: params.size,
+        side: params.side === 'BUY' ? Side.BUY : Side.SELL,
+      };
+      const response =
+        params.orderType === 'FAK'
+          ? await this.clobClient!.postOrder(await this.clobClient!.createOrder(userOrder), OrderType.FAK)
+          : await this.clobClient!.createAndPostOrder(userOrder);
+      if (!response?.orderID) {
+        this.orders.reject(order, response?.errorMsg || 'no orderID');
+        return null;
+      }
+      this.orders.acknowledge(order, response.orderID);
+      // 推送可能早於下單回應到達（當時仍是本地 id，未被套用）
+      const pushed = userChannel.getLatest(order.id);
+      if (pushed) this.orders.applyUpdate(order, pushed);
+      return order;
+    } catch (error: any) {
+      this.orders.reject(order, error?.message || String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Paper 下單：下單時的即時成交直接記入訂單（由呼叫方或 'fill' 事件處理），GTC 剩餘掛單，FAK 剩餘作廢
+   */
+  private async placePaperOrder(params: NewOrder): Promise<ManagedOrder> {
+    const order = this.orders.create(params);
+    const paper = await paperExchange.placeOrder(params.tokenId, params.side, params.size, params.price, params.orderType === 'FAK' ? 'FAK' : 'GTC');
+    this.orders.acknowledge(order, paper.id);
+    if (paper.filledSize > 0) {
+      this.orders.recordFill(order.id, paper.filledSize, paper.avgFillPrice, paper.feeCents);
+    }
+    if (paper.status !== 'open') this.orders.close(order.id);
+    return order;
+  }
+
+  /**
+   * Paper 賣出：撤掉該 token 的止盈掛單，按 bids 深度吃單（FAK），剩餘持倉重新掛止盈
+   */
+  private async paperSell(
+    tokenId: string,
+    outcome: 'Up' | 'Down',
+    limitPrice: number,
+    size: number,
+    context: TradeContext
+  ): Promise<boolean> {
+    const position = this.positions.get(tokenId);
+    this.cancelPaperOrders(tokenId, 'take-profit');
+
+    const sellSize = Math.min(size, position?.size ?? size);
+    const order = await this.placePaperOrder({
+      tokenId,
+      outcome,
+      side: 'SELL',
+      price: limitPrice,
+      size: sellSize,
+      orderType: 'FAK',
+      purpose: 'exit',
+      context,
+    });
+    if (order.filledSize > 0) {
+      const avgBuy = position?.avgBuyPrice ?? order.avgFillPrice;
+      const pnl = (order.avgFillPrice - avgBuy) * order.filledSize - order.feeCents;
+      const costCents = avgBuy * order.filledSize;
+      console.log(`📝 [PAPER] SELL ${order.filledSize.toFixed(2)}/${sellSize} ${outcome} @ ${(order.avgFillPrice / 100).toFixed(4)} | PnL: ${pnl.toFixed(2)}¢ (${context.reason})`);
+      this.updatePosition(tokenId, outcome, -order.filledSize, order.avgFillPrice);
+      this.recordTrade(tokenId, outcome, 'SELL', order.avgFillPrice, order.filledSize, pnl, costCents, tokenId, {
+        orderId: order.id,
+        feeCents: order.feeCents,
+        context,
+      });
+    } else {
+      console.log(`📝 [PAPER] SELL ${sellSize} ${outcome} @ ${(limitPrice / 100).toFixed(2)} 未成交（訂單簿流動性不足）`);
+    }
+
+    if (this.positions.has(tokenId)) {
+      await this.placePaperTakeProfit(tokenId, outcome, context);
+    }
+    return order.filledSize > 0;
+  }
+
+  /**
+   * Paper 止盈掛單：以 avgBuyPrice + PROFIT_TARGET 掛 GTC 賣單，在模擬交易所排隊
+   */
+  private async placePaperTakeProfit(tokenId: string, outcome: 'Up' | 'Down', context?: TradeContext): Promise<void> {
+    const position = this.positions.get(tokenId);
+    if (!position || position.size <= 0) return;
+    this.cancelPaperOrders(tokenId, 'take-profit');
+
+    const tpPrice = Math.min(Math.round(position.avgBuyPrice + config.PROFIT_TARGET), 99);
+    // 下單時即成交的部分同樣經由 'fill' 事件記帳
+    await this.placePaperOrder({
+      tokenId,
+      outcome,
+      side: 'SELL',
+      price: tpPrice,
+      size: position.size,
+      orderType: 'GTC',
+      purpose: 'take-profit',
+      context,
+    });
+  }
+
+  /**
+   * PaperExchange 掛單成交：只處理本 Trader 已確認的訂單（下單時的即時成交由 placePaperOrder 記入）
+   */
+  private onPaperFill(fill: PaperFill): void {
+    if (!this.orders.isActive(fill.orderId)) return;
+    this.orders.recordFill(fill.orderId, fill.size, fill.price, fill.feeCents);
+  }
+
+  private applyRestingSellFill(order: ManagedOrder, size: number, price: number, feeCents: number): void {
+    const position = this.positions.get(order.tokenId);
+    const filled = Math.min(size, position?.size ?? size);
+    const avgBuy = position?.avgBuyPrice ?? price;
+    const pnl = (price - avgBuy) * filled - feeCents;
+    console.log(`${config.PAPER_TRADING ? '📝 [PAPER]' : '✅'} TP FILLED ${filled.toFixed(2)} ${order.outcome} @ ${(price / 100).toFixed(2)} | PnL: ${pnl.toFixed(2)}¢`);
+    this.updatePosition(order.tokenId, order.outcome, -filled, price);
+    this.recordTrade(order.tokenId, order.outcome, 'SELL', price, filled, pnl, avgBuy * filled, order.tokenId, {
+      orderId: order.id,
+      feeCents,
+      context: { ...order.context, reason: 'take-profit-limit' },
+    });
+  }
+
+  /**
+   * 實盤 exit 賣單（sell / 強制清倉 / 剩餘清理）成交：按實際成交價與數量扣減持倉並記錄（Paper 的 exit 為 FAK，由 paperSell 記錄）
+   */
+  private applyExitFill(order: ManagedOrder, size: number, price: number, feeCents: number): void {
+    const position = this.positions.get(order.tokenId);
+    const filled = Math.min(size, position?.size ?? size);
+    const avgBuy = position?.avgBuyPrice ?? price;
+    const pnl = (price - avgBuy) * filled - feeCents;
+    console.log(`✅ SELL FILLED ${filled.toFixed(2)} ${order.outcome} @ ${(price / 100).toFixed(2)} (${order.filledSize.toFixed(2)}/${order.size}) | PnL: ${pnl.toFixed(2)}¢ | reason=${order.context?.reason}`);
+    if (position) this.updatePosition(order.tokenId, order.outcome, -filled, price);
+    this.recordTrade(order.tokenId, order.outcome, 'SELL', price, filled, pnl, avgBuy * filled, order.tokenId, {
+      orderId: order.id,
+      feeCents,
+      context: order.context,
+    });
+  }
+
+  private cancelPaperOrders(tokenId?: string, purpose?: ManagedOrder['purpose']): void {
+    for (const order of this.orders.list({ tokenId, purpose, active: true })) {
+      paperExchange.cancelOrder(order.id);
+      this.orders.close(order.id);
+    }
+  }
+
   /**
    * 更新持倉記錄
    */
@@ -766,8 +1153,6 @@ export class Trader {
 
     if (newSize <= 0) {
       this.positions.delete(tokenId);
-      this.bracketOrdersPlaced.delete(tokenId);
-      this.stopLossWatch.delete(tokenId);
       this.cachedAvgPrices.delete(tokenId);
       void this.savePriceCache();
     } else {
@@ -792,7 +1177,7 @@ export class Trader {
 
     // 僅在開盤前小窗執行一次（允許 -2s ~ 12s 容錯）
     if (timeToStartMs > 12_000 || timeToStartMs < -2_000) return false;
-    if (this.bracketOrdersPlaced.has(tokenId)) return true;
+    if (this.orders.list({ tokenId, purpose: 'bracket', active: true }).length > 0) return true;
 
     try {
       const balances = await this.clobClient.getBalanceAllowance({ asset_type: 'CONDITIONAL' as any, token_id: tokenId });
@@ -822,27 +1207,28 @@ export class Trader {
 
       console.log(`[Bracket] 下單 TP=${tpPrice.toFixed(2)} (watch SL=${slPrice.toFixed(2)}) size=${size} (avg=${(avgBuyPrice / 100).toFixed(2)} cur=${(currentPrice / 100).toFixed(2)})`);
 
-      // 只掛止盈單，止損用監視觸發市價/市價限價
+      // 只掛止盈單，止損價附在訂單上，由 checkStopLossWatch 監視觸發市價賣出
+      let tp: ManagedOrder | null = null;
       try {
-        const tp = await this.clobClient.createAndPostOrder({ tokenID: tokenId, price: tpPrice, size, side: Side.SELL });
-        const tpId = tp.orderID || 'tp';
-        this.pendingSellOrders.set(tokenId, tpId);
+        tp = await this.postLiveOrder({
+          tokenId,
+          outcome,
+          side: 'SELL',
+          price: tpPrice * 100,
+          size,
+          orderType: 'GTC',
+          purpose: 'bracket',
+          stopPrice: slPrice * 100, // store cents for compare
+        });
       } catch (e: any) {
         console.error('[Bracket] 止盈掛單失敗:', e?.message || e);
-        this.pendingSellOrders.delete(tokenId);
       }
 
-      // 設定止損監視
-      this.stopLossWatch.set(tokenId, { outcome, price: slPrice * 100 }); // store cents for compare
-
-      // 如果 TP 也沒掛上，仍然兜底市價清倉
-      if (!this.pendingSellOrders.get(tokenId)) {
+      // 如果 TP 沒掛上，兜底市價清倉
+      if (!tp) {
         console.warn('[Bracket] TP 掛單失敗，觸發市價兜底');
         await this.forceLiquidate(tokenId, outcome, currentPrice);
-        this.stopLossWatch.delete(tokenId);
       }
-
-      this.bracketOrdersPlaced.add(tokenId);
       return true;
     } catch (error: any) {
       console.error('[Bracket] 下單失敗:', error?.message || error);
@@ -853,14 +1239,15 @@ export class Trader {
   private recordTrade(
     market: string,
     outcome: 'Up' | 'Down',
-    side: 'BUY' | 'SELL',
+    side: TradeRecord['side'],
     price: number,
     size: number,
     pnl?: number,
     costCents?: number,
     tokenId?: string,
-  ): void {
-    this.tradeHistory.push({
+    details: { orderId?: string; feeCents?: number; context?: TradeContext } = {},
+  ): TradeRecord {
+    const record: TradeRecord = {
       timestamp: new Date(),
       tokenId: tokenId || market,
       market,
@@ -870,7 +1257,27 @@ export class Trader {
       size,
       pnl,
       costCents,
-    });
+      orderId: details.orderId,
+      series: this.series,
+      feeCents: details.feeCents ?? (price * size * config.TAKER_FEE_PERCENT) / 100, // 未提供時以 taker 費率估算
+      slug: details.context?.slug,
+      reason: details.context?.reason,
+      analysis: details.context?.analysis,
+    };
+    this.tradeHistory.push(record);
+    void tradeJournal.append(record);
+    return record;
+  }
+
+  /**
+   * 從交易日誌載入本系列的歷史（只在首次啟動時載入一次）
+   */
+  async loadTradeHistory(): Promise<void> {
+    if (this.historyLoaded) return;
+    this.historyLoaded = true;
+    const records = (await tradeJournal.load()).filter((r) => (r.series ?? DEFAULT_SERIES_ID) === this.series);
+    this.tradeHistory = [...records, ...this.tradeHistory];
+    console.log(`[Journal] ${this.series} 已載入 ${records.length} 筆歷史交易`);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -905,7 +1312,7 @@ export class Trader {
 
   private async loadPriceCache(): Promise<void> {
     try {
-      const data = await fs.readFile(POS_CACHE_PATH, 'utf-8');
+      const data = await fs.readFile(posCachePath(this.series), 'utf-8');
       const json = JSON.parse(data || '{}');
       for (const [tokenId, avg] of Object.entries(json)) {
         if (typeof avg === 'number' && Number.isFinite(avg)) {
@@ -923,15 +1330,18 @@ export class Trader {
       for (const [k, v] of this.cachedAvgPrices.entries()) {
         obj[k] = v;
       }
-      await fs.writeFile(POS_CACHE_PATH, JSON.stringify(obj), 'utf-8');
+      await fs.writeFile(posCachePath(this.series), JSON.stringify(obj), 'utf-8');
     } catch (err) {
       console.warn('[Cache] Failed to save positions cache:', (err as Error)?.message || err);
     }
   }
 
+  /**
+   * 清空持倉與掛單狀態（交易歷史保留在日誌中，不會清除）
+   */
   reset(): void {
+    this.cancelPaperOrders();
+    this.orders.clear();
     this.positions.clear();
-    this.pendingSellOrders.clear();
-    this.tradeHistory = [];
   }
 }
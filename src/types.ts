@@ -44,6 +44,31 @@ export interface TradeSignal {
   price: number;
   size: number;
   reason: string;
+  ensemble?: EnsembleDecision; // 集成投票策略：各投票者的意見與貢獻
+}
+
+/**
+ * 集成投票中單一投票者（規則式 AI 或某個 LLM provider / 模型）的意見
+ */
+export interface EnsembleVote {
+  voter: string; // 'ai' 或 'llm:<provider>/<model>'
+  outcome: 'Up' | 'Down' | null; // null = 棄權（不建議交易、無意見或意見過期）
+  confidence: number; // 0-100
+  weight: number; // 多數決 / 一致決為 1；加權模式為歷史準確度換算的權重
+  share: number; // 權重佔全部投票者的比例
+  accuracy: { hits: number; total: number } | null; // 已結算市場的命中紀錄
+  agreed: boolean; // 是否與最終決定同方向
+  note?: string; // 棄權原因等
+}
+
+export interface EnsembleDecision {
+  mode: 'unanimous' | 'majority' | 'weighted';
+  outcome: 'Up' | 'Down' | null;
+  shouldTrade: boolean;
+  support: number; // 0-1，贊成最終方向的票數（或權重）佔全部投票者的比例
+  confidence: number; // 贊成方的平均信心
+  votes: EnsembleVote[];
+  detail: string;
 }
 
 export interface MarketState {
@@ -62,6 +87,49 @@ export interface MarketState {
   timeToStart: number; // ms until next market starts
   timeToEnd: number; // ms until current market ends
   previousOutcomes?: string[]; // history of recent outcomes (e.g., ['Up','Down',...])
+  series?: { id: string; asset: string; intervalMinutes: number }; // 所屬系列（見 series.ts）
+  strike?: StrikeContext | null; // 當前市場的開盤參考價與距離（僅 BTC 系列，由 SeriesRunner 填入）
+}
+
+/**
+ * 當前市場相對開盤參考價（strike）的即時狀態
+ *
+ * Up/Down 市場以結束時現貨 >= 開盤時現貨判定 Up，故 fairUp 即現貨收在 strike 之上的機率
+ */
+export interface StrikeContext {
+  slug: string;
+  referencePrice: number; // 開盤時（startDate）的現貨價
+  spot: number; // 當前現貨價
+  delta: number; // spot - referencePrice (USD)
+  deltaPct: number; // delta / referencePrice * 100
+  timeRemainingMs: number; // 距離結算
+  volatility: number; // 使用的年化波動率
+  fairUp: number; // 0-1，Up 的理論機率
+}
+
+/**
+ * 市場結算結果（Gamma API）
+ */
+export interface MarketResolution {
+  conditionId: string;
+  slug: string;
+  resolved: boolean;
+  winningOutcome: 'Up' | 'Down' | null;
+  payouts: Record<string, number>; // tokenId -> 每股兌付 (cents, 100 或 0)
+}
+
+/**
+ * 套利買入或做市雙邊成交配對的完整組合（等量 Up + Down），持有到合併或結算，不經過一般出場邏輯
+ */
+export interface CompleteSet {
+  conditionId: string;
+  slug?: string;
+  upTokenId: string;
+  downTokenId: string;
+  size: number;
+  upAvgPrice: number; // cents（含手續費）
+  downAvgPrice: number; // cents（含手續費）
+  createdAt: number;
 }
 
 export interface OrderBook {
@@ -69,14 +137,86 @@ export interface OrderBook {
   asks: Array<{ price: number; size: number }>;
 }
 
+/**
+ * 市場成交（WS last_trade_price），side 為主動方（taker）
+ */
+export interface TapeTrade {
+  tokenId: string;
+  price: number; // cents
+  size: number;
+  side: 'BUY' | 'SELL';
+  timestamp: number; // ms
+}
+
+/**
+ * 滾動窗口內的成交統計
+ */
+export interface TradeFlow {
+  windowMs: number;
+  trades: number;
+  volume: number; // 股數
+  buyVolume: number; // 主動買入量
+  sellVolume: number; // 主動賣出量
+  vwap: number | null; // cents
+  imbalance: number; // -1 ~ 1，(買 - 賣) / 總量
+  lastTradeAt: number | null; // ms
+}
+
 export interface TradeRecord {
   timestamp: Date;
   tokenId: string;
   market?: string;
   outcome: 'Up' | 'Down';
-  side: 'BUY' | 'SELL';
+  side: 'BUY' | 'SELL' | 'SETTLEMENT' | 'MERGE'; // SETTLEMENT: 市場結算後按 100¢ / 0¢ 兌付；MERGE: Up+Down 完整組合合併回 USDC
   price: number;
   size: number;
   pnl?: number;
   costCents?: number; // cost basis in cents for sold quantity
+  orderId?: string;
+  series?: string; // 系列 id，舊紀錄無此欄位視為 btc-15m
+  feeCents?: number; // 估算手續費 (cents)
+  slug?: string; // 市場 slug
+  reason?: string; // 觸發信號的原因
+  analysis?: TradeAnalysisSnapshot;
+}
+
+/**
+ * 觸發交易時的 AI / LLM 分析摘要（寫入交易日誌）
+ */
+export interface TradeAnalysisSnapshot {
+  ai?: {
+    recommendedOutcome: 'Up' | 'Down' | null;
+    confidence: number;
+    reasons: string[];
+    profile?: string; // AI 評分設定檔 id@v版本
+    scores: { technical: number; orderBook: number; sentiment: number; timing: number; flow?: number };
+  };
+  llm?: {
+    recommendedOutcome: 'Up' | 'Down' | null;
+    confidence: number;
+    reasoning: string;
+  };
+  ensemble?: EnsembleDecision;
+}
+
+/**
+ * 下單時附帶的上下文（市場 slug、信號原因、分析摘要）
+ */
+export interface TradeContext {
+  slug?: string;
+  reason?: string;
+  analysis?: TradeAnalysisSnapshot;
+}
+
+/**
+ * 單一 tick 的市場快照（錄製與回測共用格式）
+ */
+export interface MarketSnapshot {
+  timestamp: number; // ms (server time)
+  slug: string; // 目標市場 slug（下一市場優先，否則當前市場）
+  state: MarketState;
+  orderBooks: Record<string, OrderBook>; // tokenId -> 訂單簿 (price 為小數)，涵蓋上下兩局與持倉 token，不論 AI 是否啟用
+  livePrices: Record<string, number>; // tokenId -> price in cents
+  btcSpot: number | null;
+  tradeFlows?: Record<string, TradeFlow>; // tokenId -> 成交統計（較早的錄製沒有此欄位）
 }
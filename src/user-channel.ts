@@ -0,0 +1,263 @@
+/**
+ * Polymarket 用戶頻道 - 以 API 憑證訂閱本帳戶的訂單與成交推送，取代下單後輪詢 getOrder / 餘額
+ *
+ * - order 事件（PLACEMENT / UPDATE / CANCELLATION）帶累計 size_matched，可重複套用
+ * - trade 事件逐筆成交（taker 以成交價、maker 以各自掛單價），發出時附上自上次發出以來新增成交的均價與 taker/maker
+ * - 兩者都轉成 UserOrderUpdate（累計值）發出，由各 Trader 依 orderId 套用到自己的 OrderManager
+ * - 斷線自動重連（指數退避）；斷線期間 Trader 回退為 REST 輪詢，重連後先對帳一次補回漏掉的推送
+ * - USER_WS_URL 可指向本地 WS 伺服器，用於測試（見 src/test-user-channel.ts）
+ *
+ * 事件：'order'（UserOrderUpdate）、'connected'、'disconnected'
+ */
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { config } from './config.js';
+import type { OrderStatus } from './order-manager.js';
+
+export interface UserChannelCredentials {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
+/**
+ * 推送後的訂單累計狀態（欄位缺省表示該訊息未提供）
+ */
+export interface UserOrderUpdate {
+  orderId: string;
+  tokenId: string;
+  filledSize?: number; // 累計成交量
+  status?: Extract<OrderStatus, 'OPEN' | 'FILLED' | 'CANCELLED'>;
+  fillPrice?: number; // 自上次發出以來新增推送成交的均價 (cents)，沒有新成交時缺省；getLatest 則為全部推送成交的均價
+  liquidity?: 'taker' | 'maker';
+}
+
+interface PushedFills {
+  size: number;
+  notional: number;
+  publishedSize: number; // 上次發出時的累計量與金額，用來計算新增成交的均價
+  publishedNotional: number;
+  liquidity: 'taker' | 'maker';
+}
+
+const PING_INTERVAL_MS = 10_000; // 伺服器要求定期 PING 保持連線
+const MAX_TRACKED = 500; // 成交均價 / 最新狀態 / 已處理成交的快取上限
+
+export class UserChannel extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private credentials: UserChannelCredentials | null = null;
+  private connected = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private fills: Map<string, PushedFills> = new Map(); // orderId -> 推送成交累計
+  private latest: Map<string, UserOrderUpdate> = new Map(); // orderId -> 最新累計狀態
+  private seenTrades: Set<string> = new Set(); // 同一筆成交會隨 MATCHED / MINED / CONFIRMED 重複推送
+
+  /**
+   * 以 API 憑證連線（重複呼叫無副作用）
+   */
+  connect(credentials: UserChannelCredentials): void {
+    this.credentials = credentials;
+    if (this.ws) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const ws = new WebSocket(config.USER_WS_URL);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      ws.send(
+        JSON.stringify({
+          auth: {
+            apiKey: credentials.apiKey,
+            secret: credentials.secret,
+            passphrase: credentials.passphrase,
+          },
+          type: 'user',
+          markets: [], // 空列表 = 本帳戶所有市場
+        })
+      );
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.pingTimer = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) ws.send('PING');
+      }, PING_INTERVAL_MS);
+      console.log('[用戶頻道] 已連線，訂單 / 成交改由推送更新');
+      this.emit('connected');
+    });
+
+    ws.on('message', (data) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return; // PONG 等非 JSON 訊息
+      }
+      for (const event of Array.isArray(msg) ? msg : [msg]) {
+        this.handleMessage(event);
+      }
+    });
+
+    ws.on('close', () => this.onDisconnect(ws));
+    ws.on('error', (err) => {
+      console.warn('[用戶頻道] 連線錯誤:', err.message);
+      this.onDisconnect(ws);
+    });
+  }
+
+  disconnect(): void {
+    this.credentials = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    if (ws) {
+      this.onDisconnect(ws);
+      try {
+        ws.close();
+      } catch {}
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * 最近一次推送的累計狀態（下單回應前就收到推送時，確認後用此補套用）
+   */
+  getLatest(orderId: string): UserOrderUpdate | undefined {
+    return this.latest.get(orderId);
+  }
+
+  private onDisconnect(ws: WebSocket): void {
+    if (this.ws !== ws) return;
+    this.ws = null;
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.connected) {
+      this.connected = false;
+      console.warn('[用戶頻道] 連線中斷，回退為輪詢');
+      this.emit('disconnected');
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.credentials || this.reconnectTimer || this.ws) return;
+    this.reconnectAttempts = Math.min(this.reconnectAttempts + 1, 6);
+    const delayMs = Math.min(30000, 1000 * Math.pow(2, this.reconnectAttempts - 1));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.credentials) this.connect(this.credentials);
+    }, delayMs);
+  }
+
+  private handleMessage(msg: any): void {
+    const eventType = String(msg?.event_type || '').toLowerCase();
+    if (eventType === 'order') {
+      this.handleOrder(msg);
+    } else if (eventType === 'trade') {
+      this.handleTrade(msg);
+    }
+  }
+
+  private handleOrder(msg: any): void {
+    if (!msg.id) return;
+    const originalSize = parseFloat(msg.original_size || '0');
+    const filledSize = parseFloat(msg.size_matched || '0');
+    const type = String(msg.type || '').toUpperCase();
+
+    let status: UserOrderUpdate['status'];
+    if (type === 'CANCELLATION') {
+      status = 'CANCELLED';
+    } else if (originalSize > 0 && filledSize >= originalSize - 1e-9) {
+      status = 'FILLED';
+    } else if (type === 'PLACEMENT') {
+      status = 'OPEN';
+    }
+    this.publish({ orderId: msg.id, tokenId: msg.asset_id, filledSize, status });
+  }
+
+  private handleTrade(msg: any): void {
+    const status = String(msg.status || '').toUpperCase();
+    if (!msg.id || status === 'FAILED' || this.seenTrades.has(msg.id)) return;
+    this.remember(this.seenTrades, msg.id);
+
+    const legs: Array<{ orderId: string; tokenId: string; size: number; price: number; liquidity: 'taker' | 'maker' }> = [];
+    if (msg.taker_order_id) {
+      legs.push({
+        orderId: msg.taker_order_id,
+        tokenId: msg.asset_id,
+        size: parseFloat(msg.size || '0'),
+        price: parseFloat(msg.price || '0') * 100,
+        liquidity: 'taker',
+      });
+    }
+    for (const maker of Array.isArray(msg.maker_orders) ? msg.maker_orders : []) {
+      legs.push({
+        orderId: maker.order_id,
+        tokenId: maker.asset_id || msg.asset_id,
+        size: parseFloat(maker.matched_amount || '0'),
+        price: parseFloat(maker.price || '0') * 100,
+        liquidity: 'maker',
+      });
+    }
+
+    for (const leg of legs) {
+      if (!leg.orderId || !(leg.size > 0)) continue;
+      const acc = this.fills.get(leg.orderId) ?? { size: 0, notional: 0, publishedSize: 0, publishedNotional: 0, liquidity: leg.liquidity };
+      acc.size += leg.size;
+      acc.notional += leg.size * leg.price;
+      this.remember(this.fills, leg.orderId, acc);
+      // trade 只知道本連線期間看到的成交，累計量可能偏低；publish 取較大值，套用端只記正向差額
+      this.publish({ orderId: leg.orderId, tokenId: leg.tokenId, filledSize: acc.size });
+    }
+  }
+
+  /**
+   * 合併為累計狀態後發出：套用端把新增成交量記在 fillPrice，因此附上的是這次新增成交的均價而非累計均價
+   */
+  private publish(update: UserOrderUpdate): void {
+    const previous = this.latest.get(update.orderId);
+    const fill = this.fills.get(update.orderId);
+    const merged: UserOrderUpdate = {
+      orderId: update.orderId,
+      tokenId: update.tokenId || previous?.tokenId,
+      filledSize: Math.max(update.filledSize ?? 0, previous?.filledSize ?? 0),
+      status: update.status ?? previous?.status,
+      fillPrice: fill ? fill.notional / fill.size : undefined,
+      liquidity: fill?.liquidity,
+    };
+    // 最新狀態保留累計均價：下單回應前的推送由 getLatest 一次補套用全部成交
+    this.remember(this.latest, update.orderId, merged);
+
+    let fillPrice: number | undefined;
+    if (fill && fill.size - fill.publishedSize > 1e-9) {
+      fillPrice = (fill.notional - fill.publishedNotional) / (fill.size - fill.publishedSize);
+      fill.publishedSize = fill.size;
+      fill.publishedNotional = fill.notional;
+    }
+    this.emit('order', { ...merged, fillPrice });
+  }
+
+  private remember<K, V>(store: Map<K, V> | Set<K>, key: K, value?: V): void {
+    if (store instanceof Map) {
+      store.delete(key);
+      store.set(key, value as V);
+    } else {
+      store.add(key);
+    }
+    if (store.size > MAX_TRACKED) {
+      store.delete(store.keys().next().value as K);
+    }
+  }
+}
+
+export const userChannel = new UserChannel();